@@ -3,7 +3,28 @@
 -- Includes both email and phone verification
 
 -- Drop existing tables if they exist (for development)
+DROP TABLE IF EXISTS MFA_Recovery_Code CASCADE;
+DROP TABLE IF EXISTS Account_MFA CASCADE;
+DROP TABLE IF EXISTS Login_Attempt CASCADE;
+DROP TABLE IF EXISTS Revoked_Token CASCADE;
+DROP TABLE IF EXISTS Audit_Log CASCADE;
+DROP TABLE IF EXISTS Personal_Access_Token CASCADE;
+DROP TABLE IF EXISTS Service_Account CASCADE;
+DROP TABLE IF EXISTS Magic_Link_Token CASCADE;
+DROP TABLE IF EXISTS SMS_Login_Code CASCADE;
+DROP TABLE IF EXISTS WebAuthn_Credential CASCADE;
+DROP TABLE IF EXISTS WebAuthn_Challenge CASCADE;
+DROP TABLE IF EXISTS Federated_Login_State CASCADE;
+DROP TABLE IF EXISTS Federated_Identity CASCADE;
+DROP TABLE IF EXISTS Identity_Provider CASCADE;
+DROP TABLE IF EXISTS Email_Change_Request CASCADE;
+DROP TABLE IF EXISTS Phone_Change_Request CASCADE;
+DROP TABLE IF EXISTS Account_Session CASCADE;
+DROP TABLE IF EXISTS OAuth_Authorization_Code CASCADE;
+DROP TABLE IF EXISTS OAuth_Client CASCADE;
+DROP TABLE IF EXISTS Refresh_Token CASCADE;
 DROP TABLE IF EXISTS verification_codes CASCADE;
+DROP TABLE IF EXISTS Password_History CASCADE;
 DROP TABLE IF EXISTS Account_Credential CASCADE;
 DROP TABLE IF EXISTS Account CASCADE;
 
@@ -16,9 +37,18 @@ CREATE TABLE Account (
     Email VARCHAR(255) NOT NULL UNIQUE,
     Email_Verified BOOLEAN DEFAULT FALSE,
     Phone VARCHAR(15) NOT NULL UNIQUE,
+    Phone_Digits VARCHAR(15) GENERATED ALWAYS AS (
+        regexp_replace(regexp_replace(Phone, '\D', '', 'g'), '^1(\d{10})$', '\1')
+    ) STORED,
     Phone_Verified BOOLEAN DEFAULT FALSE,
     Account_Role INT NOT NULL,
-    Account_Status VARCHAR(20) DEFAULT 'pending', -- 'pending', 'active', 'suspended', 'locked'
+    Account_Status VARCHAR(20) DEFAULT 'pending', -- 'pending', 'active', 'suspended', 'locked', 'deleted'
+    Tokens_Valid_After TIMESTAMPTZ,
+    Failed_Login_Attempts INT DEFAULT 0,
+    Lockout_Count INT DEFAULT 0,
+    Locked_Until TIMESTAMPTZ,
+    WebAuthn_User_Handle VARCHAR(64) UNIQUE,
+    Deletion_Scheduled_At TIMESTAMPTZ,
     Created_At TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     Updated_At TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -27,11 +57,19 @@ CREATE TABLE Account (
 CREATE TABLE Account_Credential (
     Credential_ID SERIAL PRIMARY KEY,
     Account_ID INT NOT NULL,
-    Salted_Hash VARCHAR(255) NOT NULL,
-    Salt VARCHAR(255),
+    Salted_Hash VARCHAR(255) NOT NULL, -- Encoded hash, e.g. $scrypt$ln=15,r=8,p=1$<salt>$<hash>
+    Salt VARCHAR(255),                 -- Only set for legacy SHA256 hashes
     FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
 );
 
+-- Recent password hashes per account, so old passwords cannot be reused
+CREATE TABLE Password_History (
+    History_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Salted_Hash VARCHAR(255) NOT NULL, -- Encoded hash, as in Account_Credential
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Unified verification codes table for both email and SMS
 CREATE TABLE verification_codes (
     code_id SERIAL PRIMARY KEY,
@@ -45,21 +83,304 @@ CREATE TABLE verification_codes (
     CONSTRAINT valid_code CHECK (LENGTH(code) = 6 AND code ~ '^[0-9]+$')
 );
 
+-- Third-party applications allowed to use the OAuth 2.0 authorization code flow
+CREATE TABLE OAuth_Client (
+    Client_ID VARCHAR(64) PRIMARY KEY,
+    Client_Secret_Hash VARCHAR(64), -- NULL for public clients (SPAs, mobile apps), which rely on PKCE alone
+    Name VARCHAR(255) NOT NULL,
+    Redirect_URIs TEXT[] NOT NULL,
+    Scopes TEXT[] NOT NULL,
+    Created_By INT REFERENCES Account(Account_ID) ON DELETE SET NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Revoked_At TIMESTAMPTZ
+);
+
+-- Login sessions (one per successful login), shown to users as "where you're logged in"
+CREATE TABLE Account_Session (
+    Session_ID UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    User_Agent VARCHAR(512),
+    IP_Address VARCHAR(45),
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Seen_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Revoked_At TIMESTAMPTZ,
+    Authenticated_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP, -- when the user last proved their identity (OIDC auth_time)
+    Client_ID VARCHAR(64) REFERENCES OAuth_Client(Client_ID) ON DELETE CASCADE, -- NULL for our own login endpoints
+    Scope TEXT -- scopes granted to the OAuth client (NULL for our own login endpoints)
+);
+
+-- Single-use OAuth authorization codes (stored as SHA256 hashes)
+CREATE TABLE OAuth_Authorization_Code (
+    Code_Hash VARCHAR(64) PRIMARY KEY,
+    Client_ID VARCHAR(64) NOT NULL REFERENCES OAuth_Client(Client_ID) ON DELETE CASCADE,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Redirect_URI TEXT NOT NULL,
+    Scope TEXT NOT NULL,
+    Code_Challenge VARCHAR(128) NOT NULL,
+    Nonce VARCHAR(255), -- OpenID Connect nonce, echoed in the ID token
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Session_ID UUID, -- session created when the code was redeemed, revoked if the code is replayed
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refresh tokens (stored as SHA256 hashes, rotated on every use)
+-- Every token descends from a login; all tokens from one login share a Family_ID (its Session_ID)
+CREATE TABLE Refresh_Token (
+    Token_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Token_Hash VARCHAR(64) NOT NULL UNIQUE,
+    Family_ID UUID NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Revoked_At TIMESTAMPTZ,
+    Replaced_By INT REFERENCES Refresh_Token(Token_ID)
+);
+
+-- Personal access tokens for scripts and CI jobs (stored as SHA256 hashes)
+CREATE TABLE Personal_Access_Token (
+    Token_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Name VARCHAR(100) NOT NULL,
+    Token_Hash VARCHAR(64) NOT NULL UNIQUE,
+    Token_Prefix VARCHAR(12) NOT NULL, -- first characters of the token, so users can tell tokens apart
+    Scopes TEXT[] NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Used_At TIMESTAMPTZ,
+    Revoked_At TIMESTAMPTZ
+);
+
+-- Service accounts: identities for backend services, which obtain tokens with the client_credentials grant
+CREATE TABLE Service_Account (
+    Client_ID VARCHAR(64) PRIMARY KEY, -- svc_ prefix, so it cannot collide with an OAuth client ID
+    Client_Secret_Hash VARCHAR(64) NOT NULL,
+    Name VARCHAR(255) NOT NULL,
+    Description VARCHAR(500),
+    Scopes TEXT[] NOT NULL,
+    Created_By INT REFERENCES Account(Account_ID) ON DELETE SET NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Used_At TIMESTAMPTZ,
+    Revoked_At TIMESTAMPTZ
+);
+
+-- Single-use passwordless login links (stored as SHA256 hashes)
+CREATE TABLE Magic_Link_Token (
+    Token_Hash VARCHAR(64) PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Passwordless SMS login codes, one per account (stored as SHA256 hashes)
+CREATE TABLE SMS_Login_Code (
+    Account_ID INT PRIMARY KEY REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Code_Hash VARCHAR(64) NOT NULL,
+    Code_Expires TIMESTAMPTZ NOT NULL,
+    Attempts INT DEFAULT 0,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Passkeys (WebAuthn public key credentials)
+CREATE TABLE WebAuthn_Credential (
+    Credential_ID TEXT PRIMARY KEY,            -- base64url, as sent by the browser
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Name VARCHAR(100) NOT NULL,
+    Public_Key TEXT NOT NULL,                  -- SPKI PEM
+    Algorithm INT NOT NULL,                    -- COSE algorithm: -7 ES256, -8 EdDSA, -257 RS256
+    Sign_Count BIGINT NOT NULL DEFAULT 0,
+    Transports TEXT[] NOT NULL DEFAULT '{}',
+    AAGUID VARCHAR(36),
+    Backup_Eligible BOOLEAN NOT NULL DEFAULT FALSE,
+    Backed_Up BOOLEAN NOT NULL DEFAULT FALSE,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Used_At TIMESTAMPTZ
+);
+
+-- Single-use WebAuthn ceremony challenges (stored as SHA256 hashes)
+CREATE TABLE WebAuthn_Challenge (
+    Challenge_Hash VARCHAR(64) PRIMARY KEY,
+    Account_ID INT REFERENCES Account(Account_ID) ON DELETE CASCADE, -- NULL for login challenges
+    Purpose VARCHAR(20) NOT NULL CHECK (Purpose IN ('registration', 'authentication')),
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Upstream OpenID Connect providers for federated login (FEDERATED_PROVIDERS in env takes precedence)
+CREATE TABLE Identity_Provider (
+    Provider_ID VARCHAR(50) PRIMARY KEY,       -- Used in /auth/federated/:provider URLs
+    Name VARCHAR(255) NOT NULL,
+    Issuer VARCHAR(500) NOT NULL,
+    Client_ID VARCHAR(255) NOT NULL,
+    Client_Secret VARCHAR(500) NOT NULL,       -- Needed in plain text to call the provider
+    Scopes TEXT[] NOT NULL DEFAULT '{openid,email,profile}',
+    Enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Provider identities linked to accounts (one per provider per account)
+CREATE TABLE Federated_Identity (
+    Provider_ID VARCHAR(50) NOT NULL,
+    Subject VARCHAR(255) NOT NULL,             -- The provider's sub claim
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Email VARCHAR(255),
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Login_At TIMESTAMPTZ,
+    PRIMARY KEY (Provider_ID, Subject),
+    UNIQUE (Account_ID, Provider_ID)
+);
+
+-- Federated sign-ins in progress (state stored as SHA256 hash)
+CREATE TABLE Federated_Login_State (
+    State_Hash VARCHAR(64) PRIMARY KEY,
+    Provider_ID VARCHAR(50) NOT NULL,
+    Nonce VARCHAR(64) NOT NULL,
+    Code_Verifier VARCHAR(128) NOT NULL,
+    Link_Account_ID INT REFERENCES Account(Account_ID) ON DELETE CASCADE, -- NULL for a login
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Email address changes: confirmed from the new address, undoable from the old one
+-- Both tokens are stored as SHA256 hashes
+CREATE TABLE Email_Change_Request (
+    Request_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Old_Email VARCHAR(255) NOT NULL,
+    New_Email VARCHAR(255) NOT NULL,
+    Confirm_Token_Hash VARCHAR(64) NOT NULL UNIQUE,
+    Confirm_Expires_At TIMESTAMPTZ NOT NULL,
+    Confirmed_At TIMESTAMPTZ,
+    Undo_Token_Hash VARCHAR(64) UNIQUE,
+    Undo_Expires_At TIMESTAMPTZ,
+    Undone_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Pending phone number changes, one per account (code stored as a SHA256 hash)
+CREATE TABLE Phone_Change_Request (
+    Account_ID INT PRIMARY KEY REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    New_Phone VARCHAR(15) NOT NULL,
+    Code_Hash VARCHAR(64) NOT NULL,
+    Code_Expires TIMESTAMPTZ NOT NULL,
+    Attempts INT DEFAULT 0,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Revoked access tokens (logout), keyed by the token's jti claim
+-- Rows can be purged once Expires_At has passed
+CREATE TABLE Revoked_Token (
+    Jti UUID PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Revoked_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Login attempts (successful and failed), used for lockout and per-IP limits
+CREATE TABLE Login_Attempt (
+    Attempt_ID SERIAL PRIMARY KEY,
+    Account_ID INT REFERENCES Account(Account_ID) ON DELETE CASCADE, -- NULL when the email matched no account
+    Email VARCHAR(255) NOT NULL, -- The email tried, or the phone number's digits for an SMS login
+    IP_Address VARCHAR(45) NOT NULL,
+    Succeeded BOOLEAN NOT NULL,
+    Attempted_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Authenticator app (TOTP) enrollment, one row per account
+CREATE TABLE Account_MFA (
+    Account_ID INT PRIMARY KEY REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Totp_Secret VARCHAR(64) NOT NULL,
+    Enabled BOOLEAN DEFAULT FALSE,
+    Last_Used_Step BIGINT,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Enabled_At TIMESTAMPTZ
+);
+
+-- One-time recovery codes for when the authenticator is lost (SHA-256 hashes)
+CREATE TABLE MFA_Recovery_Code (
+    Code_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    Code_Hash VARCHAR(64) NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Security audit log (append-only; see trigger below)
+-- Actor and target are plain IDs, not foreign keys, so entries outlive the accounts they mention
+CREATE TABLE Audit_Log (
+    Audit_ID BIGSERIAL PRIMARY KEY,
+    Occurred_At TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    Action VARCHAR(64) NOT NULL,
+    Actor_ID INT,  -- who did it (NULL for anonymous, e.g. failed login)
+    Target_ID INT, -- whose account it affected
+    IP_Address VARCHAR(45),
+    User_Agent VARCHAR(512),
+    Changes JSONB, -- { field: { from, to } }
+    Metadata JSONB
+);
+
+CREATE OR REPLACE FUNCTION reject_audit_log_change() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Audit_Log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_no_update_delete
+    BEFORE UPDATE OR DELETE ON Audit_Log
+    FOR EACH ROW EXECUTE FUNCTION reject_audit_log_change();
+
+CREATE TRIGGER audit_log_no_truncate
+    BEFORE TRUNCATE ON Audit_Log
+    FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_log_change();
+
 -- Indexes for performance
 CREATE INDEX idx_account_email ON Account(Email);
 CREATE INDEX idx_account_phone ON Account(Phone);
 CREATE INDEX idx_account_username ON Account(Username);
 CREATE INDEX idx_account_status ON Account(Account_Status);
+CREATE INDEX idx_account_deletion_scheduled ON Account(Deletion_Scheduled_At) WHERE Deletion_Scheduled_At IS NOT NULL;
+CREATE INDEX idx_account_phone_digits ON Account(Phone_Digits) WHERE Phone_Verified = TRUE;
+
+CREATE INDEX idx_password_history_account ON Password_History(Account_ID, Created_At);
 
 CREATE INDEX idx_verification_codes_account ON verification_codes(account_id);
 CREATE INDEX idx_verification_codes_expiry ON verification_codes(expires_at);
 CREATE INDEX idx_verification_codes_type_account ON verification_codes(code_type, account_id);
 
+CREATE INDEX idx_account_session_account ON Account_Session(Account_ID);
+CREATE INDEX idx_account_session_client ON Account_Session(Client_ID);
+CREATE INDEX idx_oauth_code_expiry ON OAuth_Authorization_Code(Expires_At);
+CREATE INDEX idx_refresh_token_account ON Refresh_Token(Account_ID);
+CREATE INDEX idx_refresh_token_family ON Refresh_Token(Family_ID);
+CREATE INDEX idx_personal_access_token_account ON Personal_Access_Token(Account_ID);
+CREATE INDEX idx_magic_link_token_account ON Magic_Link_Token(Account_ID);
+CREATE INDEX idx_webauthn_credential_account ON WebAuthn_Credential(Account_ID);
+CREATE INDEX idx_webauthn_challenge_expiry ON WebAuthn_Challenge(Expires_At);
+CREATE INDEX idx_federated_login_state_expiry ON Federated_Login_State(Expires_At);
+CREATE INDEX idx_email_change_request_account ON Email_Change_Request(Account_ID);
+CREATE INDEX idx_revoked_token_expiry ON Revoked_Token(Expires_At);
+CREATE INDEX idx_login_attempt_ip ON Login_Attempt(IP_Address, Attempted_At);
+CREATE INDEX idx_login_attempt_account ON Login_Attempt(Account_ID);
+CREATE INDEX idx_mfa_recovery_code_hash ON MFA_Recovery_Code(Account_ID, Code_Hash);
+CREATE INDEX idx_audit_log_occurred ON Audit_Log(Occurred_At);
+CREATE INDEX idx_audit_log_actor ON Audit_Log(Actor_ID, Occurred_At);
+CREATE INDEX idx_audit_log_target ON Audit_Log(Target_ID, Occurred_At);
+CREATE INDEX idx_audit_log_action ON Audit_Log(Action, Occurred_At);
+
 -- Comments for documentation
 COMMENT ON TABLE Account IS 'Main user account table for Auth² Service';
 COMMENT ON COLUMN Account.Email_Verified IS 'Whether the email address has been verified via email link';
+COMMENT ON COLUMN Account.Phone_Digits IS 'Phone reduced to its 10 national digits (as toPhoneDigits does), for SMS login lookups';
 COMMENT ON COLUMN Account.Phone_Verified IS 'Whether the phone number has been verified via SMS';
-COMMENT ON COLUMN Account.Account_Status IS 'Account status: pending (awaiting verification), active, suspended, or locked';
+COMMENT ON COLUMN Account.Account_Status IS 'Account status: pending (awaiting verification), active, suspended, locked, or deleted (anonymized)';
+COMMENT ON COLUMN Account.Locked_Until IS 'When a lockout from failed logins ends (NULL if not locked)';
+COMMENT ON COLUMN Account.WebAuthn_User_Handle IS 'Random WebAuthn user handle stored on passkeys instead of the account ID';
+COMMENT ON COLUMN Account.Lockout_Count IS 'Consecutive lockouts since the last successful login (drives exponential backoff)';
+COMMENT ON COLUMN Account.Deletion_Scheduled_At IS 'When a self-service deletion takes effect; the account is anonymized after this time';
+COMMENT ON COLUMN Account.Tokens_Valid_After IS 'Access tokens issued before this time are rejected (logout-all, password change)';
+
+COMMENT ON TABLE Password_History IS 'Hashes of the last PASSWORD_HISTORY_SIZE passwords per account, including the current one';
 
 COMMENT ON TABLE Email_Verification IS 'Stores email verification tokens for account activation';
 COMMENT ON COLUMN Email_Verification.Verification_Token IS 'Unique token sent in email verification link';
@@ -68,4 +389,34 @@ COMMENT ON COLUMN Email_Verification.Token_Expires IS 'Expiration time for email
 COMMENT ON TABLE Phone_Verification IS 'Stores SMS verification codes and attempts';
 COMMENT ON COLUMN Phone_Verification.Verification_Code IS '6-digit code sent via SMS';
 COMMENT ON COLUMN Phone_Verification.Code_Expires IS 'Expiration time for SMS code (typically 10-15 minutes)';
-COMMENT ON COLUMN Phone_Verification.Attempts IS 'Number of failed verification attempts for security';
\ No newline at end of file
+COMMENT ON COLUMN Phone_Verification.Attempts IS 'Number of failed verification attempts for security';
+
+COMMENT ON TABLE Account_Session IS 'Login sessions; the session ID is the sid claim in access tokens and the refresh token Family_ID';
+COMMENT ON COLUMN Account_Session.Client_ID IS 'OAuth client the session was granted to; its refresh tokens only work for that client';
+COMMENT ON TABLE OAuth_Client IS 'Registered OAuth 2.0 clients (third-party apps)';
+COMMENT ON COLUMN OAuth_Client.Redirect_URIs IS 'Exact-match allow-list of redirect URIs';
+COMMENT ON TABLE OAuth_Authorization_Code IS 'Authorization codes (10 minute, single use, PKCE S256 bound)';
+COMMENT ON TABLE Refresh_Token IS 'Long-lived refresh tokens, rotated on every use';
+COMMENT ON COLUMN Refresh_Token.Family_ID IS 'Shared by all tokens rotated from the same login; revoked together on reuse';
+COMMENT ON COLUMN Refresh_Token.Replaced_By IS 'Token issued when this one was rotated (NULL if still current)';
+
+COMMENT ON TABLE Personal_Access_Token IS 'Named, scoped API tokens accepted by checkToken in place of a JWT';
+COMMENT ON TABLE Service_Account IS 'Non-human principals for service-to-service calls; tokens carry principal=service and no account';
+COMMENT ON TABLE Magic_Link_Token IS 'Emailed passwordless login links (15 minute, single use)';
+COMMENT ON TABLE SMS_Login_Code IS 'Passwordless SMS login codes (same expiry and attempt limit as phone verification)';
+COMMENT ON TABLE WebAuthn_Credential IS 'Passkeys registered by users (public key, signature counter and transports)';
+COMMENT ON TABLE WebAuthn_Challenge IS 'Pending passkey registration and login challenges (5 minute, single use)';
+COMMENT ON TABLE Identity_Provider IS 'Upstream OpenID Connect providers users can log in with';
+COMMENT ON TABLE Federated_Identity IS 'Links from a provider subject to an account, made explicitly or by verified email';
+COMMENT ON TABLE Federated_Login_State IS 'Pending federated sign-ins: state, nonce and PKCE verifier (10 minute, single use)';
+COMMENT ON TABLE Email_Change_Request IS 'Pending and completed email changes (24 hour confirm link to the new address, 7 day undo link to the old one)';
+COMMENT ON TABLE Phone_Change_Request IS 'New phone numbers awaiting the SMS code (same expiry and attempt limit as phone verification)';
+COMMENT ON TABLE Revoked_Token IS 'Access tokens revoked before expiry, checked by the checkToken middleware';
+
+COMMENT ON TABLE Login_Attempt IS 'Login attempt history for account lockout and per-IP rate limiting';
+
+COMMENT ON TABLE Account_MFA IS 'TOTP two-factor enrollment; Enabled stays FALSE until the first code is confirmed';
+COMMENT ON COLUMN Account_MFA.Last_Used_Step IS 'Time step of the last accepted code, so a code cannot be replayed';
+COMMENT ON TABLE MFA_Recovery_Code IS 'Single-use two-factor recovery codes, stored as SHA-256 hashes';
+COMMENT ON TABLE Audit_Log IS 'Append-only security audit trail; UPDATE, DELETE and TRUNCATE are rejected by trigger';
+COMMENT ON COLUMN Audit_Log.Changes IS 'Field-level before/after values, e.g. {"account_role": {"from": 1, "to": 3}}';
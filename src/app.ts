@@ -21,6 +21,12 @@ export const createApp = (): Express => {
 
     const app: Express = express();
 
+    // Behind a reverse proxy (e.g. Heroku) trust X-Forwarded-For so request.ip
+    // is the client address - login throttling is tracked per IP
+    if (process.env.TRUST_PROXY) {
+        app.set('trust proxy', parseInt(process.env.TRUST_PROXY));
+    }
+
     // Middleware
     app.use(cors());
     // app.use(cors({
@@ -28,6 +34,8 @@ export const createApp = (): Express => {
     //     credentials: true
     // }));
     app.use(express.json());
+    // OAuth endpoints receive HTML form posts and form-encoded token requests
+    app.use(express.urlencoded({ extended: false }));
 
     // Serve static files from public directory
     app.use(express.static(path.join(__dirname, '../public')));
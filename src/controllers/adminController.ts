@@ -1,7 +1,36 @@
 // src/controllers/adminController.ts
 import { Request, Response } from 'express';
-import { pool, sendSuccess, sendError } from '@utilities';
-import { generateSaltedHash } from '@auth';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    revokeAllUserTokens,
+    unlockAccount,
+    listActiveSessions,
+    revokeSession,
+    withTransaction,
+    recordAuditEvent,
+    getAuditContext,
+    diffChanges,
+    queryAuditLog,
+    createOAuthClient,
+    listOAuthClients,
+    revokeOAuthClient,
+    listPersonalAccessTokens,
+    revokePersonalAccessToken,
+    createServiceAccount,
+    listServiceAccounts,
+    rotateServiceAccountSecret,
+    revokeServiceAccount,
+    generateImpersonationToken,
+    canImpersonate,
+    validatePasswordPolicy,
+    getPasswordPolicy,
+    recordPasswordHistory,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IMPERSONATION_TOKEN_EXPIRY, OAUTH_SCOPES, RoleName } from '@models';
+import { hashPassword } from '@auth';
 import { IJwtRequest } from '@models';
 
 /**
@@ -28,10 +57,11 @@ export class AdminController {
     /**
      * Create new user (admin-level)
      * Allows admin or higher to create accounts with equal or lower role
+     * An initial password is optional; when given it must meet the password policy
      */
     static async createUser(req: IJwtRequest, res: Response) {
         try {
-            const { firstname, lastname, email, username, phone, role } = req.body;
+            const { firstname, lastname, email, username, phone, role, password } = req.body;
             const creatorRole = req.claims.role; // from JWT middleware
 
             // Handle numeric role from JWT
@@ -42,17 +72,47 @@ export class AdminController {
                 return sendError(res, 403,'You cannot create a user with a higher role than yours');
             }
 
-            const result = await pool.query(
-                `INSERT INTO Account
-                    (FirstName, LastName, Email, Username, Phone, Account_Role, Account_Status)
-                 VALUES ($1, $2, $3, $4, $5, $6, 'active')
-                 RETURNING Account_ID, FirstName, LastName, Email, Username, Phone, Account_Role;`,
-                [firstname, lastname, email, username, phone, targetRank]
-            );
+            if (password !== undefined) {
+                if (typeof password !== 'string') {
+                    return sendError(res, 400, 'Password must be a string');
+                }
+                const passwordRejected = await validatePasswordPolicy(password, { firstname, lastname, username, email }, res);
+                if (passwordRejected) return;
+            }
+
+            const result = await withTransaction(async (client) => {
+                const created = await client.query(
+                    `INSERT INTO Account
+                        (FirstName, LastName, Email, Username, Phone, Account_Role, Account_Status)
+                     VALUES ($1, $2, $3, $4, $5, $6, 'active')
+                     RETURNING Account_ID, FirstName, LastName, Email, Username, Phone, Account_Role;`,
+                    [firstname, lastname, email, username, phone, targetRank]
+                );
+
+                if (password !== undefined) {
+                    const hash = await hashPassword(password);
+                    await client.query(
+                        'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, NULL)',
+                        [created.rows[0].account_id, hash]
+                    );
+                    await recordPasswordHistory(client, created.rows[0].account_id, hash, getPasswordPolicy().historySize);
+                }
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_USER_CREATE,
+                    targetId: created.rows[0].account_id,
+                    changes: diffChanges({}, created.rows[0]),
+                }, client);
+
+                return created.rows[0];
+            });
+
+            if (!result.success) throw result.error;
 
             sendSuccess(res, {
                 message: 'User created successfully',
-                user: result.rows[0]
+                user: result.data
             });
         } catch (error) {
             console.error('Admin createUser error:', error);
@@ -125,26 +185,60 @@ export class AdminController {
 
     /**
      * Update user info
+     * Roles are not changed here - only through changeUserRole, which applies
+     * the role hierarchy and step-up checks
      */
     static async updateUser(req: IJwtRequest, res: Response) {
         try {
             const { id } = req.params;
-            const { firstname, lastname, email, username, phone, role } = req.body;
+            const { firstname, lastname, email, username, phone } = req.body;
 
-            // Handle numeric role
-            const roleValue = typeof role === 'number' ? role : ROLE_HIERARCHY[role];
+            if (req.body.role !== undefined) {
+                return sendError(res, 400, 'Change roles with PUT /admin/users/:id/role');
+            }
 
-            const result = await pool.query(
-                `UPDATE Account
-                 SET FirstName = $1, LastName = $2, Email = $3, Username = $4, Phone = $5, Account_Role = $6, Updated_At = NOW()
-                 WHERE Account_ID = $7
-                 RETURNING Account_ID, FirstName, LastName, Email, Username, Phone, Account_Role;`,
-                [firstname, lastname, email, username, phone, roleValue, id]
-            );
+            const result = await withTransaction(async (client) => {
+                const before = await client.query(
+                    `SELECT Account_ID, FirstName, LastName, Email, Email_Verified, Username, Phone, Phone_Verified, Account_Role
+                     FROM Account WHERE Account_ID = $1 FOR UPDATE`,
+                    [id]
+                );
 
-            if (result.rowCount === 0) return sendError(res, 404,'User not found');
+                if (before.rowCount === 0) return null;
 
-            const user = result.rows[0];
+                // A new address or number has not been proven to belong to the user - it must be verified again
+                const updated = await client.query(
+                    `UPDATE Account
+                     SET FirstName = $1, LastName = $2, Email = $3, Username = $4, Phone = $5,
+                         Email_Verified = CASE WHEN Email = $3 THEN Email_Verified ELSE FALSE END,
+                         Phone_Verified = CASE WHEN Phone = $5 THEN Phone_Verified ELSE FALSE END,
+                         Updated_At = NOW()
+                     WHERE Account_ID = $6
+                     RETURNING Account_ID, FirstName, LastName, Email, Email_Verified, Username, Phone, Phone_Verified, Account_Role;`,
+                    [firstname, lastname, email, username, phone, id]
+                );
+
+                // Pending self-service changes were made against the old values
+                await client.query(
+                    'DELETE FROM Email_Change_Request WHERE Account_ID = $1 AND Confirmed_At IS NULL',
+                    [id]
+                );
+                await client.query('DELETE FROM Phone_Change_Request WHERE Account_ID = $1', [id]);
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_USER_UPDATE,
+                    targetId: Number(id),
+                    changes: diffChanges(before.rows[0], updated.rows[0]),
+                }, client);
+
+                return updated.rows[0];
+            });
+
+            if (!result.success) throw result.error;
+            if (!result.data) return sendError(res, 404,'User not found');
+
+            const user = result.data;
             sendSuccess(res, {
                 message: 'User updated successfully',
                 user: {
@@ -152,8 +246,10 @@ export class AdminController {
                     firstName: user.firstname,
                     lastName: user.lastname,
                     email: user.email,
+                    emailVerified: user.email_verified,
                     username: user.username,
                     phone: user.phone,
+                    phoneVerified: user.phone_verified,
                     role: user.account_role
                 }
             });
@@ -169,12 +265,34 @@ export class AdminController {
     static async deleteUser(req: IJwtRequest, res: Response) {
         try {
             const { id } = req.params;
-            const result = await pool.query(
-                `UPDATE Account SET Account_Status = 'inactive', Updated_At = NOW() WHERE Account_ID = $1 RETURNING Account_ID;`,
-                [id]
-            );
+            const result = await withTransaction(async (client) => {
+                const before = await client.query(
+                    'SELECT Account_Status FROM Account WHERE Account_ID = $1 FOR UPDATE',
+                    [id]
+                );
 
-            if (result.rowCount === 0) return sendError(res, 404,'User not found');
+                if (before.rowCount === 0) return false;
+
+                const updated = await client.query(
+                    `UPDATE Account SET Account_Status = 'inactive', Updated_At = NOW() WHERE Account_ID = $1 RETURNING Account_Status;`,
+                    [id]
+                );
+
+                // Sessions and personal access tokens must not outlive the account
+                await revokeAllUserTokens(Number(id), client);
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_USER_DELETE,
+                    targetId: Number(id),
+                    changes: diffChanges(before.rows[0], updated.rows[0]),
+                }, client);
+
+                return true;
+            });
+
+            if (!result.success) throw result.error;
+            if (!result.data) return sendError(res, 404,'User not found');
 
             sendSuccess(res, { message: 'User deleted successfully' });
         } catch (error) {
@@ -284,13 +402,14 @@ export class AdminController {
     /**
      * Admin password reset - reset any user's password
      * Does not require old password verification
+     * Every token issued to the user before the reset stops working
      */
     static async resetUserPassword(req: IJwtRequest, res: Response) {
         try {
             const { id } = req.params;
             const { password } = req.body;
 
-            if (!password) {
+            if (!password || typeof password !== 'string') {
                 return sendError(res, 400, 'Password is required');
             }
 
@@ -304,28 +423,44 @@ export class AdminController {
                 return sendError(res, 404, 'User not found');
             }
 
-            // Generate new salt and hash
-            const { salt, hash } = await generateSaltedHash(password);
+            const passwordRejected = await validatePasswordPolicy(password, { accountId: Number(id) }, res);
+            if (passwordRejected) return;
 
-            // Check if credential exists
-            const credCheck = await pool.query(
-                'SELECT Credential_ID FROM Account_Credential WHERE Account_ID = $1',
-                [id]
-            );
+            // Hash new password (salt is embedded in the encoded hash)
+            const hash = await hashPassword(password);
 
-            if (credCheck.rowCount > 0) {
-                // Update existing credential
-                await pool.query(
-                    'UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2 WHERE Account_ID = $3',
-                    [hash, salt, id]
-                );
-            } else {
-                // Insert new credential
-                await pool.query(
-                    'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                    [id, hash, salt]
+            const result = await withTransaction(async (client) => {
+                // Check if credential exists
+                const credCheck = await client.query(
+                    'SELECT Credential_ID FROM Account_Credential WHERE Account_ID = $1',
+                    [id]
                 );
-            }
+
+                if (credCheck.rowCount > 0) {
+                    // Update existing credential
+                    await client.query(
+                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = NULL WHERE Account_ID = $2',
+                        [hash, id]
+                    );
+                } else {
+                    // Insert new credential
+                    await client.query(
+                        'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, NULL)',
+                        [id, hash]
+                    );
+                }
+                await recordPasswordHistory(client, Number(id), hash, getPasswordPolicy().historySize);
+
+                await revokeAllUserTokens(Number(id), client);
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_PASSWORD_RESET,
+                    targetId: Number(id),
+                }, client);
+            });
+
+            if (!result.success) throw result.error;
 
             sendSuccess(res, { message: 'Password reset successfully' });
         } catch (error) {
@@ -362,25 +497,541 @@ export class AdminController {
             }
 
             // Update user role
-            const result = await pool.query(
-                `UPDATE Account
-                 SET Account_Role = $1, Updated_At = NOW()
-                 WHERE Account_ID = $2
-                 RETURNING Account_ID, FirstName, LastName, Email, Username, Account_Role`,
-                [targetRank, id]
-            );
+            const result = await withTransaction(async (client) => {
+                const before = await client.query(
+                    'SELECT Account_Role FROM Account WHERE Account_ID = $1 FOR UPDATE',
+                    [id]
+                );
 
-            if (result.rowCount === 0) {
+                if (before.rowCount === 0) return null;
+
+                const updated = await client.query(
+                    `UPDATE Account
+                     SET Account_Role = $1, Updated_At = NOW()
+                     WHERE Account_ID = $2
+                     RETURNING Account_ID, FirstName, LastName, Email, Username, Account_Role`,
+                    [targetRank, id]
+                );
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_ROLE_CHANGE,
+                    targetId: Number(id),
+                    changes: diffChanges(before.rows[0], { account_role: updated.rows[0].account_role }),
+                }, client);
+
+                return updated.rows[0];
+            });
+
+            if (!result.success) throw result.error;
+            if (!result.data) {
                 return sendError(res, 404, 'User not found');
             }
 
             sendSuccess(res, {
                 message: 'User role updated successfully',
-                user: result.rows[0]
+                user: result.data
             });
         } catch (error) {
             console.error('Admin changeUserRole error:', error);
             sendError(res, 500, 'Failed to change user role');
         }
     }
+
+    /**
+     * Unlock an account locked by failed login attempts
+     * Also clears the lockout backoff history
+     */
+    static async unlockUser(req: IJwtRequest, res: Response) {
+        try {
+            const { id } = req.params;
+
+            const userCheck = await pool.query(
+                'SELECT Account_Status FROM Account WHERE Account_ID = $1',
+                [id]
+            );
+
+            if (userCheck.rowCount === 0) {
+                return sendError(res, 404, 'User not found');
+            }
+
+            if (userCheck.rows[0].account_status !== 'locked') {
+                return sendError(res, 400, 'User account is not locked');
+            }
+
+            await unlockAccount(Number(id));
+
+            await recordAuditEvent({
+                ...getAuditContext(req),
+                action: AUDIT_ACTIONS.ADMIN_USER_UNLOCK,
+                targetId: Number(id),
+            });
+
+            sendSuccess(res, { message: 'User account unlocked successfully' });
+        } catch (error) {
+            console.error('Admin unlockUser error:', error);
+            sendError(res, 500, 'Failed to unlock user');
+        }
+    }
+
+    /**
+     * List a user's active sessions
+     */
+    static async listUserSessions(req: IJwtRequest, res: Response) {
+        try {
+            const { id } = req.params;
+
+            const userCheck = await pool.query(
+                'SELECT Account_ID FROM Account WHERE Account_ID = $1',
+                [id]
+            );
+
+            if (userCheck.rowCount === 0) {
+                return sendError(res, 404, 'User not found');
+            }
+
+            const sessions = await listActiveSessions(Number(id));
+
+            sendSuccess(res, { sessions });
+        } catch (error) {
+            console.error('Admin listUserSessions error:', error);
+            sendError(res, 500, 'Failed to retrieve sessions');
+        }
+    }
+
+    /**
+     * Revoke one of a user's sessions
+     */
+    static async revokeUserSession(req: IJwtRequest, res: Response) {
+        try {
+            const { id, sessionId } = req.params;
+
+            const revoked = await revokeSession(Number(id), sessionId as string);
+
+            if (!revoked) {
+                return sendError(res, 404, 'Session not found');
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(req),
+                action: AUDIT_ACTIONS.ADMIN_SESSION_REVOKE,
+                targetId: Number(id),
+                metadata: { sessionId },
+            });
+
+            sendSuccess(res, { message: 'Session revoked successfully' });
+        } catch (error) {
+            console.error('Admin revokeUserSession error:', error);
+            sendError(res, 500, 'Failed to revoke session');
+        }
+    }
+
+    /**
+     * Revoke all of a user's sessions (forces logout everywhere)
+     */
+    static async revokeAllUserSessions(req: IJwtRequest, res: Response) {
+        try {
+            const { id } = req.params;
+
+            const userCheck = await pool.query(
+                'SELECT Account_ID FROM Account WHERE Account_ID = $1',
+                [id]
+            );
+
+            if (userCheck.rowCount === 0) {
+                return sendError(res, 404, 'User not found');
+            }
+
+            await revokeAllUserTokens(Number(id));
+
+            await recordAuditEvent({
+                ...getAuditContext(req),
+                action: AUDIT_ACTIONS.ADMIN_SESSIONS_REVOKE_ALL,
+                targetId: Number(id),
+            });
+
+            sendSuccess(res, { message: 'All sessions revoked successfully' });
+        } catch (error) {
+            console.error('Admin revokeAllUserSessions error:', error);
+            sendError(res, 500, 'Failed to revoke sessions');
+        }
+    }
+
+    /**
+     * List a user's active personal access tokens
+     */
+    static async listUserTokens(req: IJwtRequest, res: Response) {
+        try {
+            const { id } = req.params;
+
+            const userCheck = await pool.query(
+                'SELECT Account_ID FROM Account WHERE Account_ID = $1',
+                [id]
+            );
+
+            if (userCheck.rowCount === 0) {
+                return sendError(res, 404, 'User not found');
+            }
+
+            const tokens = await listPersonalAccessTokens(Number(id));
+
+            sendSuccess(res, { tokens });
+        } catch (error) {
+            console.error('Admin listUserTokens error:', error);
+            sendError(res, 500, 'Failed to retrieve access tokens');
+        }
+    }
+
+    /**
+     * Revoke one of a user's personal access tokens
+     */
+    static async revokeUserToken(req: IJwtRequest, res: Response) {
+        try {
+            const { id } = req.params;
+            const tokenId = Number(req.params.tokenId);
+
+            const revoked = await revokePersonalAccessToken(Number(id), tokenId);
+
+            if (!revoked) {
+                return sendError(res, 404, 'Access token not found');
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(req),
+                action: AUDIT_ACTIONS.ADMIN_TOKEN_REVOKE,
+                targetId: Number(id),
+                metadata: { tokenId, name: revoked.name },
+            });
+
+            sendSuccess(res, { message: 'Access token revoked successfully' });
+        } catch (error) {
+            console.error('Admin revokeUserToken error:', error);
+            sendError(res, 500, 'Failed to revoke access token');
+        }
+    }
+
+    /**
+     * Issue a short-lived token to act as a user ("log in as user") for support
+     * Only users with a lower role can be impersonated. The token cannot change
+     * credentials or reach admin routes, and every request made with it is audited.
+     */
+    static async impersonateUser(req: IJwtRequest, res: Response) {
+        try {
+            const id = Number(req.params.id);
+            const { reason } = req.body;
+            const adminRole = req.claims.role;
+
+            if (id === req.claims.id) {
+                return sendError(res, 400, 'You cannot impersonate yourself');
+            }
+
+            const userCheck = await pool.query(
+                'SELECT Account_ID, Email, Account_Role, Account_Status FROM Account WHERE Account_ID = $1',
+                [id]
+            );
+
+            if (userCheck.rowCount === 0) {
+                return sendError(res, 404, 'User not found');
+            }
+
+            const target = userCheck.rows[0];
+
+            // Handle numeric role from JWT
+            const adminRank = typeof adminRole === 'number' ? adminRole : ROLE_HIERARCHY[adminRole];
+
+            if (!canImpersonate(adminRank, target.account_role)) {
+                return sendError(res, 403, 'You cannot impersonate a user with an equal or higher role');
+            }
+
+            if (target.account_status === 'suspended') {
+                return sendError(res, 400, 'Suspended accounts cannot be impersonated');
+            }
+
+            const accessToken = generateImpersonationToken({
+                id: target.account_id,
+                email: target.email,
+                role: target.account_role,
+                act: {
+                    sub: String(req.claims.id),
+                    email: req.claims.email,
+                    ...(req.claims.sid && { sid: req.claims.sid }),
+                },
+            });
+
+            await recordAuditEvent({
+                ...getAuditContext(req),
+                action: AUDIT_ACTIONS.ADMIN_IMPERSONATE,
+                targetId: id,
+                metadata: { reason, expiresIn: IMPERSONATION_TOKEN_EXPIRY },
+            });
+
+            sendSuccess(res, {
+                accessToken,
+                expiresIn: IMPERSONATION_TOKEN_EXPIRY,
+                user: {
+                    id: target.account_id,
+                    email: target.email,
+                    role: RoleName[target.account_role] || 'User',
+                },
+            }, 'Impersonation token issued');
+        } catch (error) {
+            console.error('Admin impersonateUser error:', error);
+            sendError(res, 500, 'Failed to impersonate user');
+        }
+    }
+
+    /**
+     * Search the security audit log
+     * Filters: actorId, targetId, action, from, to (all optional)
+     */
+    static async getAuditLog(req: IJwtRequest, res: Response) {
+        try {
+            const page = Number(req.query.page) || 1;
+            const limit = Number(req.query.limit) || 50;
+            const { actorId, targetId, action, from, to } = req.query;
+
+            const { entries, total } = await queryAuditLog({
+                actorId: actorId ? Number(actorId) : undefined,
+                targetId: targetId ? Number(targetId) : undefined,
+                action: action as string | undefined,
+                from: from ? new Date(from as string) : undefined,
+                to: to ? new Date(to as string) : undefined,
+                page,
+                limit
+            });
+
+            sendSuccess(res, {
+                page,
+                limit,
+                total,
+                entries
+            });
+        } catch (error) {
+            console.error('Admin getAuditLog error:', error);
+            sendError(res, 500, 'Failed to fetch audit log');
+        }
+    }
+
+    /**
+     * Register an OAuth client (third-party app)
+     * The client secret is only returned in this response
+     */
+    static async createOAuthClient(req: IJwtRequest, res: Response) {
+        try {
+            const { name, redirectUris, scopes, confidential } = req.body;
+
+            const result = await withTransaction(async (client) => {
+                const created = await createOAuthClient(client, {
+                    name,
+                    redirectUris,
+                    scopes: scopes ?? Object.keys(OAUTH_SCOPES),
+                    confidential: confidential ?? true,
+                    createdBy: req.claims.id,
+                });
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_OAUTH_CLIENT_CREATE,
+                    metadata: {
+                        clientId: created.client.clientId,
+                        name: created.client.name,
+                        redirectUris: created.client.redirectUris,
+                        scopes: created.client.scopes,
+                    },
+                }, client);
+
+                return created;
+            });
+
+            if (!result.success) throw result.error;
+
+            sendSuccess(res, {
+                message: 'OAuth client created successfully',
+                client: result.data.client,
+                clientSecret: result.data.clientSecret,
+            });
+        } catch (error) {
+            console.error('Admin createOAuthClient error:', error);
+            sendError(res, 500, 'Failed to create OAuth client');
+        }
+    }
+
+    /**
+     * List active OAuth clients
+     */
+    static async listOAuthClients(req: IJwtRequest, res: Response) {
+        try {
+            const clients = await listOAuthClients();
+
+            sendSuccess(res, { clients });
+        } catch (error) {
+            console.error('Admin listOAuthClients error:', error);
+            sendError(res, 500, 'Failed to retrieve OAuth clients');
+        }
+    }
+
+    /**
+     * Revoke an OAuth client
+     * Every token issued to it stops working immediately
+     */
+    static async revokeOAuthClient(req: IJwtRequest, res: Response) {
+        try {
+            const clientId = req.params.clientId as string;
+
+            const result = await withTransaction(async (client) => {
+                const revoked = await revokeOAuthClient(client, clientId);
+
+                if (revoked) {
+                    await recordAuditEvent({
+                        ...getAuditContext(req),
+                        action: AUDIT_ACTIONS.ADMIN_OAUTH_CLIENT_REVOKE,
+                        metadata: { clientId },
+                    }, client);
+                }
+
+                return revoked;
+            });
+
+            if (!result.success) throw result.error;
+
+            if (!result.data) {
+                return sendError(res, 404, 'OAuth client not found');
+            }
+
+            sendSuccess(res, { message: 'OAuth client revoked successfully' });
+        } catch (error) {
+            console.error('Admin revokeOAuthClient error:', error);
+            sendError(res, 500, 'Failed to revoke OAuth client');
+        }
+    }
+
+    /**
+     * Register a service account (Owner only)
+     * The client secret is only returned in this response
+     */
+    static async createServiceAccount(req: IJwtRequest, res: Response) {
+        try {
+            const { name, description, scopes } = req.body;
+
+            const result = await withTransaction(async (client) => {
+                const created = await createServiceAccount(client, {
+                    name,
+                    description: description || null,
+                    scopes: [...new Set<string>(scopes)],
+                    createdBy: req.claims.id,
+                });
+
+                await recordAuditEvent({
+                    ...getAuditContext(req),
+                    action: AUDIT_ACTIONS.ADMIN_SERVICE_ACCOUNT_CREATE,
+                    metadata: {
+                        clientId: created.serviceAccount.clientId,
+                        name: created.serviceAccount.name,
+                        scopes: created.serviceAccount.scopes,
+                    },
+                }, client);
+
+                return created;
+            });
+
+            if (!result.success) throw result.error;
+
+            sendSuccess(res, {
+                message: 'Service account created successfully',
+                serviceAccount: result.data.serviceAccount,
+                clientSecret: result.data.clientSecret,
+            });
+        } catch (error) {
+            console.error('Admin createServiceAccount error:', error);
+            sendError(res, 500, 'Failed to create service account');
+        }
+    }
+
+    /**
+     * List active service accounts (Owner only)
+     */
+    static async listServiceAccounts(req: IJwtRequest, res: Response) {
+        try {
+            const serviceAccounts = await listServiceAccounts();
+
+            sendSuccess(res, { serviceAccounts });
+        } catch (error) {
+            console.error('Admin listServiceAccounts error:', error);
+            sendError(res, 500, 'Failed to retrieve service accounts');
+        }
+    }
+
+    /**
+     * Issue a new secret for a service account (Owner only)
+     * The old secret stops working immediately
+     */
+    static async rotateServiceAccountSecret(req: IJwtRequest, res: Response) {
+        try {
+            const clientId = req.params.clientId as string;
+
+            const result = await withTransaction(async (client) => {
+                const clientSecret = await rotateServiceAccountSecret(client, clientId);
+
+                if (clientSecret) {
+                    await recordAuditEvent({
+                        ...getAuditContext(req),
+                        action: AUDIT_ACTIONS.ADMIN_SERVICE_ACCOUNT_SECRET_ROTATE,
+                        metadata: { clientId },
+                    }, client);
+                }
+
+                return clientSecret;
+            });
+
+            if (!result.success) throw result.error;
+
+            if (!result.data) {
+                return sendError(res, 404, 'Service account not found');
+            }
+
+            sendSuccess(res, {
+                message: 'Service account secret rotated successfully',
+                clientId,
+                clientSecret: result.data,
+            });
+        } catch (error) {
+            console.error('Admin rotateServiceAccountSecret error:', error);
+            sendError(res, 500, 'Failed to rotate service account secret');
+        }
+    }
+
+    /**
+     * Revoke a service account (Owner only)
+     * It can no longer obtain tokens
+     */
+    static async revokeServiceAccount(req: IJwtRequest, res: Response) {
+        try {
+            const clientId = req.params.clientId as string;
+
+            const result = await withTransaction(async (client) => {
+                const revoked = await revokeServiceAccount(client, clientId);
+
+                if (revoked) {
+                    await recordAuditEvent({
+                        ...getAuditContext(req),
+                        action: AUDIT_ACTIONS.ADMIN_SERVICE_ACCOUNT_REVOKE,
+                        metadata: { clientId },
+                    }, client);
+                }
+
+                return revoked;
+            });
+
+            if (!result.success) throw result.error;
+
+            if (!result.data) {
+                return sendError(res, 404, 'Service account not found');
+            }
+
+            sendSuccess(res, { message: 'Service account revoked successfully' });
+        } catch (error) {
+            console.error('Admin revokeServiceAccount error:', error);
+            sendError(res, 500, 'Failed to revoke service account');
+        }
+    }
 }
@@ -1,20 +1,43 @@
 // src/controllers/authController.ts
 import { Response } from 'express';
-import jwt from 'jsonwebtoken';
 import {
     pool,
     sendSuccess,
     sendError,
     ErrorCodes,
-    generateSalt,
-    generateHash,
+    hashPassword,
     verifyPassword,
     getEnvVar,
     sendPasswordResetEmail,
     isDevelopment,
     generateAccessToken,
     generatePasswordResetToken,
+    getPasswordResetStamp,
+    verifyToken,
+    unlockAccount,
+    authenticateWithPassword,
+    completeLogin,
+    findLoginAccountById,
+    issueRefreshToken,
+    rotateRefreshToken,
+    revokeRefreshTokenFamily,
+    revokeRefreshToken,
+    createSession,
+    getSessionContext,
+    touchSession,
+    revokeSession,
+    reauthenticateSession,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS,
+    revokeAccessToken,
+    revokeAllUserTokens,
     validateUserUniqueness,
+    validatePasswordPolicy,
+    getPasswordPolicy,
+    evaluatePasswordStrength,
+    recordPasswordHistory,
+    withTransaction,
     executeTransactionWithResponse
 } from '@utilities';
 import { IJwtRequest, JWT_RESET_EXPIRY } from '@models';
@@ -33,6 +56,9 @@ export class AuthController {
         );
         if (userExists) return;
 
+        const passwordRejected = await validatePasswordPolicy(password, { firstname, lastname, username, email }, response);
+        if (passwordRejected) return;
+
         // Execute registration transaction
         await executeTransactionWithResponse(
             async (client) => {
@@ -47,25 +73,37 @@ export class AuthController {
 
                 const accountId = insertAccountResult.rows[0].account_id;
 
-                // Generate salt and hash for password
-                const salt = generateSalt();
-                const saltedHash = generateHash(password, salt);
+                // Hash password (salt is embedded in the encoded hash)
+                const saltedHash = await hashPassword(password);
 
                 // Store credentials
                 await client.query(
-                    'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                    [accountId, saltedHash, salt]
+                    'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, NULL)',
+                    [accountId, saltedHash]
                 );
+                await recordPasswordHistory(client, accountId, saltedHash, getPasswordPolicy().historySize);
 
-                // Generate JWT token
+                // Start a session and issue its JWT and refresh token
+                const sessionId = await createSession(client, accountId, getSessionContext(request));
                 const token = generateAccessToken({
                     id: accountId,
                     email,
-                    role: 1
+                    role: 1,
+                    sessionId,
+                    authTime: new Date()
                 });
+                const refreshToken = await issueRefreshToken(client, accountId, sessionId);
+
+                await recordAuditEvent({
+                    ...getAuditContext(request, accountId),
+                    action: AUDIT_ACTIONS.AUTH_REGISTER,
+                    targetId: accountId,
+                    metadata: { email, username },
+                }, client);
 
                 return {
                     accessToken: token,
+                    refreshToken: refreshToken.token,
                     user: {
                         id: accountId,
                         email,
@@ -87,86 +125,258 @@ export class AuthController {
 
     /**
      * User login
+     * Failed attempts are tracked per account and per IP; too many failures lock the account
      */
     static async login(request: IJwtRequest, response: Response): Promise<void> {
         const { email, password } = request.body;
+        const ipAddress = request.ip ?? 'unknown';
+
+        try {
+            const result = await authenticateWithPassword(email, password, ipAddress);
+
+            if (result.status === 'rate_limited') {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (result.status === 'invalid') {
+                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+            if (result.status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (result.status === 'locked') {
+                let message = 'Account is locked. Please contact support.';
+                if (result.lockedUntil) {
+                    const lockedUntil = new Date(result.lockedUntil).toISOString();
+                    message = result.justLocked
+                        ? `Too many failed login attempts. Account is locked until ${lockedUntil}. Check your email for an unlock link.`
+                        : `Account is locked until ${lockedUntil}. Check your email for an unlock link.`;
+                }
+                sendError(response, 403, message, ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            const { account } = result;
+
+            // Issue tokens, or a two-factor challenge if the user enrolled an authenticator
+            await completeLogin(account, request, response);
+
+        } catch (error) {
+            console.error('Login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Exchange a refresh token for a new access token
+     * The presented refresh token is rotated; reusing an old one revokes its whole family
+     */
+    static async refreshToken(request: IJwtRequest, response: Response): Promise<void> {
+        const { refreshToken } = request.body;
 
         try {
-            // Find account
+            const rotation = await rotateRefreshToken(refreshToken);
+
+            if (rotation.status === 'invalid') {
+                sendError(response, 401, 'Invalid refresh token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+            if (rotation.status === 'reused') {
+                console.warn(`Refresh token reuse detected for account ${rotation.accountId} - token family revoked`);
+                await recordAuditEvent({
+                    ...getAuditContext(request, rotation.accountId),
+                    action: AUDIT_ACTIONS.AUTH_REFRESH_TOKEN_REUSED,
+                    targetId: rotation.accountId,
+                });
+                sendError(response, 401, 'Refresh token has already been used. Please log in again.', ErrorCodes.AUTH_REFRESH_TOKEN_REUSED);
+                return;
+            }
+            if (rotation.status === 'revoked') {
+                sendError(response, 401, 'Refresh token has been revoked. Please log in again.', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+            if (rotation.status === 'expired') {
+                sendError(response, 401, 'Refresh token has expired. Please log in again.', ErrorCodes.AUTH_TOKEN_EXPIRED);
+                return;
+            }
+
+            // Re-check the account - status may have changed since login
             const accountResult = await pool.query(
-                `SELECT 
-                    a.Account_ID, a.FirstName, a.LastName, a.Username, 
-                    a.Email, a.Account_Role, a.Email_Verified, 
-                    a.Phone_Verified, a.Account_Status,
-                    ac.Salted_Hash, ac.Salt
-                FROM Account a 
-                LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID 
-                WHERE a.Email = $1`,
-                [email]
+                'SELECT Account_ID, Email, Account_Role, Account_Status FROM Account WHERE Account_ID = $1',
+                [rotation.accountId]
             );
 
             if (accountResult.rowCount === 0) {
-                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                sendError(response, 401, 'Invalid refresh token', ErrorCodes.AUTH_INVALID_TOKEN);
                 return;
             }
 
             const account = accountResult.rows[0];
 
-            // Check account status
-            if (account.account_status === 'suspended') {
+            if (account.account_status === 'suspended' || account.account_status === 'locked') {
+                await revokeRefreshTokenFamily(pool, rotation.refreshToken.familyId);
+                const errorCode = account.account_status === 'suspended'
+                    ? ErrorCodes.AUTH_ACCOUNT_SUSPENDED
+                    : ErrorCodes.AUTH_ACCOUNT_LOCKED;
+                sendError(response, 403, `Account is ${account.account_status}. Please contact support.`, errorCode);
+                return;
+            }
+
+            // The refresh token family is the login session
+            const sessionId = rotation.refreshToken.familyId;
+            await touchSession(sessionId, request.ip);
+
+            const token = generateAccessToken({
+                id: account.account_id,
+                email: account.email,
+                role: account.account_role,
+                sessionId,
+                authTime: rotation.authenticatedAt
+            });
+
+            sendSuccess(response, {
+                accessToken: token,
+                refreshToken: rotation.refreshToken.token,
+            }, 'Token refreshed successfully');
+
+        } catch (error) {
+            console.error('Token refresh error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm the password again before a sensitive action (step-up authentication)
+     * Returns an access token with a fresh auth_time for the current session;
+     * wrong passwords count towards the account lockout like failed logins
+     */
+    static async reauthenticate(request: IJwtRequest, response: Response): Promise<void> {
+        const { password } = request.body;
+        const { id: userId, sid: sessionId } = request.claims;
+
+        if (!sessionId) {
+            sendError(response, 401, 'Please log in again', ErrorCodes.AUTH_INVALID_TOKEN);
+            return;
+        }
+
+        try {
+            const account = await findLoginAccountById(userId);
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const result = await authenticateWithPassword(account.email, password, request.ip ?? 'unknown');
+
+            if (result.status === 'rate_limited') {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (result.status === 'invalid') {
+                sendError(response, 401, 'Invalid password', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+            if (result.status === 'suspended') {
                 sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
                 return;
             }
-            if (account.account_status === 'locked') {
-                sendError(response, 403, 'Account is locked. Please contact support.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+            if (result.status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
                 return;
             }
 
-            // Verify password
-            if (!account.salted_hash || !verifyPassword(password, account.salt, account.salted_hash)) {
-                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+            const authTime = await reauthenticateSession(userId, sessionId);
+            if (!authTime) {
+                sendError(response, 401, 'Session has ended. Please log in again.', ErrorCodes.AUTH_INVALID_TOKEN);
                 return;
             }
 
-            // Generate JWT token
-            const jwtSecret = getEnvVar('JWT_SECRET');
-            const token = jwt.sign(
-                {
-                    id: account.account_id,
-                    email: account.email,
-                    role: account.account_role
-                },
-                jwtSecret,
-                { expiresIn: '14d' }
-            );
+            const accessToken = generateAccessToken({
+                id: account.account_id,
+                email: account.email,
+                role: account.account_role,
+                sessionId,
+                authTime
+            });
 
-            // Get role name
-            const roleNames = ['', 'User', 'Moderator', 'Admin', 'SuperAdmin', 'Owner'];
-            const roleName = roleNames[account.account_role] || 'User';
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.AUTH_REAUTHENTICATE,
+                targetId: userId,
+                metadata: { sessionId },
+            });
 
-            sendSuccess(response, {
-                accessToken: token,
-                user: {
-                    id: account.account_id,
-                    email: account.email,
-                    name: account.firstname,
-                    lastname: account.lastname,
-                    username: account.username,
-                    role: roleName,
-                    emailVerified: account.email_verified,
-                    phoneVerified: account.phone_verified,
-                    accountStatus: account.account_status,
-                },
-            }, 'Login successful');
+            sendSuccess(response, { accessToken, authTime }, 'Identity confirmed');
 
         } catch (error) {
-            console.error('Login error:', error);
+            console.error('Reauthentication error:', error);
             sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
         }
     }
 
+    /**
+     * Log out the current session
+     * Revokes the presented access token and its session, plus the supplied refresh token's family
+     */
+    static async logout(request: IJwtRequest, response: Response): Promise<void> {
+        const { refreshToken } = request.body ?? {};
+        const { id, jti, exp, sid } = request.claims;
+
+        try {
+            if (jti && exp) {
+                await revokeAccessToken(jti, id, new Date(exp * 1000));
+            }
+
+            if (sid) {
+                await revokeSession(id, sid);
+            }
+
+            if (refreshToken) {
+                await revokeRefreshToken(refreshToken, id);
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.AUTH_LOGOUT,
+                targetId: id,
+                metadata: sid ? { sessionId: sid } : null,
+            });
+
+            sendSuccess(response, null, 'Logged out successfully');
+
+        } catch (error) {
+            console.error('Logout error:', error);
+            sendError(response, 500, 'Failed to log out', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log out everywhere
+     * Invalidates every access and refresh token issued to the user so far
+     */
+    static async logoutAll(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            await revokeAllUserTokens(request.claims.id);
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.AUTH_LOGOUT_ALL,
+                targetId: request.claims.id,
+            });
+
+            sendSuccess(response, null, 'Logged out of all sessions successfully');
+
+        } catch (error) {
+            console.error('Logout all error:', error);
+            sendError(response, 500, 'Failed to log out', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
     /**
      * Change user password (requires old password)
+     * Every token issued before the change stops working
      */
     static async changePassword(request: IJwtRequest, response: Response): Promise<void> {
         const { oldPassword, newPassword } = request.body;
@@ -187,29 +397,32 @@ export class AuthController {
             const { salted_hash, salt } = credentialsResult.rows[0];
 
             // Verify old password
-            if (!verifyPassword(oldPassword, salt, salted_hash)) {
+            if (!(await verifyPassword(oldPassword, salt, salted_hash))) {
                 sendError(response, 400, 'Current password is incorrect', ErrorCodes.AUTH_INVALID_CREDENTIALS);
                 return;
             }
 
             // Check that new password is different
-            if (verifyPassword(newPassword, salt, salted_hash)) {
+            if (await verifyPassword(newPassword, salt, salted_hash)) {
                 sendError(response, 400, 'New password must be different from current password', ErrorCodes.VALD_INVALID_PASSWORD);
                 return;
             }
 
+            const passwordRejected = await validatePasswordPolicy(newPassword, { accountId: userId }, response, 'newPassword');
+            if (passwordRejected) return;
+
             // Execute password change transaction
             await executeTransactionWithResponse(
                 async (client) => {
-                    // Generate new salt and hash
-                    const newSalt = generateSalt();
-                    const newSaltedHash = generateHash(newPassword, newSalt);
+                    // Hash new password (salt is embedded in the encoded hash)
+                    const newSaltedHash = await hashPassword(newPassword);
 
                     // Update password
                     await client.query(
-                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2 WHERE Account_ID = $3',
-                        [newSaltedHash, newSalt, userId]
+                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = NULL WHERE Account_ID = $2',
+                        [newSaltedHash, userId]
                     );
+                    await recordPasswordHistory(client, userId, newSaltedHash, getPasswordPolicy().historySize);
 
                     // Update account timestamp
                     await client.query(
@@ -217,10 +430,19 @@ export class AuthController {
                         [userId]
                     );
 
+                    // Sign out every existing session, including this one
+                    await revokeAllUserTokens(userId, client);
+
+                    await recordAuditEvent({
+                        ...getAuditContext(request),
+                        action: AUDIT_ACTIONS.PASSWORD_CHANGE,
+                        targetId: userId,
+                    }, client);
+
                     return null;
                 },
                 response,
-                'Password changed successfully',
+                'Password changed successfully. Please log in again.',
                 'Failed to change password'
             );
 
@@ -230,6 +452,19 @@ export class AuthController {
         }
     }
 
+    /**
+     * Estimate password strength for a client-side meter (nothing is stored)
+     * Runs the same checks as the password policy on register, reset and change,
+     * except password history
+     */
+    static async checkPasswordStrength(request: IJwtRequest, response: Response): Promise<void> {
+        const { password, firstname, lastname, username, email } = request.body;
+
+        const strength = evaluatePasswordStrength(password, { firstname, lastname, username, email });
+
+        sendSuccess(response, strength, strength.acceptable ? 'Password meets the password policy' : 'Password does not meet the password policy');
+    }
+
     /**
      * Request password reset (sends email)
      */
@@ -239,7 +474,10 @@ export class AuthController {
         try {
             // Find account with verified email
             const accountResult = await pool.query(
-                'SELECT Account_ID, FirstName, Email_Verified FROM Account WHERE Email = $1',
+                `SELECT a.Account_ID, a.FirstName, a.Email_Verified, ac.Salted_Hash
+                 FROM Account a
+                 LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID
+                 WHERE a.Email = $1`,
                 [email]
             );
 
@@ -251,8 +489,9 @@ export class AuthController {
 
             const { account_id, firstname } = accountResult.rows[0];
 
-            // Generate reset token (valid for 1 hour)
-            const resetToken = generatePasswordResetToken(account_id, email);
+            // Generate reset token (valid for 15 minutes, until the password changes)
+            const passwordStamp = getPasswordResetStamp(accountResult.rows[0].salted_hash);
+            const resetToken = generatePasswordResetToken(account_id, email, passwordStamp);
 
             // Create reset URL
             const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
@@ -261,6 +500,13 @@ export class AuthController {
             // Send reset email
             const emailSent = await sendPasswordResetEmail(email, firstname, resetUrl);
 
+            await recordAuditEvent({
+                ...getAuditContext(request, null),
+                action: AUDIT_ACTIONS.PASSWORD_RESET_REQUEST,
+                targetId: account_id,
+                metadata: { emailSent },
+            });
+
             if (!emailSent && !isDevelopment()) {
                 sendError(response, 500, 'Failed to send reset email', ErrorCodes.SRVR_EMAIL_SEND_FAILED);
                 return;
@@ -287,7 +533,7 @@ export class AuthController {
             // Verify and decode reset token
             let decoded: any;
             try {
-                decoded = jwt.verify(token, getEnvVar('JWT_SECRET'));
+                decoded = verifyToken(token);
             } catch (error) {
                 sendError(response, 400, 'Invalid or expired reset token', ErrorCodes.AUTH_INVALID_TOKEN);
                 return;
@@ -303,7 +549,10 @@ export class AuthController {
 
             // Verify account still exists
             const accountCheck = await pool.query(
-                'SELECT Account_ID FROM Account WHERE Account_ID = $1',
+                `SELECT ac.Salted_Hash
+                 FROM Account a
+                 LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID
+                 WHERE a.Account_ID = $1`,
                 [userId]
             );
 
@@ -312,39 +561,73 @@ export class AuthController {
                 return;
             }
 
+            // The token only works for the password it was issued against, so it is single-use
+            if (getPasswordResetStamp(accountCheck.rows[0].salted_hash) !== decoded.passwordStamp) {
+                sendError(response, 400, 'Invalid or expired reset token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            const passwordRejected = await validatePasswordPolicy(password, { accountId: userId }, response);
+            if (passwordRejected) return;
+
             // Execute password reset transaction
-            await executeTransactionWithResponse(
-                async (client) => {
-                    // Generate new salt and hash
-                    const salt = generateSalt();
-                    const saltedHash = generateHash(password, salt);
+            const result = await withTransaction(async (client) => {
+                // Check the stamp again with the account locked, so two requests cannot both use the token
+                const current = await client.query(
+                    `SELECT ac.Salted_Hash
+                     FROM Account a
+                     LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID
+                     WHERE a.Account_ID = $1
+                     FOR UPDATE OF a`,
+                    [userId]
+                );
+                if (current.rowCount === 0 || getPasswordResetStamp(current.rows[0].salted_hash) !== decoded.passwordStamp) {
+                    return false;
+                }
 
-                    // Update password
-                    const updateResult = await client.query(
-                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2 WHERE Account_ID = $3',
-                        [saltedHash, salt, userId]
-                    );
+                // Hash new password (salt is embedded in the encoded hash)
+                const saltedHash = await hashPassword(password);
 
-                    if (updateResult.rowCount === 0) {
-                        // If no credentials exist, create them
-                        await client.query(
-                            'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                            [userId, saltedHash, salt]
-                        );
-                    }
+                // Update password
+                const updateResult = await client.query(
+                    'UPDATE Account_Credential SET Salted_Hash = $1, Salt = NULL WHERE Account_ID = $2',
+                    [saltedHash, userId]
+                );
 
-                    // Update account timestamp
+                if (updateResult.rowCount === 0) {
+                    // If no credentials exist, create them
                     await client.query(
-                        'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
-                        [userId]
+                        'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, NULL)',
+                        [userId, saltedHash]
                     );
+                }
+                await recordPasswordHistory(client, userId, saltedHash, getPasswordPolicy().historySize);
 
-                    return null;
-                },
-                response,
-                'Password reset successful',
-                'Failed to reset password'
-            );
+                // Update account timestamp
+                await client.query(
+                    'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
+                    [userId]
+                );
+
+                // Sign out every existing session
+                await revokeAllUserTokens(userId, client);
+
+                await recordAuditEvent({
+                    ...getAuditContext(request, userId),
+                    action: AUDIT_ACTIONS.PASSWORD_RESET,
+                    targetId: userId,
+                }, client);
+
+                return true;
+            });
+
+            if (!result.success) throw result.error;
+            if (!result.data) {
+                sendError(response, 400, 'Invalid or expired reset token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            sendSuccess(response, null, 'Password reset successful');
 
         } catch (error) {
             console.error('Password reset error:', error);
@@ -352,6 +635,66 @@ export class AuthController {
         }
     }
 
+    /**
+     * Unlock an account with the token from the account locked email
+     */
+    static async unlockAccount(request: IJwtRequest, response: Response): Promise<void> {
+        const { token } = request.query;
+
+        if (!token || typeof token !== 'string') {
+            sendError(response, 400, 'Unlock token is required', ErrorCodes.VALD_MISSING_FIELDS);
+            return;
+        }
+
+        try {
+            // Verify and decode unlock token
+            let decoded: { id: number; type: string; lockedUntil: number };
+            try {
+                decoded = verifyToken(token);
+            } catch {
+                sendError(response, 400, 'Invalid or expired unlock token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            if (decoded.type !== 'account_unlock') {
+                sendError(response, 400, 'Invalid unlock token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            // The token only unlocks the lockout it was issued for
+            const accountResult = await pool.query(
+                'SELECT Account_Status, Locked_Until FROM Account WHERE Account_ID = $1',
+                [decoded.id]
+            );
+
+            const account = accountResult.rows[0];
+            if (
+                !account ||
+                account.account_status !== 'locked' ||
+                !account.locked_until ||
+                new Date(account.locked_until).getTime() !== decoded.lockedUntil
+            ) {
+                sendError(response, 400, 'Unlock link is no longer valid', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            await unlockAccount(decoded.id);
+
+            await recordAuditEvent({
+                ...getAuditContext(request, decoded.id),
+                action: AUDIT_ACTIONS.AUTH_ACCOUNT_UNLOCKED,
+                targetId: decoded.id,
+                metadata: { method: 'email_link' },
+            });
+
+            sendSuccess(response, null, 'Account unlocked successfully. You can now log in.');
+
+        } catch (error) {
+            console.error('Account unlock error:', error);
+            sendError(response, 500, 'Failed to unlock account', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
     /**
      * Simple test endpoint (no authentication required)
      */
@@ -388,6 +731,9 @@ export class AuthController {
             );
             if (userExists) return;
 
+            const passwordRejected = await validatePasswordPolicy(password, { firstname, lastname, username, email }, response);
+            if (passwordRejected) return;
+
             // Execute admin creation transaction
             await executeTransactionWithResponse(
                 async (client) => {
@@ -402,25 +748,36 @@ export class AuthController {
 
                     const accountId = insertAccountResult.rows[0].account_id;
 
-                    // Generate salt and hash for password
-                    const salt = generateSalt();
-                    const saltedHash = generateHash(password, salt);
+                    // Hash password (salt is embedded in the encoded hash)
+                    const saltedHash = await hashPassword(password);
 
                     // Store credentials
                     await client.query(
-                        'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                        [accountId, saltedHash, salt]
+                        'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, NULL)',
+                        [accountId, saltedHash]
                     );
+                    await recordPasswordHistory(client, accountId, saltedHash, getPasswordPolicy().historySize);
 
-                    // Generate JWT token
+                    // Start a session and issue its JWT and refresh token
+                    const sessionId = await createSession(client, accountId, getSessionContext(request));
                     const token = generateAccessToken({
                         id: accountId,
                         email,
-                        role: 3
+                        role: 3,
+                        sessionId
                     });
+                    const refreshToken = await issueRefreshToken(client, accountId, sessionId);
+
+                    await recordAuditEvent({
+                        ...getAuditContext(request, accountId),
+                        action: AUDIT_ACTIONS.AUTH_REGISTER,
+                        targetId: accountId,
+                        metadata: { email, username, seededAdmin: true },
+                    }, client);
 
                     return {
                         accessToken: token,
+                        refreshToken: refreshToken.token,
                         user: {
                             id: accountId,
                             email,
@@ -0,0 +1,252 @@
+// src/controllers/federatedController.ts
+import { Response } from 'express';
+import {
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    listFederatedProviders,
+    findFederatedProvider,
+    getProviderMetadata,
+    createFederatedLoginState,
+    consumeFederatedLoginState,
+    buildFederatedAuthorizationUrl,
+    exchangeFederatedCode,
+    verifyFederatedIdToken,
+    resolveFederatedAccount,
+    listFederatedIdentities,
+    unlinkFederatedIdentity,
+    findLoginAccountById,
+    completeLogin,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS,
+    FederatedIdentityClaims,
+    FederatedProvider
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+/**
+ * Outcome of the provider round trip, before any account is involved
+ */
+type ProviderSignIn =
+    | { status: 'success'; identity: FederatedIdentityClaims; linkAccountId: number | null }
+    | { status: 'failed'; httpStatus: number; message: string };
+
+/**
+ * Build the provider sign-in URL for a new login or link attempt
+ * @returns null if the provider is unknown
+ */
+const buildAuthorizationUrl = async (providerId: string, linkAccountId: number | null): Promise<string | null> => {
+    const provider = await findFederatedProvider(providerId);
+    if (!provider) {
+        return null;
+    }
+
+    const metadata = await getProviderMetadata(provider);
+    const login = await createFederatedLoginState(provider.id, linkAccountId);
+    return buildFederatedAuthorizationUrl(provider, metadata, login);
+};
+
+/**
+ * Check the state, exchange the code and verify the ID token
+ */
+const completeProviderSignIn = async (provider: FederatedProvider, request: IJwtRequest): Promise<ProviderSignIn> => {
+    const { code, state, error } = request.query as Record<string, string | undefined>;
+
+    const login = await consumeFederatedLoginState(state, provider.id);
+    if (!login) {
+        return { status: 'failed', httpStatus: 400, message: 'Sign-in expired or was already used. Please try again.' };
+    }
+
+    // The user cancelled, or the provider refused
+    if (error || !code) {
+        return { status: 'failed', httpStatus: 401, message: `${provider.name} sign-in was not completed` };
+    }
+
+    try {
+        const metadata = await getProviderMetadata(provider);
+        const idToken = await exchangeFederatedCode(provider, metadata, code, login.codeVerifier);
+
+        const identity = await verifyFederatedIdToken(provider, metadata, idToken, login.nonce);
+        if (!identity) {
+            return { status: 'failed', httpStatus: 401, message: `${provider.name} returned an invalid ID token` };
+        }
+
+        return { status: 'success', identity, linkAccountId: login.linkAccountId };
+
+    } catch (providerError) {
+        console.error(`Federated provider ${provider.id} error:`, providerError);
+        return { status: 'failed', httpStatus: 502, message: `${provider.name} sign-in failed. Please try again.` };
+    }
+};
+
+export class FederatedController {
+    /**
+     * List the providers users can log in with (for login page buttons)
+     */
+    static async listProviders(_request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const providers = await listFederatedProviders();
+            sendSuccess(response, {
+                providers: providers.map((provider) => ({
+                    id: provider.id,
+                    name: provider.name,
+                    loginUrl: `/auth/federated/${provider.id}/start`,
+                })),
+            }, 'Providers retrieved successfully');
+
+        } catch (error) {
+            console.error('List federated providers error:', error);
+            sendError(response, 500, 'Failed to retrieve providers', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Send the browser to the provider's sign-in page
+     */
+    static async startLogin(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const authorizationUrl = await buildAuthorizationUrl(request.params.provider as string, null);
+            if (!authorizationUrl) {
+                sendError(response, 404, 'Unknown login provider', ErrorCodes.AUTH_FEDERATED_PROVIDER_NOT_FOUND);
+                return;
+            }
+
+            response.redirect(302, authorizationUrl);
+
+        } catch (error) {
+            console.error('Federated login start error:', error);
+            sendError(response, 502, 'Login provider is unavailable', ErrorCodes.AUTH_FEDERATED_FAILED);
+        }
+    }
+
+    /**
+     * Start linking a provider to the caller's account
+     * Returns the URL to open in the browser; the callback completes the link
+     */
+    static async startLink(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const authorizationUrl = await buildAuthorizationUrl(request.params.provider as string, request.claims.id);
+            if (!authorizationUrl) {
+                sendError(response, 404, 'Unknown login provider', ErrorCodes.AUTH_FEDERATED_PROVIDER_NOT_FOUND);
+                return;
+            }
+
+            sendSuccess(response, { authorizationUrl }, 'Open authorizationUrl in a browser to link the provider');
+
+        } catch (error) {
+            console.error('Federated link start error:', error);
+            sendError(response, 502, 'Login provider is unavailable', ErrorCodes.AUTH_FEDERATED_FAILED);
+        }
+    }
+
+    /**
+     * Where the provider sends the user back to
+     * Logs in the linked account (same response as POST /auth/login), or finishes a link
+     */
+    static async callback(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const provider = await findFederatedProvider(request.params.provider as string);
+            if (!provider) {
+                sendError(response, 404, 'Unknown login provider', ErrorCodes.AUTH_FEDERATED_PROVIDER_NOT_FOUND);
+                return;
+            }
+
+            const signIn = await completeProviderSignIn(provider, request);
+            if (signIn.status === 'failed') {
+                sendError(response, signIn.httpStatus, signIn.message, ErrorCodes.AUTH_FEDERATED_FAILED);
+                return;
+            }
+
+            const resolution = await resolveFederatedAccount(provider.id, signIn.identity, signIn.linkAccountId);
+
+            if (resolution.status === 'not_linked') {
+                sendError(response, 401, `No account is linked to this ${provider.name} login. Log in another way and link it from your account settings.`, ErrorCodes.AUTH_FEDERATED_NOT_LINKED);
+                return;
+            }
+            if (resolution.status === 'already_linked') {
+                sendError(response, 409, `This ${provider.name} login cannot be linked: either it belongs to another account or this account is already linked to ${provider.name}`, ErrorCodes.AUTH_FEDERATED_ALREADY_LINKED);
+                return;
+            }
+
+            if (resolution.newLink) {
+                await recordAuditEvent({
+                    ...getAuditContext(request, resolution.accountId),
+                    action: AUDIT_ACTIONS.AUTH_FEDERATED_LINK,
+                    targetId: resolution.accountId,
+                    metadata: { provider: provider.id, email: signIn.identity.email, method: resolution.newLink },
+                });
+            }
+
+            if (signIn.linkAccountId !== null) {
+                sendSuccess(response, { provider: provider.id, email: signIn.identity.email }, `${provider.name} login linked successfully`);
+                return;
+            }
+
+            const account = await findLoginAccountById(resolution.accountId);
+            if (!account) {
+                sendError(response, 401, 'Account not found', ErrorCodes.AUTH_FEDERATED_NOT_LINKED);
+                return;
+            }
+
+            if (account.account_status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (account.account_status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            await completeLogin(account, request, response, 'Login successful', 'federated');
+
+        } catch (error) {
+            console.error('Federated login callback error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * List the providers linked to the caller's account
+     */
+    static async listIdentities(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const identities = await listFederatedIdentities(request.claims.id);
+            sendSuccess(response, { identities }, 'Linked logins retrieved successfully');
+
+        } catch (error) {
+            console.error('List federated identities error:', error);
+            sendError(response, 500, 'Failed to retrieve linked logins', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Unlink a provider from the caller's account
+     */
+    static async unlinkIdentity(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const providerId = request.params.provider as string;
+
+        try {
+            const removed = await unlinkFederatedIdentity(userId, providerId);
+
+            if (!removed) {
+                sendError(response, 404, 'No login from this provider is linked', ErrorCodes.AUTH_FEDERATED_PROVIDER_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.AUTH_FEDERATED_UNLINK,
+                targetId: userId,
+                metadata: { provider: providerId, email: removed.email },
+            });
+
+            sendSuccess(response, removed, 'Linked login removed successfully');
+
+        } catch (error) {
+            console.error('Unlink federated identity error:', error);
+            sendError(response, 500, 'Failed to remove linked login', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
@@ -1,3 +1,12 @@
 // src/controllers/index.ts
 export { AuthController } from './authController';
 export { VerificationController } from './verificationController';
+export { MfaController } from './mfaController';
+export { MagicLinkController } from './magicLinkController';
+export { SmsLoginController } from './smsLoginController';
+export { WebAuthnController } from './webauthnController';
+export { FederatedController } from './federatedController';
+export { SessionController } from './sessionController';
+export { ProfileController } from './profileController';
+export { OAuthController } from './oauthController';
+export { PersonalAccessTokenController } from './personalAccessTokenController';
@@ -0,0 +1,115 @@
+// src/controllers/magicLinkController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    getEnvVar,
+    isDevelopment,
+    sendMagicLinkEmail,
+    createMagicLinkToken,
+    consumeMagicLinkToken,
+    findLoginAccountById,
+    completeLogin,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest, MAGIC_LINK_EXPIRY_MINUTES } from '@models';
+
+const MAGIC_LINK_SENT_MESSAGE = 'If the email exists and is verified, a login link will be sent.';
+
+export class MagicLinkController {
+    /**
+     * Email a single-use login link
+     * Always answers the same way, so it cannot be used to find out which emails have accounts
+     */
+    static async requestMagicLink(request: IJwtRequest, response: Response): Promise<void> {
+        const { email } = request.body;
+
+        try {
+            const accountResult = await pool.query(
+                'SELECT Account_ID, FirstName, Email_Verified, Account_Status FROM Account WHERE Email = $1',
+                [email]
+            );
+
+            const account = accountResult.rows[0];
+            if (!account || !account.email_verified || account.account_status === 'suspended') {
+                sendSuccess(response, null, MAGIC_LINK_SENT_MESSAGE);
+                return;
+            }
+
+            // null when a link was sent moments ago - the earlier email is still on its way
+            const token = await createMagicLinkToken(account.account_id);
+            if (!token) {
+                sendSuccess(response, null, MAGIC_LINK_SENT_MESSAGE);
+                return;
+            }
+
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const loginUrl = `${baseUrl}/auth/login/magic-link/verify?token=${token}`;
+
+            const emailSent = await sendMagicLinkEmail(email, account.firstname, loginUrl, MAGIC_LINK_EXPIRY_MINUTES);
+
+            await recordAuditEvent({
+                ...getAuditContext(request, null),
+                action: AUDIT_ACTIONS.AUTH_MAGIC_LINK_REQUEST,
+                targetId: account.account_id,
+                metadata: { emailSent },
+            });
+
+            if (!emailSent) {
+                console.error(`Failed to send magic link email to account ${account.account_id}`);
+            }
+
+            // In development, include the login URL
+            const responseData = isDevelopment() ? { loginUrl } : null;
+
+            sendSuccess(response, responseData, MAGIC_LINK_SENT_MESSAGE);
+
+        } catch (error) {
+            console.error('Magic link request error:', error);
+            sendError(response, 500, 'Failed to process login link request', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log in with an emailed link
+     * The token comes from the query string (link opened directly) or the body
+     * (a frontend page posting it); either way it works only once.
+     * Responds exactly like a password login, including the two-factor challenge.
+     */
+    static async verifyMagicLink(request: IJwtRequest, response: Response): Promise<void> {
+        const token = (request.method === 'GET' ? request.query.token : request.body.token) as string;
+
+        try {
+            const accountId = await consumeMagicLinkToken(token);
+            if (!accountId) {
+                sendError(response, 400, 'Login link is invalid, expired or already used', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            const account = await findLoginAccountById(accountId);
+            if (!account) {
+                sendError(response, 400, 'Login link is invalid, expired or already used', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            if (account.account_status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (account.account_status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            await completeLogin(account, request, response, 'Login successful', 'magic_link');
+
+        } catch (error) {
+            console.error('Magic link login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
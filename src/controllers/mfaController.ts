@@ -0,0 +1,286 @@
+// src/controllers/mfaController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    getEnvVar,
+    authenticateWithPassword,
+    verifyToken,
+    generateTotpSecret,
+    buildOtpauthUri,
+    verifyTotp,
+    getMfaSettings,
+    generateRecoveryCodes,
+    replaceRecoveryCodes,
+    verifyMfaCode,
+    countRemainingRecoveryCodes,
+    findLoginAccountById,
+    issueLoginTokens,
+    getSessionContext,
+    isIpRateLimited,
+    recordFailedLogin,
+    notifyAccountLocked,
+    executeTransactionWithResponse,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+export class MfaController {
+    /**
+     * Start TOTP enrollment
+     * Generates a new secret; 2FA is not enabled until the first code is confirmed
+     */
+    static async setupTotp(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        try {
+            const userResult = await pool.query(
+                'SELECT Email FROM Account WHERE Account_ID = $1',
+                [userId]
+            );
+
+            if (userResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const settings = await getMfaSettings(userId);
+            if (settings?.enabled) {
+                sendError(response, 400, 'Two-factor authentication is already enabled', ErrorCodes.MFA_ALREADY_ENABLED);
+                return;
+            }
+
+            // Replace any unfinished enrollment with a fresh secret
+            const secret = generateTotpSecret();
+            await pool.query(
+                `INSERT INTO Account_MFA (Account_ID, Totp_Secret, Enabled)
+                 VALUES ($1, $2, FALSE)
+                 ON CONFLICT (Account_ID)
+                 DO UPDATE SET Totp_Secret = $2, Enabled = FALSE, Last_Used_Step = NULL, Created_At = NOW()`,
+                [userId, secret]
+            );
+
+            const issuer = getEnvVar('MFA_ISSUER', 'Auth²');
+            const otpauthUri = buildOtpauthUri(secret, userResult.rows[0].email, issuer);
+
+            sendSuccess(response, {
+                secret,
+                otpauthUri,
+                next: 'Scan the URI as a QR code, then confirm with POST /auth/mfa/totp/confirm',
+            }, 'Two-factor enrollment started');
+
+        } catch (error) {
+            console.error('TOTP setup error:', error);
+            sendError(response, 500, 'Failed to start two-factor enrollment', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm TOTP enrollment with the first code from the authenticator app
+     * Enables 2FA and returns one-time recovery codes (shown only once)
+     */
+    static async confirmTotp(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { code } = request.body;
+
+        try {
+            const settings = await getMfaSettings(userId);
+
+            if (!settings) {
+                sendError(response, 400, 'Start enrollment with POST /auth/mfa/totp/setup first', ErrorCodes.MFA_SETUP_REQUIRED);
+                return;
+            }
+            if (settings.enabled) {
+                sendError(response, 400, 'Two-factor authentication is already enabled', ErrorCodes.MFA_ALREADY_ENABLED);
+                return;
+            }
+
+            const step = verifyTotp(settings.totp_secret, code);
+            if (step === null) {
+                sendError(response, 400, 'Invalid authentication code', ErrorCodes.MFA_INVALID_CODE);
+                return;
+            }
+
+            const recoveryCodes = generateRecoveryCodes();
+
+            await executeTransactionWithResponse(
+                async (client) => {
+                    await client.query(
+                        `UPDATE Account_MFA
+                         SET Enabled = TRUE, Enabled_At = NOW(), Last_Used_Step = $1
+                         WHERE Account_ID = $2`,
+                        [step, userId]
+                    );
+
+                    await replaceRecoveryCodes(client, userId, recoveryCodes);
+
+                    await recordAuditEvent({
+                        ...getAuditContext(request),
+                        action: AUDIT_ACTIONS.MFA_ENABLED,
+                        targetId: userId,
+                        metadata: { method: 'totp' },
+                    }, client);
+
+                    return {
+                        recoveryCodes,
+                        note: 'Store these recovery codes somewhere safe. Each can be used once if you lose your authenticator.',
+                    };
+                },
+                response,
+                'Two-factor authentication enabled',
+                'Failed to enable two-factor authentication'
+            );
+
+        } catch (error) {
+            console.error('TOTP confirm error:', error);
+            sendError(response, 500, 'Failed to enable two-factor authentication', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Disable TOTP (requires the password and a current or recovery code)
+     */
+    static async disableTotp(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { password, code } = request.body;
+
+        try {
+            const settings = await getMfaSettings(userId);
+            if (!settings?.enabled) {
+                sendError(response, 400, 'Two-factor authentication is not enabled', ErrorCodes.MFA_NOT_ENABLED);
+                return;
+            }
+
+            const account = await findLoginAccountById(userId);
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            // Wrong passwords count towards the lockout, so a stolen session cannot guess it
+            const result = await authenticateWithPassword(account.email, password, request.ip ?? 'unknown');
+
+            if (result.status === 'rate_limited') {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (result.status === 'invalid') {
+                sendError(response, 401, 'Invalid password', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+            if (result.status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (result.status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            if (!(await verifyMfaCode(userId, code))) {
+                sendError(response, 400, 'Invalid authentication code', ErrorCodes.MFA_INVALID_CODE);
+                return;
+            }
+
+            await executeTransactionWithResponse(
+                async (client) => {
+                    await client.query('DELETE FROM MFA_Recovery_Code WHERE Account_ID = $1', [userId]);
+                    await client.query('DELETE FROM Account_MFA WHERE Account_ID = $1', [userId]);
+
+                    await recordAuditEvent({
+                        ...getAuditContext(request),
+                        action: AUDIT_ACTIONS.MFA_DISABLED,
+                        targetId: userId,
+                        metadata: { method: 'totp' },
+                    }, client);
+
+                    return null;
+                },
+                response,
+                'Two-factor authentication disabled',
+                'Failed to disable two-factor authentication'
+            );
+
+        } catch (error) {
+            console.error('TOTP disable error:', error);
+            sendError(response, 500, 'Failed to disable two-factor authentication', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Finish a login that returned a two-factor challenge
+     * Exchanges the challenge token plus a TOTP or recovery code for the normal login response
+     */
+    static async completeMfaLogin(request: IJwtRequest, response: Response): Promise<void> {
+        const { mfaToken, code } = request.body;
+        const ipAddress = request.ip ?? 'unknown';
+
+        try {
+            // Throttle sources that are guessing codes across many challenges
+            if (await isIpRateLimited(ipAddress)) {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+
+            let decoded: { id: number; type: string; factor?: string };
+            try {
+                decoded = verifyToken(mfaToken);
+            } catch {
+                sendError(response, 401, 'Two-factor challenge is invalid or expired. Please log in again.', ErrorCodes.MFA_CHALLENGE_INVALID);
+                return;
+            }
+
+            if (decoded.type !== 'mfa_pending') {
+                sendError(response, 401, 'Invalid two-factor challenge', ErrorCodes.MFA_CHALLENGE_INVALID);
+                return;
+            }
+
+            const account = await findLoginAccountById(decoded.id);
+            if (!account) {
+                sendError(response, 401, 'Invalid two-factor challenge', ErrorCodes.MFA_CHALLENGE_INVALID);
+                return;
+            }
+
+            if (account.account_status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (account.account_status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            const method = await verifyMfaCode(account.account_id, code);
+
+            if (!method) {
+                // Wrong codes count towards the same lockout as wrong passwords
+                const failure = await recordFailedLogin(account.account_id, account.email, ipAddress);
+
+                if (failure.locked) {
+                    await notifyAccountLocked(account, failure.lockedUntil);
+                    sendError(response, 403, 'Too many failed attempts. Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                    return;
+                }
+
+                sendError(response, 401, 'Invalid authentication code', ErrorCodes.MFA_INVALID_CODE);
+                return;
+            }
+
+            const loginData: Record<string, unknown> = await issueLoginTokens(account, getSessionContext(request), `${decoded.factor ?? 'password'}+${method}`);
+
+            if (method === 'recovery') {
+                loginData.recoveryCodesRemaining = await countRemainingRecoveryCodes(account.account_id);
+            }
+
+            sendSuccess(response, loginData, 'Login successful');
+
+        } catch (error) {
+            console.error('MFA login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,661 @@
+// src/controllers/oauthController.ts
+import { Request, Response } from 'express';
+import {
+    pool,
+    generateAccessToken,
+    generateIdToken,
+    generateServiceToken,
+    verifyToken,
+    authenticateWithPassword,
+    findLoginAccountById,
+    isMfaEnabled,
+    verifyMfaCode,
+    recordFailedLogin,
+    recordSuccessfulLogin,
+    notifyAccountLocked,
+    rotateRefreshToken,
+    revokeRefreshTokenFamily,
+    touchSession,
+    getSessionContext,
+    isAccessTokenRevoked,
+    revokeAccessToken,
+    findOAuthClient,
+    authenticateOAuthClient,
+    readClientCredentials,
+    authenticateServiceAccount,
+    resolveScopes,
+    isValidCodeChallenge,
+    createAuthorizationCode,
+    exchangeAuthorizationCode,
+    findClientRefreshToken,
+    sendOAuthError,
+    sendBearerTokenError,
+    findOidcUser,
+    buildUserClaims,
+    getOidcIssuer,
+    OIDC_SCOPE_CLAIMS,
+    renderAuthorizePage,
+    renderAuthorizeErrorPage,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS,
+    OAuthClient,
+    LoginAccount
+} from '@utilities';
+import { IJwtClaims } from '@models';
+
+/**
+ * Parameters of an authorization request, carried from the query string
+ * through the sign-in form
+ */
+const AUTHORIZE_PARAMS = [
+    'response_type',
+    'client_id',
+    'redirect_uri',
+    'scope',
+    'state',
+    'code_challenge',
+    'code_challenge_method',
+    'nonce',
+] as const;
+
+type AuthorizeParams = Partial<Record<typeof AUTHORIZE_PARAMS[number], string>>;
+
+/**
+ * Result of validating an authorization request
+ * - fatal: client or redirect URI cannot be trusted, so show an error page instead of redirecting
+ * - redirect: the request is invalid; report the error to the client's redirect URI
+ * - valid: show the sign-in and consent form
+ */
+type AuthorizeCheck =
+    | { status: 'fatal'; message: string }
+    | { status: 'redirect'; redirectUri: string; error: string; description: string }
+    | { status: 'valid'; client: OAuthClient; scopes: string[]; redirectUri: string };
+
+const pickAuthorizeParams = (source: Record<string, unknown>): AuthorizeParams => {
+    const params: AuthorizeParams = {};
+    for (const name of AUTHORIZE_PARAMS) {
+        if (typeof source[name] === 'string') {
+            params[name] = source[name] as string;
+        }
+    }
+    return params;
+};
+
+const checkAuthorizeRequest = async (params: AuthorizeParams): Promise<AuthorizeCheck> => {
+    const client = params.client_id ? await findOAuthClient(params.client_id) : null;
+    if (!client) {
+        return { status: 'fatal', message: 'Unknown application' };
+    }
+
+    // Exact match only - never redirect to a URI the client did not register
+    if (!params.redirect_uri || !client.redirectUris.includes(params.redirect_uri)) {
+        return { status: 'fatal', message: 'The redirect URI is not registered for this application' };
+    }
+
+    const redirectUri = params.redirect_uri;
+
+    if (params.response_type !== 'code') {
+        return { status: 'redirect', redirectUri, error: 'unsupported_response_type', description: 'Only response_type=code is supported' };
+    }
+    if (!params.code_challenge || !isValidCodeChallenge(params.code_challenge) || params.code_challenge_method !== 'S256') {
+        return { status: 'redirect', redirectUri, error: 'invalid_request', description: 'PKCE with code_challenge_method=S256 is required' };
+    }
+
+    if (params.nonce !== undefined && params.nonce.length > 255) {
+        return { status: 'redirect', redirectUri, error: 'invalid_request', description: 'nonce must be at most 255 characters' };
+    }
+
+    const scopes = resolveScopes(params.scope, client.scopes);
+    if (!scopes) {
+        return { status: 'redirect', redirectUri, error: 'invalid_scope', description: 'Requested scope is not allowed for this application' };
+    }
+
+    return { status: 'valid', client, scopes, redirectUri };
+};
+
+/**
+ * Send the user back to the client with the result of the authorization
+ */
+const redirectToClient = (
+    response: Response,
+    redirectUri: string,
+    result: Record<string, string>,
+    state: string | undefined,
+    status: number = 302
+): void => {
+    const url = new URL(redirectUri);
+    for (const [name, value] of Object.entries(result)) {
+        url.searchParams.set(name, value);
+    }
+    if (state !== undefined) {
+        url.searchParams.set('state', state);
+    }
+    response.redirect(status, url.toString());
+};
+
+/**
+ * Send an authorization page - never framed (clickjacking) and never cached
+ */
+const sendAuthorizePage = (response: Response, status: number, html: string): void => {
+    response.set({
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Frame-Options': 'DENY',
+        'Content-Security-Policy': "frame-ancestors 'none'",
+    });
+    response.status(status).send(html);
+};
+
+/**
+ * Tokens to issue for a successful grant
+ */
+interface OAuthGrant {
+    account: Pick<LoginAccount, 'account_id' | 'email' | 'account_role'>;
+    client: OAuthClient;
+    sessionId: string;
+    scope: string;
+    refreshToken: string;
+    authenticatedAt: Date;
+    nonce?: string | null;
+}
+
+/**
+ * Issue an access token (and an ID token for the openid scope) and send the token response (RFC 6749 §5.1)
+ */
+const sendTokenResponse = async (response: Response, grant: OAuthGrant): Promise<void> => {
+    const accessToken = generateAccessToken({
+        id: grant.account.account_id,
+        email: grant.account.email,
+        role: grant.account.account_role,
+        sessionId: grant.sessionId,
+        clientId: grant.client.clientId,
+        scope: grant.scope,
+    });
+    const { iat, exp } = verifyToken<{ iat: number; exp: number }>(accessToken);
+
+    let idToken: string | undefined;
+    const scopes = grant.scope.split(' ');
+    if (scopes.includes('openid')) {
+        const user = await findOidcUser(grant.account.account_id);
+        idToken = generateIdToken({
+            issuer: getOidcIssuer(),
+            clientId: grant.client.clientId,
+            authTime: new Date(grant.authenticatedAt),
+            nonce: grant.nonce,
+            claims: buildUserClaims(user, scopes),
+        });
+    }
+
+    response.set('Cache-Control', 'no-store');
+    response.json({
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: exp - iat,
+        refresh_token: grant.refreshToken,
+        scope: grant.scope,
+        ...(idToken && { id_token: idToken }),
+    });
+};
+
+/**
+ * Client credentials grant (RFC 6749 §4.4)
+ * Service accounts authenticate with their own credentials and receive a
+ * service token - no refresh token, they simply request a new one
+ */
+const sendServiceTokenResponse = async (request: Request, response: Response): Promise<void> => {
+    const credentials = readClientCredentials(request);
+    const serviceAccount = credentials ? await authenticateServiceAccount(credentials) : null;
+
+    if (!serviceAccount) {
+        if (request.headers['authorization']?.startsWith('Basic ')) {
+            response.set('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+        sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+        return;
+    }
+
+    const requested = typeof request.body.scope === 'string' ? request.body.scope : undefined;
+    const scopes = resolveScopes(requested, serviceAccount.scopes);
+    if (!scopes) {
+        sendOAuthError(response, 400, 'invalid_scope', 'Requested scope is not allowed for this service account');
+        return;
+    }
+
+    const scope = scopes.join(' ');
+    const accessToken = generateServiceToken({ clientId: serviceAccount.clientId, scope });
+    const { iat, exp } = verifyToken<{ iat: number; exp: number }>(accessToken);
+
+    response.set('Cache-Control', 'no-store');
+    response.json({
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: exp - iat,
+        scope,
+    });
+};
+
+/**
+ * Decode an access token issued to the given client, or null if it is not one
+ */
+const decodeClientAccessToken = (
+    token: string,
+    client: OAuthClient
+): (IJwtClaims & { client_id: string; scope: string }) | null => {
+    try {
+        const claims = verifyToken<IJwtClaims & { client_id?: string; scope?: string; type?: string }>(token);
+        return !claims.type && claims.client_id === client.clientId
+            ? claims as IJwtClaims & { client_id: string; scope: string }
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+export class OAuthController {
+    /**
+     * Show the sign-in and consent page for an authorization request
+     */
+    static async authorize(request: Request, response: Response): Promise<void> {
+        const params = pickAuthorizeParams(request.query);
+
+        try {
+            const check = await checkAuthorizeRequest(params);
+
+            if (check.status === 'fatal') {
+                sendAuthorizePage(response, 400, renderAuthorizeErrorPage(check.message));
+                return;
+            }
+            if (check.status === 'redirect') {
+                redirectToClient(response, check.redirectUri, { error: check.error, error_description: check.description }, params.state);
+                return;
+            }
+
+            sendAuthorizePage(response, 200, renderAuthorizePage({
+                clientName: check.client.name,
+                scopes: check.scopes,
+                params,
+            }));
+
+        } catch (error) {
+            console.error('OAuth authorize error:', error);
+            sendAuthorizePage(response, 500, renderAuthorizeErrorPage('Server error - please try again later'));
+        }
+    }
+
+    /**
+     * Handle the sign-in and consent form
+     * Verifies the user's credentials (and second factor), then redirects back
+     * to the client with an authorization code - or access_denied if the user declined
+     */
+    static async authorizeSubmit(request: Request, response: Response): Promise<void> {
+        const params = pickAuthorizeParams(request.body);
+        const { email, password, mfa_code: mfaCode, decision } = request.body;
+        const ipAddress = request.ip ?? 'unknown';
+
+        try {
+            const check = await checkAuthorizeRequest(params);
+
+            if (check.status === 'fatal') {
+                sendAuthorizePage(response, 400, renderAuthorizeErrorPage(check.message));
+                return;
+            }
+            if (check.status === 'redirect') {
+                redirectToClient(response, check.redirectUri, { error: check.error, error_description: check.description }, params.state, 303);
+                return;
+            }
+
+            if (decision !== 'allow') {
+                redirectToClient(response, check.redirectUri, { error: 'access_denied', error_description: 'The user denied the request' }, params.state, 303);
+                return;
+            }
+
+            const showError = (status: number, message: string) => sendAuthorizePage(response, status, renderAuthorizePage({
+                clientName: check.client.name,
+                scopes: check.scopes,
+                params,
+                email: typeof email === 'string' ? email : undefined,
+                error: message,
+            }));
+
+            if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+                showError(400, 'Enter your email and password');
+                return;
+            }
+
+            const auth = await authenticateWithPassword(email, password, ipAddress);
+
+            if (auth.status === 'rate_limited') {
+                showError(429, 'Too many failed login attempts. Please try again later.');
+                return;
+            }
+            if (auth.status === 'invalid') {
+                showError(401, 'Invalid email or password');
+                return;
+            }
+            if (auth.status === 'suspended') {
+                showError(403, 'Account is suspended. Please contact support.');
+                return;
+            }
+            if (auth.status === 'locked') {
+                showError(403, 'Account is locked. Check your email for an unlock link.');
+                return;
+            }
+
+            const account = auth.account;
+
+            if (await isMfaEnabled(account.account_id)) {
+                if (typeof mfaCode !== 'string' || !mfaCode.trim()) {
+                    showError(401, 'Enter the code from your authenticator app');
+                    return;
+                }
+
+                if (!await verifyMfaCode(account.account_id, mfaCode.trim())) {
+                    // Wrong codes count towards the same lockout as wrong passwords
+                    const failure = await recordFailedLogin(account.account_id, account.email, ipAddress);
+                    if (failure.locked) {
+                        await notifyAccountLocked(account, failure.lockedUntil);
+                        showError(403, 'Too many failed attempts. Account is locked. Check your email for an unlock link.');
+                        return;
+                    }
+
+                    showError(401, 'Invalid authentication code');
+                    return;
+                }
+            }
+
+            // Every factor has passed - only now clear the failed login counters
+            await recordSuccessfulLogin(account.account_id, account.email, ipAddress);
+
+            const scope = check.scopes.join(' ');
+            const code = await createAuthorizationCode({
+                clientId: check.client.clientId,
+                accountId: account.account_id,
+                redirectUri: check.redirectUri,
+                scope,
+                codeChallenge: params.code_challenge as string,
+                nonce: params.nonce,
+            });
+
+            await recordAuditEvent({
+                ...getAuditContext(request, account.account_id),
+                action: AUDIT_ACTIONS.OAUTH_AUTHORIZE,
+                targetId: account.account_id,
+                metadata: { clientId: check.client.clientId, scope },
+            });
+
+            redirectToClient(response, check.redirectUri, { code }, params.state, 303);
+
+        } catch (error) {
+            console.error('OAuth authorize submit error:', error);
+            sendAuthorizePage(response, 500, renderAuthorizeErrorPage('Server error - please try again later'));
+        }
+    }
+
+    /**
+     * Token endpoint
+     * Supports the authorization_code (with PKCE) and refresh_token grants for
+     * OAuth clients, and the client_credentials grant for service accounts
+     */
+    static async token(request: Request, response: Response): Promise<void> {
+        try {
+            if (request.body?.grant_type === 'client_credentials') {
+                await sendServiceTokenResponse(request, response);
+                return;
+            }
+
+            const client = await authenticateOAuthClient(request);
+            if (!client) {
+                if (request.headers['authorization']?.startsWith('Basic ')) {
+                    response.set('WWW-Authenticate', 'Basic realm="oauth"');
+                }
+                sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+                return;
+            }
+
+            const { grant_type: grantType } = request.body;
+
+            if (grantType === 'authorization_code') {
+                const { code, redirect_uri: redirectUri, code_verifier: codeVerifier } = request.body;
+
+                if (typeof code !== 'string' || typeof redirectUri !== 'string' || typeof codeVerifier !== 'string') {
+                    sendOAuthError(response, 400, 'invalid_request', 'code, redirect_uri and code_verifier are required');
+                    return;
+                }
+
+                const exchange = await exchangeAuthorizationCode(
+                    code, client.clientId, redirectUri, codeVerifier, getSessionContext(request)
+                );
+
+                if (exchange.status === 'reused') {
+                    console.warn(`Authorization code reuse detected for account ${exchange.accountId} - session revoked`);
+                    await recordAuditEvent({
+                        ...getAuditContext(request, null),
+                        action: AUDIT_ACTIONS.OAUTH_CODE_REUSED,
+                        targetId: exchange.accountId,
+                        metadata: { clientId: client.clientId },
+                    });
+                }
+                if (exchange.status !== 'issued') {
+                    sendOAuthError(response, 400, 'invalid_grant', 'Authorization code is invalid, expired or already used');
+                    return;
+                }
+
+                const account = await findLoginAccountById(exchange.accountId);
+                if (!account || account.account_status === 'suspended' || account.account_status === 'locked') {
+                    await revokeRefreshTokenFamily(pool, exchange.sessionId);
+                    sendOAuthError(response, 400, 'invalid_grant', 'Account is not available');
+                    return;
+                }
+
+                await sendTokenResponse(response, {
+                    account,
+                    client,
+                    sessionId: exchange.sessionId,
+                    scope: exchange.scope,
+                    refreshToken: exchange.refreshToken.token,
+                    authenticatedAt: exchange.authenticatedAt,
+                    nonce: exchange.nonce,
+                });
+                return;
+            }
+
+            if (grantType === 'refresh_token') {
+                const { refresh_token: refreshToken } = request.body;
+
+                if (typeof refreshToken !== 'string') {
+                    sendOAuthError(response, 400, 'invalid_request', 'refresh_token is required');
+                    return;
+                }
+
+                const rotation = await rotateRefreshToken(refreshToken, client.clientId);
+
+                if (rotation.status === 'reused') {
+                    console.warn(`Refresh token reuse detected for account ${rotation.accountId} - token family revoked`);
+                    await recordAuditEvent({
+                        ...getAuditContext(request, rotation.accountId),
+                        action: AUDIT_ACTIONS.AUTH_REFRESH_TOKEN_REUSED,
+                        targetId: rotation.accountId,
+                        metadata: { clientId: client.clientId },
+                    });
+                }
+                if (rotation.status !== 'rotated') {
+                    sendOAuthError(response, 400, 'invalid_grant', 'Refresh token is invalid, expired or revoked');
+                    return;
+                }
+
+                // Re-check the account - status may have changed since authorization
+                const sessionId = rotation.refreshToken.familyId;
+                const account = await findLoginAccountById(rotation.accountId);
+                if (!account || account.account_status === 'suspended' || account.account_status === 'locked') {
+                    await revokeRefreshTokenFamily(pool, sessionId);
+                    sendOAuthError(response, 400, 'invalid_grant', 'Account is not available');
+                    return;
+                }
+
+                await touchSession(sessionId, request.ip);
+                await sendTokenResponse(response, {
+                    account,
+                    client,
+                    sessionId,
+                    scope: rotation.scope ?? '',
+                    refreshToken: rotation.refreshToken.token,
+                    authenticatedAt: rotation.authenticatedAt,
+                });
+                return;
+            }
+
+            sendOAuthError(response, 400, 'unsupported_grant_type', 'Supported grant types: authorization_code, refresh_token, client_credentials');
+
+        } catch (error) {
+            console.error('OAuth token error:', error);
+            sendOAuthError(response, 500, 'server_error');
+        }
+    }
+
+    /**
+     * OpenID Connect UserInfo endpoint
+     * Returns the standard claims released by the access token's scopes. OAuth
+     * access tokens need the openid scope; our own access tokens see every claim.
+     */
+    static async userinfo(request: Request, response: Response): Promise<void> {
+        const authorization = request.headers['authorization'];
+
+        if (!authorization?.startsWith('Bearer ')) {
+            sendBearerTokenError(response, 401, 'invalid_request', 'Bearer access token required');
+            return;
+        }
+
+        try {
+            let claims: IJwtClaims & { type?: string; aud?: string; client_id?: string; scope?: string };
+            try {
+                claims = verifyToken(authorization.slice(7));
+            } catch {
+                sendBearerTokenError(response, 401, 'invalid_token', 'Access token is invalid or expired');
+                return;
+            }
+
+            // Service tokens have no user behind them
+            if (claims.type || claims.aud || claims.principal === 'service' || await isAccessTokenRevoked(claims)) {
+                sendBearerTokenError(response, 401, 'invalid_token', 'Access token is invalid or revoked');
+                return;
+            }
+
+            const scopes = claims.client_id ? (claims.scope ?? '').split(' ') : Object.keys(OIDC_SCOPE_CLAIMS);
+            if (claims.client_id && !scopes.includes('openid')) {
+                sendBearerTokenError(response, 403, 'insufficient_scope', 'The openid scope is required');
+                return;
+            }
+
+            const user = await findOidcUser(claims.id);
+            if (!user) {
+                sendBearerTokenError(response, 401, 'invalid_token', 'Access token is invalid or revoked');
+                return;
+            }
+
+            response.set('Cache-Control', 'no-store');
+            response.json(buildUserClaims(user, scopes));
+
+        } catch (error) {
+            console.error('OIDC userinfo error:', error);
+            sendOAuthError(response, 500, 'server_error');
+        }
+    }
+
+    /**
+     * Token introspection (RFC 7662)
+     * Clients can only introspect tokens that were issued to them
+     */
+    static async introspect(request: Request, response: Response): Promise<void> {
+        try {
+            const client = await authenticateOAuthClient(request);
+            if (!client) {
+                sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+                return;
+            }
+
+            const { token } = request.body;
+            if (typeof token !== 'string' || !token) {
+                sendOAuthError(response, 400, 'invalid_request', 'token is required');
+                return;
+            }
+
+            response.set('Cache-Control', 'no-store');
+
+            const claims = decodeClientAccessToken(token, client);
+            if (claims) {
+                if (await isAccessTokenRevoked(claims)) {
+                    response.json({ active: false });
+                    return;
+                }
+
+                response.json({
+                    active: true,
+                    token_type: 'Bearer',
+                    client_id: claims.client_id,
+                    scope: claims.scope,
+                    sub: String(claims.id),
+                    iat: claims.iat,
+                    exp: claims.exp,
+                });
+                return;
+            }
+
+            const refreshToken = await findClientRefreshToken(token, client.clientId);
+            if (refreshToken?.active) {
+                response.json({
+                    active: true,
+                    token_type: 'refresh_token',
+                    client_id: client.clientId,
+                    scope: refreshToken.scope,
+                    sub: String(refreshToken.accountId),
+                    iat: Math.floor(new Date(refreshToken.createdAt).getTime() / 1000),
+                    exp: Math.floor(new Date(refreshToken.expiresAt).getTime() / 1000),
+                });
+                return;
+            }
+
+            response.json({ active: false });
+
+        } catch (error) {
+            console.error('OAuth introspection error:', error);
+            sendOAuthError(response, 500, 'server_error');
+        }
+    }
+
+    /**
+     * Token revocation (RFC 7009)
+     * Revoking a refresh token ends the whole grant; unknown tokens are not an error
+     */
+    static async revoke(request: Request, response: Response): Promise<void> {
+        try {
+            const client = await authenticateOAuthClient(request);
+            if (!client) {
+                sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+                return;
+            }
+
+            const { token } = request.body;
+            if (typeof token !== 'string' || !token) {
+                sendOAuthError(response, 400, 'invalid_request', 'token is required');
+                return;
+            }
+
+            const claims = decodeClientAccessToken(token, client);
+            if (claims?.jti && claims.exp) {
+                await revokeAccessToken(claims.jti, claims.id, new Date(claims.exp * 1000));
+            } else {
+                const refreshToken = await findClientRefreshToken(token, client.clientId);
+                if (refreshToken) {
+                    await revokeRefreshTokenFamily(pool, refreshToken.sessionId);
+                }
+            }
+
+            response.status(200).end();
+
+        } catch (error) {
+            console.error('OAuth revocation error:', error);
+            sendOAuthError(response, 503, 'temporarily_unavailable');
+        }
+    }
+}
@@ -0,0 +1,98 @@
+// src/controllers/personalAccessTokenController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    createPersonalAccessToken,
+    listPersonalAccessTokens,
+    revokePersonalAccessToken,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+export class PersonalAccessTokenController {
+    /**
+     * Create a personal access token for the caller
+     * The token is only returned in this response - it cannot be retrieved later
+     */
+    static async createToken(request: IJwtRequest, response: Response): Promise<void> {
+        const { name, scopes, expiresAt } = request.body;
+        const userId = request.claims.id;
+
+        try {
+            const created = await createPersonalAccessToken(pool, userId, {
+                name,
+                scopes: [...new Set<string>(scopes)],
+                expiresAt: new Date(expiresAt),
+            });
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.TOKEN_CREATE,
+                targetId: userId,
+                metadata: {
+                    tokenId: created.summary.id,
+                    name: created.summary.name,
+                    scopes: created.summary.scopes,
+                    expiresAt: created.summary.expiresAt,
+                },
+            });
+
+            sendSuccess(response, {
+                token: created.token,
+                ...created.summary,
+            }, 'Access token created. Copy it now - it will not be shown again.');
+
+        } catch (error) {
+            console.error('Create access token error:', error);
+            sendError(response, 500, 'Failed to create access token', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * List the caller's active personal access tokens (never the tokens themselves)
+     */
+    static async listTokens(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const tokens = await listPersonalAccessTokens(request.claims.id);
+            sendSuccess(response, { tokens }, 'Access tokens retrieved successfully');
+
+        } catch (error) {
+            console.error('List access tokens error:', error);
+            sendError(response, 500, 'Failed to retrieve access tokens', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Revoke one of the caller's personal access tokens
+     */
+    static async revokeToken(request: IJwtRequest, response: Response): Promise<void> {
+        const tokenId = Number(request.params.tokenId);
+
+        try {
+            const revoked = await revokePersonalAccessToken(request.claims.id, tokenId);
+
+            if (!revoked) {
+                sendError(response, 404, 'Access token not found', ErrorCodes.AUTH_ACCESS_TOKEN_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.TOKEN_REVOKE,
+                targetId: request.claims.id,
+                metadata: { tokenId, name: revoked.name },
+            });
+
+            sendSuccess(response, null, 'Access token revoked successfully');
+
+        } catch (error) {
+            console.error('Revoke access token error:', error);
+            sendError(response, 500, 'Failed to revoke access token', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,520 @@
+// src/controllers/profileController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    getEnvVar,
+    isDevelopment,
+    validateUserUniqueness,
+    createEmailChangeRequest,
+    confirmEmailChange,
+    undoEmailChange,
+    findLoginAccountById,
+    sendEmailChangeConfirmationEmail,
+    sendEmailChangedNotice,
+    createPhoneChangeCode,
+    confirmPhoneChange,
+    sendSMSViaEmail,
+    authenticateWithPassword,
+    scheduleAccountDeletion,
+    cancelAccountDeletion,
+    sendAccountDeletionScheduledEmail,
+    buildAccountExport,
+    withTransaction,
+    recordAuditEvent,
+    getAuditContext,
+    diffChanges,
+    AUDIT_ACTIONS
+} from '@utilities';
+import {
+    IJwtRequest,
+    IUser,
+    ACCOUNT_DELETION_GRACE_DAYS,
+    EMAIL_CHANGE_EXPIRY_HOURS,
+    EMAIL_CHANGE_UNDO_DAYS,
+    PROFILE_UPDATE_FIELDS,
+    RoleName,
+    SMS_CODE_EXPIRY_MINUTES
+} from '@models';
+
+const PROFILE_COLUMNS = `Account_ID, FirstName, LastName, Username, Email, Phone, Account_Role,
+                         Email_Verified, Phone_Verified, Account_Status, Deletion_Scheduled_At,
+                         Created_At, Updated_At`;
+
+/**
+ * The caller's own view of their account
+ */
+const toProfile = (user: IUser) => ({
+    id: user.account_id,
+    firstname: user.firstname,
+    lastname: user.lastname,
+    username: user.username,
+    email: user.email,
+    phone: user.phone,
+    role: RoleName[user.account_role] || 'User',
+    emailVerified: user.email_verified,
+    phoneVerified: user.phone_verified,
+    accountStatus: user.account_status,
+    deletionScheduledAt: user.deletion_scheduled_at ?? null,
+    createdAt: user.created_at,
+    updatedAt: user.updated_at,
+});
+
+export class ProfileController {
+    /**
+     * Get the caller's profile
+     */
+    static async getProfile(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const result = await pool.query(
+                `SELECT ${PROFILE_COLUMNS} FROM Account WHERE Account_ID = $1`,
+                [request.claims.id]
+            );
+
+            if (result.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            sendSuccess(response, { user: toProfile(result.rows[0]) }, 'Profile retrieved successfully');
+
+        } catch (error) {
+            console.error('Get profile error:', error);
+            sendError(response, 500, 'Failed to retrieve profile', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Update the caller's name and username
+     * Only the fields sent are changed; validateProfileUpdate rejects anything else
+     */
+    static async updateProfile(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const updates = PROFILE_UPDATE_FIELDS.filter((field) => request.body[field] !== undefined);
+
+        try {
+            const usernameTaken = await validateUserUniqueness({ username: request.body.username }, response, userId);
+            if (usernameTaken) return;
+
+            const result = await withTransaction(async (client) => {
+                const before = await client.query(
+                    'SELECT FirstName, LastName, Username FROM Account WHERE Account_ID = $1 FOR UPDATE',
+                    [userId]
+                );
+
+                if (before.rowCount === 0) return null;
+
+                // Column names come from PROFILE_UPDATE_FIELDS, never from the request
+                const assignments = updates.map((field, index) => `${field} = $${index + 1}`);
+                const updated = await client.query(
+                    `UPDATE Account
+                     SET ${assignments.join(', ')}, Updated_At = NOW()
+                     WHERE Account_ID = $${updates.length + 1}
+                     RETURNING ${PROFILE_COLUMNS}`,
+                    [...updates.map((field) => request.body[field]), userId]
+                );
+
+                const user = updated.rows[0];
+                const changes = diffChanges(before.rows[0], {
+                    firstname: user.firstname,
+                    lastname: user.lastname,
+                    username: user.username,
+                });
+
+                if (Object.keys(changes).length > 0) {
+                    await recordAuditEvent({
+                        ...getAuditContext(request),
+                        action: AUDIT_ACTIONS.PROFILE_UPDATE,
+                        targetId: userId,
+                        changes,
+                    }, client);
+                }
+
+                return user;
+            });
+
+            if (!result.success) throw result.error;
+            if (!result.data) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            sendSuccess(response, { user: toProfile(result.data) }, 'Profile updated successfully');
+
+        } catch (error) {
+            console.error('Update profile error:', error);
+            sendError(response, 500, 'Failed to update profile', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Start changing the caller's email address
+     * Nothing changes until the link sent to the new address is opened
+     */
+    static async requestEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { newEmail } = request.body;
+
+        try {
+            const userResult = await pool.query(
+                'SELECT FirstName, Email FROM Account WHERE Account_ID = $1',
+                [userId]
+            );
+
+            if (userResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const { firstname, email } = userResult.rows[0];
+
+            if (newEmail === email) {
+                sendError(response, 400, 'New email is the same as the current one', ErrorCodes.VALD_INVALID_EMAIL);
+                return;
+            }
+
+            const emailTaken = await validateUserUniqueness({ email: newEmail }, response, userId);
+            if (emailTaken) return;
+
+            const token = await createEmailChangeRequest(userId, email, newEmail);
+            if (!token) {
+                sendError(response, 429, 'Please wait before requesting another confirmation email', ErrorCodes.VRFY_RATE_LIMIT_EXCEEDED);
+                return;
+            }
+
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const confirmUrl = `${baseUrl}/auth/email-change/confirm?token=${token}`;
+
+            const emailSent = await sendEmailChangeConfirmationEmail(newEmail, firstname, confirmUrl, EMAIL_CHANGE_EXPIRY_HOURS);
+            if (!emailSent && !isDevelopment()) {
+                sendError(response, 500, 'Failed to send confirmation email', ErrorCodes.SRVR_EMAIL_SEND_FAILED);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.PROFILE_EMAIL_CHANGE_REQUEST,
+                targetId: userId,
+                metadata: { newEmail },
+            });
+
+            sendSuccess(response, {
+                pendingEmail: newEmail,
+                expiresIn: `${EMAIL_CHANGE_EXPIRY_HOURS} hours`,
+                // In development, include the confirmation URL
+                ...(isDevelopment() && { confirmUrl }),
+            }, 'Confirmation email sent to the new address');
+
+        } catch (error) {
+            console.error('Request email change error:', error);
+            sendError(response, 500, 'Failed to start email change', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm an email change from the link sent to the new address
+     * Sends the old address a notice with an undo link
+     */
+    static async confirmEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await confirmEmailChange(token);
+
+            if (result.status === 'invalid') {
+                sendError(response, 400, 'Invalid or expired confirmation link', ErrorCodes.VRFY_INVALID_TOKEN);
+                return;
+            }
+            if (result.status === 'email_taken') {
+                sendError(response, 409, 'This email address is now used by another account', ErrorCodes.AUTH_EMAIL_EXISTS);
+                return;
+            }
+
+            const { change, undoToken } = result;
+
+            await recordAuditEvent({
+                ...getAuditContext(request, change.accountId),
+                action: AUDIT_ACTIONS.PROFILE_EMAIL_CHANGE,
+                targetId: change.accountId,
+                changes: { email: { from: change.oldEmail, to: change.newEmail } },
+            });
+
+            // The change is done - a failed notice is logged, not reported to the user
+            const account = await findLoginAccountById(change.accountId);
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const undoUrl = `${baseUrl}/auth/email-change/undo?token=${undoToken}`;
+
+            const noticeSent = await sendEmailChangedNotice(change.oldEmail, account?.firstname ?? '', change.newEmail, undoUrl, EMAIL_CHANGE_UNDO_DAYS);
+            if (!noticeSent) {
+                console.error(`Failed to send email change notice for account ${change.accountId}`);
+            }
+
+            sendSuccess(response, { email: change.newEmail }, 'Email address changed successfully');
+
+        } catch (error) {
+            console.error('Confirm email change error:', error);
+            sendError(response, 500, 'Failed to change email', ErrorCodes.SRVR_TRANSACTION_FAILED);
+        }
+    }
+
+    /**
+     * Undo an email change from the link sent to the old address
+     * Restores the old address and logs out every session
+     */
+    static async undoEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await undoEmailChange(token);
+
+            if (result.status === 'invalid') {
+                sendError(response, 400, 'Invalid or expired undo link', ErrorCodes.VRFY_INVALID_TOKEN);
+                return;
+            }
+            if (result.status === 'email_taken') {
+                sendError(response, 409, 'This email address is now used by another account. Please contact support.', ErrorCodes.AUTH_EMAIL_EXISTS);
+                return;
+            }
+
+            const { change } = result;
+
+            await recordAuditEvent({
+                ...getAuditContext(request, change.accountId),
+                action: AUDIT_ACTIONS.PROFILE_EMAIL_CHANGE_UNDO,
+                targetId: change.accountId,
+                changes: { email: { from: change.newEmail, to: change.oldEmail } },
+            });
+
+            sendSuccess(
+                response,
+                { email: change.oldEmail },
+                'Email change undone and all devices logged out. If you did not make this change, reset your password now.'
+            );
+
+        } catch (error) {
+            console.error('Undo email change error:', error);
+            sendError(response, 500, 'Failed to undo email change', ErrorCodes.SRVR_TRANSACTION_FAILED);
+        }
+    }
+
+    /**
+     * Start changing the caller's phone number
+     * Texts a code to the new number; nothing changes until it is entered
+     */
+    static async requestPhoneChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { newPhone, carrier } = request.body;
+
+        try {
+            const userResult = await pool.query(
+                'SELECT Phone FROM Account WHERE Account_ID = $1',
+                [userId]
+            );
+
+            if (userResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            if (newPhone === userResult.rows[0].phone) {
+                sendError(response, 400, 'New phone number is the same as the current one', ErrorCodes.VALD_INVALID_PHONE);
+                return;
+            }
+
+            const phoneTaken = await validateUserUniqueness({ phone: newPhone }, response, userId);
+            if (phoneTaken) return;
+
+            const code = await createPhoneChangeCode(userId, newPhone);
+            if (!code) {
+                sendError(response, 429, 'Please wait before requesting another SMS code', ErrorCodes.VRFY_RATE_LIMIT_EXCEEDED);
+                return;
+            }
+
+            const message = `Auth² Code: ${code}\nConfirms your new number\nExpires in ${SMS_CODE_EXPIRY_MINUTES} min\nDo not share`;
+            const smsSent = await sendSMSViaEmail(newPhone, message, carrier);
+
+            if (!smsSent && !isDevelopment()) {
+                sendError(response, 500, 'Failed to send SMS code', ErrorCodes.SRVR_SMS_SEND_FAILED);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.PROFILE_PHONE_CHANGE_REQUEST,
+                targetId: userId,
+                metadata: { newPhone },
+            });
+
+            sendSuccess(response, {
+                pendingPhone: newPhone,
+                expiresIn: `${SMS_CODE_EXPIRY_MINUTES} minutes`,
+                // In development, include the code
+                ...(isDevelopment() && { verificationCode: code }),
+            }, 'SMS code sent to the new number');
+
+        } catch (error) {
+            console.error('Request phone change error:', error);
+            sendError(response, 500, 'Failed to start phone change', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Finish a phone change with the code texted to the new number
+     */
+    static async confirmPhoneChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { code } = request.body;
+
+        try {
+            const result = await confirmPhoneChange(userId, code);
+
+            if (result.status === 'invalid') {
+                sendError(response, 400, 'Invalid or expired code. Please request a new one if needed.', ErrorCodes.VRFY_INVALID_CODE);
+                return;
+            }
+            if (result.status === 'too_many_attempts') {
+                sendError(response, 400, 'Too many failed attempts. Please request a new code.', ErrorCodes.VRFY_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (result.status === 'phone_taken') {
+                sendError(response, 409, 'This phone number is now used by another account', ErrorCodes.AUTH_PHONE_EXISTS);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.PROFILE_PHONE_CHANGE,
+                targetId: userId,
+                changes: { phone: { from: result.oldPhone, to: result.newPhone } },
+            });
+
+            sendSuccess(response, { phone: result.newPhone, phoneVerified: true }, 'Phone number changed successfully');
+
+        } catch (error) {
+            console.error('Confirm phone change error:', error);
+            sendError(response, 500, 'Failed to change phone number', ErrorCodes.SRVR_TRANSACTION_FAILED);
+        }
+    }
+
+    /**
+     * Delete the caller's account after a grace period
+     * Logs out every session; logging in again before the date allows cancelling
+     */
+    static async deleteAccount(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { password } = request.body;
+
+        try {
+            const account = await findLoginAccountById(userId);
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const result = await authenticateWithPassword(account.email, password, request.ip ?? 'unknown');
+
+            if (result.status === 'rate_limited') {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (result.status === 'invalid') {
+                sendError(response, 401, 'Invalid password', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+            if (result.status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (result.status === 'locked') {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            const deletionScheduledAt = await scheduleAccountDeletion(userId);
+            if (!deletionScheduledAt) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.ACCOUNT_DELETION_REQUEST,
+                targetId: userId,
+                metadata: { deletionScheduledAt },
+            });
+
+            // The deletion is scheduled - a failed email is logged, not reported to the user
+            const emailSent = await sendAccountDeletionScheduledEmail(account.email, account.firstname, deletionScheduledAt);
+            if (!emailSent) {
+                console.error(`Failed to send deletion notice for account ${userId}`);
+            }
+
+            sendSuccess(response, {
+                deletionScheduledAt,
+                gracePeriod: `${ACCOUNT_DELETION_GRACE_DAYS} days`,
+            }, 'Account scheduled for deletion and all devices logged out. Log in before the deletion date to cancel.');
+
+        } catch (error) {
+            console.error('Delete account error:', error);
+            sendError(response, 500, 'Failed to delete account', ErrorCodes.SRVR_TRANSACTION_FAILED);
+        }
+    }
+
+    /**
+     * Cancel a scheduled deletion of the caller's account
+     */
+    static async cancelDeletion(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        try {
+            const cancelled = await cancelAccountDeletion(userId);
+            if (!cancelled) {
+                sendError(response, 400, 'No account deletion is scheduled', ErrorCodes.USER_DELETION_NOT_SCHEDULED);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.ACCOUNT_DELETION_CANCEL,
+                targetId: userId,
+            });
+
+            sendSuccess(response, { deletionScheduledAt: null }, 'Account deletion cancelled');
+
+        } catch (error) {
+            console.error('Cancel account deletion error:', error);
+            sendError(response, 500, 'Failed to cancel account deletion', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Download everything held about the caller as a JSON file
+     */
+    static async exportData(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        try {
+            const archive = await buildAccountExport(userId);
+            if (!archive) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.ACCOUNT_EXPORT,
+                targetId: userId,
+            });
+
+            response.attachment(`account-${userId}-export.json`);
+            response.set('Cache-Control', 'no-store');
+            response.json(archive);
+
+        } catch (error) {
+            console.error('Export account data error:', error);
+            sendError(response, 500, 'Failed to export account data', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+// src/controllers/sessionController.ts
+import { Response } from 'express';
+import {
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    listActiveSessions,
+    revokeSession,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+export class SessionController {
+    /**
+     * List the caller's active sessions (devices they are logged in on)
+     */
+    static async listSessions(request: IJwtRequest, response: Response): Promise<void> {
+        const { id, sid } = request.claims;
+
+        try {
+            const sessions = await listActiveSessions(id, sid);
+            sendSuccess(response, { sessions }, 'Sessions retrieved successfully');
+
+        } catch (error) {
+            console.error('List sessions error:', error);
+            sendError(response, 500, 'Failed to retrieve sessions', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Revoke one of the caller's sessions (log out a device)
+     */
+    static async revokeSession(request: IJwtRequest, response: Response): Promise<void> {
+        const sessionId = request.params.sessionId as string;
+
+        try {
+            const revoked = await revokeSession(request.claims.id, sessionId);
+
+            if (!revoked) {
+                sendError(response, 404, 'Session not found', ErrorCodes.AUTH_SESSION_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.AUTH_SESSION_REVOKED,
+                targetId: request.claims.id,
+                metadata: { sessionId },
+            });
+
+            sendSuccess(response, null, 'Session revoked successfully');
+
+        } catch (error) {
+            console.error('Revoke session error:', error);
+            sendError(response, 500, 'Failed to revoke session', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
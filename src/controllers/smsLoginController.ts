@@ -0,0 +1,137 @@
+// src/controllers/smsLoginController.ts
+import { Response } from 'express';
+import {
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    isDevelopment,
+    sendSMSViaEmail,
+    findSmsLoginAccount,
+    toPhoneDigits,
+    createSmsLoginCode,
+    checkSmsLoginCode,
+    findLoginAccountById,
+    releaseExpiredLock,
+    completeLogin,
+    isIpRateLimited,
+    recordFailedLogin,
+    notifyAccountLocked,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest, SMS_CODE_EXPIRY_MINUTES } from '@models';
+
+const SMS_CODE_SENT_MESSAGE = 'If the phone number belongs to an account and is verified, a login code will be sent.';
+
+export class SmsLoginController {
+    /**
+     * Text a 6-digit login code to a verified phone number
+     * Always answers the same way, so it cannot be used to find out which numbers have accounts
+     */
+    static async requestSmsCode(request: IJwtRequest, response: Response): Promise<void> {
+        const { phone, carrier } = request.body;
+        const responseData: Record<string, unknown> = { expiresIn: `${SMS_CODE_EXPIRY_MINUTES} minutes` };
+
+        try {
+            const account = await findSmsLoginAccount(phone);
+            if (!account || account.account_status === 'suspended') {
+                sendSuccess(response, responseData, SMS_CODE_SENT_MESSAGE);
+                return;
+            }
+
+            // null when a code was sent moments ago - the earlier text is still on its way
+            const code = await createSmsLoginCode(account.account_id);
+            if (!code) {
+                sendSuccess(response, responseData, SMS_CODE_SENT_MESSAGE);
+                return;
+            }
+
+            const message = `Auth² Login Code: ${code}\nExpires in ${SMS_CODE_EXPIRY_MINUTES} min\nDo not share`;
+            const smsSent = await sendSMSViaEmail(account.phone, message, carrier);
+
+            await recordAuditEvent({
+                ...getAuditContext(request, null),
+                action: AUDIT_ACTIONS.AUTH_SMS_LOGIN_REQUEST,
+                targetId: account.account_id,
+                metadata: { smsSent },
+            });
+
+            if (!smsSent) {
+                console.error(`Failed to send SMS login code to account ${account.account_id}`);
+            }
+
+            // In development, include the code
+            if (isDevelopment()) {
+                responseData.loginCode = code;
+            }
+
+            sendSuccess(response, responseData, SMS_CODE_SENT_MESSAGE);
+
+        } catch (error) {
+            console.error('SMS login request error:', error);
+            sendError(response, 500, 'Failed to process login code request', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log in with a code sent by SMS
+     * Responds exactly like a password login, including the two-factor challenge
+     */
+    static async verifySmsCode(request: IJwtRequest, response: Response): Promise<void> {
+        const { phone, code } = request.body;
+        const ipAddress = request.ip ?? 'unknown';
+
+        try {
+            // Throttle sources that are guessing across many accounts
+            if (await isIpRateLimited(ipAddress)) {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+
+            const smsAccount = await findSmsLoginAccount(phone);
+            const account = smsAccount ? await findLoginAccountById(smsAccount.account_id) : null;
+            if (!account) {
+                // Guesses against unknown numbers still count towards the per-IP limit
+                await recordFailedLogin(null, toPhoneDigits(phone), ipAddress);
+                sendError(response, 401, 'Invalid or expired login code', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+
+            if (account.account_status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (!(await releaseExpiredLock(account))) {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            const check = await checkSmsLoginCode(account.account_id, code);
+
+            if (check === 'too_many_attempts') {
+                sendError(response, 401, 'Too many failed attempts. Please request a new code.', ErrorCodes.VRFY_TOO_MANY_ATTEMPTS);
+                return;
+            }
+            if (check === 'invalid') {
+                // Wrong codes count towards the same lockout as wrong passwords
+                const failure = await recordFailedLogin(account.account_id, account.email, ipAddress);
+
+                if (failure.locked) {
+                    await notifyAccountLocked(account, failure.lockedUntil);
+                    sendError(response, 403, 'Too many failed attempts. Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                    return;
+                }
+
+                sendError(response, 401, 'Invalid or expired login code', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+
+            await completeLogin(account, request, response, 'Login successful', 'sms');
+
+        } catch (error) {
+            console.error('SMS login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
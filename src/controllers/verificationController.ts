@@ -11,9 +11,12 @@ import {
     sendSMSViaEmail,
     getEnvVar,
     isDevelopment,
-    executeTransactionWithResponse
+    executeTransactionWithResponse,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
 } from '@utilities';
-import { IJwtRequest } from '@models';
+import { IJwtRequest, SMS_CODE_EXPIRY_MINUTES, SMS_CODE_MAX_ATTEMPTS, SMS_CODE_RESEND_SECONDS } from '@models';
 
 export class VerificationController {
     /**
@@ -157,6 +160,14 @@ export class VerificationController {
                         [verification.account_id]
                     );
 
+                    await recordAuditEvent({
+                        ...getAuditContext(request, verification.account_id),
+                        action: AUDIT_ACTIONS.VERIFICATION_EMAIL,
+                        targetId: verification.account_id,
+                        changes: { emailVerified: { from: false, to: true } },
+                        metadata: { email: verification.email },
+                    }, client);
+
                     return null;
                 },
                 response,
@@ -200,8 +211,8 @@ export class VerificationController {
             const recentVerification = await pool.query(
                 `SELECT COUNT(*) as count 
                  FROM Phone_Verification 
-                 WHERE Account_ID = $1 AND Code_Expires > NOW() AND Created_At > NOW() - INTERVAL '1 minute'`,
-                [userId]
+                 WHERE Account_ID = $1 AND Code_Expires > NOW() AND Created_At > NOW() - make_interval(secs => $2)`,
+                [userId, SMS_CODE_RESEND_SECONDS]
             );
 
             if (parseInt(recentVerification.rows[0].count) > 0) {
@@ -217,7 +228,7 @@ export class VerificationController {
 
             // Generate 6-digit verification code
             const verificationCode = generateVerificationCode();
-            const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+            const expiresAt = new Date(Date.now() + SMS_CODE_EXPIRY_MINUTES * 60 * 1000);
 
             // Store verification code in database
             await pool.query(
@@ -228,7 +239,7 @@ export class VerificationController {
             );
 
             // Send SMS code
-            const message = `Auth² Code: ${verificationCode}\nExpires in 15 min\nDo not share`;
+            const message = `Auth² Code: ${verificationCode}\nExpires in ${SMS_CODE_EXPIRY_MINUTES} min\nDo not share`;
             const smsSent = await sendSMSViaEmail(phone, message, carrier);
 
             if (!smsSent && !isDevelopment()) {
@@ -238,7 +249,7 @@ export class VerificationController {
 
             // Build response data
             const responseData: any = {
-                expiresIn: '15 minutes',
+                expiresIn: `${SMS_CODE_EXPIRY_MINUTES} minutes`,
                 method: 'email-to-sms',
                 availableCarriers: ['att', 'tmobile', 'verizon', 'sprint', 'metropcs', 'boost', 'cricket', 'uscellular']
             };
@@ -293,7 +304,7 @@ export class VerificationController {
             }
 
             // Check attempt limit
-            if (verification.attempts >= 3) {
+            if (verification.attempts >= SMS_CODE_MAX_ATTEMPTS) {
                 sendError(response, 400, 'Too many failed attempts. Please request a new code.', ErrorCodes.VRFY_TOO_MANY_ATTEMPTS);
                 return;
             }
@@ -306,7 +317,7 @@ export class VerificationController {
                     [userId]
                 );
                 
-                const remainingAttempts = 3 - (verification.attempts + 1);
+                const remainingAttempts = SMS_CODE_MAX_ATTEMPTS - (verification.attempts + 1);
                 sendError(
                     response, 
                     400, 
@@ -331,6 +342,13 @@ export class VerificationController {
                         [userId]
                     );
 
+                    await recordAuditEvent({
+                        ...getAuditContext(request),
+                        action: AUDIT_ACTIONS.VERIFICATION_PHONE,
+                        targetId: userId,
+                        changes: { phoneVerified: { from: false, to: true } },
+                    }, client);
+
                     return null;
                 },
                 response,
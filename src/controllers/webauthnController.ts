@@ -0,0 +1,245 @@
+// src/controllers/webauthnController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    getWebAuthnConfig,
+    getWebAuthnUserHandle,
+    buildRegistrationOptions,
+    buildAuthenticationOptions,
+    createWebAuthnChallenge,
+    consumeWebAuthnChallenge,
+    parseClientData,
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse,
+    listWebAuthnCredentials,
+    saveWebAuthnCredential,
+    deleteWebAuthnCredential,
+    findWebAuthnCredential,
+    recordWebAuthnCredentialUse,
+    findLoginAccountById,
+    releaseExpiredLock,
+    completeLogin,
+    issueLoginTokens,
+    getSessionContext,
+    isIpRateLimited,
+    recordAuditEvent,
+    getAuditContext,
+    AUDIT_ACTIONS
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+const PASSKEY_LOGIN_FAILED = 'Passkey login failed';
+
+export class WebAuthnController {
+    /**
+     * Start registering a passkey for the caller
+     * Returns options for navigator.credentials.create()
+     */
+    static async registrationOptions(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        try {
+            const account = await findLoginAccountById(userId);
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const [userHandle, existing, challenge] = await Promise.all([
+                getWebAuthnUserHandle(userId),
+                listWebAuthnCredentials(userId),
+                createWebAuthnChallenge('registration', userId),
+            ]);
+
+            sendSuccess(response, buildRegistrationOptions({
+                challenge,
+                userHandle,
+                email: account.email,
+                displayName: `${account.firstname} ${account.lastname}`,
+                existing,
+            }), 'Passkey registration started');
+
+        } catch (error) {
+            console.error('Passkey registration options error:', error);
+            sendError(response, 500, 'Failed to start passkey registration', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Finish registering a passkey with the authenticator's attestation
+     */
+    static async verifyRegistration(request: IJwtRequest, response: Response): Promise<void> {
+        const { credential, name } = request.body;
+        const userId = request.claims.id;
+
+        try {
+            // The challenge travels inside the signed client data; it must be one we issued to this user
+            const clientData = parseClientData(credential.response.clientDataJSON);
+            if (!clientData || !(await consumeWebAuthnChallenge(clientData.challenge, 'registration', userId))) {
+                sendError(response, 400, 'Passkey registration expired or was already used. Please try again.', ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            const verification = verifyRegistrationResponse(credential, clientData.challenge);
+            if (verification.status === 'rejected') {
+                sendError(response, 400, `Passkey registration failed: ${verification.reason}`, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            const passkey = await saveWebAuthnCredential(pool, userId, name || 'Passkey', verification.credential);
+            if (!passkey) {
+                sendError(response, 409, 'This passkey is already registered', ErrorCodes.AUTH_WEBAUTHN_CREDENTIAL_EXISTS);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.WEBAUTHN_REGISTER,
+                targetId: userId,
+                metadata: {
+                    credentialId: passkey.id,
+                    name: passkey.name,
+                    aaguid: verification.credential.aaguid,
+                },
+            });
+
+            sendSuccess(response, passkey, 'Passkey registered successfully');
+
+        } catch (error) {
+            console.error('Passkey registration error:', error);
+            sendError(response, 500, 'Failed to register passkey', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * List the caller's passkeys
+     */
+    static async listCredentials(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const credentials = await listWebAuthnCredentials(request.claims.id);
+            sendSuccess(response, { credentials }, 'Passkeys retrieved successfully');
+
+        } catch (error) {
+            console.error('List passkeys error:', error);
+            sendError(response, 500, 'Failed to retrieve passkeys', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Remove one of the caller's passkeys
+     */
+    static async deleteCredential(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        try {
+            const removed = await deleteWebAuthnCredential(pool, userId, request.params.credentialId as string);
+
+            if (!removed) {
+                sendError(response, 404, 'Passkey not found', ErrorCodes.AUTH_WEBAUTHN_CREDENTIAL_NOT_FOUND);
+                return;
+            }
+
+            await recordAuditEvent({
+                ...getAuditContext(request),
+                action: AUDIT_ACTIONS.WEBAUTHN_REMOVE,
+                targetId: userId,
+                metadata: { credentialId: removed.id, name: removed.name },
+            });
+
+            sendSuccess(response, removed, 'Passkey removed successfully');
+
+        } catch (error) {
+            console.error('Remove passkey error:', error);
+            sendError(response, 500, 'Failed to remove passkey', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Start a passkey login
+     * Returns options for navigator.credentials.get()
+     */
+    static async authenticationOptions(_request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const challenge = await createWebAuthnChallenge('authentication', null);
+            sendSuccess(response, buildAuthenticationOptions(challenge, getWebAuthnConfig()), 'Passkey login started');
+
+        } catch (error) {
+            console.error('Passkey login options error:', error);
+            sendError(response, 500, 'Failed to start passkey login', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log in with a passkey
+     * A passkey that verified the user (PIN or biometrics) counts as two factors and
+     * skips the two-factor prompt; otherwise the login continues like a password login
+     */
+    static async verifyAuthentication(request: IJwtRequest, response: Response): Promise<void> {
+        const { credential } = request.body;
+        const ipAddress = request.ip ?? 'unknown';
+
+        try {
+            if (await isIpRateLimited(ipAddress)) {
+                sendError(response, 429, 'Too many failed login attempts. Please try again later.', ErrorCodes.AUTH_TOO_MANY_ATTEMPTS);
+                return;
+            }
+
+            const clientData = parseClientData(credential.response.clientDataJSON);
+            if (!clientData || !(await consumeWebAuthnChallenge(clientData.challenge, 'authentication', null))) {
+                sendError(response, 401, 'Passkey login expired or was already used. Please try again.', ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            const stored = await findWebAuthnCredential(credential.id);
+            if (!stored) {
+                sendError(response, 401, PASSKEY_LOGIN_FAILED, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            // Discoverable credentials report which account they belong to
+            const userHandle = credential.response.userHandle;
+            if (userHandle && userHandle !== stored.userHandle) {
+                sendError(response, 401, PASSKEY_LOGIN_FAILED, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            const verification = verifyAuthenticationResponse(credential, clientData.challenge, stored);
+            if (verification.status === 'rejected') {
+                console.warn(`Passkey login rejected for account ${stored.accountId}: ${verification.reason}`);
+                sendError(response, 401, PASSKEY_LOGIN_FAILED, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            await recordWebAuthnCredentialUse(stored.credentialId, verification.signCount, verification.backedUp);
+
+            const account = await findLoginAccountById(stored.accountId);
+            if (!account) {
+                sendError(response, 401, PASSKEY_LOGIN_FAILED, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            if (account.account_status === 'suspended') {
+                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+                return;
+            }
+            if (!(await releaseExpiredLock(account))) {
+                sendError(response, 403, 'Account is locked. Check your email for an unlock link.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+                return;
+            }
+
+            if (verification.userVerified) {
+                sendSuccess(response, await issueLoginTokens(account, getSessionContext(request), 'webauthn'), 'Login successful');
+                return;
+            }
+
+            await completeLogin(account, request, response, 'Login successful', 'webauthn');
+
+        } catch (error) {
+            console.error('Passkey login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { validateProfileUpdate } from '../validation';
+
+type Middleware = (request: Request, response: Response, next: () => void) => unknown;
+
+/**
+ * Run a validation chain against a request body
+ * @returns The field errors sent back, or null if the request was let through
+ */
+const runValidation = async (
+    chain: Middleware[],
+    body: Record<string, unknown>
+): Promise<{ field?: string; message: string }[] | null> => {
+    const request = { body } as Request;
+    const response = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+    } as unknown as Response;
+    let passed = false;
+
+    for (const middleware of chain) {
+        passed = false;
+        await middleware(request, response, () => {
+            passed = true;
+        });
+        if (!passed) break;
+    }
+
+    if (passed) return null;
+
+    expect(response.status).toHaveBeenCalledWith(400);
+    return (response.json as jest.Mock).mock.calls[0][0].errors;
+};
+
+describe('validation', () => {
+    describe('validateProfileUpdate', () => {
+        const validate = (body: Record<string, unknown>) =>
+            runValidation(validateProfileUpdate as unknown as Middleware[], body);
+
+        it('should accept any combination of name and username', async () => {
+            expect(await validate({ firstname: 'Ada' })).toBeNull();
+            expect(await validate({ lastname: 'Lovelace', username: 'ada_l-1815' })).toBeNull();
+        });
+
+        it('should reject fields that cannot be changed here', async () => {
+            for (const field of ['email', 'phone', 'account_role', 'role', 'account_status']) {
+                const errors = await validate({ firstname: 'Ada', [field]: 'x' });
+
+                expect(errors).toEqual([{ field: '', message: `These fields cannot be changed here: ${field}` }]);
+            }
+        });
+
+        it('should list every disallowed field', async () => {
+            expect(await validate({ email: 'ada@example.com', phone: '2065550100' }))
+                .toEqual([{ field: '', message: 'These fields cannot be changed here: email, phone' }]);
+        });
+
+        it('should require at least one field', async () => {
+            expect(await validate({}))
+                .toEqual([{ field: '', message: 'Provide at least one of: firstname, lastname, username' }]);
+        });
+
+        it('should reject usernames that do not follow the registration rules', async () => {
+            expect(await validate({ username: 'ad' }))
+                .toEqual([{ field: 'username', message: 'Username must be 3–50 characters' }]);
+            expect(await validate({ username: 'a'.repeat(51) }))
+                .toEqual([{ field: 'username', message: 'Username must be 3–50 characters' }]);
+            expect(await validate({ username: 'ada lovelace' })).toEqual([{
+                field: 'username',
+                message: 'Username can only contain letters, numbers, underscores, and hyphens',
+            }]);
+            expect(await validate({ username: 42 })).toContainEqual({ field: 'username', message: 'Username must be a string' });
+        });
+
+        it('should reject blank or overlong names', async () => {
+            expect(await validate({ firstname: '   ' }))
+                .toEqual([{ field: 'firstname', message: 'First name must be 1–100 characters' }]);
+            expect(await validate({ lastname: 'x'.repeat(101) }))
+                .toEqual([{ field: 'lastname', message: 'Last name must be 1–100 characters' }]);
+        });
+    });
+});
@@ -1,7 +1,7 @@
 // src/core/middleware/adminAuth.ts
 import { Response, NextFunction } from 'express';
 import { IJwtRequest } from '@models';
-import { sendError } from '@utilities';
+import { sendError, tokenAllowsRequest, ErrorCodes } from '@utilities';
 
 /**
  * Role hierarchy numeric mapping
@@ -29,6 +29,16 @@ export const requireRole = (minRole: keyof typeof ROLE_HIERARCHY) => {
                 return sendError(res, 401,'Missing authentication');
             }
 
+            // Service accounts are not users and hold no role, whatever their token says
+            if (req.claims.principal === 'service') {
+                return sendError(res, 403, 'Access denied: service accounts cannot use user roles');
+            }
+
+            // Admins acting as a user get the user's access, never admin access
+            if (req.claims.act) {
+                return sendError(res, 403, 'Access denied: admin routes cannot be used while impersonating a user', ErrorCodes.AUTH_IMPERSONATION_NOT_ALLOWED);
+            }
+
             const userRole = req.claims.role;
             // Handle both numeric roles (from JWT) and string roles
             const userRank = typeof userRole === 'number' ? userRole : ROLE_HIERARCHY[userRole];
@@ -38,6 +48,11 @@ export const requireRole = (minRole: keyof typeof ROLE_HIERARCHY) => {
                 return sendError(res, 403,'Access denied: insufficient privileges');
             }
 
+            // Personal access tokens also need an admin scope
+            if (!tokenAllowsRequest(req.claims, 'admin', req.method)) {
+                return sendError(res, 403, 'Access denied: access token lacks the required admin scope');
+            }
+
             next();
         } catch (err) {
             console.error('AdminAuth middleware error:', err);
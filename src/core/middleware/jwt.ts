@@ -1,8 +1,22 @@
-import jwt, { JwtPayload } from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 
-import { IJwtClaims, IJwtRequest } from '@models';
-export const checkToken = (
+import { IJwtClaims, IJwtRequest, RECENT_AUTH_MAX_AGE_SECONDS } from '@models';
+import {
+    authenticatePersonalAccessToken,
+    isAccessTokenRevoked,
+    isImpersonatorRevoked,
+    isPersonalAccessToken,
+    isRecentlyAuthenticated,
+    recordImpersonatedRequest,
+    sendError,
+    ErrorCodes,
+    tokenAllowsRequest,
+    touchSession,
+    verifyToken,
+    TokenScopeArea
+} from '@utilities';
+
+export const checkToken = async (
     request: IJwtRequest,
     response: Response,
     next: NextFunction
@@ -17,17 +31,93 @@ export const checkToken = (
             token = token.slice(7, token.length);
         }
 
-        jwt.verify(token, process.env.JWT_SECRET, (error, decoded: JwtPayload) => {
-            if (error) {
+        // Personal access tokens are looked up by hash instead of being verified as JWTs
+        if (isPersonalAccessToken(token)) {
+            let patClaims: IJwtClaims | null;
+            try {
+                patClaims = await authenticatePersonalAccessToken(token);
+            } catch (lookupError) {
+                console.error('Personal access token lookup error:', lookupError);
+                response.status(500).json({
+                    success: false,
+                    message: 'Server error - contact support',
+                });
+                return;
+            }
+
+            if (!patClaims) {
                 response.status(403).json({
                     success: false,
                     message: 'Token is not valid',
                 });
-            } else {
-                request.claims = decoded as IJwtClaims;
-                next();
+                return;
             }
-        });
+
+            request.claims = patClaims;
+            next();
+            return;
+        }
+
+        let claims: IJwtClaims & { type?: string; client_id?: string; aud?: string };
+        try {
+            claims = verifyToken(token);
+        } catch {
+            response.status(403).json({
+                success: false,
+                message: 'Token is not valid',
+            });
+            return;
+        }
+
+        // Service account tokens identify a backend service, not a user - they have no account to act on
+        if (claims.principal === 'service') {
+            sendError(response, 403, 'Service account tokens cannot be used for user requests', ErrorCodes.AUTH_SERVICE_TOKEN_NOT_ALLOWED);
+            return;
+        }
+
+        // Single-purpose tokens (password reset, two-factor challenge...) carry a type and are not access tokens
+        // Tokens issued to OAuth clients (access and ID tokens) are for third-party apps, not for our own API
+        if (claims.type || claims.client_id || claims.aud) {
+            response.status(403).json({
+                success: false,
+                message: 'Token is not valid',
+            });
+            return;
+        }
+
+        // A valid signature is not enough - the token may have been revoked (logout, password change)
+        // Impersonation tokens also end when the admin behind them is logged out
+        try {
+            if (await isAccessTokenRevoked(claims) || (claims.act && await isImpersonatorRevoked(claims))) {
+                response.status(401).json({
+                    success: false,
+                    message: 'Token has been revoked',
+                });
+                return;
+            }
+        } catch (revocationError) {
+            console.error('Token revocation check error:', revocationError);
+            response.status(500).json({
+                success: false,
+                message: 'Server error - contact support',
+            });
+            return;
+        }
+
+        // Keep the session's last-seen time current without holding up the request
+        if (claims.sid) {
+            touchSession(claims.sid, request.ip).catch((touchError) => {
+                console.error('Session activity update error:', touchError);
+            });
+        }
+
+        // Every request made while impersonating a user is audited under the admin's ID
+        if (claims.act) {
+            recordImpersonatedRequest(request, response, claims);
+        }
+
+        request.claims = claims;
+        next();
     } else {
         response.status(401).json({
             success: false,
@@ -35,3 +125,53 @@ export const checkToken = (
         });
     }
 };
+
+/**
+ * Limit personal access tokens to the route areas their scopes allow
+ * Reads (GET/HEAD) need <area>:read, anything else <area>:write.
+ * JWTs from an interactive login carry no scope and pass through.
+ */
+export const requireTokenScope = (area: TokenScopeArea) => {
+    return (request: IJwtRequest, response: Response, next: NextFunction) => {
+        if (request.claims && !tokenAllowsRequest(request.claims, area, request.method)) {
+            const required = ['GET', 'HEAD'].includes(request.method) ? `${area}:read` : `${area}:write`;
+            sendError(response, 403, `Access token lacks the ${required} scope`, ErrorCodes.AUTH_INSUFFICIENT_SCOPE);
+            return;
+        }
+        next();
+    };
+};
+
+/**
+ * Reject personal access tokens and impersonation tokens
+ * For routes that manage credentials (password, two-factor, access tokens),
+ * so a leaked token cannot be used to take over the account, and support
+ * staff acting as a user cannot change how the user logs in
+ */
+export const requireInteractiveLogin = (request: IJwtRequest, response: Response, next: NextFunction) => {
+    if (request.claims?.patId !== undefined) {
+        sendError(response, 403, 'This action requires logging in with your password', ErrorCodes.AUTH_INTERACTIVE_LOGIN_REQUIRED);
+        return;
+    }
+    if (request.claims?.act) {
+        sendError(response, 403, 'This action is not allowed while impersonating a user', ErrorCodes.AUTH_IMPERSONATION_NOT_ALLOWED);
+        return;
+    }
+    next();
+};
+
+/**
+ * Require the user to have entered their password within the last maxAgeSeconds
+ * For sensitive actions (password, two-factor and role changes). Clients that get
+ * AUTH_REAUTHENTICATION_REQUIRED should ask for the password, call
+ * POST /auth/reauthenticate and retry with the access token it returns.
+ */
+export const requireRecentAuth = (maxAgeSeconds: number = RECENT_AUTH_MAX_AGE_SECONDS) => {
+    return (request: IJwtRequest, response: Response, next: NextFunction) => {
+        if (!request.claims || !isRecentlyAuthenticated(request.claims, maxAgeSeconds)) {
+            sendError(response, 403, 'Please confirm your password to continue', ErrorCodes.AUTH_REAUTHENTICATION_REQUIRED);
+            return;
+        }
+        next();
+    };
+};
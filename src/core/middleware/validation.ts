@@ -1,7 +1,7 @@
 // src/core/middleware/validation.ts
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
-import { SMS_GATEWAYS } from '@models';
+import { OAUTH_SCOPES, PAT_MAX_LIFETIME_DAYS, PAT_SCOPES, PROFILE_UPDATE_FIELDS, SMS_GATEWAYS } from '@models';
 
 /**
  * Middleware to handle validation errors
@@ -42,13 +42,25 @@ export const validateLogin = [
     handleValidationErrors
 ];
 
+/**
+ * Refresh token validation
+ * - refreshToken: required, trimmed
+ */
+export const validateRefreshToken = [
+    body('refreshToken')
+        .exists().withMessage('Refresh token is required')
+        .trim()
+        .isLength({ min: 1 }).withMessage('Refresh token cannot be empty'),
+    handleValidationErrors
+];
+
 /**
  * Public registration validation (no role field allowed)
  * - firstname: required, 1-100 characters
  * - lastname: required, 1-100 characters
  * - email: required, valid email format, normalized
  * - username: required, 3-50 characters, alphanumeric with underscore/hyphen
- * - password: required, 8-128 characters
+ * - password: required (the password policy is applied by the controller)
  * - phone: required, at least 10 digits
  * NOTE: No role validation - public registration always creates basic users
  */
@@ -69,13 +81,105 @@ export const validateRegister = [
         .matches(/^[a-zA-Z0-9_-]+$/).withMessage('Username can only contain letters, numbers, underscores, and hyphens'),
     body('password')
         .exists().withMessage('Password is required')
-        .isLength({ min: 8, max: 128 }).withMessage('Password must be 8–128 characters'),
+        .isString().withMessage('Password must be a string'),
     body('phone')
         .exists().withMessage('Phone number is required')
         .isLength({ min: 10 }).withMessage('Phone must have at least 10 digits'),
     handleValidationErrors
 ];
 
+/**
+ * Own profile update validation (PATCH /auth/me)
+ * - only firstname, lastname and username may be sent; anything else (role, status...) is rejected
+ * - at least one field is required
+ * - firstname/lastname: 1-100 characters; username: same rules as registration
+ */
+export const validateProfileUpdate = [
+    body()
+        .custom((value: Record<string, unknown>) => {
+            const fields = Object.keys(value ?? {});
+            const notAllowed = fields.filter((field) => !PROFILE_UPDATE_FIELDS.includes(field));
+            if (notAllowed.length > 0) {
+                throw new Error(`These fields cannot be changed here: ${notAllowed.join(', ')}`);
+            }
+            if (fields.length === 0) {
+                throw new Error(`Provide at least one of: ${PROFILE_UPDATE_FIELDS.join(', ')}`);
+            }
+            return true;
+        }),
+    body('firstname')
+        .optional()
+        .isString().withMessage('First name must be a string')
+        .trim()
+        .isLength({ min: 1, max: 100 }).withMessage('First name must be 1–100 characters'),
+    body('lastname')
+        .optional()
+        .isString().withMessage('Last name must be a string')
+        .trim()
+        .isLength({ min: 1, max: 100 }).withMessage('Last name must be 1–100 characters'),
+    body('username')
+        .optional()
+        .isString().withMessage('Username must be a string')
+        .isLength({ min: 3, max: 50 }).withMessage('Username must be 3–50 characters')
+        .matches(/^[a-zA-Z0-9_-]+$/).withMessage('Username can only contain letters, numbers, underscores, and hyphens'),
+    handleValidationErrors
+];
+
+/**
+ * Email change request validation
+ * - newEmail: required, valid email format, normalized
+ */
+export const validateEmailChange = [
+    body('newEmail')
+        .exists().withMessage('New email is required')
+        .isEmail().withMessage('Invalid email format')
+        .normalizeEmail(),
+    handleValidationErrors
+];
+
+/**
+ * Email change confirm/undo link validation
+ * - token: required, 64 hex characters
+ */
+export const validateEmailChangeToken = [
+    query('token')
+        .exists().withMessage('Token is required')
+        .isString()
+        .trim()
+        .matches(/^[a-f0-9]{64}$/).withMessage('Invalid link'),
+    handleValidationErrors
+];
+
+/**
+ * Phone change request validation
+ * - newPhone: required, 10-15 characters with at least 10 digits
+ * - carrier: optional, must be supported
+ */
+export const validatePhoneChange = [
+    body('newPhone')
+        .exists().withMessage('New phone number is required')
+        .isString()
+        .trim()
+        .isLength({ max: 15 }).withMessage('Phone must be at most 15 characters')
+        .custom((phone: string) => phone.replace(/\D/g, '').length >= 10)
+        .withMessage('Phone must have at least 10 digits'),
+    body('carrier')
+        .optional()
+        .isIn(Object.keys(SMS_GATEWAYS)).withMessage('Invalid carrier'),
+    handleValidationErrors
+];
+
+/**
+ * Account deletion validation
+ * - password: required, confirms the deletion
+ */
+export const validateAccountDeletion = [
+    body('password')
+        .exists().withMessage('Password is required')
+        .isString().withMessage('Password must be a string'),
+    handleValidationErrors
+];
+
 // ============================================
 // PASSWORD VALIDATION
 // ============================================
@@ -95,7 +199,7 @@ export const validatePasswordResetRequest = [
 /**
  * Password reset validation (with token)
  * - token: required, trimmed
- * - password: required, 8-128 characters
+ * - password: required (the password policy is applied by the controller)
  */
 export const validatePasswordReset = [
     body('token')
@@ -103,26 +207,264 @@ export const validatePasswordReset = [
         .trim(),
     body('password')
         .exists().withMessage('Password is required')
-        .isLength({ min: 8, max: 128 }).withMessage('Password must be 8–128 characters'),
+        .isString().withMessage('Password must be a string'),
     handleValidationErrors
 ];
 
 /**
  * Password change validation (for authenticated users)
  * - oldPassword: required
- * - newPassword: required, 8-128 characters, different from old password
+ * - newPassword: required, different from old password (the password policy is applied by the controller)
  */
 export const validatePasswordChange = [
     body('oldPassword')
         .exists().withMessage('Old password is required'),
     body('newPassword')
         .exists().withMessage('New password is required')
-        .isLength({ min: 8, max: 128 }).withMessage('New password must be 8–128 characters')
+        .isString().withMessage('New password must be a string')
         .custom((value, { req }) => value !== req.body.oldPassword)
         .withMessage('New password must be different from old password'),
     handleValidationErrors
 ];
 
+/**
+ * Password strength check validation
+ * - password: required, at most 1024 characters
+ * - firstname, lastname, username, email: optional context, so personal details are penalized
+ */
+export const validatePasswordStrength = [
+    body('password')
+        .exists().withMessage('Password is required')
+        .isString().withMessage('Password must be a string')
+        .isLength({ max: 1024 }).withMessage('Password must be at most 1024 characters'),
+    body(['firstname', 'lastname', 'username', 'email'])
+        .optional()
+        .isString().withMessage('User details must be strings'),
+    handleValidationErrors
+];
+
+/**
+ * Re-authentication validation (step-up before sensitive actions)
+ * - password: required
+ */
+export const validateReauthenticate = [
+    body('password')
+        .exists().withMessage('Password is required')
+        .isString().withMessage('Password must be a string'),
+    handleValidationErrors
+];
+
+// ============================================
+// TWO-FACTOR VALIDATION
+// ============================================
+
+/**
+ * TOTP enrollment confirmation validation
+ * - code: required, trimmed, exactly 6 digits
+ */
+export const validateTotpConfirm = [
+    body('code')
+        .exists().withMessage('Authentication code is required')
+        .trim()
+        .isLength({ min: 6, max: 6 }).withMessage('Code must be exactly 6 digits')
+        .isNumeric().withMessage('Code must contain only digits'),
+    handleValidationErrors
+];
+
+/**
+ * TOTP disable validation
+ * - password: required
+ * - code: required, authenticator or recovery code
+ */
+export const validateTotpDisable = [
+    body('password')
+        .exists().withMessage('Password is required'),
+    body('code')
+        .exists().withMessage('Authentication code is required')
+        .trim()
+        .isLength({ min: 1 }).withMessage('Authentication code cannot be empty'),
+    handleValidationErrors
+];
+
+/**
+ * Magic link request validation
+ * - Email: required, valid email format, normalized
+ */
+export const validateMagicLinkRequest = [
+    body('email')
+        .exists().withMessage('Email is required')
+        .isEmail().withMessage('Invalid email format')
+        .normalizeEmail(),
+    handleValidationErrors
+];
+
+/**
+ * Magic link login validation (GET link from the email)
+ * - token: required query parameter, 64 hex characters
+ */
+export const validateMagicLinkQuery = [
+    query('token')
+        .exists().withMessage('Token is required')
+        .isString()
+        .trim()
+        .matches(/^[a-f0-9]{64}$/).withMessage('Invalid login link'),
+    handleValidationErrors
+];
+
+/**
+ * Magic link login validation (POST from a frontend page)
+ * - token: required, 64 hex characters
+ */
+export const validateMagicLinkBody = [
+    body('token')
+        .exists().withMessage('Token is required')
+        .isString()
+        .trim()
+        .matches(/^[a-f0-9]{64}$/).withMessage('Invalid login link'),
+    handleValidationErrors
+];
+
+/**
+ * SMS login code request validation
+ * - phone: required, 10 digits after removing formatting
+ * - carrier: optional, must be a supported carrier
+ */
+export const validateSmsLoginRequest = [
+    body('phone')
+        .exists().withMessage('Phone number is required')
+        .isString()
+        .custom((phone: string) => phone.replace(/\D/g, '').length >= 10)
+        .withMessage('Phone must have at least 10 digits'),
+    body('carrier')
+        .optional()
+        .isIn(Object.keys(SMS_GATEWAYS)).withMessage('Invalid carrier'),
+    handleValidationErrors
+];
+
+/**
+ * SMS login validation
+ * - phone: required, 10 digits after removing formatting
+ * - code: required, trimmed, exactly 6 digits
+ */
+export const validateSmsLogin = [
+    body('phone')
+        .exists().withMessage('Phone number is required')
+        .isString()
+        .custom((phone: string) => phone.replace(/\D/g, '').length >= 10)
+        .withMessage('Phone must have at least 10 digits'),
+    body('code')
+        .exists().withMessage('Login code is required')
+        .trim()
+        .isLength({ min: 6, max: 6 }).withMessage('Code must be exactly 6 digits')
+        .isNumeric().withMessage('Code must contain only digits'),
+    handleValidationErrors
+];
+
+/**
+ * Passkey response validation shared by registration and login
+ * - credential: the PublicKeyCredential serialized to JSON (base64url fields)
+ */
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+const validateWebAuthnCredential = [
+    body('credential')
+        .isObject().withMessage('credential is required'),
+    body('credential.id')
+        .isString().withMessage('credential.id is required')
+        .isLength({ min: 16, max: 1366 })
+        .matches(BASE64URL).withMessage('credential.id must be base64url'),
+    body('credential.type')
+        .equals('public-key').withMessage('credential.type must be public-key'),
+    body('credential.response.clientDataJSON')
+        .isString().withMessage('credential.response.clientDataJSON is required')
+        .matches(BASE64URL).withMessage('clientDataJSON must be base64url')
+];
+
+/**
+ * Passkey registration validation
+ * - credential: response from navigator.credentials.create()
+ * - name: optional label, 1-100 characters
+ */
+export const validateWebAuthnRegistration = [
+    ...validateWebAuthnCredential,
+    body('credential.response.attestationObject')
+        .isString().withMessage('credential.response.attestationObject is required')
+        .matches(BASE64URL).withMessage('attestationObject must be base64url'),
+    body('credential.response.transports')
+        .optional()
+        .isArray({ max: 6 }).withMessage('transports must be an array'),
+    body('name')
+        .optional()
+        .trim()
+        .isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    handleValidationErrors
+];
+
+/**
+ * Passkey login validation
+ * - credential: response from navigator.credentials.get()
+ */
+export const validateWebAuthnLogin = [
+    ...validateWebAuthnCredential,
+    body('credential.response.authenticatorData')
+        .isString().withMessage('credential.response.authenticatorData is required')
+        .matches(BASE64URL).withMessage('authenticatorData must be base64url'),
+    body('credential.response.signature')
+        .isString().withMessage('credential.response.signature is required')
+        .matches(BASE64URL).withMessage('signature must be base64url'),
+    handleValidationErrors
+];
+
+/**
+ * Passkey ID route parameter validation
+ */
+export const validateWebAuthnCredentialIdParam = [
+    param('credentialId')
+        .matches(BASE64URL).withMessage('Invalid passkey ID'),
+    handleValidationErrors
+];
+
+/**
+ * Federated login provider route parameter validation
+ * - provider: lowercase letters, digits and dashes
+ */
+export const validateFederatedProviderParam = [
+    param('provider')
+        .matches(/^[a-z0-9-]{1,50}$/).withMessage('Invalid provider'),
+    handleValidationErrors
+];
+
+/**
+ * Federated login callback validation (redirect from the provider)
+ * - state: required; code: optional (absent when the provider reports an error)
+ */
+export const validateFederatedCallback = [
+    param('provider')
+        .matches(/^[a-z0-9-]{1,50}$/).withMessage('Invalid provider'),
+    query('state')
+        .isString().withMessage('state is required'),
+    query('code')
+        .optional()
+        .isString(),
+    handleValidationErrors
+];
+
+/**
+ * Two-factor login validation
+ * - mfaToken: required, challenge token from POST /auth/login
+ * - code: required, authenticator or recovery code
+ */
+export const validateMfaLogin = [
+    body('mfaToken')
+        .exists().withMessage('Two-factor challenge token is required')
+        .trim(),
+    body('code')
+        .exists().withMessage('Authentication code is required')
+        .trim()
+        .isLength({ min: 1 }).withMessage('Authentication code cannot be empty'),
+    handleValidationErrors
+];
+
 // ============================================
 // VERIFICATION VALIDATION
 // ============================================
@@ -162,6 +504,17 @@ export const validateEmailToken = [
     handleValidationErrors
 ];
 
+/**
+ * Account unlock token validation (query param)
+ * - token: required parameter, trimmed
+ */
+export const validateUnlockToken = [
+    query('token')
+        .exists().withMessage('Token is required')
+        .trim(),
+    handleValidationErrors
+];
+
 // ============================================
 // USER/PARAMS VALIDATION
 // ============================================
@@ -178,25 +531,165 @@ export const validateUserIdParam = [
     handleValidationErrors
 ];
 
+/**
+ * Session ID param validation
+ * - sessionId: required, UUID
+ */
+export const validateSessionIdParam = [
+    param('sessionId')
+        .exists().withMessage('Session ID is required')
+        .isUUID().withMessage('Session ID must be a UUID'),
+    handleValidationErrors
+];
+
 // ============================================
-// CUSTOM VALIDATORS (OPTIONAL)
+// PERSONAL ACCESS TOKEN VALIDATION
+// ============================================
+
+/**
+ * Personal access token creation validation
+ * - name: required, 1-100 characters
+ * - scopes: required, at least one supported scope
+ * - expiresAt: required, ISO 8601 date in the future, at most PAT_MAX_LIFETIME_DAYS away
+ */
+export const validatePersonalAccessTokenCreate = [
+    body('name')
+        .exists().withMessage('Name is required')
+        .trim()
+        .isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    body('scopes')
+        .isArray({ min: 1 }).withMessage('scopes must be a non-empty array'),
+    body('scopes.*')
+        .isIn(Object.keys(PAT_SCOPES))
+        .withMessage(`Scopes must be one of: ${Object.keys(PAT_SCOPES).join(', ')}`),
+    body('expiresAt')
+        .exists().withMessage('expiresAt is required')
+        .isISO8601().withMessage('expiresAt must be an ISO 8601 date')
+        .custom((value: string) => {
+            const expiresAt = new Date(value).getTime();
+            if (expiresAt <= Date.now()) {
+                throw new Error('expiresAt must be in the future');
+            }
+            if (expiresAt > Date.now() + PAT_MAX_LIFETIME_DAYS * 24 * 60 * 60 * 1000) {
+                throw new Error(`expiresAt must be at most ${PAT_MAX_LIFETIME_DAYS} days away`);
+            }
+            return true;
+        }),
+    handleValidationErrors
+];
+
+/**
+ * Personal access token ID param validation
+ * - tokenId: required, positive integer
+ */
+export const validateTokenIdParam = [
+    param('tokenId')
+        .isInt({ min: 1 }).withMessage('Token ID must be a positive integer'),
+    handleValidationErrors
+];
+
 // ============================================
+// OAUTH VALIDATION
+// ============================================
+
+/**
+ * OAuth sign-in form sanitization (POST /oauth/authorize)
+ * Problems are shown on the form itself, so there is no handleValidationErrors step
+ */
+export const sanitizeOAuthAuthorizeForm = [
+    body('email')
+        .if(body('email').isEmail())
+        .normalizeEmail()
+];
+
+/**
+ * OAuth client registration validation
+ * - name: required, 1-255 characters
+ * - redirectUris: required, 1-10 absolute URLs (https, or http for localhost only), no fragments
+ * - scopes: optional, defaults to every supported scope
+ * - confidential: optional boolean, defaults to true (public clients get no secret)
+ */
+export const validateOAuthClientCreate = [
+    body('name')
+        .exists().withMessage('Name is required')
+        .trim()
+        .isLength({ min: 1, max: 255 }).withMessage('Name must be 1-255 characters'),
+    body('redirectUris')
+        .isArray({ min: 1, max: 10 }).withMessage('redirectUris must be an array of 1-10 URLs'),
+    body('redirectUris.*')
+        .isURL({ protocols: ['https', 'http'], require_protocol: true, require_tld: false })
+        .withMessage('Each redirect URI must be an absolute URL')
+        .custom((uri: string) => {
+            const url = new URL(uri);
+            if (url.hash) {
+                throw new Error('Redirect URIs must not contain a fragment');
+            }
+            if (url.protocol === 'http:' && !['localhost', '127.0.0.1'].includes(url.hostname)) {
+                throw new Error('Redirect URIs must use https (http is allowed for localhost only)');
+            }
+            return true;
+        }),
+    body('scopes')
+        .optional()
+        .isArray({ min: 1 }).withMessage('scopes must be a non-empty array'),
+    body('scopes.*')
+        .isIn(Object.keys(OAUTH_SCOPES))
+        .withMessage(`Scopes must be one of: ${Object.keys(OAUTH_SCOPES).join(', ')}`),
+    body('confidential')
+        .optional()
+        .isBoolean().withMessage('confidential must be a boolean')
+        .toBoolean(),
+    handleValidationErrors
+];
+
+/**
+ * OAuth client ID param validation
+ * - clientId: required, 32 hex characters
+ */
+export const validateOAuthClientIdParam = [
+    param('clientId')
+        .matches(/^[a-f0-9]{32}$/).withMessage('Invalid client ID'),
+    handleValidationErrors
+];
+
+/**
+ * Service account registration validation
+ * - name: required, 1-255 characters
+ * - description: optional, up to 500 characters
+ * - scopes: required, 1-50 scope names such as orders:read (lowercase, at most one colon)
+ */
+export const validateServiceAccountCreate = [
+    body('name')
+        .exists().withMessage('Name is required')
+        .trim()
+        .isLength({ min: 1, max: 255 }).withMessage('Name must be 1-255 characters'),
+    body('description')
+        .optional()
+        .isString().withMessage('Description must be a string')
+        .trim()
+        .isLength({ max: 500 }).withMessage('Description must be at most 500 characters'),
+    body('scopes')
+        .isArray({ min: 1, max: 50 }).withMessage('scopes must be an array of 1-50 scope names'),
+    body('scopes.*')
+        .isString()
+        .matches(/^[a-z][a-z0-9_.-]{0,63}(:[a-z][a-z0-9_.-]{0,63})?$/)
+        .withMessage('Scopes must be lowercase names such as orders or orders:read'),
+    handleValidationErrors
+];
 
 /**
- * Custom password strength validator (optional, more strict)
- * Add to password fields if you want stronger validation
- * - Minimum 8 characters
- * - At least one uppercase letter
- * - At least one lowercase letter
- * - At least one number
- * - At least one special character (@$!%*?&)
+ * Service account client ID param validation
+ * - clientId: required, svc_ followed by 32 hex characters
  */
-export const passwordStrength = body('password')
-    .isLength({ min: 8 }).withMessage('Password must be at least 8 characters')
-    .matches(/[A-Z]/).withMessage('Must contain at least one uppercase letter')
-    .matches(/[a-z]/).withMessage('Must contain at least one lowercase letter')
-    .matches(/[0-9]/).withMessage('Must contain at least one number')
-    .matches(/[@$!%*?&]/).withMessage('Must contain at least one special character');
+export const validateServiceAccountIdParam = [
+    param('clientId')
+        .matches(/^svc_[a-f0-9]{32}$/).withMessage('Invalid service account ID'),
+    handleValidationErrors
+];
+
+// ============================================
+// CUSTOM VALIDATORS (OPTIONAL)
+// ============================================
 
 /**
  * Sanitize and validate pagination parameters
@@ -212,3 +705,52 @@ export const validatePagination = [
         .isInt({ min: 1, max: 100 }).withMessage('Limit must be 1–100'),
     handleValidationErrors
 ];
+
+/**
+ * Impersonation validation
+ * - id: target user, positive integer
+ * - reason: required (e.g. support ticket), 1-500 characters, recorded in the audit log
+ */
+export const validateImpersonation = [
+    param('id')
+        .isInt({ min: 1 }).withMessage('User ID must be a positive integer'),
+    body('reason')
+        .exists().withMessage('Reason is required')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 500 }).withMessage('Reason must be 1-500 characters'),
+    handleValidationErrors
+];
+
+/**
+ * Audit log query validation
+ * - actorId, targetId: optional, positive integers
+ * - action: optional, e.g. admin.role_change
+ * - from, to: optional, ISO 8601 timestamps
+ * - page, limit: optional pagination
+ */
+export const validateAuditQuery = [
+    query('actorId')
+        .optional()
+        .isInt({ min: 1 }).withMessage('actorId must be a positive integer'),
+    query('targetId')
+        .optional()
+        .isInt({ min: 1 }).withMessage('targetId must be a positive integer'),
+    query('action')
+        .optional()
+        .trim()
+        .matches(/^[a-z_]+\.[a-z_]+$/).withMessage('action must look like category.action'),
+    query('from')
+        .optional()
+        .isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to')
+        .optional()
+        .isISO8601().withMessage('to must be an ISO 8601 date'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 }).withMessage('Limit must be 1–100'),
+    handleValidationErrors
+];
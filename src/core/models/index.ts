@@ -29,11 +29,28 @@ export const RoleName = {
 export interface IJwtClaims {
     id: number;
     name: string;
+    email?: string;
     role: UserRole;
+    jti?: string;    // Unique token ID - used to revoke a single token
+    sid?: string;    // Login session the token belongs to
+    scope?: string;  // Space-separated scopes - personal access tokens only
+    patId?: number;  // Personal access token the request was made with
+    principal?: 'service';  // Set on service account tokens, which have no account
+    act?: IActorClaim;      // Set when an admin is impersonating the user (RFC 8693 actor)
+    auth_time?: number;     // When the user last proved their identity (seconds) - login or /auth/reauthenticate
     iat?: number;
     exp?: number;
 }
 
+/**
+ * The admin acting on a user's behalf in an impersonation token
+ */
+export interface IActorClaim {
+    sub: string;     // Impersonator's account ID
+    email: string;
+    sid?: string;    // Impersonator's login session - revoking it ends the impersonation
+}
+
 /**
  * Express Request with JWT claims and target user info
  */
@@ -55,11 +72,18 @@ export interface IUser {
     account_role: UserRole;
     email_verified: boolean;
     phone_verified: boolean;
-    account_status: 'pending' | 'active' | 'suspended' | 'locked';
+    account_status: 'pending' | 'active' | 'suspended' | 'locked' | 'deleted';
+    deletion_scheduled_at?: Date | null;
     created_at?: Date;
     updated_at?: Date;
 }
 
+/**
+ * Profile fields users may change themselves (PATCH /auth/me)
+ * Role and status are admin-only; email and phone need re-verification
+ */
+export const PROFILE_UPDATE_FIELDS = ['firstname', 'lastname', 'username'];
+
 /**
  * Authentication request body
  */
@@ -104,6 +128,13 @@ export interface IPasswordResetWithTokenRequest {
     password: string;
 }
 
+/**
+ * Refresh token request body
+ */
+export interface IRefreshTokenRequest {
+    refreshToken: string;
+}
+
 /**
  * Phone verification request body
  */
@@ -125,6 +156,7 @@ export interface IPasswordResetToken {
     id: number;
     email: string;
     type: 'password_reset';
+    passwordStamp: string;  // Fingerprint of the password hash the token was issued for
     iat?: number;
     exp?: number;
 }
@@ -132,8 +164,41 @@ export interface IPasswordResetToken {
 /**
  * JWT Configuration Constants
  */
-export const JWT_EXPIRY = '14d';           // Access token expiry
-export const JWT_RESET_EXPIRY = '1h';      // Password reset token expiry
+export const JWT_EXPIRY = '15m';           // Access token expiry
+export const JWT_RESET_EXPIRY = '15m';     // Password reset token expiry
+export const REFRESH_TOKEN_EXPIRY_DAYS = 30; // Refresh token lifetime
+export const PAT_MAX_LIFETIME_DAYS = 366;    // Longest allowed personal access token lifetime
+export const MAGIC_LINK_EXPIRY_MINUTES = 15; // Passwordless login link lifetime
+export const EMAIL_CHANGE_EXPIRY_HOURS = 24;  // Link sent to a new email address
+export const EMAIL_CHANGE_UNDO_DAYS = 7;      // Undo link sent to the old address after a change
+export const ACCOUNT_DELETION_GRACE_DAYS = 30; // Self-service deletion can be cancelled until then
+export const IMPERSONATION_TOKEN_EXPIRY = '15m'; // Admin "log in as user" token, never refreshed
+export const RECENT_AUTH_MAX_AGE_SECONDS = 600;  // How recently the password must have been entered for sensitive actions
+
+/**
+ * SMS Code Constants
+ * Shared by phone verification and SMS login
+ */
+export const SMS_CODE_EXPIRY_MINUTES = 15;   // SMS code lifetime
+export const SMS_CODE_MAX_ATTEMPTS = 3;      // Wrong guesses allowed per code
+export const SMS_CODE_RESEND_SECONDS = 60;   // Minimum time between two codes for one account
+
+// Scopes an OAuth client may request, with the text shown on the consent page
+export const OAUTH_SCOPES: { [scope: string]: string } = {
+    openid: 'Sign you in with your account',
+    profile: 'Your name and username',
+    email: 'Your email address and whether it is verified',
+    phone: 'Your phone number and whether it is verified',
+};
+
+// Scopes a personal access token may be granted
+// Reads (GET) need <area>:read, anything else <area>:write
+export const PAT_SCOPES: { [scope: string]: string } = {
+    'account:read': 'Read your own account, such as active sessions and access tokens',
+    'account:write': 'Change your own account, such as revoking sessions and sending verification codes',
+    'admin:read': 'Read users, sessions and the audit log (requires the Admin role)',
+    'admin:write': 'Manage users, sessions and OAuth clients (requires the Admin role)',
+};
 
 // Email-to-SMS gateway mappings
 export const SMS_GATEWAYS: { [key: string]: string } = {
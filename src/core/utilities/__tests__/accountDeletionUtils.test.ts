@@ -0,0 +1,28 @@
+import { anonymizedIdentity } from '../accountDeletionUtils';
+
+describe('accountDeletionUtils', () => {
+    describe('anonymizedIdentity', () => {
+        it('should replace every personal field with a placeholder', () => {
+            expect(anonymizedIdentity(42)).toEqual({
+                firstname: 'Deleted',
+                lastname: 'User',
+                username: 'deleted-42',
+                email: 'deleted-42@deleted.invalid',
+                phone: 'del-42',
+            });
+        });
+
+        it('should give each account distinct unique fields', () => {
+            const first = anonymizedIdentity(1);
+            const second = anonymizedIdentity(2);
+
+            expect(first.username).not.toBe(second.username);
+            expect(first.email).not.toBe(second.email);
+            expect(first.phone).not.toBe(second.phone);
+        });
+
+        it('should fit the 15 character phone column for the largest account ID', () => {
+            expect(anonymizedIdentity(2147483647).phone.length).toBeLessThanOrEqual(15);
+        });
+    });
+});
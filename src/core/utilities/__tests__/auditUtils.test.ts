@@ -0,0 +1,93 @@
+import {
+    diffChanges,
+    hashPersonalData,
+    pseudonymizeChanges,
+    pseudonymizeMetadata,
+    AUDIT_ACTIONS
+} from '../auditUtils';
+
+describe('auditUtils', () => {
+    describe('diffChanges', () => {
+        it('should return only the fields that changed', () => {
+            const before = { firstname: 'Ada', email: 'ada@example.com', account_role: 1 };
+            const after = { firstname: 'Ada', email: 'ada@example.org', account_role: 3 };
+
+            expect(diffChanges(before, after)).toEqual({
+                email: { from: 'ada@example.com', to: 'ada@example.org' },
+                account_role: { from: 1, to: 3 },
+            });
+        });
+
+        it('should return an empty object when nothing changed', () => {
+            expect(diffChanges({ phone: '555' }, { phone: '555' })).toEqual({});
+        });
+
+        it('should treat missing fields in the before snapshot as null', () => {
+            expect(diffChanges({}, { account_id: 7 })).toEqual({
+                account_id: { from: null, to: 7 },
+            });
+        });
+
+        it('should ignore fields that are not in the after snapshot', () => {
+            expect(diffChanges({ username: 'ada', phone: '555' }, { phone: '556' })).toEqual({
+                phone: { from: '555', to: '556' },
+            });
+        });
+
+        it('should compare dates and nested values by content', () => {
+            const when = '2025-01-01T00:00:00.000Z';
+            expect(diffChanges(
+                { lockedUntil: new Date(when), tags: ['a'] },
+                { lockedUntil: new Date(when), tags: ['a'] }
+            )).toEqual({});
+        });
+    });
+
+    describe('hashPersonalData', () => {
+        it('should return a prefixed SHA-256 hash', () => {
+            expect(hashPersonalData('ada@example.com')).toMatch(/^sha256:[0-9a-f]{64}$/);
+        });
+
+        it('should ignore case and surrounding whitespace', () => {
+            expect(hashPersonalData(' Ada@Example.com ')).toBe(hashPersonalData('ada@example.com'));
+            expect(hashPersonalData('ada@example.org')).not.toBe(hashPersonalData('ada@example.com'));
+        });
+    });
+
+    describe('pseudonymizeMetadata', () => {
+        it('should hash personal details and keep everything else', () => {
+            expect(pseudonymizeMetadata({ email: 'ada@example.com', newPhone: '2065550100', provider: 'google' }))
+                .toEqual({
+                    email: hashPersonalData('ada@example.com'),
+                    newPhone: hashPersonalData('2065550100'),
+                    provider: 'google',
+                });
+        });
+    });
+
+    describe('pseudonymizeChanges', () => {
+        it('should hash both sides of a personal detail change', () => {
+            expect(pseudonymizeChanges({
+                phone: { from: '2065550100', to: '2065550199' },
+                account_role: { from: 1, to: 3 },
+            })).toEqual({
+                phone: { from: hashPersonalData('2065550100'), to: hashPersonalData('2065550199') },
+                account_role: { from: 1, to: 3 },
+            });
+        });
+
+        it('should leave missing values as null', () => {
+            expect(pseudonymizeChanges({ username: { from: null, to: 'ada' } })).toEqual({
+                username: { from: null, to: hashPersonalData('ada') },
+            });
+        });
+    });
+
+    describe('AUDIT_ACTIONS', () => {
+        it('should use unique category.action names', () => {
+            const actions = Object.values(AUDIT_ACTIONS);
+            expect(new Set(actions).size).toBe(actions.length);
+            actions.forEach((action) => expect(action).toMatch(/^[a-z_]+\.[a-z_]+$/));
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+    addToBloomFilter,
+    bloomFilterHas,
+    createBloomFilter,
+    isBreachedPassword,
+    parseBloomFilter,
+    resetBreachedPasswordFilter,
+    serializeBloomFilter
+} from '../breachedPasswordUtils';
+
+describe('breachedPasswordUtils', () => {
+    const buildFilter = (passwords: string[]) => {
+        const filter = createBloomFilter(passwords.length, 0.001);
+        passwords.forEach((password) => addToBloomFilter(filter, password));
+        return filter;
+    };
+
+    describe('createBloomFilter', () => {
+        it('should size the filter for the expected items and false-positive rate', () => {
+            const filter = createBloomFilter(1000, 0.001);
+
+            // About 14.4 bits and 10 hashes per item at 0.1%
+            expect(filter.bitCount).toBe(14378);
+            expect(filter.hashCount).toBe(10);
+            expect(filter.bits.length).toBe(Math.ceil(14378 / 8));
+            expect(filter.itemCount).toBe(0);
+        });
+
+        it('should handle an empty list', () => {
+            const filter = createBloomFilter(0, 0.001);
+
+            expect(filter.bitCount).toBeGreaterThan(0);
+            expect(bloomFilterHas(filter, 'anything')).toBe(false);
+        });
+    });
+
+    describe('bloomFilterHas', () => {
+        it('should find every added password', () => {
+            const passwords = Array.from({ length: 500 }, (_, i) => `password-${i}`);
+            const filter = buildFilter(passwords);
+
+            expect(passwords.every((password) => bloomFilterHas(filter, password))).toBe(true);
+            expect(filter.itemCount).toBe(500);
+        });
+
+        it('should rarely match passwords that were not added', () => {
+            const filter = buildFilter(Array.from({ length: 500 }, (_, i) => `password-${i}`));
+            const falsePositives = Array.from({ length: 5000 }, (_, i) => `other-${i}`)
+                .filter((password) => bloomFilterHas(filter, password)).length;
+
+            expect(falsePositives).toBeLessThan(25);
+        });
+
+        it('should be case sensitive', () => {
+            const filter = buildFilter(['Password1']);
+
+            expect(bloomFilterHas(filter, 'Password1')).toBe(true);
+            expect(bloomFilterHas(filter, 'password1')).toBe(false);
+        });
+    });
+
+    describe('serializeBloomFilter / parseBloomFilter', () => {
+        it('should round-trip a filter', () => {
+            const filter = buildFilter(['hunter2', 'letmein']);
+            const parsed = parseBloomFilter(serializeBloomFilter(filter));
+
+            expect(parsed).toEqual(filter);
+            expect(bloomFilterHas(parsed, 'hunter2')).toBe(true);
+        });
+
+        it('should reject data that is not a filter', () => {
+            expect(() => parseBloomFilter(Buffer.from('123456\npassword\n'))).toThrow('Not a breached-password filter file');
+        });
+
+        it('should reject a truncated filter', () => {
+            const data = serializeBloomFilter(buildFilter(['hunter2']));
+
+            expect(() => parseBloomFilter(data.subarray(0, data.length - 1))).toThrow('corrupt');
+        });
+    });
+
+    describe('isBreachedPassword', () => {
+        let originalEnv: NodeJS.ProcessEnv;
+        let tempDir: string;
+
+        beforeEach(() => {
+            originalEnv = { ...process.env };
+            tempDir = mkdtempSync(path.join(tmpdir(), 'breached-'));
+            resetBreachedPasswordFilter();
+        });
+
+        afterEach(() => {
+            process.env = originalEnv;
+            rmSync(tempDir, { recursive: true, force: true });
+            resetBreachedPasswordFilter();
+            jest.restoreAllMocks();
+        });
+
+        it('should check the shipped filter by default', () => {
+            delete process.env.BREACHED_PASSWORDS_FILTER;
+
+            expect(isBreachedPassword('P@ssw0rd')).toBe(true);
+            expect(isBreachedPassword('Summer2024!')).toBe(true);
+            expect(isBreachedPassword('Correct-Horse-42')).toBe(false);
+        });
+
+        it('should load the filter named by BREACHED_PASSWORDS_FILTER', () => {
+            const filterPath = path.join(tempDir, 'custom.bloom');
+            writeFileSync(filterPath, serializeBloomFilter(buildFilter(['Correct-Horse-42'])));
+            process.env.BREACHED_PASSWORDS_FILTER = filterPath;
+
+            expect(isBreachedPassword('Correct-Horse-42')).toBe(true);
+            expect(isBreachedPassword('P@ssw0rd')).toBe(false);
+        });
+
+        it('should allow every password, with one warning, when the filter cannot be loaded', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            process.env.BREACHED_PASSWORDS_FILTER = path.join(tempDir, 'missing.bloom');
+
+            expect(isBreachedPassword('P@ssw0rd')).toBe(false);
+            expect(isBreachedPassword('password')).toBe(false);
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+    });
+});
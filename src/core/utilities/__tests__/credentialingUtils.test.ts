@@ -4,7 +4,11 @@ import {
     generateSaltedHash,
     verifyPassword,
     generateVerificationCode,
-    generateSecureToken
+    generateSecureToken,
+    generateTokenHash,
+    hashPassword,
+    passwordNeedsRehash,
+    verifyDummyPassword
 } from '../credentialingUtils';
 
 describe('credentialingUtils', () => {
@@ -136,68 +140,103 @@ describe('credentialingUtils', () => {
     });
 
     describe('verifyPassword', () => {
-        it('should return true for correct password', () => {
+        it('should return true for correct password', async () => {
             const password = 'correctPassword';
             const salt = generateSalt();
             const hash = generateHash(password, salt);
 
-            const result = verifyPassword(password, salt, hash);
+            const result = await verifyPassword(password, salt, hash);
             expect(result).toBe(true);
         });
 
-        it('should return false for incorrect password', () => {
+        it('should return false for incorrect password', async () => {
             const correctPassword = 'correctPassword';
             const wrongPassword = 'wrongPassword';
             const salt = generateSalt();
             const hash = generateHash(correctPassword, salt);
 
-            const result = verifyPassword(wrongPassword, salt, hash);
+            const result = await verifyPassword(wrongPassword, salt, hash);
             expect(result).toBe(false);
         });
 
-        it('should return false for wrong salt', () => {
+        it('should return false for wrong salt', async () => {
             const password = 'testPassword';
             const correctSalt = generateSalt();
             const wrongSalt = generateSalt();
             const hash = generateHash(password, correctSalt);
 
-            const result = verifyPassword(password, wrongSalt, hash);
+            const result = await verifyPassword(password, wrongSalt, hash);
             expect(result).toBe(false);
         });
 
-        it('should return false for tampered hash', () => {
+        it('should return false for tampered hash', async () => {
             const password = 'testPassword';
             const salt = generateSalt();
             const hash = generateHash(password, salt);
             const tamperedHash = hash.substring(0, 63) + (hash[63] === 'a' ? 'b' : 'a');
 
-            const result = verifyPassword(password, salt, tamperedHash);
+            const result = await verifyPassword(password, salt, tamperedHash);
             expect(result).toBe(false);
         });
 
-        it('should handle empty strings', () => {
-            const result1 = verifyPassword('', '', generateHash('', ''));
+        it('should handle empty strings', async () => {
+            const result1 = await verifyPassword('', '', generateHash('', ''));
             expect(result1).toBe(true);
 
-            const result2 = verifyPassword('password', '', generateHash('password', ''));
+            const result2 = await verifyPassword('password', '', generateHash('password', ''));
             expect(result2).toBe(true);
         });
 
-        it('should be case sensitive', () => {
+        it('should be case sensitive', async () => {
             const salt = generateSalt();
             const hash = generateHash('Password', salt);
 
-            expect(verifyPassword('Password', salt, hash)).toBe(true);
-            expect(verifyPassword('password', salt, hash)).toBe(false);
-            expect(verifyPassword('PASSWORD', salt, hash)).toBe(false);
+            expect(await verifyPassword('Password', salt, hash)).toBe(true);
+            expect(await verifyPassword('password', salt, hash)).toBe(false);
+            expect(await verifyPassword('PASSWORD', salt, hash)).toBe(false);
         });
 
         it('should work with generateSaltedHash', async () => {
             const password = 'integrationTest';
             const { salt, hash } = await generateSaltedHash(password);
 
-            expect(verifyPassword(password, salt, hash)).toBe(true);
-            expect(verifyPassword('wrongPassword', salt, hash)).toBe(false);
+            expect(await verifyPassword(password, salt, hash)).toBe(true);
+            expect(await verifyPassword('wrongPassword', salt, hash)).toBe(false);
+        });
+    });
+
+    describe('hashPassword', () => {
+        it('should produce a self-describing scrypt hash by default', async () => {
+            expect(await hashPassword('password')).toMatch(/^\$scrypt\$ln=\d+,r=\d+,p=\d+\$/);
+        });
+
+        it('should verify through verifyPassword without a separate salt', async () => {
+            const hash = await hashPassword('correctPassword');
+
+            expect(await verifyPassword('correctPassword', null, hash)).toBe(true);
+            expect(await verifyPassword('wrongPassword', null, hash)).toBe(false);
+        });
+
+        it('should ignore the salt column for encoded hashes', async () => {
+            const hash = await hashPassword('correctPassword');
+            expect(await verifyPassword('correctPassword', generateSalt(), hash)).toBe(true);
+        });
+    });
+
+    describe('verifyDummyPassword', () => {
+        it('should reject every password', async () => {
+            expect(await verifyDummyPassword('password')).toBe(false);
+            expect(await verifyDummyPassword('')).toBe(false);
+        });
+    });
+
+    describe('passwordNeedsRehash', () => {
+        it('should flag legacy SHA256 hashes', () => {
+            expect(passwordNeedsRehash(generateHash('password', generateSalt()))).toBe(true);
+        });
+
+        it('should not flag hashes from hashPassword', async () => {
+            expect(passwordNeedsRehash(await hashPassword('password'))).toBe(false);
         });
     });
 
@@ -326,6 +365,27 @@ describe('credentialingUtils', () => {
         });
     });
 
+    describe('generateTokenHash', () => {
+        it('should generate a 64-character SHA256 hex digest', () => {
+            const hash = generateTokenHash(generateSecureToken());
+            expect(hash).toMatch(/^[a-f0-9]{64}$/);
+        });
+
+        it('should be deterministic so tokens can be looked up by hash', () => {
+            const token = generateSecureToken();
+            expect(generateTokenHash(token)).toBe(generateTokenHash(token));
+        });
+
+        it('should not return the raw token', () => {
+            const token = generateSecureToken();
+            expect(generateTokenHash(token)).not.toBe(token);
+        });
+
+        it('should produce different hashes for different tokens', () => {
+            expect(generateTokenHash('token-a')).not.toBe(generateTokenHash('token-b'));
+        });
+    });
+
     describe('Integration tests', () => {
         it('should work end-to-end for password creation and verification', async () => {
             const passwords = [
@@ -341,13 +401,13 @@ describe('credentialingUtils', () => {
                 const { salt, hash } = await generateSaltedHash(password);
 
                 // Should verify correctly
-                expect(verifyPassword(password, salt, hash)).toBe(true);
+                expect(await verifyPassword(password, salt, hash)).toBe(true);
 
                 // Should fail with wrong password
-                expect(verifyPassword(password + 'x', salt, hash)).toBe(false);
+                expect(await verifyPassword(password + 'x', salt, hash)).toBe(false);
 
                 // Should fail with wrong salt
-                expect(verifyPassword(password, generateSalt(), hash)).toBe(false);
+                expect(await verifyPassword(password, generateSalt(), hash)).toBe(false);
             }
         });
 
@@ -371,7 +431,7 @@ describe('credentialingUtils', () => {
 
             // But all should verify correctly
             for (const { salt, hash } of results) {
-                expect(verifyPassword(password, salt, hash)).toBe(true);
+                expect(await verifyPassword(password, salt, hash)).toBe(true);
             }
         });
     });
@@ -4,7 +4,11 @@ import {
     sendEmail,
     sendSMSViaEmail,
     sendVerificationEmail,
-    sendPasswordResetEmail
+    sendPasswordResetEmail,
+    sendMagicLinkEmail,
+    sendEmailChangeConfirmationEmail,
+    sendEmailChangedNotice,
+    sendAccountDeletionScheduledEmail
 } from '../emailService';
 import * as envConfig from '../envConfig';
 
@@ -443,6 +447,172 @@ describe('emailService', () => {
         });
     });
 
+    describe('sendMagicLinkEmail', () => {
+        beforeEach(() => {
+            initializeEmailService();
+        });
+
+        it('should send magic link email with correct content', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(false);
+            mockEnvConfig.getEnvVar.mockImplementation((key: string) => {
+                if (key === 'SEND_EMAILS') return 'true';
+                if (key === 'EMAIL_FROM') return 'noreply@auth2.com';
+                return '';
+            });
+            mockTransporter.sendMail.mockResolvedValue({} as nodemailer.SentMessageInfo);
+
+            const result = await sendMagicLinkEmail(
+                'user@example.com',
+                'Jane',
+                'https://example.com/auth/login/magic-link/verify?token=abc123',
+                15
+            );
+
+            expect(result).toBe(true);
+            expect(mockTransporter.sendMail).toHaveBeenCalledWith({
+                from: 'noreply@auth2.com',
+                to: 'user@example.com',
+                subject: 'Your Auth² login link',
+                html: expect.stringContaining('Hi Jane,'),
+            });
+
+            const htmlContent = mockTransporter.sendMail.mock.calls[0][0].html;
+            expect(htmlContent).toContain('https://example.com/auth/login/magic-link/verify?token=abc123');
+            expect(htmlContent).toContain('This link will expire in 15 minutes');
+        });
+
+        it('should handle magic link email sending errors', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(true);
+            mockTransporter.sendMail.mockRejectedValue(new Error('Email service error'));
+
+            const result = await sendMagicLinkEmail(
+                'user@example.com',
+                'Jane',
+                'https://example.com/auth/login/magic-link/verify?token=abc123',
+                15
+            );
+
+            expect(result).toBe(false);
+        });
+    });
+
+    describe('sendEmailChangeConfirmationEmail', () => {
+        beforeEach(() => {
+            initializeEmailService();
+        });
+
+        it('should send the confirmation link to the new address', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(false);
+            mockEnvConfig.getEnvVar.mockImplementation((key: string) => {
+                if (key === 'SEND_EMAILS') return 'true';
+                if (key === 'EMAIL_FROM') return 'noreply@auth2.com';
+                return '';
+            });
+            mockTransporter.sendMail.mockResolvedValue({} as nodemailer.SentMessageInfo);
+
+            const result = await sendEmailChangeConfirmationEmail(
+                'new@example.com',
+                'Jane',
+                'https://example.com/auth/email-change/confirm?token=abc123',
+                24
+            );
+
+            expect(result).toBe(true);
+            expect(mockTransporter.sendMail).toHaveBeenCalledWith({
+                from: 'noreply@auth2.com',
+                to: 'new@example.com',
+                subject: 'Confirm your new Auth² email address',
+                html: expect.stringContaining('Hi Jane,'),
+            });
+
+            const htmlContent = mockTransporter.sendMail.mock.calls[0][0].html;
+            expect(htmlContent).toContain('https://example.com/auth/email-change/confirm?token=abc123');
+            expect(htmlContent).toContain('This link will expire in 24 hours');
+        });
+    });
+
+    describe('sendEmailChangedNotice', () => {
+        beforeEach(() => {
+            initializeEmailService();
+        });
+
+        it('should send the undo link to the old address', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(false);
+            mockEnvConfig.getEnvVar.mockImplementation((key: string) => {
+                if (key === 'SEND_EMAILS') return 'true';
+                if (key === 'EMAIL_FROM') return 'noreply@auth2.com';
+                return '';
+            });
+            mockTransporter.sendMail.mockResolvedValue({} as nodemailer.SentMessageInfo);
+
+            const result = await sendEmailChangedNotice(
+                'old@example.com',
+                'Jane',
+                'new@example.com',
+                'https://example.com/auth/email-change/undo?token=def456',
+                7
+            );
+
+            expect(result).toBe(true);
+            expect(mockTransporter.sendMail).toHaveBeenCalledWith({
+                from: 'noreply@auth2.com',
+                to: 'old@example.com',
+                subject: 'Your Auth² email address was changed',
+                html: expect.stringContaining('from old@example.com to new@example.com'),
+            });
+
+            const htmlContent = mockTransporter.sendMail.mock.calls[0][0].html;
+            expect(htmlContent).toContain('https://example.com/auth/email-change/undo?token=def456');
+            expect(htmlContent).toContain('This link will work for 7 days');
+        });
+
+        it('should handle notice sending errors', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(true);
+            mockTransporter.sendMail.mockRejectedValue(new Error('Email service error'));
+
+            const result = await sendEmailChangedNotice(
+                'old@example.com',
+                'Jane',
+                'new@example.com',
+                'https://example.com/auth/email-change/undo?token=def456',
+                7
+            );
+
+            expect(result).toBe(false);
+        });
+    });
+
+    describe('sendAccountDeletionScheduledEmail', () => {
+        beforeEach(() => {
+            initializeEmailService();
+        });
+
+        it('should send the deletion date to the account email', async () => {
+            mockEnvConfig.isProduction.mockReturnValue(false);
+            mockEnvConfig.getEnvVar.mockImplementation((key: string) => {
+                if (key === 'SEND_EMAILS') return 'true';
+                if (key === 'EMAIL_FROM') return 'noreply@auth2.com';
+                return '';
+            });
+            mockTransporter.sendMail.mockResolvedValue({} as nodemailer.SentMessageInfo);
+
+            const deletionDate = new Date('2025-07-01T12:00:00Z');
+            const result = await sendAccountDeletionScheduledEmail('jane@example.com', 'Jane', deletionDate);
+
+            expect(result).toBe(true);
+            expect(mockTransporter.sendMail).toHaveBeenCalledWith({
+                from: 'noreply@auth2.com',
+                to: 'jane@example.com',
+                subject: 'Your Auth² account will be deleted',
+                html: expect.stringContaining('Hi Jane'),
+            });
+
+            const htmlContent = mockTransporter.sendMail.mock.calls[0][0].html;
+            expect(htmlContent).toContain(deletionDate.toUTCString());
+            expect(htmlContent).toContain('cancel the deletion');
+        });
+    });
+
     describe('Integration tests', () => {
         beforeEach(() => {
             initializeEmailService();
@@ -20,6 +20,7 @@ describe('envConfig', () => {
         delete process.env.APP_BASE_URL;
         delete process.env.DEFAULT_SMS_CARRIER;
         delete process.env.JWT_EXPIRY;
+        delete process.env.REFRESH_TOKEN_EXPIRY_DAYS;
     });
 
     afterEach(() => {
@@ -51,7 +52,7 @@ describe('envConfig', () => {
         it('should throw error when required variables are missing', () => {
             const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
 
-            expect(() => validateEnv()).toThrow('Missing required environment variables: JWT_SECRET, DATABASE_URL, EMAIL_USER, EMAIL_PASSWORD');
+            expect(() => validateEnv()).toThrow('Missing required environment variables: DATABASE_URL, EMAIL_USER, EMAIL_PASSWORD');
             // Verify helpful error message was displayed
             expect(consoleErrorSpy).toHaveBeenCalled();
 
@@ -92,7 +93,8 @@ describe('envConfig', () => {
             expect(process.env.SEND_SMS_EMAILS).toBe('false');
             expect(process.env.APP_BASE_URL).toBe('http://localhost:8000');
             expect(process.env.DEFAULT_SMS_CARRIER).toBe('att');
-            expect(process.env.JWT_EXPIRY).toBe('14d');
+            expect(process.env.JWT_EXPIRY).toBe('15m');
+            expect(process.env.REFRESH_TOKEN_EXPIRY_DAYS).toBe('30');
 
             consoleSpy.mockRestore();
         });
@@ -0,0 +1,238 @@
+import { createHash, generateKeyPairSync } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import {
+    buildFederatedAuthorizationUrl,
+    exchangeFederatedCode,
+    FederatedProvider,
+    getEnvFederatedProviders,
+    getProviderMetadata,
+    ProviderMetadata,
+    resetFederatedProviderCache,
+    verifyFederatedIdToken,
+} from '../federatedUtils';
+
+/**
+ * A local stand-in OpenID Connect provider: discovery, JWKS and token endpoints
+ */
+const providerKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface TokenRequest {
+    authorization: string | undefined;
+    body: URLSearchParams;
+}
+
+const readBody = (request: IncomingMessage): Promise<string> => new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => resolve(body));
+});
+
+describe('federatedUtils', () => {
+    let server: Server;
+    let issuer: string;
+    let provider: FederatedProvider;
+    let metadata: ProviderMetadata;
+    let tokenRequests: TokenRequest[];
+    let nextIdToken: string | null;
+    let discoveryIssuer: string | null;
+    let originalEnv: NodeJS.ProcessEnv;
+
+    const signIdToken = (
+        claims: Record<string, unknown>,
+        options: { key?: typeof providerKey; kid?: string; expiresIn?: number } = {}
+    ) =>
+        jwt.sign(
+            { sub: 'uw-12345', email: 'Ada@UW.edu', email_verified: true, nonce: 'nonce-1', ...claims },
+            (options.key ?? providerKey).privateKey,
+            { algorithm: 'RS256', keyid: options.kid ?? 'key-1', issuer, audience: 'our-client', expiresIn: options.expiresIn ?? 300 }
+        );
+
+    beforeAll(async () => {
+        server = createServer(async (request, response) => {
+            const send = (status: number, body: unknown) => {
+                response.writeHead(status, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify(body));
+            };
+
+            if (request.url === '/.well-known/openid-configuration') {
+                send(200, {
+                    issuer: discoveryIssuer ?? issuer,
+                    authorization_endpoint: `${issuer}/authorize`,
+                    token_endpoint: `${issuer}/token`,
+                    jwks_uri: `${issuer}/jwks`,
+                });
+            } else if (request.url === '/jwks') {
+                send(200, { keys: [{ ...providerKey.publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+            } else if (request.url === '/token' && request.method === 'POST') {
+                tokenRequests.push({ authorization: request.headers.authorization, body: new URLSearchParams(await readBody(request)) });
+                if (nextIdToken) {
+                    send(200, { access_token: 'upstream-access-token', token_type: 'Bearer', id_token: nextIdToken });
+                } else {
+                    send(400, { error: 'invalid_grant' });
+                }
+            } else {
+                send(404, { error: 'not_found' });
+            }
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        originalEnv = { ...process.env };
+        process.env.APP_BASE_URL = 'https://api.example.com';
+        resetFederatedProviderCache();
+        tokenRequests = [];
+        nextIdToken = null;
+        discoveryIssuer = null;
+
+        provider = {
+            id: 'uw',
+            name: 'UW NetID',
+            issuer,
+            clientId: 'our-client',
+            clientSecret: 'our-secret',
+            scopes: ['openid', 'email'],
+        };
+        metadata = await getProviderMetadata(provider);
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        jest.restoreAllMocks();
+    });
+
+    describe('getEnvFederatedProviders', () => {
+        it('should read each listed provider from its prefixed variables', () => {
+            process.env.FEDERATED_PROVIDERS = 'UW, campus-sso';
+            process.env.FEDERATED_UW_ISSUER = 'https://idp.uw.edu/';
+            process.env.FEDERATED_UW_CLIENT_ID = 'client';
+            process.env.FEDERATED_UW_CLIENT_SECRET = 'secret';
+            process.env.FEDERATED_UW_NAME = 'UW NetID';
+            process.env.FEDERATED_CAMPUS_SSO_ISSUER = 'https://sso.example.edu';
+            process.env.FEDERATED_CAMPUS_SSO_CLIENT_ID = 'client-2';
+            process.env.FEDERATED_CAMPUS_SSO_CLIENT_SECRET = 'secret-2';
+            process.env.FEDERATED_CAMPUS_SSO_SCOPES = 'openid email';
+
+            expect(getEnvFederatedProviders()).toEqual([
+                { id: 'uw', name: 'UW NetID', issuer: 'https://idp.uw.edu', clientId: 'client', clientSecret: 'secret', scopes: ['openid', 'email', 'profile'] },
+                { id: 'campus-sso', name: 'campus-sso', issuer: 'https://sso.example.edu', clientId: 'client-2', clientSecret: 'secret-2', scopes: ['openid', 'email'] },
+            ]);
+        });
+
+        it('should skip providers with missing settings', () => {
+            process.env.FEDERATED_PROVIDERS = 'uw';
+            delete process.env.FEDERATED_UW_ISSUER;
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            expect(getEnvFederatedProviders()).toEqual([]);
+        });
+    });
+
+    describe('getProviderMetadata', () => {
+        it('should read the endpoints from the discovery document', () => {
+            expect(metadata).toMatchObject({
+                issuer,
+                authorization_endpoint: `${issuer}/authorize`,
+                token_endpoint: `${issuer}/token`,
+                jwks_uri: `${issuer}/jwks`,
+            });
+        });
+
+        it('should reject a discovery document for another issuer', async () => {
+            resetFederatedProviderCache();
+            discoveryIssuer = 'https://evil.example.net';
+
+            await expect(getProviderMetadata(provider)).rejects.toThrow('names issuer https://evil.example.net');
+        });
+    });
+
+    describe('buildFederatedAuthorizationUrl', () => {
+        it('should send state, nonce and an S256 PKCE challenge to the provider', () => {
+            const url = new URL(buildFederatedAuthorizationUrl(provider, metadata, {
+                state: 'state-1',
+                nonce: 'nonce-1',
+                codeVerifier: 'verifier-1',
+            }));
+
+            expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+            expect(Object.fromEntries(url.searchParams)).toEqual({
+                response_type: 'code',
+                client_id: 'our-client',
+                redirect_uri: 'https://api.example.com/auth/federated/uw/callback',
+                scope: 'openid email',
+                state: 'state-1',
+                nonce: 'nonce-1',
+                code_challenge: createHash('sha256').update('verifier-1').digest('base64url'),
+                code_challenge_method: 'S256',
+            });
+        });
+    });
+
+    describe('exchangeFederatedCode', () => {
+        it('should post the code and verifier with client credentials', async () => {
+            nextIdToken = signIdToken({});
+
+            await expect(exchangeFederatedCode(provider, metadata, 'code-1', 'verifier-1')).resolves.toBe(nextIdToken);
+
+            const [tokenRequest] = tokenRequests;
+            expect(tokenRequest.authorization).toBe(`Basic ${Buffer.from('our-client:our-secret').toString('base64')}`);
+            expect(Object.fromEntries(tokenRequest.body)).toEqual({
+                grant_type: 'authorization_code',
+                code: 'code-1',
+                redirect_uri: 'https://api.example.com/auth/federated/uw/callback',
+                code_verifier: 'verifier-1',
+            });
+        });
+
+        it('should fail when the provider rejects the code', async () => {
+            await expect(exchangeFederatedCode(provider, metadata, 'bad-code', 'verifier-1')).rejects.toThrow('invalid_grant');
+        });
+    });
+
+    describe('verifyFederatedIdToken', () => {
+        it('should return the identity from a valid ID token', async () => {
+            await expect(verifyFederatedIdToken(provider, metadata, signIdToken({ name: 'Ada Lovelace' }), 'nonce-1')).resolves.toEqual({
+                subject: 'uw-12345',
+                email: 'ada@uw.edu',
+                emailVerified: true,
+                name: 'Ada Lovelace',
+            });
+        });
+
+        it('should not treat an unverified email as verified', async () => {
+            const identity = await verifyFederatedIdToken(provider, metadata, signIdToken({ email_verified: false }), 'nonce-1');
+            expect(identity?.emailVerified).toBe(false);
+        });
+
+        it('should reject a token for a different sign-in (nonce)', async () => {
+            await expect(verifyFederatedIdToken(provider, metadata, signIdToken({}), 'nonce-2')).resolves.toBeNull();
+        });
+
+        it('should reject a token issued to another client', async () => {
+            await expect(verifyFederatedIdToken({ ...provider, clientId: 'another-client' }, metadata, signIdToken({}), 'nonce-1')).resolves.toBeNull();
+        });
+
+        it('should reject a token from another issuer', async () => {
+            await expect(verifyFederatedIdToken({ ...provider, issuer: 'https://evil.example.net' }, metadata, signIdToken({}), 'nonce-1')).resolves.toBeNull();
+        });
+
+        it('should reject a token signed with a key the provider does not publish', async () => {
+            await expect(verifyFederatedIdToken(provider, metadata, signIdToken({}, { key: otherKey }), 'nonce-1')).resolves.toBeNull();
+            await expect(verifyFederatedIdToken(provider, metadata, signIdToken({}, { kid: 'key-2' }), 'nonce-1')).resolves.toBeNull();
+        });
+
+        it('should reject an expired token', async () => {
+            const expired = signIdToken({}, { expiresIn: -3600 });
+            await expect(verifyFederatedIdToken(provider, metadata, expired, 'nonce-1')).resolves.toBeNull();
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { Request } from 'express';
+import { canImpersonate } from '../impersonationUtils';
+import { getAuditContext } from '../auditUtils';
+import { resetKeyStore } from '../signingKeys';
+import { generateImpersonationToken, verifyToken } from '../tokenUtils';
+import { UserRole } from '@models';
+
+describe('impersonationUtils', () => {
+    describe('canImpersonate', () => {
+        it('should allow impersonating a lower role', () => {
+            expect(canImpersonate(UserRole.ADMIN, UserRole.USER)).toBe(true);
+            expect(canImpersonate(UserRole.OWNER, UserRole.SUPER_ADMIN)).toBe(true);
+        });
+
+        it('should refuse an equal or higher role', () => {
+            expect(canImpersonate(UserRole.ADMIN, UserRole.ADMIN)).toBe(false);
+            expect(canImpersonate(UserRole.ADMIN, UserRole.OWNER)).toBe(false);
+        });
+    });
+
+    describe('generateImpersonationToken', () => {
+        beforeEach(() => {
+            resetKeyStore();
+        });
+
+        afterEach(() => {
+            resetKeyStore();
+        });
+
+        it('should carry the user as subject and the admin as actor', () => {
+            const token = generateImpersonationToken({
+                id: 42,
+                email: 'ada@example.com',
+                role: UserRole.USER,
+                act: { sub: '7', email: 'support@example.com', sid: 'session-1' },
+            });
+            const claims = verifyToken(token);
+
+            expect(claims).toMatchObject({
+                id: 42,
+                email: 'ada@example.com',
+                role: UserRole.USER,
+                act: { sub: '7', email: 'support@example.com', sid: 'session-1' },
+            });
+            expect(claims.jti).toEqual(expect.any(String));
+            expect(claims.exp - claims.iat).toBe(15 * 60);
+            expect(claims).not.toHaveProperty('sid');
+        });
+    });
+
+    describe('getAuditContext', () => {
+        const request = (claims: object) => ({
+            claims,
+            ip: '203.0.113.5',
+            get: () => 'jest',
+        }) as unknown as Request & { claims: { id: number; act?: { sub: string } } };
+
+        it('should record the admin, not the user, as actor while impersonating', () => {
+            expect(getAuditContext(request({ id: 42, act: { sub: '7' } }))).toEqual({
+                actorId: 7,
+                ipAddress: '203.0.113.5',
+                userAgent: 'jest',
+            });
+        });
+
+        it('should record the user as actor otherwise', () => {
+            expect(getAuditContext(request({ id: 42 })).actorId).toBe(42);
+        });
+    });
+});
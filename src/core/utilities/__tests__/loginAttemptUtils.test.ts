@@ -0,0 +1,59 @@
+import { calculateLockoutDuration, getLoginLockoutConfig, LoginLockoutConfig } from '../loginAttemptUtils';
+
+describe('loginAttemptUtils', () => {
+    const config: LoginLockoutConfig = {
+        maxAttempts: 5,
+        baseLockoutMinutes: 15,
+        maxLockoutMinutes: 120,
+        maxAttemptsPerIp: 20,
+        ipWindowMinutes: 15,
+    };
+    const minutes = (value: number) => value * 60 * 1000;
+
+    describe('calculateLockoutDuration', () => {
+        it('should use the base duration for the first lockout', () => {
+            expect(calculateLockoutDuration(0, config)).toBe(minutes(15));
+        });
+
+        it('should double the duration for each repeat lockout', () => {
+            expect(calculateLockoutDuration(1, config)).toBe(minutes(30));
+            expect(calculateLockoutDuration(2, config)).toBe(minutes(60));
+            expect(calculateLockoutDuration(3, config)).toBe(minutes(120));
+        });
+
+        it('should cap the duration at the maximum', () => {
+            expect(calculateLockoutDuration(4, config)).toBe(minutes(120));
+            expect(calculateLockoutDuration(50, config)).toBe(minutes(120));
+        });
+    });
+
+    describe('getLoginLockoutConfig', () => {
+        let originalEnv: NodeJS.ProcessEnv;
+
+        beforeEach(() => {
+            originalEnv = { ...process.env };
+        });
+
+        afterEach(() => {
+            process.env = originalEnv;
+        });
+
+        it('should provide defaults', () => {
+            delete process.env.LOGIN_MAX_ATTEMPTS;
+            delete process.env.LOGIN_LOCKOUT_MINUTES;
+
+            const defaults = getLoginLockoutConfig();
+            expect(defaults.maxAttempts).toBe(5);
+            expect(defaults.baseLockoutMinutes).toBe(15);
+        });
+
+        it('should read overrides from the environment', () => {
+            process.env.LOGIN_MAX_ATTEMPTS = '3';
+            process.env.LOGIN_MAX_ATTEMPTS_PER_IP = '50';
+
+            const overridden = getLoginLockoutConfig();
+            expect(overridden.maxAttempts).toBe(3);
+            expect(overridden.maxAttemptsPerIp).toBe(50);
+        });
+    });
+});
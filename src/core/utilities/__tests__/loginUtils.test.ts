@@ -0,0 +1,134 @@
+import { authenticateWithPassword, releaseExpiredLock } from '../loginUtils';
+import { getLoginLockoutConfig, recordFailedLogin } from '../loginAttemptUtils';
+import { hashPassword } from '../credentialingUtils';
+
+// Mock the database with one account whose lockout columns the queries update
+const mockQuery = jest.fn();
+jest.mock('../database', () => ({
+    getPool: () => ({ query: mockQuery }),
+}));
+
+interface FakeAccount {
+    failedLoginAttempts: number;
+    lockoutCount: number;
+    status: string;
+    lockedUntil: Date | null;
+    saltedHash: string;
+}
+
+const rows = (...result: Record<string, unknown>[]) => ({ rowCount: result.length, rows: result });
+
+const useAccount = (account: FakeAccount) => {
+    mockQuery.mockImplementation(async (sql: string, params: unknown[] = []) => {
+        if (sql.includes('COUNT(*) AS count')) {
+            return rows({ count: '0' });
+        }
+        if (sql.includes('LEFT JOIN Account_Credential')) {
+            return rows({
+                account_id: 7,
+                firstname: 'Ada',
+                email: 'ada@example.com',
+                email_verified: true,
+                account_status: account.status,
+                locked_until: account.lockedUntil,
+                salted_hash: account.saltedHash,
+                salt: null,
+            });
+        }
+        if (sql.includes('Failed_Login_Attempts = Failed_Login_Attempts + 1')) {
+            account.failedLoginAttempts += 1;
+            return rows({ failed_login_attempts: account.failedLoginAttempts, lockout_count: account.lockoutCount });
+        }
+        if (sql.includes("SET Account_Status = 'locked'")) {
+            account.status = 'locked';
+            account.lockedUntil = params[0] as Date;
+            account.lockoutCount += 1;
+            account.failedLoginAttempts = 0;
+            return rows();
+        }
+        if (sql.includes('SET Failed_Login_Attempts = 0, Lockout_Count = 0')) {
+            account.failedLoginAttempts = 0;
+            account.lockoutCount = 0;
+            return rows();
+        }
+        return rows();
+    });
+};
+
+describe('loginUtils', () => {
+    describe('authenticateWithPassword', () => {
+        let account: FakeAccount;
+
+        beforeEach(async () => {
+            mockQuery.mockReset();
+            account = {
+                failedLoginAttempts: 0,
+                lockoutCount: 0,
+                status: 'active',
+                lockedUntil: null,
+                saltedHash: await hashPassword('Correct-Horse-42'),
+            };
+            useAccount(account);
+        });
+
+        it('should not clear failed attempts when the password is correct', async () => {
+            account.failedLoginAttempts = 3;
+
+            expect((await authenticateWithPassword('ada@example.com', 'Correct-Horse-42', '203.0.113.9')).status)
+                .toBe('success');
+            expect(account.failedLoginAttempts).toBe(3);
+        });
+
+        it('should lock the account when wrong second-factor codes follow correct passwords', async () => {
+            const { maxAttempts } = getLoginLockoutConfig();
+            let status = '';
+
+            // Log in with the password, then get the code wrong, as POST /auth/login/mfa does
+            for (let attempt = 0; attempt <= maxAttempts && status !== 'locked'; attempt++) {
+                status = (await authenticateWithPassword('ada@example.com', 'Correct-Horse-42', '203.0.113.9')).status;
+                if (status === 'success') {
+                    await recordFailedLogin(7, 'ada@example.com', '203.0.113.9');
+                }
+            }
+
+            expect(status).toBe('locked');
+            expect(account.status).toBe('locked');
+        });
+    });
+
+    describe('releaseExpiredLock', () => {
+        const lockedAccount = (lockedUntil: Date | null) => ({
+            account_id: 7,
+            account_status: 'locked',
+            locked_until: lockedUntil,
+            email_verified: true,
+        });
+
+        beforeEach(() => {
+            mockQuery.mockReset();
+            mockQuery.mockResolvedValue(rows({ account_id: 7 }));
+        });
+
+        it('should let accounts that are not locked through', async () => {
+            expect(await releaseExpiredLock({ ...lockedAccount(null), account_status: 'active' })).toBe(true);
+            expect(mockQuery).not.toHaveBeenCalled();
+        });
+
+        it('should keep a running lock', async () => {
+            expect(await releaseExpiredLock(lockedAccount(new Date(Date.now() + 60 * 1000)))).toBe(false);
+            expect(mockQuery).not.toHaveBeenCalled();
+        });
+
+        it('should keep a lock without an end', async () => {
+            expect(await releaseExpiredLock(lockedAccount(null))).toBe(false);
+        });
+
+        it('should release an expired lock but keep the backoff history', async () => {
+            const account = lockedAccount(new Date(Date.now() - 1000));
+
+            expect(await releaseExpiredLock(account)).toBe(true);
+            expect(account.account_status).toBe('active');
+            expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("Account_Status = 'locked'"), [7, false]);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { generateTokenHash } from '../credentialingUtils';
+import { clientSecretMatches, isValidCodeChallenge, readClientCredentials, resolveScopes, verifyPkce } from '../oauthUtils';
+import { escapeHtml, renderAuthorizePage } from '../oauthViewUtils';
+
+describe('oauthUtils', () => {
+    // RFC 7636 Appendix B
+    const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+    const challenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+    describe('verifyPkce', () => {
+        it('should accept the verifier matching an S256 challenge', () => {
+            expect(verifyPkce(verifier, challenge)).toBe(true);
+        });
+
+        it('should reject a different verifier', () => {
+            expect(verifyPkce(`${verifier.slice(0, -1)}A`, challenge)).toBe(false);
+        });
+
+        it('should reject the challenge itself sent as the verifier (plain method)', () => {
+            expect(verifyPkce(challenge, challenge)).toBe(false);
+        });
+
+        it('should reject verifiers that are too short or contain invalid characters', () => {
+            const short = 'abc';
+            const shortChallenge = createHash('sha256').update(short).digest('base64url');
+            expect(verifyPkce(short, shortChallenge)).toBe(false);
+
+            const invalid = `${'a'.repeat(42)}+`;
+            const invalidChallenge = createHash('sha256').update(invalid).digest('base64url');
+            expect(verifyPkce(invalid, invalidChallenge)).toBe(false);
+        });
+    });
+
+    describe('isValidCodeChallenge', () => {
+        it('should accept a base64url SHA-256 digest', () => {
+            expect(isValidCodeChallenge(challenge)).toBe(true);
+        });
+
+        it('should reject anything else', () => {
+            expect(isValidCodeChallenge('too-short')).toBe(false);
+            expect(isValidCodeChallenge(`${challenge.slice(0, -1)}=`)).toBe(false);
+        });
+    });
+
+    describe('resolveScopes', () => {
+        const allowed = ['profile', 'email'];
+
+        it('should grant every allowed scope when none are requested', () => {
+            expect(resolveScopes(undefined, allowed)).toEqual(['profile', 'email']);
+            expect(resolveScopes('', allowed)).toEqual(['profile', 'email']);
+        });
+
+        it('should grant a subset of the allowed scopes', () => {
+            expect(resolveScopes('email', allowed)).toEqual(['email']);
+        });
+
+        it('should drop duplicates and extra spaces', () => {
+            expect(resolveScopes('email  email profile', allowed)).toEqual(['email', 'profile']);
+        });
+
+        it('should reject scopes the client is not registered for', () => {
+            expect(resolveScopes('email phone', allowed)).toBeNull();
+        });
+    });
+
+    describe('readClientCredentials', () => {
+        const request = (headers: Record<string, string>, body: Record<string, string> = {}) =>
+            ({ headers, body }) as unknown as Request;
+
+        it('should read credentials from HTTP Basic auth', () => {
+            const basic = Buffer.from('client%3A1:s%20ecret').toString('base64');
+
+            expect(readClientCredentials(request({ authorization: `Basic ${basic}` }))).toEqual({
+                clientId: 'client:1',
+                clientSecret: 's ecret',
+            });
+        });
+
+        it('should fall back to the form body', () => {
+            expect(readClientCredentials(request({}, { client_id: 'client-1', client_secret: 'secret' }))).toEqual({
+                clientId: 'client-1',
+                clientSecret: 'secret',
+            });
+        });
+
+        it('should reject malformed Basic credentials', () => {
+            const noSeparator = Buffer.from('client-1').toString('base64');
+            const badEncoding = Buffer.from('client-1:%E0%A4%A').toString('base64');
+
+            expect(readClientCredentials(request({ authorization: `Basic ${noSeparator}` }))).toBeNull();
+            expect(readClientCredentials(request({ authorization: `Basic ${badEncoding}` }))).toBeNull();
+        });
+    });
+
+    describe('clientSecretMatches', () => {
+        const stored = generateTokenHash('correct-secret');
+
+        it('should accept the secret the hash was made from', () => {
+            expect(clientSecretMatches('correct-secret', stored)).toBe(true);
+        });
+
+        it('should reject other, empty or missing secrets', () => {
+            expect(clientSecretMatches('wrong-secret', stored)).toBe(false);
+            expect(clientSecretMatches('', stored)).toBe(false);
+            expect(clientSecretMatches(undefined, stored)).toBe(false);
+        });
+    });
+
+    describe('authorize page', () => {
+        it('should escape HTML special characters', () => {
+            expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+        });
+
+        it('should escape client names and echoed parameters', () => {
+            const html = renderAuthorizePage({
+                clientName: '<script>alert(1)</script>',
+                scopes: ['email'],
+                params: { state: '"><script>' },
+            });
+
+            expect(html).not.toContain('<script>');
+            expect(html).toContain('name="state" value="&quot;&gt;&lt;script&gt;"');
+        });
+    });
+});
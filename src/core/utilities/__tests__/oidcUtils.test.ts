@@ -0,0 +1,116 @@
+import { buildUserClaims, getOidcIssuer, getOpenIdConfiguration, OidcUser } from '../oidcUtils';
+import { resetKeyStore } from '../signingKeys';
+import { generateIdToken, verifyToken } from '../tokenUtils';
+
+describe('oidcUtils', () => {
+    const user: OidcUser = {
+        account_id: 42,
+        firstname: 'Ada',
+        lastname: 'Lovelace',
+        username: 'ada',
+        email: 'ada@example.com',
+        email_verified: true,
+        phone: '2065550100',
+        phone_verified: false,
+    };
+    let originalEnv: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+        originalEnv = { ...process.env };
+        resetKeyStore();
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        resetKeyStore();
+    });
+
+    describe('buildUserClaims', () => {
+        it('should always include sub as a string', () => {
+            expect(buildUserClaims(user, ['openid'])).toEqual({ sub: '42' });
+        });
+
+        it('should map profile, email and phone claims from the account', () => {
+            expect(buildUserClaims(user, ['openid', 'profile', 'email', 'phone'])).toEqual({
+                sub: '42',
+                name: 'Ada Lovelace',
+                given_name: 'Ada',
+                family_name: 'Lovelace',
+                preferred_username: 'ada',
+                email: 'ada@example.com',
+                email_verified: true,
+                phone_number: '2065550100',
+                phone_number_verified: false,
+            });
+        });
+
+        it('should omit phone claims when the account has no phone number', () => {
+            expect(buildUserClaims({ ...user, phone: null }, ['phone'])).toEqual({ sub: '42' });
+        });
+    });
+
+    describe('getOidcIssuer', () => {
+        it('should prefer OIDC_ISSUER and strip trailing slashes', () => {
+            process.env.OIDC_ISSUER = 'https://auth.example.com/';
+            expect(getOidcIssuer()).toBe('https://auth.example.com');
+        });
+
+        it('should fall back to APP_BASE_URL', () => {
+            delete process.env.OIDC_ISSUER;
+            process.env.APP_BASE_URL = 'https://api.example.com';
+            expect(getOidcIssuer()).toBe('https://api.example.com');
+        });
+    });
+
+    describe('getOpenIdConfiguration', () => {
+        it('should publish endpoints under the issuer', () => {
+            process.env.OIDC_ISSUER = 'https://auth.example.com';
+            const config = getOpenIdConfiguration();
+
+            expect(config).toMatchObject({
+                issuer: 'https://auth.example.com',
+                authorization_endpoint: 'https://auth.example.com/oauth/authorize',
+                token_endpoint: 'https://auth.example.com/oauth/token',
+                userinfo_endpoint: 'https://auth.example.com/userinfo',
+                jwks_uri: 'https://auth.example.com/.well-known/jwks.json',
+                response_types_supported: ['code'],
+                code_challenge_methods_supported: ['S256'],
+                id_token_signing_alg_values_supported: ['ES256'],
+            });
+            expect(config.scopes_supported).toContain('openid');
+        });
+    });
+
+    describe('generateIdToken', () => {
+        it('should carry the standard ID token claims', () => {
+            const authTime = new Date('2025-01-01T00:00:00Z');
+            const token = generateIdToken({
+                issuer: 'https://auth.example.com',
+                clientId: 'client-1',
+                authTime,
+                nonce: 'n-0S6_WzA2Mj',
+                claims: buildUserClaims(user, ['openid', 'email']),
+            });
+
+            expect(verifyToken(token)).toMatchObject({
+                iss: 'https://auth.example.com',
+                aud: 'client-1',
+                sub: '42',
+                email: 'ada@example.com',
+                auth_time: authTime.getTime() / 1000,
+                nonce: 'n-0S6_WzA2Mj',
+            });
+        });
+
+        it('should leave out the nonce when none was sent', () => {
+            const token = generateIdToken({
+                issuer: 'https://auth.example.com',
+                clientId: 'client-1',
+                authTime: new Date(),
+                claims: { sub: '42' },
+            });
+
+            expect(verifyToken(token)).not.toHaveProperty('nonce');
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import {
+    DUMMY_PASSWORD_HASHES,
+    createScryptHasher,
+    createPbkdf2Hasher,
+    getPasswordHasher,
+    isEncodedPasswordHash,
+    verifyEncodedPasswordHash
+} from '../passwordHasher';
+
+// Low-cost parameters keep the test suite fast
+const scrypt = createScryptHasher({ ln: 10, r: 8, p: 1 });
+const pbkdf2 = createPbkdf2Hasher({ iterations: 1000 });
+
+describe('passwordHasher', () => {
+    let originalAlgorithm: string | undefined;
+
+    beforeEach(() => {
+        originalAlgorithm = process.env.PASSWORD_HASH_ALGORITHM;
+    });
+
+    afterEach(() => {
+        if (originalAlgorithm === undefined) {
+            delete process.env.PASSWORD_HASH_ALGORITHM;
+        } else {
+            process.env.PASSWORD_HASH_ALGORITHM = originalAlgorithm;
+        }
+    });
+
+    describe.each([
+        ['scrypt', scrypt, /^\$scrypt\$ln=10,r=8,p=1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/],
+        ['pbkdf2-sha256', pbkdf2, /^\$pbkdf2-sha256\$i=1000\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/],
+    ])('%s hasher', (id, hasher, format) => {
+        it('should encode algorithm, parameters, salt and hash', async () => {
+            expect(hasher.id).toBe(id);
+            expect(await hasher.hash('password')).toMatch(format);
+        });
+
+        it('should fit in the Salted_Hash column', async () => {
+            expect((await hasher.hash('a'.repeat(128))).length).toBeLessThanOrEqual(255);
+        });
+
+        it('should verify the correct password', async () => {
+            const encoded = await hasher.hash('correctPassword');
+            expect(await hasher.verify('correctPassword', encoded)).toBe(true);
+        });
+
+        it('should reject an incorrect password', async () => {
+            const encoded = await hasher.hash('correctPassword');
+            expect(await hasher.verify('wrongPassword', encoded)).toBe(false);
+        });
+
+        it('should use a unique salt for every hash', async () => {
+            expect(await hasher.hash('samePassword')).not.toBe(await hasher.hash('samePassword'));
+        });
+
+        it('should handle unicode passwords', async () => {
+            const encoded = await hasher.hash('密码🔒パスワード');
+            expect(await hasher.verify('密码🔒パスワード', encoded)).toBe(true);
+        });
+
+        it('should reject malformed hashes', async () => {
+            expect(await hasher.verify('password', 'not-a-hash')).toBe(false);
+            expect(await hasher.verify('password', `$${id}$garbage$$`)).toBe(false);
+        });
+
+        it('should not need rehash when parameters match', async () => {
+            expect(hasher.needsRehash(await hasher.hash('password'))).toBe(false);
+        });
+    });
+
+    describe('needsRehash', () => {
+        it('should flag hashes made with different parameters', async () => {
+            const stronger = createScryptHasher({ ln: 11, r: 8, p: 1 });
+            expect(stronger.needsRehash(await scrypt.hash('password'))).toBe(true);
+
+            const moreIterations = createPbkdf2Hasher({ iterations: 2000 });
+            expect(moreIterations.needsRehash(await pbkdf2.hash('password'))).toBe(true);
+        });
+
+        it('should flag hashes made with a different algorithm', async () => {
+            expect(scrypt.needsRehash(await pbkdf2.hash('password'))).toBe(true);
+            expect(pbkdf2.needsRehash(await scrypt.hash('password'))).toBe(true);
+        });
+
+        it('should flag legacy hex digests', () => {
+            expect(scrypt.needsRehash('a'.repeat(64))).toBe(true);
+        });
+    });
+
+    describe('hashes verify with their own parameters', () => {
+        it('should verify a hash after the default cost changes', async () => {
+            const encoded = await scrypt.hash('password');
+            const stronger = createScryptHasher({ ln: 11, r: 8, p: 1 });
+            expect(await stronger.verify('password', encoded)).toBe(true);
+        });
+    });
+
+    describe('isEncodedPasswordHash', () => {
+        it('should recognize supported encoded hashes', async () => {
+            expect(isEncodedPasswordHash(await scrypt.hash('password'))).toBe(true);
+            expect(isEncodedPasswordHash(await pbkdf2.hash('password'))).toBe(true);
+        });
+
+        it('should not recognize legacy SHA256 digests', () => {
+            expect(isEncodedPasswordHash('9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08')).toBe(false);
+        });
+
+        it('should not recognize unknown algorithms', () => {
+            expect(isEncodedPasswordHash('$md5$i=1$c2FsdA==$aGFzaA==')).toBe(false);
+        });
+    });
+
+    describe('verifyEncodedPasswordHash', () => {
+        it('should dispatch to the algorithm named in the hash', async () => {
+            expect(await verifyEncodedPasswordHash('password', await scrypt.hash('password'))).toBe(true);
+            expect(await verifyEncodedPasswordHash('password', await pbkdf2.hash('password'))).toBe(true);
+            expect(await verifyEncodedPasswordHash('other', await pbkdf2.hash('password'))).toBe(false);
+        });
+
+        it('should return false for unsupported hashes', async () => {
+            expect(await verifyEncodedPasswordHash('password', 'a'.repeat(64))).toBe(false);
+        });
+    });
+
+    describe('DUMMY_PASSWORD_HASHES', () => {
+        it('should have a hash at the default parameters for every algorithm', () => {
+            expect(DUMMY_PASSWORD_HASHES['scrypt']).toMatch(/^\$scrypt\$/);
+            expect(createScryptHasher().needsRehash(DUMMY_PASSWORD_HASHES['scrypt'])).toBe(false);
+            expect(createPbkdf2Hasher().needsRehash(DUMMY_PASSWORD_HASHES['pbkdf2-sha256'])).toBe(false);
+        });
+    });
+
+    describe('getPasswordHasher', () => {
+        it('should default to scrypt', () => {
+            delete process.env.PASSWORD_HASH_ALGORITHM;
+            expect(getPasswordHasher().id).toBe('scrypt');
+        });
+
+        it('should honor PASSWORD_HASH_ALGORITHM', () => {
+            process.env.PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+            expect(getPasswordHasher().id).toBe('pbkdf2-sha256');
+        });
+
+        it('should throw for unsupported algorithms', () => {
+            process.env.PASSWORD_HASH_ALGORITHM = 'md5';
+            expect(() => getPasswordHasher()).toThrow('Unsupported PASSWORD_HASH_ALGORITHM: md5');
+        });
+    });
+});
@@ -0,0 +1,187 @@
+import {
+    checkPasswordPolicy,
+    countCharacterClasses,
+    evaluatePasswordStrength,
+    getPasswordPolicy,
+    getPersonalTokens,
+    longestRepeatedRun,
+    PasswordPolicy
+} from '../passwordPolicy';
+import { ErrorCodes } from '../errorCodes';
+
+describe('passwordPolicy', () => {
+    const policy: PasswordPolicy = {
+        minLength: 10,
+        maxLength: 64,
+        minCharacterClasses: 3,
+        maxRepeatedCharacters: 3,
+        historySize: 5,
+        rejectBreached: true,
+        minStrengthScore: 2,
+    };
+    const codes = (password: string, info = {}) =>
+        checkPasswordPolicy(password, info, policy).map((violation) => violation.errorCode);
+
+    describe('checkPasswordPolicy', () => {
+        it('should accept a password that meets every rule', () => {
+            expect(checkPasswordPolicy('Correct-Horse-42', {}, policy)).toEqual([]);
+        });
+
+        it('should enforce the minimum and maximum length', () => {
+            expect(codes('Ab1!')).toContain(ErrorCodes.VALD_PASSWORD_TOO_SHORT);
+            expect(codes(`Ab1!${'xy'.repeat(40)}`)).toContain(ErrorCodes.VALD_PASSWORD_TOO_LONG);
+        });
+
+        it('should count characters rather than UTF-16 code units', () => {
+            // Ten UTF-16 code units, but only seven characters
+            expect(codes('😀😀😀Ab1!')).toContain(ErrorCodes.VALD_PASSWORD_TOO_SHORT);
+        });
+
+        it('should require enough character classes', () => {
+            expect(codes('onlylowercase')).toEqual([ErrorCodes.VALD_PASSWORD_CHARACTER_CLASSES]);
+            expect(codes('lower-and-symbols')).toEqual([ErrorCodes.VALD_PASSWORD_CHARACTER_CLASSES]);
+            expect(codes('Lower-and-symbols')).toEqual([]);
+        });
+
+        it('should reject long runs of one character', () => {
+            expect(codes('Passsword-12')).toEqual([]);
+            expect(codes('Passssword-12')).toEqual([ErrorCodes.VALD_PASSWORD_REPEATED_CHARACTERS]);
+        });
+
+        it('should reject passwords containing personal details, ignoring case', () => {
+            const info = { firstname: 'Ada', lastname: 'Lovelace', username: 'countess', email: 'ada.byron@example.com' };
+
+            expect(codes('LOVELACE-1815!', info)).toEqual([ErrorCodes.VALD_PASSWORD_PERSONAL_INFO]);
+            expect(codes('Countess-1815!', info)).toEqual([ErrorCodes.VALD_PASSWORD_PERSONAL_INFO]);
+            expect(codes('Byron-Rules-99', info)).toEqual([ErrorCodes.VALD_PASSWORD_PERSONAL_INFO]);
+            expect(codes('Analytical-Engine-1', info)).toEqual([]);
+        });
+
+        it('should reject passwords found in the breached-password filter', () => {
+            // Meets every other rule, but is in the shipped list
+            expect(codes('Password123!')).toEqual([ErrorCodes.VALD_PASSWORD_BREACHED]);
+            expect(checkPasswordPolicy('Password123!', {}, { ...policy, rejectBreached: false })).toEqual([]);
+        });
+
+        it('should reject otherwise valid passwords that are too easy to guess', () => {
+            expect(codes('Qwertyuiop1!')).toEqual([ErrorCodes.VALD_PASSWORD_TOO_GUESSABLE]);
+            expect(checkPasswordPolicy('Qwertyuiop1!', {}, { ...policy, minStrengthScore: 0 })).toEqual([]);
+        });
+
+        it('should report every broken rule', () => {
+            expect(codes('aaaa')).toEqual([
+                ErrorCodes.VALD_PASSWORD_TOO_SHORT,
+                ErrorCodes.VALD_PASSWORD_CHARACTER_CLASSES,
+                ErrorCodes.VALD_PASSWORD_REPEATED_CHARACTERS,
+            ]);
+        });
+    });
+
+    describe('evaluatePasswordStrength', () => {
+        it('should score an acceptable password without warnings', () => {
+            const strength = evaluatePasswordStrength('Correct-Horse-42', {}, policy);
+
+            expect(strength.acceptable).toBe(true);
+            expect(strength.score).toBe(4);
+            expect(strength.crackTime.display).toBe('centuries');
+            expect(strength.feedback.warning).toBeNull();
+            expect(strength.violations).toEqual([]);
+        });
+
+        it('should keep rejected passwords below the minimum score', () => {
+            // Plenty of entropy, but only one character class
+            const strength = evaluatePasswordStrength('correct horse battery staple', {}, policy);
+
+            expect(strength.acceptable).toBe(false);
+            expect(strength.score).toBe(1);
+            expect(strength.feedback.warning).toBe(strength.violations[0].message);
+        });
+
+        it('should agree with checkPasswordPolicy', () => {
+            ['Correct-Horse-42', 'Qwertyuiop1!', 'Password123!', 'aaaa', 'Zebra-1999!'].forEach((password) => {
+                const strength = evaluatePasswordStrength(password, {}, policy);
+
+                expect(strength.violations).toEqual(checkPasswordPolicy(password, {}, policy));
+                expect(strength.acceptable).toBe(strength.score >= policy.minStrengthScore);
+            });
+        });
+
+        it('should treat breached passwords as guessed at once', () => {
+            const strength = evaluatePasswordStrength('Password123!', {}, policy);
+
+            expect(strength.score).toBe(0);
+            expect(strength.crackTime).toEqual({ seconds: 0, display: 'less than a second' });
+        });
+
+        it('should suggest how to improve a weak password', () => {
+            const strength = evaluatePasswordStrength('Ada-1815-Lovelace', { firstname: 'Ada', lastname: 'Lovelace' }, policy);
+
+            expect(strength.violations.map((violation) => violation.errorCode)).toEqual([ErrorCodes.VALD_PASSWORD_PERSONAL_INFO]);
+            expect(strength.feedback.suggestions).toEqual([
+                'Avoid your name, username and email address',
+                'Add another word or two; uncommon words are better',
+            ]);
+        });
+    });
+
+    describe('countCharacterClasses', () => {
+        it('should count lowercase, uppercase, digits and symbols', () => {
+            expect(countCharacterClasses('abc')).toBe(1);
+            expect(countCharacterClasses('abcDEF')).toBe(2);
+            expect(countCharacterClasses('abcDEF123')).toBe(3);
+            expect(countCharacterClasses('abcDEF123 ')).toBe(4);
+        });
+    });
+
+    describe('longestRepeatedRun', () => {
+        it('should find the longest run of one character', () => {
+            expect(longestRepeatedRun('')).toBe(0);
+            expect(longestRepeatedRun('abc')).toBe(1);
+            expect(longestRepeatedRun('aabbbbc')).toBe(4);
+        });
+    });
+
+    describe('getPersonalTokens', () => {
+        it('should split the email and skip details too short to ban', () => {
+            expect(getPersonalTokens({ firstname: 'Al', lastname: 'Turing', email: 'al.turing@example.com' })).toEqual([
+                'turing',
+                'al.turing@example.com',
+                'al.turing',
+            ]);
+        });
+    });
+
+    describe('getPasswordPolicy', () => {
+        let originalEnv: NodeJS.ProcessEnv;
+
+        beforeEach(() => {
+            originalEnv = { ...process.env };
+        });
+
+        afterEach(() => {
+            process.env = originalEnv;
+        });
+
+        it('should provide defaults', () => {
+            delete process.env.PASSWORD_MIN_LENGTH;
+            delete process.env.PASSWORD_HISTORY_SIZE;
+            delete process.env.PASSWORD_REJECT_BREACHED;
+            delete process.env.PASSWORD_MIN_STRENGTH_SCORE;
+
+            const defaults = getPasswordPolicy();
+            expect(defaults.minLength).toBe(8);
+            expect(defaults.historySize).toBe(5);
+            expect(defaults.rejectBreached).toBe(true);
+            expect(defaults.minStrengthScore).toBe(2);
+        });
+
+        it('should read overrides from the environment', () => {
+            process.env.PASSWORD_MIN_LENGTH = '12';
+            process.env.PASSWORD_MIN_CHARACTER_CLASSES = '4';
+
+            const overridden = getPasswordPolicy();
+            expect(overridden.minLength).toBe(12);
+            expect(overridden.minCharacterClasses).toBe(4);
+        });
+    });
+});
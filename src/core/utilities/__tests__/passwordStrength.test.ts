@@ -0,0 +1,79 @@
+import {
+    estimateCrackTimeSeconds,
+    estimatePasswordEntropy,
+    formatCrackTime,
+    scorePasswordEntropy
+} from '../passwordStrength';
+
+describe('passwordStrength', () => {
+    describe('estimatePasswordEntropy', () => {
+        it('should charge each unpredictable character the bits of its class', () => {
+            const estimate = estimatePasswordEntropy('kT9#');
+
+            expect(estimate.entropyBits).toBeCloseTo(Math.log2(26) * 2 + Math.log2(10) + Math.log2(33));
+            expect(estimate.weaknesses).toEqual([]);
+        });
+
+        it('should make repeats and sequences cheap', () => {
+            const repeated = estimatePasswordEntropy('xaaaaaa');
+            const sequence = estimatePasswordEntropy('x123456');
+            const keyboard = estimatePasswordEntropy('xqwerty');
+
+            expect(repeated.weaknesses).toEqual(['repeat']);
+            expect(sequence.weaknesses).toEqual(['sequence']);
+            expect(keyboard.weaknesses).toEqual(['sequence']);
+            expect(repeated.entropyBits).toBeLessThan(estimatePasswordEntropy('xakqzvm').entropyBits / 2);
+        });
+
+        it('should treat a capitalised first letter as predictable', () => {
+            expect(estimatePasswordEntropy('Zebra').entropyBits)
+                .toBeCloseTo(estimatePasswordEntropy('zebra').entropyBits - Math.log2(26) + 1);
+        });
+
+        it('should detect years', () => {
+            const estimate = estimatePasswordEntropy('zebra1999');
+
+            expect(estimate.weaknesses).toEqual(['year']);
+            expect(estimate.entropyBits).toBeLessThan(estimatePasswordEntropy('zebra3871').entropyBits);
+        });
+
+        it('should penalize personal details, ignoring case', () => {
+            const estimate = estimatePasswordEntropy('LovelaceZ!', ['lovelace']);
+
+            expect(estimate.weaknesses).toEqual(['personal-info']);
+            expect(estimate.entropyBits).toBeCloseTo(2 + Math.log2(26) + Math.log2(33));
+        });
+
+        it('should count characters rather than UTF-16 code units', () => {
+            expect(estimatePasswordEntropy('😀').entropyBits).toBeCloseTo(7);
+        });
+    });
+
+    describe('scorePasswordEntropy', () => {
+        it('should map guesses to a 0-4 score', () => {
+            expect(scorePasswordEntropy(0)).toBe(0);
+            expect(scorePasswordEntropy(Math.log2(1e3))).toBe(1);
+            expect(scorePasswordEntropy(Math.log2(1e6))).toBe(2);
+            expect(scorePasswordEntropy(Math.log2(1e8))).toBe(3);
+            expect(scorePasswordEntropy(Math.log2(1e10))).toBe(4);
+            expect(scorePasswordEntropy(120)).toBe(4);
+        });
+    });
+
+    describe('estimateCrackTimeSeconds', () => {
+        it('should assume half the guesses at 10,000 guesses per second', () => {
+            expect(estimateCrackTimeSeconds(Math.log2(2e4))).toBeCloseTo(1);
+        });
+    });
+
+    describe('formatCrackTime', () => {
+        it('should describe the time in the largest whole unit', () => {
+            expect(formatCrackTime(0.2)).toBe('less than a second');
+            expect(formatCrackTime(1)).toBe('1 second');
+            expect(formatCrackTime(150)).toBe('3 minutes');
+            expect(formatCrackTime(3 * 24 * 60 * 60)).toBe('3 days');
+            expect(formatCrackTime(2 * 365 * 24 * 60 * 60)).toBe('2 years');
+            expect(formatCrackTime(1e12)).toBe('centuries');
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import { isPersonalAccessToken, tokenAllowsRequest } from '../personalAccessTokenUtils';
+
+describe('personalAccessTokenUtils', () => {
+    describe('isPersonalAccessToken', () => {
+        it('should recognise tokens with the pat_ prefix', () => {
+            expect(isPersonalAccessToken('pat_abc123')).toBe(true);
+        });
+
+        it('should not treat JWTs as personal access tokens', () => {
+            expect(isPersonalAccessToken('eyJhbGciOiJFUzI1NiJ9.e30.sig')).toBe(false);
+        });
+    });
+
+    describe('tokenAllowsRequest', () => {
+        it('should allow any request for tokens without a scope claim', () => {
+            expect(tokenAllowsRequest({}, 'admin', 'DELETE')).toBe(true);
+        });
+
+        it('should require the read scope for GET and HEAD requests', () => {
+            const claims = { scope: 'account:read' };
+
+            expect(tokenAllowsRequest(claims, 'account', 'GET')).toBe(true);
+            expect(tokenAllowsRequest(claims, 'account', 'head')).toBe(true);
+            expect(tokenAllowsRequest(claims, 'account', 'POST')).toBe(false);
+        });
+
+        it('should require the write scope for other methods', () => {
+            const claims = { scope: 'account:read account:write' };
+
+            expect(tokenAllowsRequest(claims, 'account', 'PATCH')).toBe(true);
+            expect(tokenAllowsRequest(claims, 'account', 'DELETE')).toBe(true);
+        });
+
+        it('should not let one area\'s scope cover another', () => {
+            const claims = { scope: 'account:read account:write' };
+
+            expect(tokenAllowsRequest(claims, 'admin', 'GET')).toBe(false);
+        });
+
+        it('should not treat write as implying read', () => {
+            expect(tokenAllowsRequest({ scope: 'admin:write' }, 'admin', 'GET')).toBe(false);
+        });
+    });
+});
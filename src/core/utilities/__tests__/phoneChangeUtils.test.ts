@@ -0,0 +1,144 @@
+import { confirmPhoneChange, createPhoneChangeCode } from '../phoneChangeUtils';
+import { generateTokenHash } from '../credentialingUtils';
+import { SMS_CODE_MAX_ATTEMPTS } from '@models';
+
+// Mock the database: the pool and transaction client share one query function
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+jest.mock('../database', () => ({
+    getPool: () => ({ query: mockQuery, connect: async () => mockClient }),
+}));
+
+type QueryResult = { rowCount: number; rows: Record<string, unknown>[] };
+
+const rows = (...result: Record<string, unknown>[]): QueryResult => ({ rowCount: result.length, rows: result });
+
+/**
+ * Answer each statement with the result of the first pattern it matches; anything else affects no rows
+ */
+const respondTo = (responses: [RegExp, QueryResult][]) => {
+    mockQuery.mockImplementation(async (sql: string) =>
+        responses.find(([pattern]) => pattern.test(sql))?.[1] ?? rows()
+    );
+};
+
+const findStatement = (pattern: RegExp) => mockQuery.mock.calls.find(([sql]) => pattern.test(sql));
+
+describe('phoneChangeUtils', () => {
+    const inTenMinutes = () => new Date(Date.now() + 10 * 60 * 1000);
+
+    beforeEach(() => {
+        mockQuery.mockReset();
+    });
+
+    describe('createPhoneChangeCode', () => {
+        it('should store only the hash of a new 6-digit code and reset the attempts', async () => {
+            respondTo([]);
+
+            const code = await createPhoneChangeCode(7, '2065550199');
+
+            expect(code).toMatch(/^\d{6}$/);
+            const [sql, params] = findStatement(/INSERT INTO Phone_Change_Request/);
+            expect(sql).toContain('Attempts = 0');
+            expect(params).toEqual([7, '2065550199', generateTokenHash(code as string), expect.any(Number)]);
+            expect(params).not.toContain(code);
+        });
+
+        it('should refuse a new code while the last one is too recent', async () => {
+            respondTo([[/SELECT 1 FROM Phone_Change_Request/, rows({ '?column?': 1 })]]);
+
+            expect(await createPhoneChangeCode(7, '2065550199')).toBeNull();
+            expect(findStatement(/INSERT INTO Phone_Change_Request/)).toBeUndefined();
+        });
+    });
+
+    describe('confirmPhoneChange', () => {
+        it('should switch to the new number and mark it verified', async () => {
+            respondTo([
+                [/SELECT Attempts/, rows({ attempts: 0, code_expires: inTenMinutes() })],
+                [/DELETE FROM Phone_Change_Request/, rows({ new_phone: '2065550199' })],
+                [/SELECT Phone FROM Account/, rows({ phone: '2065550100' })],
+            ]);
+
+            expect(await confirmPhoneChange(7, '123456')).toEqual({
+                status: 'changed',
+                oldPhone: '2065550100',
+                newPhone: '2065550199',
+            });
+
+            const [sql, params] = findStatement(/UPDATE Account SET Phone/);
+            expect(sql).toContain('Phone_Verified = TRUE');
+            expect(params).toEqual(['2065550199', 7]);
+        });
+
+        it('should look the code up by its hash', async () => {
+            respondTo([[/SELECT Attempts/, rows({ attempts: 0, code_expires: inTenMinutes() })]]);
+
+            await confirmPhoneChange(7, '123456');
+
+            expect(findStatement(/DELETE FROM Phone_Change_Request/)[1])
+                .toEqual([7, generateTokenHash('123456'), SMS_CODE_MAX_ATTEMPTS]);
+        });
+
+        it('should invalidate SMS login codes sent to the old number', async () => {
+            respondTo([
+                [/SELECT Attempts/, rows({ attempts: 0, code_expires: inTenMinutes() })],
+                [/DELETE FROM Phone_Change_Request/, rows({ new_phone: '2065550199' })],
+                [/SELECT Phone FROM Account/, rows({ phone: '2065550100' })],
+            ]);
+
+            await confirmPhoneChange(7, '123456');
+
+            expect(findStatement(/DELETE FROM SMS_Login_Code/)).toBeDefined();
+        });
+
+        it('should count a wrong code against the attempt limit', async () => {
+            respondTo([[/SELECT Attempts/, rows({ attempts: SMS_CODE_MAX_ATTEMPTS - 1, code_expires: inTenMinutes() })]]);
+
+            expect(await confirmPhoneChange(7, '000000')).toEqual({ status: 'invalid' });
+            expect(findStatement(/SET Attempts = Attempts \+ 1/)).toBeDefined();
+            expect(findStatement(/UPDATE Account SET Phone/)).toBeUndefined();
+        });
+
+        it('should reject every code once the attempt limit is reached', async () => {
+            respondTo([[/SELECT Attempts/, rows({ attempts: SMS_CODE_MAX_ATTEMPTS, code_expires: inTenMinutes() })]]);
+
+            expect(await confirmPhoneChange(7, '123456')).toEqual({ status: 'too_many_attempts' });
+            expect(findStatement(/DELETE FROM Phone_Change_Request/)).toBeUndefined();
+        });
+
+        it('should reject an expired code without checking it', async () => {
+            respondTo([[/SELECT Attempts/, rows({ attempts: 0, code_expires: new Date(Date.now() - 1000) })]]);
+
+            expect(await confirmPhoneChange(7, '123456')).toEqual({ status: 'invalid' });
+            expect(findStatement(/DELETE FROM Phone_Change_Request/)).toBeUndefined();
+        });
+
+        it('should only accept unexpired codes when using one', async () => {
+            respondTo([[/SELECT Attempts/, rows({ attempts: 0, code_expires: inTenMinutes() })]]);
+
+            await confirmPhoneChange(7, '123456');
+
+            expect(findStatement(/DELETE FROM Phone_Change_Request/)[0]).toContain('Code_Expires > NOW()');
+        });
+
+        it('should report a pending change that does not exist as invalid', async () => {
+            respondTo([]);
+
+            expect(await confirmPhoneChange(7, '123456')).toEqual({ status: 'invalid' });
+        });
+
+        it('should not take a number another account registered in the meantime', async () => {
+            respondTo([
+                [/SELECT Attempts/, rows({ attempts: 0, code_expires: inTenMinutes() })],
+                [/DELETE FROM Phone_Change_Request/, rows({ new_phone: '2065550199' })],
+                [/SELECT Phone FROM Account/, rows({ phone: '2065550100' })],
+                [/SELECT 1 FROM Account WHERE Phone/, rows({ '?column?': 1 })],
+            ]);
+
+            expect(await confirmPhoneChange(7, '123456')).toEqual({ status: 'phone_taken' });
+            expect(findStatement(/SELECT 1 FROM Account WHERE Phone/)[1]).toEqual(['2065550199', 7]);
+            expect(findStatement(/UPDATE Account SET Phone/)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import { isRecentlyAuthenticated } from '../reauthUtils';
+import { resetKeyStore } from '../signingKeys';
+import { generateAccessToken, verifyToken } from '../tokenUtils';
+import { UserRole } from '@models';
+
+describe('reauthUtils', () => {
+    describe('isRecentlyAuthenticated', () => {
+        const now = Date.parse('2025-06-01T12:00:00Z');
+        const secondsAgo = (seconds: number) => now / 1000 - seconds;
+
+        it('should accept an auth_time within the maximum age', () => {
+            expect(isRecentlyAuthenticated({ auth_time: secondsAgo(60) }, 600, now)).toBe(true);
+            expect(isRecentlyAuthenticated({ auth_time: secondsAgo(600) }, 600, now)).toBe(true);
+        });
+
+        it('should reject an auth_time older than the maximum age', () => {
+            expect(isRecentlyAuthenticated({ auth_time: secondsAgo(601) }, 600, now)).toBe(false);
+        });
+
+        it('should reject tokens without an auth_time', () => {
+            expect(isRecentlyAuthenticated({}, 600, now)).toBe(false);
+        });
+    });
+
+    describe('generateAccessToken', () => {
+        beforeEach(() => {
+            resetKeyStore();
+        });
+
+        afterEach(() => {
+            resetKeyStore();
+        });
+
+        it('should carry the authentication time in seconds as auth_time', () => {
+            const authTime = new Date('2025-06-01T11:55:00.750Z');
+            const token = generateAccessToken({
+                id: 42,
+                email: 'ada@example.com',
+                role: UserRole.USER,
+                sessionId: 'session-1',
+                authTime,
+            });
+
+            expect(verifyToken(token)).toMatchObject({ sid: 'session-1', auth_time: Math.floor(authTime.getTime() / 1000) });
+        });
+
+        it('should leave auth_time out when the authentication time is unknown', () => {
+            const token = generateAccessToken({ id: 42, email: 'ada@example.com', role: UserRole.USER });
+
+            expect(verifyToken(token)).not.toHaveProperty('auth_time');
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import { isServiceAccountClientId, SERVICE_ACCOUNT_PREFIX } from '../serviceAccountUtils';
+import { resetKeyStore } from '../signingKeys';
+import { generateServiceToken, verifyToken } from '../tokenUtils';
+
+describe('serviceAccountUtils', () => {
+    describe('isServiceAccountClientId', () => {
+        it('should recognise client IDs with the svc_ prefix', () => {
+            expect(isServiceAccountClientId(`${SERVICE_ACCOUNT_PREFIX}4f1c2a9e8b7d6c5e4f3a2b1c0d9e8f7a`)).toBe(true);
+        });
+
+        it('should not treat OAuth client IDs or non-strings as service accounts', () => {
+            expect(isServiceAccountClientId('4f1c2a9e8b7d6c5e4f3a2b1c0d9e8f7a')).toBe(false);
+            expect(isServiceAccountClientId(undefined)).toBe(false);
+            expect(isServiceAccountClientId(['svc_1'])).toBe(false);
+        });
+    });
+
+    describe('generateServiceToken', () => {
+        beforeEach(() => {
+            resetKeyStore();
+        });
+
+        afterEach(() => {
+            resetKeyStore();
+        });
+
+        it('should identify the service account, not a user', () => {
+            const token = generateServiceToken({ clientId: 'svc_1', scope: 'invoices:read' });
+            const claims = verifyToken(token);
+
+            expect(claims).toMatchObject({
+                principal: 'service',
+                sub: 'svc_1',
+                client_id: 'svc_1',
+                scope: 'invoices:read',
+            });
+            expect(claims.jti).toEqual(expect.any(String));
+            expect(claims).not.toHaveProperty('id');
+            expect(claims).not.toHaveProperty('role');
+        });
+    });
+});
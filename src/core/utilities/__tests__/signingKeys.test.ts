@@ -0,0 +1,192 @@
+import jwt from 'jsonwebtoken';
+import {
+    createKeyStore,
+    generateSigningKeyPair,
+    getJwks,
+    getKeyStore,
+    resetKeyStore,
+} from '../signingKeys';
+import { generateAccessToken, verifyToken } from '../tokenUtils';
+
+describe('signingKeys', () => {
+    const es256 = generateSigningKeyPair('ES256');
+    const rs256 = generateSigningKeyPair('RS256');
+    let originalEnv: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+        originalEnv = { ...process.env };
+        resetKeyStore();
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        resetKeyStore();
+    });
+
+    describe('createKeyStore', () => {
+        it('should use the activeKid as the signing key', () => {
+            const store = createKeyStore({
+                activeKid: 'rsa',
+                keys: [
+                    { kid: 'ec', alg: 'ES256', privateKey: es256.privateKey },
+                    { kid: 'rsa', alg: 'RS256', privateKey: rs256.privateKey },
+                ],
+            });
+
+            expect(store.activeKey.kid).toBe('rsa');
+            expect(store.keys.size).toBe(2);
+        });
+
+        it('should default to the first key with a private key', () => {
+            const store = createKeyStore({
+                keys: [
+                    { kid: 'old', alg: 'RS256', publicKey: rs256.publicKey },
+                    { kid: 'new', alg: 'ES256', privateKey: es256.privateKey },
+                ],
+            });
+
+            expect(store.activeKey.kid).toBe('new');
+            expect(store.keys.get('old')?.privateKey).toBeUndefined();
+        });
+
+        it('should reject an active key without a private key', () => {
+            expect(() => createKeyStore({
+                activeKid: 'old',
+                keys: [{ kid: 'old', alg: 'RS256', publicKey: rs256.publicKey }],
+            })).toThrow('has no privateKey');
+        });
+
+        it('should reject a key that does not match its algorithm', () => {
+            expect(() => createKeyStore({
+                keys: [{ kid: 'wrong', alg: 'RS256', privateKey: es256.privateKey }],
+            })).toThrow('is not a valid RS256 key');
+        });
+
+        it('should reject duplicate kids and unsupported algorithms', () => {
+            expect(() => createKeyStore({
+                keys: [
+                    { kid: 'a', alg: 'ES256', privateKey: es256.privateKey },
+                    { kid: 'a', alg: 'ES256', privateKey: es256.privateKey },
+                ],
+            })).toThrow('Duplicate signing key kid');
+
+            expect(() => createKeyStore({
+                keys: [{ kid: 'h', alg: 'HS256' as never, privateKey: es256.privateKey }],
+            })).toThrow('Unsupported signing algorithm');
+        });
+
+        it('should reject an empty key list', () => {
+            expect(() => createKeyStore({ keys: [] })).toThrow('at least one key');
+        });
+    });
+
+    describe('getKeyStore', () => {
+        it('should load keys from JWT_SIGNING_KEYS', () => {
+            process.env.JWT_SIGNING_KEYS = JSON.stringify({
+                keys: [{ kid: 'env-key', alg: 'ES256', privateKey: es256.privateKey }],
+            });
+
+            expect(getKeyStore().activeKey.kid).toBe('env-key');
+        });
+
+        it('should let JWT_ACTIVE_KID choose the signing key', () => {
+            process.env.JWT_SIGNING_KEYS = JSON.stringify({
+                activeKid: 'ec',
+                keys: [
+                    { kid: 'ec', alg: 'ES256', privateKey: es256.privateKey },
+                    { kid: 'rsa', alg: 'RS256', privateKey: rs256.privateKey },
+                ],
+            });
+            process.env.JWT_ACTIVE_KID = 'rsa';
+
+            expect(getKeyStore().activeKey.kid).toBe('rsa');
+        });
+
+        it('should generate an ephemeral key outside production', () => {
+            delete process.env.JWT_SIGNING_KEYS;
+
+            const store = getKeyStore();
+            expect(store.activeKey.kid).toMatch(/^ephemeral-/);
+            expect(getKeyStore()).toBe(store);
+        });
+
+        it('should refuse to run without keys in production', () => {
+            delete process.env.JWT_SIGNING_KEYS;
+            process.env.NODE_ENV = 'production';
+
+            expect(() => getKeyStore()).toThrow('JWT_SIGNING_KEYS must be set in production');
+        });
+    });
+
+    describe('getJwks', () => {
+        it('should publish public keys only', () => {
+            const jwks = getJwks(createKeyStore({
+                keys: [
+                    { kid: 'ec', alg: 'ES256', privateKey: es256.privateKey },
+                    { kid: 'rsa', alg: 'RS256', publicKey: rs256.publicKey },
+                ],
+            }));
+
+            expect(jwks.keys).toHaveLength(2);
+            expect(jwks.keys[0]).toMatchObject({ kid: 'ec', alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' });
+            expect(jwks.keys[1]).toMatchObject({ kid: 'rsa', alg: 'RS256', use: 'sig', kty: 'RSA' });
+            jwks.keys.forEach((key) => expect(key).not.toHaveProperty('d'));
+        });
+    });
+
+    describe('token signing', () => {
+        beforeEach(() => {
+            process.env.JWT_SIGNING_KEYS = JSON.stringify({
+                activeKid: 'current',
+                keys: [
+                    { kid: 'current', alg: 'ES256', privateKey: es256.privateKey },
+                    { kid: 'previous', alg: 'RS256', privateKey: rs256.privateKey },
+                ],
+            });
+        });
+
+        it('should sign with the active key and its kid', () => {
+            const token = generateAccessToken({ id: 1, email: 'a@example.com', role: 1 });
+            const { header } = jwt.decode(token, { complete: true });
+
+            expect(header).toMatchObject({ alg: 'ES256', kid: 'current' });
+            expect(verifyToken(token)).toMatchObject({ id: 1, email: 'a@example.com' });
+        });
+
+        it('should verify tokens signed by a previous key', () => {
+            const token = jwt.sign({ id: 2 }, rs256.privateKey, { algorithm: 'RS256', keyid: 'previous' });
+            expect(verifyToken(token)).toMatchObject({ id: 2 });
+        });
+
+        it('should reject tokens with an unknown kid', () => {
+            const other = generateSigningKeyPair('ES256');
+            const token = jwt.sign({ id: 3 }, other.privateKey, { algorithm: 'ES256', keyid: 'unknown' });
+
+            expect(() => verifyToken(token)).toThrow('Unknown signing key');
+        });
+
+        it('should reject a token signed with a different key under a known kid', () => {
+            const other = generateSigningKeyPair('ES256');
+            const token = jwt.sign({ id: 4 }, other.privateKey, { algorithm: 'ES256', keyid: 'current' });
+
+            expect(() => verifyToken(token)).toThrow();
+        });
+
+        it('should reject tokens without a kid', () => {
+            delete process.env.JWT_LEGACY_HS256_UNTIL;
+            const token = jwt.sign({ id: 5 }, process.env.JWT_SECRET, { algorithm: 'HS256' });
+
+            expect(() => verifyToken(token)).toThrow('Token has no signing key id');
+        });
+
+        it('should verify legacy HS256 tokens only while the migration window is open', () => {
+            const token = jwt.sign({ id: 5 }, process.env.JWT_SECRET, { algorithm: 'HS256' });
+
+            process.env.JWT_LEGACY_HS256_UNTIL = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+            expect(verifyToken(token)).toMatchObject({ id: 5 });
+
+            process.env.JWT_LEGACY_HS256_UNTIL = new Date(Date.now() - 1000).toISOString();
+            expect(() => verifyToken(token)).toThrow('Token has no signing key id');
+        });
+    });
+});
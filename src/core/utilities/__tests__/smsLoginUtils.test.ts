@@ -0,0 +1,28 @@
+import { generateSmsLoginCode, toPhoneDigits } from '../smsLoginUtils';
+
+describe('smsLoginUtils', () => {
+    describe('toPhoneDigits', () => {
+        it('should strip formatting', () => {
+            expect(toPhoneDigits('(206) 555-0100')).toBe('2065550100');
+            expect(toPhoneDigits('206.555.0100')).toBe('2065550100');
+        });
+
+        it('should drop a leading US country code', () => {
+            expect(toPhoneDigits('+1 206 555 0100')).toBe('2065550100');
+            expect(toPhoneDigits('12065550100')).toBe('2065550100');
+        });
+
+        it('should keep ten-digit numbers that start with 1 intact', () => {
+            expect(toPhoneDigits('1065550100')).toBe('1065550100');
+        });
+    });
+
+    describe('generateSmsLoginCode', () => {
+        it('should return six digits, zero-padded', () => {
+            const codes = Array.from({ length: 1000 }, () => generateSmsLoginCode());
+
+            codes.forEach((code) => expect(code).toMatch(/^\d{6}$/));
+            expect(codes.some((code) => code.startsWith('0'))).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import {
+    base32Encode,
+    base32Decode,
+    generateTotpSecret,
+    generateHotp,
+    generateTotp,
+    getTotpTimeStep,
+    verifyTotp,
+    buildOtpauthUri,
+} from '../totpUtils';
+
+describe('totpUtils', () => {
+    // RFC 4226 / RFC 6238 test secret: ASCII "12345678901234567890"
+    const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    describe('base32', () => {
+        it('should encode the RFC test secret', () => {
+            expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+        });
+
+        it('should round-trip arbitrary bytes', () => {
+            const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+            expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+        });
+
+        it('should ignore case, spaces and padding when decoding', () => {
+            expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+        });
+
+        it('should reject characters outside the alphabet', () => {
+            expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+        });
+    });
+
+    describe('generateTotpSecret', () => {
+        it('should generate a 160-bit base32 secret', () => {
+            const secret = generateTotpSecret();
+            expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+            expect(base32Decode(secret)).toHaveLength(20);
+        });
+
+        it('should generate unique secrets', () => {
+            expect(generateTotpSecret()).not.toBe(generateTotpSecret());
+        });
+    });
+
+    describe('generateHotp', () => {
+        it('should match the RFC 4226 test vectors', () => {
+            const expected = ['755224', '287082', '359152', '969429', '338314'];
+            expected.forEach((code, counter) => {
+                expect(generateHotp(RFC_SECRET, counter)).toBe(code);
+            });
+        });
+    });
+
+    describe('generateTotp', () => {
+        it('should match the RFC 6238 SHA1 test vectors (6 digits)', () => {
+            expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+            expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+            expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+            expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+        });
+    });
+
+    describe('verifyTotp', () => {
+        const now = 1700000000 * 1000;
+        const step = getTotpTimeStep(now);
+
+        it('should accept the current code and return its time step', () => {
+            expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), 1, now)).toBe(step);
+        });
+
+        it('should accept codes one step either side by default', () => {
+            expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+            expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+        });
+
+        it('should reject codes outside the window', () => {
+            expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 2), 1, now)).toBeNull();
+            expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 1), 0, now)).toBeNull();
+        });
+
+        it('should reject malformed codes', () => {
+            expect(verifyTotp(RFC_SECRET, '', 1, now)).toBeNull();
+            expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+            expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+        });
+    });
+
+    describe('buildOtpauthUri', () => {
+        it('should build a key URI with an encoded label and parameters', () => {
+            const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'Example');
+            const parsed = new URL(uri);
+
+            expect(parsed.protocol).toBe('otpauth:');
+            expect(uri).toContain('otpauth://totp/Example%3Auser%40example.com?');
+            expect(parsed.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+            expect(parsed.searchParams.get('issuer')).toBe('Example');
+            expect(parsed.searchParams.get('digits')).toBe('6');
+            expect(parsed.searchParams.get('period')).toBe('30');
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import { checkUserExistence, validateUserUniqueness } from '../userExistenceUtils';
+import { ErrorCodes } from '../errorCodes';
+
+// Mock the database
+const mockQuery = jest.fn();
+jest.mock('../database', () => ({
+    getPool: () => ({ query: mockQuery }),
+}));
+
+/**
+ * Make the given columns report a conflicting account
+ */
+const takenColumns = (...columns: string[]) => {
+    mockQuery.mockImplementation(async (sql: string) => {
+        const taken = columns.some((column) => sql.includes(`WHERE ${column} =`));
+        return { rowCount: taken ? 1 : 0, rows: taken ? [{ account_id: 99 }] : [] };
+    });
+};
+
+describe('userExistenceUtils', () => {
+    beforeEach(() => {
+        mockQuery.mockReset();
+    });
+
+    describe('checkUserExistence', () => {
+        it('should report a username used by another account', async () => {
+            takenColumns('Username');
+
+            expect(await checkUserExistence({ username: 'ada' }, 7)).toEqual({
+                exists: true,
+                field: 'username',
+                errorCode: ErrorCodes.AUTH_USERNAME_EXISTS,
+                message: 'Username already exists',
+            });
+        });
+
+        it('should not count the account being updated as a conflict', async () => {
+            takenColumns();
+
+            expect(await checkUserExistence({ username: 'ada' }, 7)).toEqual({ exists: false });
+            expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('Account_ID IS DISTINCT FROM $2'), ['ada', 7]);
+        });
+
+        it('should check every account when none is excluded', async () => {
+            takenColumns();
+
+            await checkUserExistence({ username: 'ada' });
+
+            expect(mockQuery).toHaveBeenCalledWith(expect.any(String), ['ada', null]);
+        });
+
+        it('should only check the fields provided', async () => {
+            takenColumns('Email', 'Phone');
+
+            expect(await checkUserExistence({ username: undefined }, 7)).toEqual({ exists: false });
+            expect(mockQuery).not.toHaveBeenCalled();
+        });
+
+        it('should report the email before the username and phone', async () => {
+            takenColumns('Email', 'Username', 'Phone');
+
+            expect((await checkUserExistence({ email: 'ada@example.com', username: 'ada', phone: '2065550100' })).field)
+                .toBe('email');
+        });
+    });
+
+    describe('validateUserUniqueness', () => {
+        const mockResponse = () => ({
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        }) as unknown as Response;
+
+        it('should send a 400 error and return true when the username is taken', async () => {
+            takenColumns('Username');
+            const response = mockResponse();
+
+            expect(await validateUserUniqueness({ username: 'ada' }, response, 7)).toBe(true);
+            expect(response.status).toHaveBeenCalledWith(400);
+            expect(response.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: false,
+                errorCode: ErrorCodes.AUTH_USERNAME_EXISTS,
+            }));
+        });
+
+        it('should return false without responding when the username is free', async () => {
+            takenColumns();
+            const response = mockResponse();
+
+            expect(await validateUserUniqueness({ username: 'ada' }, response, 7)).toBe(false);
+            expect(response.status).not.toHaveBeenCalled();
+        });
+    });
+});
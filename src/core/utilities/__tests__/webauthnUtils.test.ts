@@ -0,0 +1,320 @@
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import {
+    buildAuthenticationOptions,
+    buildRegistrationOptions,
+    decodeCbor,
+    getWebAuthnConfig,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+    WebAuthnConfig,
+} from '../webauthnUtils';
+
+/**
+ * Minimal CBOR encoder - enough to build attestation objects and COSE keys
+ */
+const encodeHead = (major: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+    const head = Buffer.alloc(3);
+    head[0] = (major << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+};
+
+const encodeCbor = (value: unknown): Buffer => {
+    if (typeof value === 'number') {
+        return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+    }
+    if (typeof value === 'string') {
+        return Buffer.concat([encodeHead(3, Buffer.byteLength(value)), Buffer.from(value)]);
+    }
+    if (Buffer.isBuffer(value)) {
+        return Buffer.concat([encodeHead(2, value.length), value]);
+    }
+    if (value instanceof Map) {
+        const entries = [...value.entries()].flatMap(([key, entry]) => [encodeCbor(key), encodeCbor(entry)]);
+        return Buffer.concat([encodeHead(5, value.size), ...entries]);
+    }
+    throw new Error('Unsupported test value');
+};
+
+/**
+ * A software authenticator holding one credential
+ */
+class SoftwareAuthenticator {
+    readonly credentialId = randomBytes(16);
+    readonly privateKey: KeyObject;
+    readonly publicKey: KeyObject;
+    signCount = 0;
+
+    constructor(readonly algorithm: -7 | -8) {
+        const pair = algorithm === -7
+            ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+            : generateKeyPairSync('ed25519');
+        this.privateKey = pair.privateKey;
+        this.publicKey = pair.publicKey;
+    }
+
+    coseKey(): Map<number, unknown> {
+        const jwk = this.publicKey.export({ format: 'jwk' });
+        const x = Buffer.from(jwk.x as string, 'base64url');
+        if (this.algorithm === -8) {
+            return new Map<number, unknown>([[1, 1], [3, -8], [-1, 6], [-2, x]]);
+        }
+        return new Map<number, unknown>([[1, 2], [3, -7], [-1, 1], [-2, x], [-3, Buffer.from(jwk.y as string, 'base64url')]]);
+    }
+
+    authenticatorData(rpId: string, flags: number, attested: boolean): Buffer {
+        const counter = Buffer.alloc(4);
+        counter.writeUInt32BE(this.signCount);
+        const parts: Buffer[] = [createHash('sha256').update(rpId).digest(), Buffer.from([flags]), counter];
+
+        if (attested) {
+            const idLength = Buffer.alloc(2);
+            idLength.writeUInt16BE(this.credentialId.length);
+            parts.push(Buffer.alloc(16), idLength, this.credentialId, encodeCbor(this.coseKey()));
+        }
+
+        return Buffer.concat(parts);
+    }
+
+    sign(data: Buffer): Buffer {
+        return sign(this.algorithm === -8 ? null : 'sha256', data, this.privateKey);
+    }
+
+    create(options: { challenge: string; origin: string; rpId: string; type?: string; fmt?: string }) {
+        const clientDataJSON = Buffer.from(JSON.stringify({
+            type: options.type ?? 'webauthn.create',
+            challenge: options.challenge,
+            origin: options.origin,
+        }));
+        const authData = this.authenticatorData(options.rpId, 0x45, true);
+
+        const attStmt = new Map<string, unknown>();
+        if (options.fmt === 'packed') {
+            attStmt.set('alg', this.algorithm);
+            attStmt.set('sig', this.sign(Buffer.concat([authData, createHash('sha256').update(clientDataJSON).digest()])));
+        }
+
+        return {
+            id: this.credentialId.toString('base64url'),
+            type: 'public-key',
+            response: {
+                clientDataJSON: clientDataJSON.toString('base64url'),
+                attestationObject: encodeCbor(new Map<string, unknown>([
+                    ['fmt', options.fmt ?? 'none'],
+                    ['attStmt', attStmt],
+                    ['authData', authData],
+                ])).toString('base64url'),
+                transports: ['internal', 'carrier-pigeon'],
+            },
+        };
+    }
+
+    get(options: { challenge: string; origin: string; rpId: string; flags?: number }) {
+        this.signCount++;
+        const clientDataJSON = Buffer.from(JSON.stringify({
+            type: 'webauthn.get',
+            challenge: options.challenge,
+            origin: options.origin,
+        }));
+        const authData = this.authenticatorData(options.rpId, options.flags ?? 0x05, false);
+
+        return {
+            id: this.credentialId.toString('base64url'),
+            type: 'public-key',
+            response: {
+                clientDataJSON: clientDataJSON.toString('base64url'),
+                authenticatorData: authData.toString('base64url'),
+                signature: this.sign(Buffer.concat([authData, createHash('sha256').update(clientDataJSON).digest()])).toString('base64url'),
+            },
+        };
+    }
+}
+
+describe('webauthnUtils', () => {
+    const config: WebAuthnConfig = { rpId: 'example.com', rpName: 'Auth²', origins: ['https://app.example.com'] };
+    const origin = 'https://app.example.com';
+    const challenge = randomBytes(32).toString('base64url');
+
+    describe('decodeCbor', () => {
+        it('should decode integers, strings, byte strings and maps', () => {
+            const decoded = decodeCbor(encodeCbor(new Map<unknown, unknown>([
+                [1, 'one'], [-7, Buffer.from([1, 2])], ['big', 1000],
+            ]))) as Map<unknown, unknown>;
+
+            expect(decoded.get(1)).toBe('one');
+            expect(decoded.get(-7)).toEqual(Buffer.from([1, 2]));
+            expect(decoded.get('big')).toBe(1000);
+        });
+
+        it('should reject truncated or trailing data', () => {
+            expect(() => decodeCbor(Buffer.from([0x62, 0x61]))).toThrow();
+            expect(() => decodeCbor(Buffer.from([0x01, 0x02]))).toThrow();
+        });
+    });
+
+    describe('verifyRegistrationResponse', () => {
+        it.each([-7, -8] as const)('should accept a new passkey (alg %i)', (algorithm) => {
+            const authenticator = new SoftwareAuthenticator(algorithm);
+            const result = verifyRegistrationResponse(authenticator.create({ challenge, origin, rpId: 'example.com' }), challenge, config);
+
+            expect(result.status).toBe('verified');
+            if (result.status === 'verified') {
+                expect(result.credential).toMatchObject({
+                    credentialId: authenticator.credentialId.toString('base64url'),
+                    algorithm,
+                    signCount: 0,
+                    transports: ['internal'],
+                    aaguid: '00000000-0000-0000-0000-000000000000',
+                });
+                expect(result.credential.publicKey).toContain('BEGIN PUBLIC KEY');
+            }
+        });
+
+        it('should accept self-attested packed attestation', () => {
+            const authenticator = new SoftwareAuthenticator(-7);
+            const credential = authenticator.create({ challenge, origin, rpId: 'example.com', fmt: 'packed' });
+
+            expect(verifyRegistrationResponse(credential, challenge, config).status).toBe('verified');
+        });
+
+        it.each([
+            ['a different challenge', { challenge: randomBytes(32).toString('base64url') }, 'Challenge does not match'],
+            ['another origin', { origin: 'https://evil.example.net' }, 'Origin https://evil.example.net is not allowed'],
+            ['another relying party', { rpId: 'evil.example.net' }, 'Credential is scoped to a different relying party'],
+            ['a login response', { type: 'webauthn.get' }, 'Unexpected client data type'],
+            ['an unsupported attestation format', { fmt: 'tpm' }, 'Unsupported attestation format'],
+        ])('should reject %s', (_case, overrides, reason) => {
+            const authenticator = new SoftwareAuthenticator(-7);
+            const credential = authenticator.create({ challenge, origin, rpId: 'example.com', ...overrides });
+
+            expect(verifyRegistrationResponse(credential, challenge, config)).toEqual({ status: 'rejected', reason });
+        });
+
+        it('should reject a credential ID that differs from the attested one', () => {
+            const authenticator = new SoftwareAuthenticator(-7);
+            const credential = authenticator.create({ challenge, origin, rpId: 'example.com' });
+
+            const result = verifyRegistrationResponse({ ...credential, id: 'c29tZXRoaW5nLWVsc2U' }, challenge, config);
+            expect(result).toEqual({ status: 'rejected', reason: 'Credential ID does not match' });
+        });
+    });
+
+    describe('verifyAuthenticationResponse', () => {
+        const register = (algorithm: -7 | -8) => {
+            const authenticator = new SoftwareAuthenticator(algorithm);
+            const result = verifyRegistrationResponse(authenticator.create({ challenge, origin, rpId: 'example.com' }), challenge, config);
+            if (result.status === 'rejected') throw new Error(result.reason);
+            return { authenticator, stored: result.credential };
+        };
+
+        it.each([-7, -8] as const)('should accept a signature from the registered key (alg %i)', (algorithm) => {
+            const { authenticator, stored } = register(algorithm);
+            const assertion = authenticator.get({ challenge, origin, rpId: 'example.com' });
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toEqual({
+                status: 'verified',
+                signCount: 1,
+                userVerified: true,
+                backedUp: false,
+            });
+        });
+
+        it('should report when the user was not verified', () => {
+            const { authenticator, stored } = register(-7);
+            const assertion = authenticator.get({ challenge, origin, rpId: 'example.com', flags: 0x01 });
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toMatchObject({ status: 'verified', userVerified: false });
+        });
+
+        it('should reject a tampered signature', () => {
+            const { authenticator, stored } = register(-7);
+            const assertion = authenticator.get({ challenge, origin, rpId: 'example.com' });
+            const signature = Buffer.from(assertion.response.signature, 'base64url');
+            signature[signature.length - 1] ^= 0xff;
+            assertion.response.signature = signature.toString('base64url');
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toEqual({ status: 'rejected', reason: 'Signature is invalid' });
+        });
+
+        it('should reject a signature from another authenticator', () => {
+            const { stored } = register(-7);
+            const assertion = new SoftwareAuthenticator(-7).get({ challenge, origin, rpId: 'example.com' });
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toEqual({ status: 'rejected', reason: 'Signature is invalid' });
+        });
+
+        it('should reject a signature counter that did not increase', () => {
+            const { authenticator, stored } = register(-7);
+            const assertion = authenticator.get({ challenge, origin, rpId: 'example.com' });
+
+            const result = verifyAuthenticationResponse(assertion, challenge, { ...stored, signCount: 5 }, config);
+            expect(result).toEqual({ status: 'rejected', reason: 'Signature counter did not increase' });
+        });
+
+        it('should reject a response without user presence', () => {
+            const { authenticator, stored } = register(-7);
+            const assertion = authenticator.get({ challenge, origin, rpId: 'example.com', flags: 0x00 });
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toEqual({ status: 'rejected', reason: 'User presence was not confirmed' });
+        });
+
+        it('should reject a different challenge', () => {
+            const { authenticator, stored } = register(-8);
+            const assertion = authenticator.get({ challenge: randomBytes(32).toString('base64url'), origin, rpId: 'example.com' });
+
+            expect(verifyAuthenticationResponse(assertion, challenge, stored, config)).toEqual({ status: 'rejected', reason: 'Challenge does not match' });
+        });
+    });
+
+    describe('getWebAuthnConfig', () => {
+        let originalEnv: NodeJS.ProcessEnv;
+
+        beforeEach(() => {
+            originalEnv = { ...process.env };
+        });
+
+        afterEach(() => {
+            process.env = originalEnv;
+        });
+
+        it('should default to the APP_BASE_URL origin and host', () => {
+            delete process.env.WEBAUTHN_ORIGINS;
+            delete process.env.WEBAUTHN_RP_ID;
+            process.env.APP_BASE_URL = 'https://auth.example.com/api';
+
+            expect(getWebAuthnConfig()).toEqual({ rpId: 'auth.example.com', rpName: 'Auth²', origins: ['https://auth.example.com'] });
+        });
+
+        it('should read a comma-separated origin list', () => {
+            process.env.WEBAUTHN_ORIGINS = 'https://app.example.com/, https://admin.example.com';
+            process.env.WEBAUTHN_RP_ID = 'example.com';
+
+            expect(getWebAuthnConfig()).toMatchObject({
+                rpId: 'example.com',
+                origins: ['https://app.example.com', 'https://admin.example.com'],
+            });
+        });
+    });
+
+    describe('ceremony options', () => {
+        it('should exclude passkeys the user already has', () => {
+            const options = buildRegistrationOptions({
+                challenge,
+                userHandle: 'aGFuZGxl',
+                email: 'ada@example.com',
+                displayName: 'Ada Lovelace',
+                existing: [{ id: 'abc', transports: ['usb'] }],
+            }, config);
+
+            expect(options.rp).toEqual({ id: 'example.com', name: 'Auth²' });
+            expect(options.pubKeyCredParams.map((param) => param.alg)).toEqual([-7, -8, -257]);
+            expect(options.excludeCredentials).toEqual([{ type: 'public-key', id: 'abc', transports: ['usb'] }]);
+        });
+
+        it('should not list credentials for a login', () => {
+            expect(buildAuthenticationOptions(challenge, config)).not.toHaveProperty('allowCredentials');
+        });
+    });
+});
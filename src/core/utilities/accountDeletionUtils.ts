@@ -0,0 +1,187 @@
+import { getPool } from './database';
+import { withTransaction } from './transactionUtils';
+import { revokeAllUserTokens } from './tokenRevocationUtils';
+import { recordAuditEvent, AUDIT_ACTIONS } from './auditUtils';
+import { toPhoneDigits } from './smsLoginUtils';
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@models';
+
+/**
+ * Self-service account deletion
+ *
+ * DELETE /auth/me schedules the deletion ACCOUNT_DELETION_GRACE_DAYS ahead and
+ * logs out every session; until then the user can log in and cancel. Once the
+ * date has passed, `npm run accounts:anonymize` replaces the account's personal
+ * details with placeholders and deletes everything else stored about it,
+ * including failed logins recorded against any of its email addresses. The
+ * Account row itself is kept, so audit entries still point at a real ID - the
+ * audit log is append-only and is retained as the security record, with
+ * personal details stored only as hashes.
+ */
+
+/**
+ * Tables whose rows belong to one account, deleted when it is anonymized
+ * Children come before the rows they reference
+ */
+const ACCOUNT_DATA_TABLES = [
+    'Account_Credential',
+    'Password_History',
+    'verification_codes',
+    'MFA_Recovery_Code',
+    'Account_MFA',
+    'WebAuthn_Credential',
+    'WebAuthn_Challenge',
+    'Federated_Identity',
+    'Personal_Access_Token',
+    'Magic_Link_Token',
+    'SMS_Login_Code',
+    'Email_Change_Request',
+    'Phone_Change_Request',
+    'OAuth_Authorization_Code',
+    'Refresh_Token',
+    'Account_Session',
+    'Login_Attempt',
+];
+
+/**
+ * Placeholder details for an anonymized account
+ * Unique per account, so the Account table's unique constraints still hold;
+ * the phone fits its 15 characters and the email uses the reserved .invalid domain
+ */
+export const anonymizedIdentity = (accountId: number) => ({
+    firstname: 'Deleted',
+    lastname: 'User',
+    username: `deleted-${accountId}`,
+    email: `deleted-${accountId}@deleted.invalid`,
+    phone: `del-${accountId}`,
+});
+
+/**
+ * Schedule an account for deletion and log out every session
+ * Scheduling again keeps the original date
+ * @returns When the account will be anonymized, or null if it no longer exists
+ */
+export const scheduleAccountDeletion = async (accountId: number): Promise<Date | null> => {
+    const result = await withTransaction(async (client) => {
+        const scheduled = await client.query(
+            `UPDATE Account
+             SET Deletion_Scheduled_At = COALESCE(Deletion_Scheduled_At, NOW() + make_interval(days => $2)),
+                 Updated_At = NOW()
+             WHERE Account_ID = $1 AND Account_Status <> 'deleted'
+             RETURNING Deletion_Scheduled_At`,
+            [accountId, ACCOUNT_DELETION_GRACE_DAYS]
+        );
+        if (scheduled.rowCount === 0) return null;
+
+        await revokeAllUserTokens(accountId, client);
+
+        return scheduled.rows[0].deletion_scheduled_at as Date;
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
+
+/**
+ * Cancel a scheduled deletion during the grace period
+ * @returns false if no deletion was pending
+ */
+export const cancelAccountDeletion = async (accountId: number): Promise<boolean> => {
+    const result = await getPool().query(
+        `UPDATE Account SET Deletion_Scheduled_At = NULL, Updated_At = NOW()
+         WHERE Account_ID = $1 AND Deletion_Scheduled_At IS NOT NULL AND Account_Status <> 'deleted'`,
+        [accountId]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * Anonymize one account whose grace period has ended
+ * @returns false if the account is not due (cancelled, already anonymized or gone)
+ */
+export const anonymizeAccount = async (accountId: number): Promise<boolean> => {
+    const identity = anonymizedIdentity(accountId);
+
+    const result = await withTransaction(async (client) => {
+        // The FROM snapshot still holds the email being replaced
+        const updated = await client.query(
+            `UPDATE Account a
+             SET FirstName = $2, LastName = $3, Username = $4, Email = $5, Phone = $6,
+                 Email_Verified = FALSE, Phone_Verified = FALSE, Account_Status = 'deleted',
+                 Failed_Login_Attempts = 0, Lockout_Count = 0, Locked_Until = NULL,
+                 WebAuthn_User_Handle = NULL, Updated_At = NOW()
+             FROM (SELECT Account_ID, Email, Phone FROM Account WHERE Account_ID = $1 FOR UPDATE) previous
+             WHERE a.Account_ID = previous.Account_ID
+               AND a.Account_Status <> 'deleted' AND a.Deletion_Scheduled_At <= NOW()
+             RETURNING previous.Email, previous.Phone`,
+            [accountId, identity.firstname, identity.lastname, identity.username, identity.email, identity.phone]
+        );
+        if (updated.rowCount === 0) return false;
+
+        // Failed logins for an address or number are recorded without an account ID
+        // when it matched no account, e.g. before a sign-up or after an email change
+        await client.query(
+            `DELETE FROM Login_Attempt
+             WHERE LOWER(Email) IN (
+                 SELECT LOWER($2::text)
+                 UNION SELECT $3::text
+                 UNION SELECT LOWER(Old_Email) FROM Email_Change_Request WHERE Account_ID = $1
+                 UNION SELECT LOWER(New_Email) FROM Email_Change_Request WHERE Account_ID = $1
+             )`,
+            [accountId, updated.rows[0].email, toPhoneDigits(updated.rows[0].phone)]
+        );
+
+        for (const table of ACCOUNT_DATA_TABLES) {
+            await client.query(`DELETE FROM ${table} WHERE Account_ID = $1`, [accountId]);
+        }
+        await client.query('DELETE FROM Federated_Login_State WHERE Link_Account_ID = $1', [accountId]);
+
+        // Only the cut-off is left to set - the refresh tokens are already gone
+        await revokeAllUserTokens(accountId, client);
+
+        await recordAuditEvent({
+            action: AUDIT_ACTIONS.ACCOUNT_ANONYMIZE,
+            targetId: accountId,
+        }, client);
+
+        return true;
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
+
+/**
+ * Anonymize every account whose grace period has ended
+ * Each account is its own transaction, so one failure does not hold back the rest
+ * @returns IDs of the accounts anonymized, and of those that failed
+ */
+export const anonymizeDueAccounts = async (): Promise<{ anonymized: number[]; failed: number[] }> => {
+    const due = await getPool().query(
+        `SELECT Account_ID FROM Account
+         WHERE Deletion_Scheduled_At <= NOW() AND Account_Status <> 'deleted'
+         ORDER BY Deletion_Scheduled_At`
+    );
+
+    const anonymized: number[] = [];
+    const failed: number[] = [];
+
+    for (const { account_id: accountId } of due.rows) {
+        try {
+            if (await anonymizeAccount(accountId)) {
+                anonymized.push(accountId);
+            }
+        } catch (error) {
+            console.error(`Failed to anonymize account ${accountId}:`, error);
+            failed.push(accountId);
+        }
+    }
+
+    return { anonymized, failed };
+};
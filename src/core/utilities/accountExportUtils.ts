@@ -0,0 +1,115 @@
+import { QueryResultRow } from 'pg';
+import { getPool } from './database';
+
+/**
+ * Personal data export (GET /auth/me/export)
+ *
+ * Collects every row we hold about an account, with the database's own column
+ * names. Secrets are left out - password and recovery code hashes, TOTP
+ * secrets, passkey public keys and token hashes - as are the codes and links
+ * themselves; their timestamps are included.
+ */
+
+export interface AccountExport {
+    exportedAt: Date;
+    account: QueryResultRow;
+    verification: {
+        codes: QueryResultRow[];
+        emailChanges: QueryResultRow[];
+        pendingPhoneChange: QueryResultRow | null;
+    };
+    security: {
+        authenticatorApp: QueryResultRow | null;
+        passkeys: QueryResultRow[];
+        federatedIdentities: QueryResultRow[];
+        personalAccessTokens: QueryResultRow[];
+    };
+    sessions: QueryResultRow[];
+    loginAttempts: QueryResultRow[];
+    auditLog: QueryResultRow[];
+}
+
+/**
+ * Build the export for an account
+ * @returns null if the account does not exist
+ */
+export const buildAccountExport = async (accountId: number): Promise<AccountExport | null> => {
+    const pool = getPool();
+    const query = (sql: string) => pool.query(sql, [accountId]).then((result) => result.rows);
+
+    const [account] = await query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Email_Verified, Phone, Phone_Verified,
+                Account_Role, Account_Status, Failed_Login_Attempts, Lockout_Count, Locked_Until,
+                Deletion_Scheduled_At, Created_At, Updated_At
+         FROM Account WHERE Account_ID = $1`
+    );
+    if (!account) return null;
+
+    const [
+        codes,
+        emailChanges,
+        phoneChanges,
+        mfa,
+        passkeys,
+        federatedIdentities,
+        personalAccessTokens,
+        sessions,
+        loginAttempts,
+        auditLog,
+    ] = await Promise.all([
+        query(
+            `SELECT code_type, attempts, created_at, expires_at, used_at
+             FROM verification_codes WHERE account_id = $1 ORDER BY created_at`
+        ),
+        query(
+            `SELECT Old_Email, New_Email, Created_At, Confirm_Expires_At, Confirmed_At, Undo_Expires_At, Undone_At
+             FROM Email_Change_Request WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        query('SELECT New_Phone, Attempts, Code_Expires, Created_At FROM Phone_Change_Request WHERE Account_ID = $1'),
+        query('SELECT Enabled, Created_At, Enabled_At FROM Account_MFA WHERE Account_ID = $1'),
+        query(
+            `SELECT Name, Transports, AAGUID, Backup_Eligible, Backed_Up, Created_At, Last_Used_At
+             FROM WebAuthn_Credential WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        query(
+            `SELECT Provider_ID, Subject, Email, Created_At, Last_Login_At
+             FROM Federated_Identity WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        query(
+            `SELECT Token_ID, Name, Token_Prefix, Scopes, Created_At, Expires_At, Last_Used_At, Revoked_At
+             FROM Personal_Access_Token WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        query(
+            `SELECT Session_ID, User_Agent, IP_Address, Client_ID, Scope, Created_At, Last_Seen_At,
+                    Authenticated_At, Revoked_At
+             FROM Account_Session WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        query(
+            `SELECT Email, IP_Address, Succeeded, Attempted_At
+             FROM Login_Attempt WHERE Account_ID = $1 ORDER BY Attempted_At`
+        ),
+        query(
+            `SELECT Audit_ID, Occurred_At, Action, Actor_ID, Target_ID, IP_Address, User_Agent, Changes, Metadata
+             FROM Audit_Log WHERE Actor_ID = $1 OR Target_ID = $1 ORDER BY Occurred_At, Audit_ID`
+        ),
+    ]);
+
+    return {
+        exportedAt: new Date(),
+        account,
+        verification: {
+            codes,
+            emailChanges,
+            pendingPhoneChange: phoneChanges[0] ?? null,
+        },
+        security: {
+            authenticatorApp: mfa[0] ?? null,
+            passkeys,
+            federatedIdentities,
+            personalAccessTokens,
+        },
+        sessions,
+        loginAttempts,
+        auditLog,
+    };
+};
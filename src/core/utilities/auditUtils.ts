@@ -0,0 +1,284 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+
+/**
+ * Security audit log
+ *
+ * Every security-relevant change (admin actions, logins, password and
+ * verification events) appends one row to Audit_Log. The table is append-only:
+ * a database trigger rejects UPDATE, DELETE and TRUNCATE, so entries cannot be
+ * altered after the fact, even by the application.
+ *
+ * Because entries outlive account anonymization, personal details (emails,
+ * phone numbers, names) are never stored in them: recordAuditEvent() replaces
+ * them with SHA-256 hashes. An investigator can still match an entry against a
+ * known address by hashing it with hashPersonalData().
+ */
+
+/**
+ * Audited actions
+ * Format: category.action
+ */
+export const AUDIT_ACTIONS = {
+    // Authentication
+    AUTH_REGISTER: 'auth.register',
+    AUTH_LOGIN: 'auth.login',
+    AUTH_LOGIN_FAILED: 'auth.login_failed',
+    AUTH_ACCOUNT_LOCKED: 'auth.account_locked',
+    AUTH_ACCOUNT_UNLOCKED: 'auth.account_unlocked',
+    AUTH_LOGOUT: 'auth.logout',
+    AUTH_LOGOUT_ALL: 'auth.logout_all',
+    AUTH_REFRESH_TOKEN_REUSED: 'auth.refresh_token_reused',
+    AUTH_SESSION_REVOKED: 'auth.session_revoked',
+    AUTH_REAUTHENTICATE: 'auth.reauthenticate',
+    AUTH_MAGIC_LINK_REQUEST: 'auth.magic_link_request',
+    AUTH_SMS_LOGIN_REQUEST: 'auth.sms_login_request',
+    AUTH_FEDERATED_LINK: 'auth.federated_link',
+    AUTH_FEDERATED_UNLINK: 'auth.federated_unlink',
+
+    // Profile
+    PROFILE_UPDATE: 'profile.update',
+    PROFILE_EMAIL_CHANGE_REQUEST: 'profile.email_change_request',
+    PROFILE_EMAIL_CHANGE: 'profile.email_change',
+    PROFILE_EMAIL_CHANGE_UNDO: 'profile.email_change_undo',
+    PROFILE_PHONE_CHANGE_REQUEST: 'profile.phone_change_request',
+    PROFILE_PHONE_CHANGE: 'profile.phone_change',
+
+    // Account deletion and data export
+    ACCOUNT_DELETION_REQUEST: 'account.deletion_request',
+    ACCOUNT_DELETION_CANCEL: 'account.deletion_cancel',
+    ACCOUNT_ANONYMIZE: 'account.anonymize',
+    ACCOUNT_EXPORT: 'account.export',
+
+    // Personal access tokens
+    TOKEN_CREATE: 'token.create',
+    TOKEN_REVOKE: 'token.revoke',
+
+    // Passkeys
+    WEBAUTHN_REGISTER: 'webauthn.register',
+    WEBAUTHN_REMOVE: 'webauthn.remove',
+
+    // Passwords
+    PASSWORD_CHANGE: 'password.change',
+    PASSWORD_RESET_REQUEST: 'password.reset_request',
+    PASSWORD_RESET: 'password.reset',
+
+    // Two-factor authentication
+    MFA_ENABLED: 'mfa.enabled',
+    MFA_DISABLED: 'mfa.disabled',
+
+    // OAuth
+    OAUTH_AUTHORIZE: 'oauth.authorize',
+    OAUTH_CODE_REUSED: 'oauth.code_reused',
+
+    // Verification
+    VERIFICATION_EMAIL: 'verification.email',
+    VERIFICATION_PHONE: 'verification.phone',
+
+    // Administration
+    ADMIN_USER_CREATE: 'admin.user_create',
+    ADMIN_USER_UPDATE: 'admin.user_update',
+    ADMIN_USER_DELETE: 'admin.user_delete',
+    ADMIN_PASSWORD_RESET: 'admin.password_reset',
+    ADMIN_ROLE_CHANGE: 'admin.role_change',
+    ADMIN_USER_UNLOCK: 'admin.user_unlock',
+    ADMIN_SESSION_REVOKE: 'admin.session_revoke',
+    ADMIN_IMPERSONATE: 'admin.impersonate',
+    ADMIN_IMPERSONATED_REQUEST: 'admin.impersonated_request',
+    ADMIN_SESSIONS_REVOKE_ALL: 'admin.sessions_revoke_all',
+    ADMIN_TOKEN_REVOKE: 'admin.token_revoke',
+    ADMIN_OAUTH_CLIENT_CREATE: 'admin.oauth_client_create',
+    ADMIN_OAUTH_CLIENT_REVOKE: 'admin.oauth_client_revoke',
+    ADMIN_SERVICE_ACCOUNT_CREATE: 'admin.service_account_create',
+    ADMIN_SERVICE_ACCOUNT_SECRET_ROTATE: 'admin.service_account_secret_rotate',
+    ADMIN_SERVICE_ACCOUNT_REVOKE: 'admin.service_account_revoke',
+} as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
+
+/**
+ * Field-level before/after values of a change
+ */
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Who performed an action, and from where
+ */
+export interface AuditContext {
+    actorId: number | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+}
+
+export interface AuditEvent extends Partial<AuditContext> {
+    action: AuditAction;
+    targetId?: number | null;
+    changes?: AuditChanges | null;
+    metadata?: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+    actorId?: number;
+    targetId?: number;
+    action?: string;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+}
+
+export interface AuditLogEntry {
+    id: number;
+    occurredAt: Date;
+    action: string;
+    actorId: number | null;
+    targetId: number | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    changes: AuditChanges | null;
+    metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Changes and metadata fields that hold personal details
+ */
+const PERSONAL_DATA_FIELDS = new Set([
+    'email', 'newEmail', 'oldEmail',
+    'phone', 'newPhone', 'oldPhone',
+    'username', 'firstname', 'lastname',
+]);
+
+/**
+ * Hash a personal detail for the audit log
+ * Case and surrounding whitespace are ignored, so one address always gives the same hash
+ */
+export const hashPersonalData = (value: string): string =>
+    `sha256:${createHash('sha256').update(value.trim().toLowerCase()).digest('hex')}`;
+
+const pseudonymizeValue = (field: string, value: unknown): unknown =>
+    PERSONAL_DATA_FIELDS.has(field) && typeof value === 'string' ? hashPersonalData(value) : value;
+
+/**
+ * Replace personal details in audit metadata with their hashes
+ */
+export const pseudonymizeMetadata = (metadata: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(metadata).map(([field, value]) => [field, pseudonymizeValue(field, value)]));
+
+/**
+ * Replace personal details in audit changes with their hashes
+ */
+export const pseudonymizeChanges = (changes: AuditChanges): AuditChanges =>
+    Object.fromEntries(Object.entries(changes).map(([field, change]) => [
+        field,
+        { from: pseudonymizeValue(field, change.from), to: pseudonymizeValue(field, change.to) },
+    ]));
+
+/**
+ * Build the audit context for a request
+ * The actor is the authenticated user, if any - or the admin, when they are
+ * impersonating the user; pass actorId for unauthenticated flows
+ */
+export const getAuditContext = (
+    request: Request & { claims?: { id: number; act?: { sub: string } } },
+    actorId: number | null = request.claims?.act ? Number(request.claims.act.sub) : request.claims?.id ?? null
+): AuditContext => ({
+    actorId,
+    ipAddress: request.ip ?? null,
+    userAgent: request.get('user-agent')?.slice(0, 512) ?? null,
+});
+
+/**
+ * Compare two snapshots of a record and return the fields that changed
+ * Only keys present in `after` are compared; values are compared by JSON equality
+ */
+export const diffChanges = (
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): AuditChanges => {
+    const changes: AuditChanges = {};
+
+    for (const [field, value] of Object.entries(after)) {
+        if (JSON.stringify(before[field]) !== JSON.stringify(value)) {
+            changes[field] = { from: before[field] ?? null, to: value ?? null };
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * Append an event to the audit log
+ * Pass the transaction client when the audited change is part of a transaction,
+ * so the change and its audit entry commit (or roll back) together.
+ * Personal details in changes and metadata are stored as hashes (see hashPersonalData)
+ */
+export const recordAuditEvent = async (
+    event: AuditEvent,
+    queryable: Pool | PoolClient = getPool()
+): Promise<void> => {
+    await queryable.query(
+        `INSERT INTO Audit_Log (Action, Actor_ID, Target_ID, IP_Address, User_Agent, Changes, Metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+            event.action,
+            event.actorId ?? null,
+            event.targetId ?? null,
+            event.ipAddress ?? null,
+            event.userAgent ?? null,
+            event.changes ? JSON.stringify(pseudonymizeChanges(event.changes)) : null,
+            event.metadata ? JSON.stringify(pseudonymizeMetadata(event.metadata)) : null,
+        ]
+    );
+};
+
+/**
+ * Search the audit log, newest first
+ */
+export const queryAuditLog = async (
+    filters: AuditLogFilters
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+        params.push(value);
+        conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filters.actorId !== undefined) addCondition('Actor_ID = ?', filters.actorId);
+    if (filters.targetId !== undefined) addCondition('Target_ID = ?', filters.targetId);
+    if (filters.action) addCondition('Action = ?', filters.action);
+    if (filters.from) addCondition('Occurred_At >= ?', filters.from);
+    if (filters.to) addCondition('Occurred_At <= ?', filters.to);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const pool = getPool();
+
+    const countResult = await pool.query(`SELECT COUNT(*) AS total FROM Audit_Log ${where}`, params);
+
+    const result = await pool.query(
+        `SELECT Audit_ID, Occurred_At, Action, Actor_ID, Target_ID, IP_Address, User_Agent, Changes, Metadata
+         FROM Audit_Log
+         ${where}
+         ORDER BY Occurred_At DESC, Audit_ID DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, filters.limit, (filters.page - 1) * filters.limit]
+    );
+
+    return {
+        total: parseInt(countResult.rows[0].total),
+        entries: result.rows.map((row) => ({
+            id: Number(row.audit_id),
+            occurredAt: row.occurred_at,
+            action: row.action,
+            actorId: row.actor_id,
+            targetId: row.target_id,
+            ipAddress: row.ip_address,
+            userAgent: row.user_agent,
+            changes: row.changes,
+            metadata: row.metadata,
+        })),
+    };
+};
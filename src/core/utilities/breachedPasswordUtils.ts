@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getEnvVar } from './envConfig';
+
+/**
+ * Offline breached-password screening
+ *
+ * Known breached passwords are stored in a Bloom filter: a bit array where each
+ * password sets hashCount bits. A password is "possibly breached" if all of its
+ * bits are set, and certainly not breached otherwise - so false positives are
+ * possible (at the rate the filter was built for) but misses are not. At a 0.1%
+ * false-positive rate a filter takes about 1.8 bytes per password, so a ten
+ * million entry dump fits in 18 MB, and a lookup never leaves the process.
+ *
+ * The service ships with data/breached-passwords.bloom, built from the seed list
+ * next to it. Build a larger one with `npm run passwords:build-filter` and point
+ * BREACHED_PASSWORDS_FILTER at it.
+ */
+
+export interface BloomFilter {
+    bitCount: number;
+    hashCount: number;
+    itemCount: number;
+    bits: Buffer;
+}
+
+/**
+ * File layout: magic, then bitCount, hashCount and itemCount as big-endian uint32, then the bits
+ */
+const FILE_MAGIC = 'BPF1';
+const HEADER_BYTES = 16;
+const MAX_BIT_COUNT = 0xffffffff;
+
+const DEFAULT_FILTER_PATH = path.join(__dirname, '../../../data/breached-passwords.bloom');
+
+// Loaded on first use; null once loading has failed, so the warning is logged once
+let loadedFilter: BloomFilter | null | undefined;
+
+/**
+ * Size an empty filter for an expected number of items and false-positive rate
+ */
+export const createBloomFilter = (expectedItems: number, falsePositiveRate: number): BloomFilter => {
+    const items = Math.max(expectedItems, 1);
+    const bitCount = Math.min(
+        Math.max(Math.ceil((-items * Math.log(falsePositiveRate)) / Math.LN2 ** 2), 8),
+        MAX_BIT_COUNT
+    );
+    const hashCount = Math.max(Math.round((bitCount / items) * Math.LN2), 1);
+
+    return {
+        bitCount,
+        hashCount,
+        itemCount: 0,
+        bits: Buffer.alloc(Math.ceil(bitCount / 8)),
+    };
+};
+
+/**
+ * Bit positions for a value (double hashing over one SHA-256 digest)
+ */
+const getBitPositions = (filter: BloomFilter, value: string): number[] => {
+    const digest = createHash('sha256').update(value, 'utf8').digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = (digest.readUInt32BE(4) | 1) >>> 0; // Odd, so the positions don't cycle early
+
+    return Array.from({ length: filter.hashCount }, (_, i) => (h1 + i * h2) % filter.bitCount);
+};
+
+export const addToBloomFilter = (filter: BloomFilter, value: string): void => {
+    for (const position of getBitPositions(filter, value)) {
+        filter.bits[position >> 3] |= 1 << (position & 7);
+    }
+    filter.itemCount += 1;
+};
+
+/**
+ * Whether a value may be in the filter (false means it certainly is not)
+ */
+export const bloomFilterHas = (filter: BloomFilter, value: string): boolean =>
+    getBitPositions(filter, value).every((position) => (filter.bits[position >> 3] & (1 << (position & 7))) !== 0);
+
+export const serializeBloomFilter = (filter: BloomFilter): Buffer => {
+    const header = Buffer.alloc(HEADER_BYTES);
+    header.write(FILE_MAGIC, 0, 'ascii');
+    header.writeUInt32BE(filter.bitCount, 4);
+    header.writeUInt32BE(filter.hashCount, 8);
+    header.writeUInt32BE(filter.itemCount, 12);
+
+    return Buffer.concat([header, filter.bits]);
+};
+
+/**
+ * Read a filter written by serializeBloomFilter()
+ * @throws Error if the data is not a filter file or is truncated
+ */
+export const parseBloomFilter = (data: Buffer): BloomFilter => {
+    if (data.length < HEADER_BYTES || data.toString('ascii', 0, 4) !== FILE_MAGIC) {
+        throw new Error('Not a breached-password filter file');
+    }
+
+    const bitCount = data.readUInt32BE(4);
+    const hashCount = data.readUInt32BE(8);
+    const itemCount = data.readUInt32BE(12);
+    const bits = data.subarray(HEADER_BYTES);
+
+    if (bitCount === 0 || hashCount === 0 || bits.length !== Math.ceil(bitCount / 8)) {
+        throw new Error('Breached-password filter file is corrupt');
+    }
+
+    return { bitCount, hashCount, itemCount, bits };
+};
+
+/**
+ * Where the breached-password filter is read from
+ */
+export const getBreachedPasswordFilterPath = (): string =>
+    getEnvVar('BREACHED_PASSWORDS_FILTER', DEFAULT_FILTER_PATH);
+
+/**
+ * Load the filter on first use
+ * Without a readable filter, screening is skipped (with a warning) rather than blocking every password change
+ */
+const getBreachedPasswordFilter = (): BloomFilter | null => {
+    if (loadedFilter === undefined) {
+        const filterPath = getBreachedPasswordFilterPath();
+        try {
+            loadedFilter = parseBloomFilter(readFileSync(filterPath));
+        } catch (error) {
+            console.warn(`⚠️  Breached-password screening disabled - cannot load ${filterPath}:`, (error as Error).message);
+            loadedFilter = null;
+        }
+    }
+
+    return loadedFilter;
+};
+
+/**
+ * Whether a password appears in the breached-password filter
+ */
+export const isBreachedPassword = (password: string): boolean => {
+    const filter = getBreachedPasswordFilter();
+    return filter !== null && bloomFilterHas(filter, password);
+};
+
+/**
+ * Forget the loaded filter, so the next check reads the file again (for tests and rebuilds)
+ */
+export const resetBreachedPasswordFilter = (): void => {
+    loadedFilter = undefined;
+};
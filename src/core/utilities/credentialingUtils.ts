@@ -1,4 +1,10 @@
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import {
+    DUMMY_PASSWORD_HASHES,
+    getPasswordHasher,
+    isEncodedPasswordHash,
+    verifyEncodedPasswordHash
+} from './passwordHasher';
 
 /**
  * Generate a random salt for password hashing
@@ -10,6 +16,8 @@ export const generateSalt = (): string => {
 
 /**
  * Generate a hash from a password and salt using SHA256
+ * LEGACY: only used to verify hashes stored before the switch to hashPassword().
+ * A single SHA256 round is far too fast to resist offline cracking.
  * @param {string} password - The password to hash
  * @param {string} salt - The salt to use
  * @returns {string} The hashed password
@@ -22,6 +30,7 @@ export const generateHash = (password: string, salt: string): string => {
 
 /**
  * Generate salt and hash for a password in one operation
+ * @deprecated Produces a legacy SHA256 hash - use hashPassword() for new passwords
  * @param {string} password - The password to hash
  * @returns {Promise<{salt: string, hash: string}>} The salt and hash
  */
@@ -33,20 +42,61 @@ export const generateSaltedHash = async (
     return { salt, hash };
 };
 
+/**
+ * Hash a password for storage using the configured password hasher
+ * The result encodes its own algorithm, parameters and salt, so no separate
+ * salt column is needed
+ * @param {string} password - The password to hash
+ * @returns {Promise<string>} The encoded hash
+ */
+export const hashPassword = (password: string): Promise<string> => {
+    return getPasswordHasher().hash(password);
+};
+
 /**
  * Verify a password against a stored hash and salt
+ * Accepts both encoded hashes (from hashPassword) and legacy SHA256 hashes
  * @param {string} password - The password to verify
- * @param {string} salt - The stored salt
+ * @param {string | null} salt - The stored salt (legacy hashes only)
  * @param {string} storedHash - The stored hash
- * @returns {boolean} Whether the password is correct
+ * @returns {Promise<boolean>} Whether the password is correct
  */
-export const verifyPassword = (
+export const verifyPassword = async (
     password: string,
-    salt: string,
+    salt: string | null,
     storedHash: string
-): boolean => {
-    const hash = generateHash(password, salt);
-    return hash === storedHash;
+): Promise<boolean> => {
+    if (isEncodedPasswordHash(storedHash)) {
+        return verifyEncodedPasswordHash(password, storedHash);
+    }
+
+    const hash = Buffer.from(generateHash(password, salt ?? ''));
+    const stored = Buffer.from(storedHash);
+    return hash.length === stored.length && timingSafeEqual(hash, stored);
+};
+
+/**
+ * Spend the time of a real password check when there is no hash to check
+ * (unknown email, or an account without a password), so response times do not
+ * reveal which emails are registered
+ * @returns {Promise<boolean>} Always false
+ */
+export const verifyDummyPassword = async (password: string): Promise<boolean> => {
+    await verifyEncodedPasswordHash(password, DUMMY_PASSWORD_HASHES[getPasswordHasher().id]);
+    return false;
+};
+
+/**
+ * Check whether a stored hash should be upgraded after a successful login
+ * True for legacy SHA256 hashes and for hashes made with outdated settings
+ * @param {string} storedHash - The stored hash
+ * @returns {boolean} Whether the password should be rehashed
+ */
+export const passwordNeedsRehash = (storedHash: string): boolean => {
+    if (!isEncodedPasswordHash(storedHash)) {
+        return true;
+    }
+    return getPasswordHasher().needsRehash(storedHash);
 };
 
 /**
@@ -65,3 +115,16 @@ export const generateVerificationCode = (): string => {
 export const generateSecureToken = (bytes: number = 32): string => {
     return randomBytes(bytes).toString('hex');
 };
+
+/**
+ * Hash a high-entropy token (refresh token, API key) for storage
+ * A fast SHA256 digest is sufficient here because the token itself is random,
+ * unlike a user-chosen password, and it lets us look tokens up by hash
+ * @param {string} token - The raw token to hash
+ * @returns {string} The SHA256 digest as a hex string
+ */
+export const generateTokenHash = (token: string): string => {
+    return createHash('sha256')
+        .update(token)
+        .digest('hex');
+};
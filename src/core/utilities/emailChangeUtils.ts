@@ -0,0 +1,191 @@
+import { getPool } from './database';
+import { withTransaction } from './transactionUtils';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { revokeAllUserTokens } from './tokenRevocationUtils';
+import { EMAIL_CHANGE_EXPIRY_HOURS, EMAIL_CHANGE_UNDO_DAYS } from '@models';
+
+/**
+ * Verified email address changes
+ *
+ * POST /auth/me/email only records the new address and emails it a
+ * confirmation link. The account's email changes when that link is opened,
+ * and the old address then gets a notice with an undo link. Undoing restores
+ * the old address, cancels every other change for the account and logs out
+ * all sessions - whoever changed it may still be logged in.
+ */
+
+/**
+ * Minimum time between two confirmation emails for the same account
+ */
+const EMAIL_CHANGE_RESEND_SECONDS = 60;
+
+export interface EmailChange {
+    accountId: number;
+    oldEmail: string;
+    newEmail: string;
+}
+
+/**
+ * Outcome of opening a confirmation link
+ * - changed: the account now uses the new address; undoToken goes to the old one
+ * - invalid: unknown, expired or used link, or the account's email changed since the request
+ * - email_taken: another account registered the new address in the meantime
+ */
+export type EmailChangeConfirmation =
+    | { status: 'changed'; change: EmailChange; undoToken: string }
+    | { status: 'invalid' }
+    | { status: 'email_taken' };
+
+/**
+ * Outcome of opening an undo link
+ * - restored: the account uses the old address again and all its sessions were revoked
+ * - invalid: unknown, expired or used link
+ * - email_taken: another account registered the old address in the meantime
+ */
+export type EmailChangeUndo =
+    | { status: 'restored'; change: EmailChange }
+    | { status: 'invalid' }
+    | { status: 'email_taken' };
+
+/**
+ * Start an email change
+ * Replaces any unconfirmed request for the account, so only the newest link works
+ * @returns The raw confirmation token, or null if one was sent within the last minute
+ */
+export const createEmailChangeRequest = async (
+    accountId: number,
+    oldEmail: string,
+    newEmail: string
+): Promise<string | null> => {
+    const pool = getPool();
+
+    const recent = await pool.query(
+        `SELECT 1 FROM Email_Change_Request
+         WHERE Account_ID = $1 AND Created_At > NOW() - make_interval(secs => $2)`,
+        [accountId, EMAIL_CHANGE_RESEND_SECONDS]
+    );
+    if (recent.rowCount > 0) {
+        return null;
+    }
+
+    await pool.query(
+        'DELETE FROM Email_Change_Request WHERE Account_ID = $1 AND Confirmed_At IS NULL',
+        [accountId]
+    );
+
+    const token = generateSecureToken();
+    await pool.query(
+        `INSERT INTO Email_Change_Request (Account_ID, Old_Email, New_Email, Confirm_Token_Hash, Confirm_Expires_At)
+         VALUES ($1, $2, $3, $4, NOW() + make_interval(hours => $5))`,
+        [accountId, oldEmail, newEmail, generateTokenHash(token), EMAIL_CHANGE_EXPIRY_HOURS]
+    );
+
+    return token;
+};
+
+/**
+ * Redeem a confirmation link and switch the account to the new address
+ * The new address stays verified - opening the link proved the user receives mail there
+ */
+export const confirmEmailChange = async (token: string): Promise<EmailChangeConfirmation> => {
+    const undoToken = generateSecureToken();
+
+    const result = await withTransaction(async (client): Promise<EmailChangeConfirmation> => {
+        const requestResult = await client.query(
+            `UPDATE Email_Change_Request
+             SET Confirmed_At = NOW(), Undo_Token_Hash = $2, Undo_Expires_At = NOW() + make_interval(days => $3)
+             WHERE Confirm_Token_Hash = $1 AND Confirmed_At IS NULL AND Confirm_Expires_At > NOW()
+             RETURNING Account_ID, Old_Email, New_Email`,
+            [generateTokenHash(token), generateTokenHash(undoToken), EMAIL_CHANGE_UNDO_DAYS]
+        );
+        if (requestResult.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const { account_id: accountId, old_email: oldEmail, new_email: newEmail } = requestResult.rows[0];
+
+        // An admin may have changed the address since the request was made
+        const account = await client.query(
+            'SELECT Email FROM Account WHERE Account_ID = $1 FOR UPDATE',
+            [accountId]
+        );
+        if (account.rowCount === 0 || account.rows[0].email !== oldEmail) {
+            return { status: 'invalid' };
+        }
+
+        const taken = await client.query(
+            'SELECT 1 FROM Account WHERE Email = $1 AND Account_ID <> $2',
+            [newEmail, accountId]
+        );
+        if (taken.rowCount > 0) {
+            return { status: 'email_taken' };
+        }
+
+        await client.query(
+            'UPDATE Account SET Email = $1, Email_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $2',
+            [newEmail, accountId]
+        );
+
+        return { status: 'changed', change: { accountId, oldEmail, newEmail }, undoToken };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
+
+/**
+ * Redeem an undo link: restore the old address and log out every session
+ * Works even if the address was changed again since, so a second change cannot lock the owner out
+ */
+export const undoEmailChange = async (token: string): Promise<EmailChangeUndo> => {
+    const result = await withTransaction(async (client): Promise<EmailChangeUndo> => {
+        const requestResult = await client.query(
+            `UPDATE Email_Change_Request SET Undone_At = NOW()
+             WHERE Undo_Token_Hash = $1 AND Undone_At IS NULL AND Undo_Expires_At > NOW()
+             RETURNING Request_ID, Account_ID, Old_Email, New_Email`,
+            [generateTokenHash(token)]
+        );
+        if (requestResult.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const { request_id: requestId, account_id: accountId, old_email: oldEmail, new_email: newEmail } = requestResult.rows[0];
+
+        const taken = await client.query(
+            'SELECT 1 FROM Account WHERE Email = $1 AND Account_ID <> $2',
+            [oldEmail, accountId]
+        );
+        if (taken.rowCount > 0) {
+            return { status: 'email_taken' };
+        }
+
+        await client.query(
+            'UPDATE Account SET Email = $1, Email_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $2',
+            [oldEmail, accountId]
+        );
+
+        // Whoever made the change must not be able to confirm or undo anything else
+        await client.query(
+            'DELETE FROM Email_Change_Request WHERE Account_ID = $1 AND Confirmed_At IS NULL',
+            [accountId]
+        );
+        await client.query(
+            `UPDATE Email_Change_Request SET Undo_Expires_At = NOW()
+             WHERE Account_ID = $1 AND Request_ID <> $2 AND Undo_Expires_At > NOW()`,
+            [accountId, requestId]
+        );
+
+        await revokeAllUserTokens(accountId, client);
+
+        return { status: 'restored', change: { accountId, oldEmail, newEmail } };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
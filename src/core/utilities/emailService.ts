@@ -185,4 +185,129 @@ export const sendPasswordResetEmail = async (
             <p>If you didn't request this, please ignore this email and your password will remain unchanged.</p>
         `,
     });
-};
\ No newline at end of file
+};
+
+/**
+ * Send account locked notification with self-service unlock link
+ */
+export const sendAccountLockedEmail = async (
+    email: string,
+    firstname: string,
+    unlockUrl: string,
+    lockedUntil: Date
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Your Auth² account has been locked',
+        html: `
+            <h2>Account Locked</h2>
+            <p>Hi ${firstname},</p>
+            <p>Your account was locked after too many failed login attempts. It will unlock automatically at ${lockedUntil.toUTCString()}.</p>
+            <p>If this was you, click the link below to unlock your account now:</p>
+            <a href="${unlockUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Unlock Account</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${unlockUrl}</p>
+            <p>This link will expire in 1 hour.</p>
+            <p>If this wasn't you, someone may be trying to guess your password. Consider changing it once you are back in.</p>
+        `,
+    });
+};
+
+/**
+ * Send magic link login email
+ */
+export const sendMagicLinkEmail = async (
+    email: string,
+    firstname: string,
+    loginUrl: string,
+    expiryMinutes: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Your Auth² login link',
+        html: `
+            <h2>Log In to Auth²</h2>
+            <p>Hi ${firstname},</p>
+            <p>Click the link below to log in. No password needed:</p>
+            <a href="${loginUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Log In</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${loginUrl}</p>
+            <p>This link will expire in ${expiryMinutes} minutes and can only be used once.</p>
+            <p>If you didn't request this, please ignore this email. Nobody can log in without the link.</p>
+        `,
+    });
+};
+
+/**
+ * Send the confirmation link for a new email address
+ */
+export const sendEmailChangeConfirmationEmail = async (
+    newEmail: string,
+    firstname: string,
+    confirmUrl: string,
+    expiryHours: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: newEmail,
+        subject: 'Confirm your new Auth² email address',
+        html: `
+            <h2>Confirm Your New Email Address</h2>
+            <p>Hi ${firstname},</p>
+            <p>You asked to change the email address on your Auth² account to ${newEmail}. Click the link below to confirm:</p>
+            <a href="${confirmUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Confirm Email</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${confirmUrl}</p>
+            <p>This link will expire in ${expiryHours} hours. Your email address will not change until you confirm.</p>
+            <p>If you didn't request this, please ignore this email.</p>
+        `,
+    });
+};
+
+/**
+ * Tell the previous address that the account's email was changed, with a link to undo it
+ */
+export const sendEmailChangedNotice = async (
+    oldEmail: string,
+    firstname: string,
+    newEmail: string,
+    undoUrl: string,
+    undoDays: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: oldEmail,
+        subject: 'Your Auth² email address was changed',
+        html: `
+            <h2>Email Address Changed</h2>
+            <p>Hi ${firstname},</p>
+            <p>The email address on your Auth² account was changed from ${oldEmail} to ${newEmail}. Future emails will go to the new address.</p>
+            <p>If this wasn't you, click the link below to restore this address and log out every device:</p>
+            <a href="${undoUrl}" style="display: inline-block; padding: 10px 20px; background-color: #dc3545; color: white; text-decoration: none; border-radius: 5px;">Undo Email Change</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${undoUrl}</p>
+            <p>This link will work for ${undoDays} days. After undoing the change, reset your password as well.</p>
+            <p>If you made this change, you can ignore this email.</p>
+        `,
+    });
+};
+
+/**
+ * Confirm that the account is scheduled for deletion, and how to keep it
+ */
+export const sendAccountDeletionScheduledEmail = async (
+    email: string,
+    firstname: string,
+    deletionDate: Date
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Your Auth² account will be deleted',
+        html: `
+            <h2>Account Deletion Scheduled</h2>
+            <p>Hi ${firstname},</p>
+            <p>Your Auth² account is scheduled for deletion on ${deletionDate.toUTCString()}, and every device has been logged out.</p>
+            <p>After that date your personal details are removed and the account cannot be recovered.</p>
+            <p>Changed your mind? Log in before then and cancel the deletion from your account settings.</p>
+            <p>If you didn't request this, log in, cancel the deletion and change your password immediately.</p>
+        `,
+    });
+};
@@ -16,12 +16,29 @@ export const ErrorCodes = {
     AUTH_TOKEN_EXPIRED: 'AUTH008',
     AUTH_UNAUTHORIZED: 'AUTH009',
     AUTH_INVALID_TOKEN: 'AUTH010',
+    AUTH_REFRESH_TOKEN_REUSED: 'AUTH011',
+    AUTH_TOO_MANY_ATTEMPTS: 'AUTH012',
+    AUTH_SESSION_NOT_FOUND: 'AUTH013',
+    AUTH_ACCESS_TOKEN_NOT_FOUND: 'AUTH014',
+    AUTH_INSUFFICIENT_SCOPE: 'AUTH015',
+    AUTH_INTERACTIVE_LOGIN_REQUIRED: 'AUTH016',
+    AUTH_SERVICE_TOKEN_NOT_ALLOWED: 'AUTH017',
+    AUTH_WEBAUTHN_FAILED: 'AUTH018',
+    AUTH_WEBAUTHN_CREDENTIAL_NOT_FOUND: 'AUTH019',
+    AUTH_WEBAUTHN_CREDENTIAL_EXISTS: 'AUTH020',
+    AUTH_FEDERATED_PROVIDER_NOT_FOUND: 'AUTH021',
+    AUTH_FEDERATED_FAILED: 'AUTH022',
+    AUTH_FEDERATED_NOT_LINKED: 'AUTH023',
+    AUTH_FEDERATED_ALREADY_LINKED: 'AUTH024',
+    AUTH_IMPERSONATION_NOT_ALLOWED: 'AUTH025',
+    AUTH_REAUTHENTICATION_REQUIRED: 'AUTH026',
     
     // User errors (USER001-USER099)
     USER_NOT_FOUND: 'USER001',
     USER_CREDENTIALS_NOT_FOUND: 'USER002',
     USER_EMAIL_NOT_VERIFIED: 'USER003',
     USER_PHONE_NOT_VERIFIED: 'USER004',
+    USER_DELETION_NOT_SCHEDULED: 'USER005',
     
     // Password errors (PASS001-PASS099)
     PASS_INCORRECT_OLD: 'PASS001',
@@ -44,6 +61,13 @@ export const ErrorCodes = {
     VRFY_NO_CODE_FOUND: 'VRFY012',
     VRFY_INVALID_CODE: 'VRFY013',
     
+    // Two-factor authentication errors (MFA001-MFA099)
+    MFA_ALREADY_ENABLED: 'MFA001',
+    MFA_NOT_ENABLED: 'MFA002',
+    MFA_SETUP_REQUIRED: 'MFA003',
+    MFA_INVALID_CODE: 'MFA004',
+    MFA_CHALLENGE_INVALID: 'MFA005',
+
     // Validation errors (VALD001-VALD099)
     VALD_MISSING_FIELDS: 'VALD001',
     VALD_INVALID_EMAIL: 'VALD002',
@@ -51,6 +75,14 @@ export const ErrorCodes = {
     VALD_INVALID_ROLE: 'VALD004',
     VALD_INVALID_INPUT: 'VALD005',
     VALD_INVALID_PASSWORD: 'VALD006',
+    VALD_PASSWORD_TOO_SHORT: 'VALD007',
+    VALD_PASSWORD_TOO_LONG: 'VALD008',
+    VALD_PASSWORD_CHARACTER_CLASSES: 'VALD009',
+    VALD_PASSWORD_REPEATED_CHARACTERS: 'VALD010',
+    VALD_PASSWORD_PERSONAL_INFO: 'VALD011',
+    VALD_PASSWORD_REUSED: 'VALD012',
+    VALD_PASSWORD_BREACHED: 'VALD013',
+    VALD_PASSWORD_TOO_GUESSABLE: 'VALD014',
     
     // Server errors (SRVR001-SRVR099)
     SRVR_DATABASE_ERROR: 'SRVR001',
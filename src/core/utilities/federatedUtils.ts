@@ -0,0 +1,538 @@
+import { createHash, createPublicKey, KeyObject, randomBytes } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { generateTokenHash } from './credentialingUtils';
+
+/**
+ * Federated login with upstream OpenID Connect providers (e.g. university SSO)
+ *
+ * Here we are the OAuth client: /auth/federated/:provider/start sends the user
+ * to the provider with state, nonce and PKCE; the provider sends them back to
+ * /callback with a code, which we exchange for an ID token and verify against
+ * the provider's published keys (JWKS).
+ *
+ * A provider subject is linked to an Account either explicitly (a logged-in
+ * user starts the flow from POST /auth/federated/:provider/link) or
+ * automatically when the provider vouches for an email that is also verified
+ * here. Unlinked identities never create accounts.
+ *
+ * Providers come from env (FEDERATED_PROVIDERS) or the Identity_Provider table;
+ * env entries take precedence.
+ */
+
+/**
+ * How long the user has to finish signing in at the provider
+ */
+export const FEDERATED_STATE_EXPIRY_SECONDS = 600;
+
+/**
+ * Discovery documents are cached this long; JWKS are re-read when an unknown key ID appears
+ */
+const METADATA_CACHE_SECONDS = 3600;
+
+/**
+ * Minimum time between JWKS re-reads, so forged key IDs cannot make us hammer the provider
+ */
+const JWKS_REFRESH_SECONDS = 60;
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'PS256', 'ES256'];
+
+export interface FederatedProvider {
+    id: string;
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+    scopes: string[];
+}
+
+export interface ProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+/**
+ * Values tied to one sign-in attempt at a provider
+ */
+export interface FederatedLoginState {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+}
+
+/**
+ * Who the provider says the user is
+ */
+export interface FederatedIdentityClaims {
+    subject: string;
+    email: string | null;
+    emailVerified: boolean;
+    name: string | null;
+}
+
+export interface FederatedIdentitySummary {
+    provider: string;
+    email: string | null;
+    createdAt: Date;
+    lastLoginAt: Date | null;
+}
+
+/**
+ * Outcome of matching a provider identity to an account
+ * - linked: log in (or report the link to) accountId; newLink when the link was just made
+ * - not_linked: no account is linked and none has this verified email
+ * - already_linked: the identity belongs to another account, or this account already
+ *   has a different identity at the provider
+ */
+export type FederatedAccountResolution =
+    | { status: 'linked'; accountId: number; newLink: 'explicit' | 'verified_email' | null }
+    | { status: 'not_linked' }
+    | { status: 'already_linked' };
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Record<string, unknown>[]; fetchedAt: number }>();
+
+/**
+ * Clear cached discovery documents and keys (for tests and key rotation)
+ */
+export const resetFederatedProviderCache = (): void => {
+    metadataCache.clear();
+    jwksCache.clear();
+};
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Read providers configured in env
+ * FEDERATED_PROVIDERS=uw,google, then FEDERATED_UW_ISSUER, FEDERATED_UW_CLIENT_ID,
+ * FEDERATED_UW_CLIENT_SECRET and optionally FEDERATED_UW_NAME and FEDERATED_UW_SCOPES
+ * Incomplete entries are skipped with a warning
+ */
+export const getEnvFederatedProviders = (): FederatedProvider[] => {
+    const ids = (process.env.FEDERATED_PROVIDERS ?? '')
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean);
+
+    return ids.flatMap((id) => {
+        const prefix = `FEDERATED_${id.toUpperCase().replace(/-/g, '_')}_`;
+        const issuer = process.env[`${prefix}ISSUER`];
+        const clientId = process.env[`${prefix}CLIENT_ID`];
+        const clientSecret = process.env[`${prefix}CLIENT_SECRET`];
+
+        if (!issuer || !clientId || !clientSecret) {
+            console.warn(`⚠️  Federated provider "${id}" is missing ${prefix}ISSUER, CLIENT_ID or CLIENT_SECRET - skipped`);
+            return [];
+        }
+
+        return [{
+            id,
+            name: process.env[`${prefix}NAME`] || id,
+            issuer: issuer.replace(/\/+$/, ''),
+            clientId,
+            clientSecret,
+            scopes: (process.env[`${prefix}SCOPES`] || 'openid email profile').split(/[\s,]+/).filter(Boolean),
+        }];
+    });
+};
+
+const toProvider = (row: QueryResultRow): FederatedProvider => ({
+    id: row.provider_id,
+    name: row.name,
+    issuer: row.issuer.replace(/\/+$/, ''),
+    clientId: row.client_id,
+    clientSecret: row.client_secret,
+    scopes: row.scopes,
+});
+
+/**
+ * List enabled providers, env entries first
+ */
+export const listFederatedProviders = async (): Promise<FederatedProvider[]> => {
+    const fromEnv = getEnvFederatedProviders();
+    const result = await getPool().query(
+        `SELECT Provider_ID, Name, Issuer, Client_ID, Client_Secret, Scopes
+         FROM Identity_Provider
+         WHERE Enabled = TRUE
+         ORDER BY Name`
+    );
+
+    const envIds = new Set(fromEnv.map((provider) => provider.id));
+    return [...fromEnv, ...result.rows.map(toProvider).filter((provider) => !envIds.has(provider.id))];
+};
+
+/**
+ * Find an enabled provider by ID
+ */
+export const findFederatedProvider = async (providerId: string): Promise<FederatedProvider | null> => {
+    const fromEnv = getEnvFederatedProviders().find((provider) => provider.id === providerId);
+    if (fromEnv) {
+        return fromEnv;
+    }
+
+    const result = await getPool().query(
+        `SELECT Provider_ID, Name, Issuer, Client_ID, Client_Secret, Scopes
+         FROM Identity_Provider
+         WHERE Provider_ID = $1 AND Enabled = TRUE`,
+        [providerId]
+    );
+
+    return result.rowCount > 0 ? toProvider(result.rows[0]) : null;
+};
+
+/**
+ * Where the provider sends the user back to - must be registered with the provider
+ */
+export const getFederatedCallbackUrl = (providerId: string): string => {
+    const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`).replace(/\/+$/, '');
+    return `${baseUrl}/auth/federated/${providerId}/callback`;
+};
+
+// ============================================
+// PROTOCOL
+// ============================================
+
+/**
+ * GET a JSON document from a provider
+ * @throws Error if the provider does not answer with 2xx JSON
+ */
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(10000) });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok || !body || typeof body !== 'object') {
+        const detail = body && typeof body === 'object' ? (body as Record<string, unknown>).error : undefined;
+        throw new Error(`${url} answered ${response.status}${detail ? ` (${detail})` : ''}`);
+    }
+
+    return body as Record<string, unknown>;
+};
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ * @throws Error if it cannot be fetched or names a different issuer
+ */
+export const getProviderMetadata = async (provider: FederatedProvider): Promise<ProviderMetadata> => {
+    const cached = metadataCache.get(provider.issuer);
+    if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_SECONDS * 1000) {
+        return cached.metadata;
+    }
+
+    const document = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+    if (document.issuer !== provider.issuer) {
+        throw new Error(`Discovery document for ${provider.issuer} names issuer ${document.issuer}`);
+    }
+    for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri']) {
+        if (typeof document[field] !== 'string') {
+            throw new Error(`Discovery document for ${provider.issuer} has no ${field}`);
+        }
+    }
+
+    const metadata = document as unknown as ProviderMetadata;
+    metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+    return metadata;
+};
+
+/**
+ * Find the provider key that signed a token, re-reading the JWKS once if the key is new
+ * @returns The key, or null if the provider does not publish it
+ */
+const getProviderSigningKey = async (metadata: ProviderMetadata, kid: string | undefined): Promise<KeyObject | null> => {
+    const findKey = (keys: Record<string, unknown>[]) => {
+        const candidates = keys.filter((key) => key.use === undefined || key.use === 'sig');
+        return kid ? candidates.find((key) => key.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+    };
+
+    let cached = jwksCache.get(metadata.jwks_uri);
+    let jwk = cached ? findKey(cached.keys) : undefined;
+
+    if (!jwk && (!cached || Date.now() - cached.fetchedAt >= JWKS_REFRESH_SECONDS * 1000)) {
+        const document = await fetchJson(metadata.jwks_uri);
+        cached = { keys: Array.isArray(document.keys) ? document.keys : [], fetchedAt: Date.now() };
+        jwksCache.set(metadata.jwks_uri, cached);
+        jwk = findKey(cached.keys);
+    }
+
+    if (!jwk) {
+        return null;
+    }
+
+    try {
+        return createPublicKey({ key: jwk, format: 'jwk' });
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Start a sign-in attempt: random state, nonce and PKCE verifier
+ * Only the state's hash is stored; it is what the callback presents
+ * @param linkAccountId - Account to link the identity to, or null for a login
+ */
+export const createFederatedLoginState = async (
+    providerId: string,
+    linkAccountId: number | null
+): Promise<FederatedLoginState> => {
+    const pool = getPool();
+    const login: FederatedLoginState = {
+        state: randomBytes(32).toString('base64url'),
+        nonce: randomBytes(32).toString('base64url'),
+        codeVerifier: randomBytes(32).toString('base64url'),
+    };
+
+    await pool.query('DELETE FROM Federated_Login_State WHERE Expires_At < NOW()');
+    await pool.query(
+        `INSERT INTO Federated_Login_State (State_Hash, Provider_ID, Nonce, Code_Verifier, Link_Account_ID, Expires_At)
+         VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))`,
+        [generateTokenHash(login.state), providerId, login.nonce, login.codeVerifier, linkAccountId, FEDERATED_STATE_EXPIRY_SECONDS]
+    );
+
+    return login;
+};
+
+/**
+ * Use up a sign-in attempt's state
+ * @returns Its nonce, verifier and link target, or null if unknown, expired, used or for another provider
+ */
+export const consumeFederatedLoginState = async (
+    state: string,
+    providerId: string
+): Promise<(FederatedLoginState & { linkAccountId: number | null }) | null> => {
+    const result = await getPool().query(
+        `DELETE FROM Federated_Login_State
+         WHERE State_Hash = $1 AND Provider_ID = $2 AND Expires_At > NOW()
+         RETURNING Nonce, Code_Verifier, Link_Account_ID`,
+        [generateTokenHash(state), providerId]
+    );
+
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    return { state, nonce: row.nonce, codeVerifier: row.code_verifier, linkAccountId: row.link_account_id };
+};
+
+/**
+ * Build the URL that sends the user to the provider's sign-in page
+ */
+export const buildFederatedAuthorizationUrl = (
+    provider: FederatedProvider,
+    metadata: ProviderMetadata,
+    login: FederatedLoginState
+): string => {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', getFederatedCallbackUrl(provider.id));
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', login.state);
+    url.searchParams.set('nonce', login.nonce);
+    url.searchParams.set('code_challenge', createHash('sha256').update(login.codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+};
+
+/**
+ * Exchange the authorization code for the provider's ID token
+ * Authenticates with client_secret_basic
+ * @throws Error if the provider rejects the code or returns no ID token
+ */
+export const exchangeFederatedCode = async (
+    provider: FederatedProvider,
+    metadata: ProviderMetadata,
+    code: string,
+    codeVerifier: string
+): Promise<string> => {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+
+    const body = await fetchJson(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+            'Authorization': `Basic ${Buffer.from(credentials).toString('base64')}`,
+        },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: getFederatedCallbackUrl(provider.id),
+            code_verifier: codeVerifier,
+        }).toString(),
+    });
+
+    if (typeof body.id_token !== 'string') {
+        throw new Error(`${metadata.token_endpoint} returned no id_token`);
+    }
+
+    return body.id_token;
+};
+
+/**
+ * Verify a provider ID token (OIDC Core §3.1.3.7): signature from the provider's
+ * JWKS, issuer, audience (and azp when there are several), expiry and nonce
+ * @returns The identity, or null if the token is not valid for this sign-in
+ */
+export const verifyFederatedIdToken = async (
+    provider: FederatedProvider,
+    metadata: ProviderMetadata,
+    idToken: string,
+    nonce: string
+): Promise<FederatedIdentityClaims | null> => {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+        return null;
+    }
+
+    const key = await getProviderSigningKey(metadata, decoded.header.kid);
+    if (!key) {
+        return null;
+    }
+
+    let claims: JwtPayload;
+    try {
+        claims = jwt.verify(idToken, key, {
+            algorithms: ID_TOKEN_ALGORITHMS,
+            issuer: provider.issuer,
+            audience: provider.clientId,
+            clockTolerance: 60,
+        }) as JwtPayload;
+    } catch {
+        return null;
+    }
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+        return null;
+    }
+    if (claims.nonce !== nonce || typeof claims.sub !== 'string' || !claims.sub) {
+        return null;
+    }
+
+    return {
+        subject: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+        // Some providers send the boolean as a string
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: typeof claims.name === 'string' ? claims.name : null,
+    };
+};
+
+// ============================================
+// LINKED IDENTITIES
+// ============================================
+
+const toSummary = (row: QueryResultRow): FederatedIdentitySummary => ({
+    provider: row.provider_id,
+    email: row.email,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at,
+});
+
+/**
+ * Match a provider identity to an account, linking it when allowed
+ * @param linkAccountId - Set when a logged-in user asked to link this provider
+ */
+export const resolveFederatedAccount = async (
+    providerId: string,
+    identity: FederatedIdentityClaims,
+    linkAccountId: number | null
+): Promise<FederatedAccountResolution> => {
+    const pool = getPool();
+
+    const existing = await pool.query(
+        `UPDATE Federated_Identity SET Last_Login_At = NOW(), Email = COALESCE($3, Email)
+         WHERE Provider_ID = $1 AND Subject = $2
+         RETURNING Account_ID`,
+        [providerId, identity.subject, identity.email]
+    );
+
+    if (existing.rowCount > 0) {
+        const accountId = existing.rows[0].account_id;
+        if (linkAccountId !== null && linkAccountId !== accountId) {
+            return { status: 'already_linked' };
+        }
+        return { status: 'linked', accountId, newLink: null };
+    }
+
+    let accountId = linkAccountId;
+    if (accountId === null) {
+        if (!identity.email || !identity.emailVerified) {
+            return { status: 'not_linked' };
+        }
+
+        const match = await pool.query(
+            'SELECT Account_ID FROM Account WHERE Email = $1 AND Email_Verified = TRUE',
+            [identity.email]
+        );
+        if (match.rowCount === 0) {
+            return { status: 'not_linked' };
+        }
+        accountId = match.rows[0].account_id;
+    }
+
+    const linked = await linkFederatedIdentity(pool, providerId, identity, accountId);
+    if (!linked) {
+        return { status: 'already_linked' };
+    }
+
+    return { status: 'linked', accountId, newLink: linkAccountId !== null ? 'explicit' : 'verified_email' };
+};
+
+/**
+ * Link a provider identity to an account
+ * @returns false if the account already has an identity at this provider
+ */
+export const linkFederatedIdentity = async (
+    queryable: Pool | PoolClient,
+    providerId: string,
+    identity: FederatedIdentityClaims,
+    accountId: number
+): Promise<boolean> => {
+    const result = await queryable.query(
+        `INSERT INTO Federated_Identity (Provider_ID, Subject, Account_ID, Email, Last_Login_At)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT DO NOTHING`,
+        [providerId, identity.subject, accountId, identity.email]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * List the providers an account can log in with
+ */
+export const listFederatedIdentities = async (accountId: number): Promise<FederatedIdentitySummary[]> => {
+    const result = await getPool().query(
+        `SELECT Provider_ID, Email, Created_At, Last_Login_At
+         FROM Federated_Identity
+         WHERE Account_ID = $1
+         ORDER BY Created_At`,
+        [accountId]
+    );
+
+    return result.rows.map(toSummary);
+};
+
+/**
+ * Unlink an account from a provider
+ * @returns The removed link, or null if the account was not linked to the provider
+ */
+export const unlinkFederatedIdentity = async (
+    accountId: number,
+    providerId: string
+): Promise<FederatedIdentitySummary | null> => {
+    const result = await getPool().query(
+        `DELETE FROM Federated_Identity
+         WHERE Account_ID = $1 AND Provider_ID = $2
+         RETURNING Provider_ID, Email, Created_At, Last_Login_At`,
+        [accountId, providerId]
+    );
+
+    return result.rowCount > 0 ? toSummary(result.rows[0]) : null;
+};
@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { IJwtClaims } from '@models';
+import { getAuditContext, recordAuditEvent, AUDIT_ACTIONS } from './auditUtils';
+import { isAccessTokenRevoked } from './tokenRevocationUtils';
+
+/**
+ * Admin impersonation ("log in as user")
+ *
+ * POST /admin/users/:id/impersonate gives support staff a 15-minute access
+ * token for a user with a lower role. The token's act claim names the admin:
+ * every request made with it is audited under the admin's ID, credential and
+ * admin routes reject it, and it dies with the admin's own session.
+ */
+
+/**
+ * Check the role hierarchy: only users with a strictly lower role can be impersonated
+ */
+export const canImpersonate = (impersonatorRole: number, targetRole: number): boolean => {
+    return targetRole < impersonatorRole;
+};
+
+/**
+ * Check whether the admin behind an impersonation token has since been logged out
+ * (session revoked, logout-all, password change or account deleted)
+ */
+export const isImpersonatorRevoked = async (claims: Pick<IJwtClaims, 'act' | 'iat'>): Promise<boolean> => {
+    return isAccessTokenRevoked({
+        id: Number(claims.act.sub),
+        sid: claims.act.sid,
+        iat: claims.iat,
+    });
+};
+
+/**
+ * Audit a request made with an impersonation token once its response is sent
+ * Recorded with the admin as actor and the impersonated user as target
+ */
+export const recordImpersonatedRequest = (request: Request, response: Response, claims: IJwtClaims): void => {
+    response.on('finish', () => {
+        recordAuditEvent({
+            ...getAuditContext(request, Number(claims.act.sub)),
+            action: AUDIT_ACTIONS.ADMIN_IMPERSONATED_REQUEST,
+            targetId: claims.id,
+            metadata: {
+                method: request.method,
+                path: request.originalUrl.split('?')[0],
+                status: response.statusCode,
+                jti: claims.jti,
+            },
+        }).catch((auditError) => {
+            console.error('Impersonated request audit error:', auditError);
+        });
+    });
+};
@@ -1,11 +1,40 @@
 export * from './database';
 export * from './validationUtils';
 export * from './credentialingUtils';
+export * from './passwordHasher';
 export * from './responseUtils';
 export * from './errorCodes';
 export * from './envConfig';
 export * from './emailService';
+export * from './signingKeys';
 export * from './tokenUtils';
+export * from './refreshTokenUtils';
+export * from './tokenRevocationUtils';
+export * from './sessionUtils';
+export * from './auditUtils';
+export * from './loginAttemptUtils';
+export * from './totpUtils';
+export * from './mfaUtils';
+export * from './loginUtils';
+export * from './oauthUtils';
+export * from './oauthViewUtils';
+export * from './oidcUtils';
+export * from './personalAccessTokenUtils';
+export * from './serviceAccountUtils';
+export * from './magicLinkUtils';
+export * from './emailChangeUtils';
+export * from './smsLoginUtils';
+export * from './phoneChangeUtils';
+export * from './accountDeletionUtils';
+export * from './accountExportUtils';
+export * from './passwordPolicy';
+export * from './passwordStrength';
+export * from './passwordHistoryUtils';
+export * from './breachedPasswordUtils';
+export * from './webauthnUtils';
+export * from './federatedUtils';
+export * from './impersonationUtils';
+export * from './reauthUtils';
 export * from './userExistenceUtils';
 export * from './transactionUtils';
 export * from './markdownUtils';
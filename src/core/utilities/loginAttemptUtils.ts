@@ -0,0 +1,179 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { recordAuditEvent, AUDIT_ACTIONS } from './auditUtils';
+
+export interface LoginLockoutConfig {
+    maxAttempts: number;          // Failed attempts before an account is locked
+    baseLockoutMinutes: number;   // Duration of the first lockout
+    maxLockoutMinutes: number;    // Upper bound for exponential backoff
+    maxAttemptsPerIp: number;     // Failed attempts allowed from one IP per window
+    ipWindowMinutes: number;      // Sliding window for the per-IP limit
+}
+
+export interface FailedLoginResult {
+    locked: boolean;
+    lockedUntil?: Date;
+}
+
+/**
+ * Read lockout settings from the environment
+ */
+export const getLoginLockoutConfig = (): LoginLockoutConfig => ({
+    maxAttempts: parseInt(getEnvVar('LOGIN_MAX_ATTEMPTS', '5')),
+    baseLockoutMinutes: parseInt(getEnvVar('LOGIN_LOCKOUT_MINUTES', '15')),
+    maxLockoutMinutes: parseInt(getEnvVar('LOGIN_MAX_LOCKOUT_MINUTES', '1440')),
+    maxAttemptsPerIp: parseInt(getEnvVar('LOGIN_MAX_ATTEMPTS_PER_IP', '20')),
+    ipWindowMinutes: parseInt(getEnvVar('LOGIN_IP_WINDOW_MINUTES', '15')),
+});
+
+/**
+ * Calculate how long the next lockout lasts (exponential backoff)
+ * The first lockout lasts baseLockoutMinutes, and each repeat doubles it, up to maxLockoutMinutes
+ * @param previousLockouts - Number of times the account was locked since its last successful login
+ * @returns Lockout duration in milliseconds
+ */
+export const calculateLockoutDuration = (
+    previousLockouts: number,
+    config: LoginLockoutConfig = getLoginLockoutConfig()
+): number => {
+    const minutes = Math.min(
+        config.baseLockoutMinutes * 2 ** previousLockouts,
+        config.maxLockoutMinutes
+    );
+    return minutes * 60 * 1000;
+};
+
+/**
+ * Check whether an IP address has exceeded its failed-login allowance
+ * Limits credential stuffing across many accounts from one source
+ */
+export const isIpRateLimited = async (ipAddress: string): Promise<boolean> => {
+    const config = getLoginLockoutConfig();
+
+    const result = await getPool().query(
+        `SELECT COUNT(*) AS count
+         FROM Login_Attempt
+         WHERE IP_Address = $1
+           AND Succeeded = FALSE
+           AND Attempted_At > NOW() - make_interval(mins => $2)`,
+        [ipAddress, config.ipWindowMinutes]
+    );
+
+    return parseInt(result.rows[0].count) >= config.maxAttemptsPerIp;
+};
+
+/**
+ * Record a failed login and lock the account once it reaches the limit
+ * accountId is null when the email does not match any account (still counted per IP)
+ * @param email - The email tried, or the phone number's digits for an SMS login
+ */
+export const recordFailedLogin = async (
+    accountId: number | null,
+    email: string,
+    ipAddress: string
+): Promise<FailedLoginResult> => {
+    const pool = getPool();
+    const config = getLoginLockoutConfig();
+
+    await pool.query(
+        'INSERT INTO Login_Attempt (Account_ID, Email, IP_Address, Succeeded) VALUES ($1, $2, $3, FALSE)',
+        [accountId, email, ipAddress]
+    );
+
+    await recordAuditEvent({
+        action: AUDIT_ACTIONS.AUTH_LOGIN_FAILED,
+        targetId: accountId,
+        ipAddress,
+        metadata: { email },
+    });
+
+    if (accountId === null) {
+        return { locked: false };
+    }
+
+    const counterResult = await pool.query(
+        `UPDATE Account
+         SET Failed_Login_Attempts = Failed_Login_Attempts + 1
+         WHERE Account_ID = $1
+         RETURNING Failed_Login_Attempts, Lockout_Count`,
+        [accountId]
+    );
+
+    const counters = counterResult.rows[0];
+
+    if (!counters || counters.failed_login_attempts < config.maxAttempts) {
+        return { locked: false };
+    }
+
+    const lockedUntil = new Date(Date.now() + calculateLockoutDuration(counters.lockout_count, config));
+
+    await pool.query(
+        `UPDATE Account
+         SET Account_Status = 'locked',
+             Locked_Until = $1,
+             Lockout_Count = Lockout_Count + 1,
+             Failed_Login_Attempts = 0,
+             Updated_At = NOW()
+         WHERE Account_ID = $2`,
+        [lockedUntil, accountId]
+    );
+
+    await recordAuditEvent({
+        action: AUDIT_ACTIONS.AUTH_ACCOUNT_LOCKED,
+        targetId: accountId,
+        ipAddress,
+        metadata: { lockedUntil: lockedUntil.toISOString(), lockoutCount: counters.lockout_count + 1 },
+    });
+
+    return { locked: true, lockedUntil };
+};
+
+/**
+ * Record a successful login and clear the failure counters
+ * Call only once every factor has passed (see issueLoginTokens)
+ */
+export const recordSuccessfulLogin = async (
+    accountId: number,
+    email: string,
+    ipAddress: string
+): Promise<void> => {
+    const pool = getPool();
+
+    await pool.query(
+        'INSERT INTO Login_Attempt (Account_ID, Email, IP_Address, Succeeded) VALUES ($1, $2, $3, TRUE)',
+        [accountId, email, ipAddress]
+    );
+
+    await pool.query(
+        'UPDATE Account SET Failed_Login_Attempts = 0, Lockout_Count = 0 WHERE Account_ID = $1',
+        [accountId]
+    );
+};
+
+/**
+ * Unlock a locked account
+ * Restores 'active' if the email is verified, otherwise 'pending'
+ * @param resetBackoff - Also forget previous lockouts (false when a lock simply expires,
+ *                       so the next lockout keeps doubling)
+ * @returns true if the account was locked and is now unlocked
+ */
+export const unlockAccount = async (
+    accountId: number,
+    queryable: Pool | PoolClient = getPool(),
+    resetBackoff: boolean = true
+): Promise<boolean> => {
+    const result = await queryable.query(
+        `UPDATE Account
+         SET Account_Status = CASE WHEN Email_Verified THEN 'active' ELSE 'pending' END,
+             Locked_Until = NULL,
+             Failed_Login_Attempts = 0,
+             Lockout_Count = CASE WHEN $2 THEN 0 ELSE Lockout_Count END,
+             Updated_At = NOW()
+         WHERE Account_ID = $1 AND Account_Status = 'locked'
+         RETURNING Account_ID`,
+        [accountId, resetBackoff]
+    );
+
+    return result.rowCount > 0;
+};
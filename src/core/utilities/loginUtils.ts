@@ -0,0 +1,253 @@
+import { Request, Response } from 'express';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { sendSuccess } from './responseUtils';
+import { sendAccountLockedEmail } from './emailService';
+import { generateAccessToken, generateAccountUnlockToken, generateMfaChallengeToken } from './tokenUtils';
+import { issueRefreshToken } from './refreshTokenUtils';
+import { isMfaEnabled } from './mfaUtils';
+import { createSession, getSessionContext, SessionContext } from './sessionUtils';
+import { recordAuditEvent, AUDIT_ACTIONS } from './auditUtils';
+import { hashPassword, passwordNeedsRehash, verifyDummyPassword, verifyPassword } from './credentialingUtils';
+import { isIpRateLimited, recordFailedLogin, recordSuccessfulLogin, unlockAccount } from './loginAttemptUtils';
+import { RoleName, UserRole } from '@models';
+
+/**
+ * Account fields needed to finish a login
+ */
+export interface LoginAccount {
+    account_id: number;
+    firstname: string;
+    lastname: string;
+    username: string;
+    email: string;
+    account_role: UserRole;
+    email_verified: boolean;
+    phone_verified: boolean;
+    account_status: string;
+    locked_until: Date | null;
+}
+
+/**
+ * Outcome of checking an email and password
+ * - success: credentials are valid and the account may log in
+ * - rate_limited: too many failures from this IP address
+ * - invalid: unknown email or wrong password
+ * - suspended: account is suspended
+ * - locked: account is locked (justLocked when this attempt triggered the lock)
+ */
+export type PasswordAuthResult =
+    | { status: 'success'; account: LoginAccount }
+    | { status: 'rate_limited' }
+    | { status: 'invalid' }
+    | { status: 'suspended' }
+    | { status: 'locked'; lockedUntil: Date | null; justLocked: boolean };
+
+/**
+ * Load the account fields needed to finish a login
+ * Used by login flows that identify the user by something other than email + password
+ */
+export const findLoginAccountById = async (accountId: number): Promise<LoginAccount | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Account_Role,
+                Email_Verified, Phone_Verified, Account_Status, Locked_Until
+         FROM Account
+         WHERE Account_ID = $1`,
+        [accountId]
+    );
+
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Release a lockout that has run out, keeping the backoff history
+ * Every login flow checks this before refusing a locked account, so an expired
+ * lock is lifted the same way whichever method the user logs in with
+ * @returns false if the account is still locked
+ */
+export const releaseExpiredLock = async (
+    account: Pick<LoginAccount, 'account_id' | 'account_status' | 'locked_until' | 'email_verified'>
+): Promise<boolean> => {
+    if (account.account_status !== 'locked') {
+        return true;
+    }
+    if (!account.locked_until || new Date() < new Date(account.locked_until)) {
+        return false;
+    }
+
+    await unlockAccount(account.account_id, getPool(), false);
+    account.account_status = account.email_verified ? 'active' : 'pending';
+    return true;
+};
+
+/**
+ * Check an email and password - the one place passwords are verified for login
+ * Applies the per-IP limit and account lockout, records failed attempts, emails the
+ * unlock link when an account becomes locked, and upgrades outdated password hashes.
+ * A correct password does not clear the failure counters - a second factor may
+ * still be wrong - so that happens in issueLoginTokens once every factor has passed
+ */
+export const authenticateWithPassword = async (
+    email: string,
+    password: string,
+    ipAddress: string
+): Promise<PasswordAuthResult> => {
+    const pool = getPool();
+
+    // Throttle sources that are guessing across many accounts
+    if (await isIpRateLimited(ipAddress)) {
+        return { status: 'rate_limited' };
+    }
+
+    const accountResult = await pool.query(
+        `SELECT
+            a.Account_ID, a.FirstName, a.LastName, a.Username,
+            a.Email, a.Account_Role, a.Email_Verified,
+            a.Phone_Verified, a.Account_Status, a.Locked_Until,
+            ac.Salted_Hash, ac.Salt
+        FROM Account a
+        LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID
+        WHERE a.Email = $1`,
+        [email]
+    );
+
+    if (accountResult.rowCount === 0) {
+        await verifyDummyPassword(password);
+        await recordFailedLogin(null, email, ipAddress);
+        return { status: 'invalid' };
+    }
+
+    const account = accountResult.rows[0];
+
+    if (account.account_status === 'suspended') {
+        return { status: 'suspended' };
+    }
+    if (!(await releaseExpiredLock(account))) {
+        return { status: 'locked', lockedUntil: account.locked_until, justLocked: false };
+    }
+
+    const passwordMatches = account.salted_hash
+        ? await verifyPassword(password, account.salt, account.salted_hash)
+        : await verifyDummyPassword(password);
+
+    if (!passwordMatches) {
+        const failure = await recordFailedLogin(account.account_id, email, ipAddress);
+
+        if (failure.locked) {
+            await notifyAccountLocked(account, failure.lockedUntil);
+            return { status: 'locked', lockedUntil: failure.lockedUntil, justLocked: true };
+        }
+
+        return { status: 'invalid' };
+    }
+
+    // Transparently upgrade legacy or outdated hashes now that we know the password
+    if (passwordNeedsRehash(account.salted_hash)) {
+        try {
+            await pool.query(
+                'UPDATE Account_Credential SET Salted_Hash = $1, Salt = NULL WHERE Account_ID = $2',
+                [await hashPassword(password), account.account_id]
+            );
+        } catch (rehashError) {
+            // Not fatal - the old hash still works and we will retry next login
+            console.error('Password rehash error:', rehashError);
+        }
+    }
+
+    return { status: 'success', account };
+};
+
+/**
+ * Start a session and issue its access and refresh tokens for a fully authenticated user
+ * This is the response body every successful login flow returns. Only now are the
+ * failed login counters cleared, so wrong second-factor codes keep adding up
+ * across password logins
+ * @param method - How the user authenticated, recorded in the audit log
+ */
+export const issueLoginTokens = async (
+    account: LoginAccount,
+    context: SessionContext,
+    method: string = 'password'
+) => {
+    const pool = getPool();
+
+    await recordSuccessfulLogin(account.account_id, account.email, context.ipAddress ?? 'unknown');
+    const sessionId = await createSession(pool, account.account_id, context);
+
+    const accessToken = generateAccessToken({
+        id: account.account_id,
+        email: account.email,
+        role: account.account_role,
+        sessionId,
+        authTime: new Date()
+    });
+    const refreshToken = await issueRefreshToken(pool, account.account_id, sessionId);
+
+    await recordAuditEvent({
+        action: AUDIT_ACTIONS.AUTH_LOGIN,
+        actorId: account.account_id,
+        targetId: account.account_id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        metadata: { method, sessionId },
+    });
+
+    return {
+        accessToken,
+        refreshToken: refreshToken.token,
+        user: {
+            id: account.account_id,
+            email: account.email,
+            name: account.firstname,
+            lastname: account.lastname,
+            username: account.username,
+            role: RoleName[account.account_role] || 'User',
+            emailVerified: account.email_verified,
+            phoneVerified: account.phone_verified,
+            accountStatus: account.account_status,
+        },
+    };
+};
+
+/**
+ * Finish a login once the first factor has been verified
+ * Users with two-factor authentication enabled get a short-lived challenge token
+ * to exchange at POST /auth/login/mfa; everyone else gets their tokens right away
+ * @param method - How the first factor was verified, recorded in the audit log
+ */
+export const completeLogin = async (
+    account: LoginAccount,
+    request: Request,
+    response: Response,
+    successMessage: string = 'Login successful',
+    method: string = 'password'
+): Promise<void> => {
+    if (await isMfaEnabled(account.account_id)) {
+        sendSuccess(response, {
+            mfaRequired: true,
+            mfaToken: generateMfaChallengeToken(account.account_id, method),
+            expiresIn: '5 minutes',
+        }, 'Two-factor authentication required');
+        return;
+    }
+
+    sendSuccess(response, await issueLoginTokens(account, getSessionContext(request), method), successMessage);
+};
+
+/**
+ * Email the self-service unlock link after an account is locked
+ * Failure to send is logged but does not change the login response
+ */
+export const notifyAccountLocked = async (
+    account: { account_id: number; email: string; firstname: string },
+    lockedUntil: Date
+): Promise<void> => {
+    const unlockToken = generateAccountUnlockToken(account.account_id, lockedUntil);
+    const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+    const unlockUrl = `${baseUrl}/auth/unlock?token=${unlockToken}`;
+
+    const emailSent = await sendAccountLockedEmail(account.email, account.firstname, unlockUrl, lockedUntil);
+    if (!emailSent) {
+        console.error(`Failed to send account locked email to account ${account.account_id}`);
+    }
+};
@@ -0,0 +1,65 @@
+import { getPool } from './database';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { MAGIC_LINK_EXPIRY_MINUTES } from '@models';
+
+/**
+ * Passwordless login over email
+ *
+ * A user asks for a login link, and we email a random single-use token that
+ * expires after MAGIC_LINK_EXPIRY_MINUTES. Only its SHA256 hash is stored;
+ * redeeming it marks it used in the same statement, so a link works once even
+ * when it is opened twice at the same moment.
+ */
+
+/**
+ * Minimum time between two links for the same account, so the endpoint cannot
+ * be used to flood someone's inbox
+ */
+const MAGIC_LINK_RESEND_SECONDS = 60;
+
+/**
+ * Issue a login link token for an account
+ * Earlier unused links for the account stop working, so only the newest email is valid
+ * @returns The raw token, or null if a link was already sent within the last minute
+ */
+export const createMagicLinkToken = async (accountId: number): Promise<string | null> => {
+    const pool = getPool();
+
+    const recent = await pool.query(
+        `SELECT 1 FROM Magic_Link_Token
+         WHERE Account_ID = $1 AND Created_At > NOW() - make_interval(secs => $2)`,
+        [accountId, MAGIC_LINK_RESEND_SECONDS]
+    );
+    if (recent.rowCount > 0) {
+        return null;
+    }
+
+    await pool.query(
+        'DELETE FROM Magic_Link_Token WHERE Account_ID = $1 AND Used_At IS NULL',
+        [accountId]
+    );
+
+    const token = generateSecureToken();
+    await pool.query(
+        `INSERT INTO Magic_Link_Token (Token_Hash, Account_ID, Expires_At)
+         VALUES ($1, $2, NOW() + make_interval(mins => $3))`,
+        [generateTokenHash(token), accountId, MAGIC_LINK_EXPIRY_MINUTES]
+    );
+
+    return token;
+};
+
+/**
+ * Redeem a login link token
+ * @returns The account it was issued for, or null if it is unknown, expired or already used
+ */
+export const consumeMagicLinkToken = async (token: string): Promise<number | null> => {
+    const result = await getPool().query(
+        `UPDATE Magic_Link_Token SET Used_At = NOW()
+         WHERE Token_Hash = $1 AND Used_At IS NULL AND Expires_At > NOW()
+         RETURNING Account_ID`,
+        [generateTokenHash(token)]
+    );
+
+    return result.rowCount > 0 ? result.rows[0].account_id : null;
+};
@@ -0,0 +1,132 @@
+import { PoolClient } from 'pg';
+import { getPool } from './database';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { verifyTotp } from './totpUtils';
+
+export const MFA_RECOVERY_CODE_COUNT = 10;
+
+export interface MfaSettings {
+    totp_secret: string;
+    enabled: boolean;
+    last_used_step: string | null;
+}
+
+/**
+ * Get a user's TOTP enrollment, or null if they never started one
+ */
+export const getMfaSettings = async (accountId: number): Promise<MfaSettings | null> => {
+    const result = await getPool().query(
+        'SELECT Totp_Secret, Enabled, Last_Used_Step FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Check whether a user must complete a second factor at login
+ */
+export const isMfaEnabled = async (accountId: number): Promise<boolean> => {
+    const settings = await getMfaSettings(accountId);
+    return settings?.enabled === true;
+};
+
+/**
+ * Generate a fresh set of one-time recovery codes (format: xxxxx-xxxxx)
+ */
+export const generateRecoveryCodes = (count: number = MFA_RECOVERY_CODE_COUNT): string[] => {
+    return Array.from({ length: count }, () => {
+        const token = generateSecureToken(5);
+        return `${token.slice(0, 5)}-${token.slice(5)}`;
+    });
+};
+
+/**
+ * Normalize user-entered recovery codes (case, dashes and spaces don't matter)
+ */
+const normalizeRecoveryCode = (code: string): string => {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+};
+
+/**
+ * Replace a user's recovery codes with new ones
+ * Only the SHA-256 hash of each code is stored (like other one-time tokens), so
+ * a code is found with one indexed lookup; only the user sees them in plain text
+ */
+export const replaceRecoveryCodes = async (
+    client: PoolClient,
+    accountId: number,
+    codes: string[]
+): Promise<void> => {
+    await client.query('DELETE FROM MFA_Recovery_Code WHERE Account_ID = $1', [accountId]);
+
+    for (const code of codes) {
+        await client.query(
+            'INSERT INTO MFA_Recovery_Code (Account_ID, Code_Hash) VALUES ($1, $2)',
+            [accountId, generateTokenHash(normalizeRecoveryCode(code))]
+        );
+    }
+};
+
+/**
+ * Verify a TOTP code and mark its time step as used
+ * A code is rejected if its step (or a later one) was already used - prevents replay
+ */
+const consumeTotpCode = async (accountId: number, secret: string, code: string): Promise<boolean> => {
+    const step = verifyTotp(secret, code);
+    if (step === null) return false;
+
+    const result = await getPool().query(
+        `UPDATE Account_MFA SET Last_Used_Step = $1
+         WHERE Account_ID = $2 AND (Last_Used_Step IS NULL OR Last_Used_Step < $1)
+         RETURNING Account_ID`,
+        [step, accountId]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * Verify a recovery code and mark it as used
+ */
+const consumeRecoveryCode = async (accountId: number, code: string): Promise<boolean> => {
+    const result = await getPool().query(
+        `UPDATE MFA_Recovery_Code SET Used_At = NOW()
+         WHERE Account_ID = $1 AND Code_Hash = $2 AND Used_At IS NULL
+         RETURNING Code_ID`,
+        [accountId, generateTokenHash(normalizeRecoveryCode(code))]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * Verify a second-factor code for a user with TOTP enabled
+ * Accepts either a 6-digit authenticator code or a one-time recovery code
+ * @returns Which kind of code matched, or null if neither did
+ */
+export const verifyMfaCode = async (
+    accountId: number,
+    code: string
+): Promise<'totp' | 'recovery' | null> => {
+    const settings = await getMfaSettings(accountId);
+    if (!settings?.enabled) return null;
+
+    if (/^\d{6}$/.test(code)) {
+        return (await consumeTotpCode(accountId, settings.totp_secret, code)) ? 'totp' : null;
+    }
+
+    return (await consumeRecoveryCode(accountId, code)) ? 'recovery' : null;
+};
+
+/**
+ * Count a user's unused recovery codes
+ */
+export const countRemainingRecoveryCodes = async (accountId: number): Promise<number> => {
+    const result = await getPool().query(
+        'SELECT COUNT(*) AS count FROM MFA_Recovery_Code WHERE Account_ID = $1 AND Used_At IS NULL',
+        [accountId]
+    );
+
+    return parseInt(result.rows[0].count);
+};
@@ -0,0 +1,443 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response } from 'express';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { getPool } from './database';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { issueRefreshToken, revokeRefreshTokenFamily, IssuedRefreshToken } from './refreshTokenUtils';
+import { createSession, SessionContext } from './sessionUtils';
+import { withTransaction } from './transactionUtils';
+
+/**
+ * OAuth 2.0 authorization server (RFC 6749)
+ *
+ * Third-party apps registered as OAuth clients send users to GET /oauth/authorize,
+ * where they sign in with their normal credentials and approve the requested
+ * scopes. The app receives a single-use authorization code and exchanges it at
+ * POST /oauth/token for an access token and refresh token.
+ *
+ * Every authorization must use PKCE (RFC 7636) with the S256 method, so a code
+ * intercepted on its way back to the app is useless without the verifier.
+ * Public clients (no secret) rely on PKCE alone; confidential clients must also
+ * authenticate with their secret.
+ *
+ * A grant creates an ordinary Account_Session tied to the client, so users see
+ * and revoke connected apps alongside their other sessions.
+ */
+
+/**
+ * Lifetime of an authorization code - long enough for a redirect round trip only
+ */
+export const OAUTH_CODE_EXPIRY_SECONDS = 600;
+
+export interface OAuthClient {
+    clientId: string;
+    name: string;
+    redirectUris: string[];
+    scopes: string[];
+    confidential: boolean;
+    createdBy: number | null;
+    createdAt: Date;
+}
+
+export interface NewOAuthClient {
+    name: string;
+    redirectUris: string[];
+    scopes: string[];
+    confidential: boolean;
+    createdBy: number;
+}
+
+export interface AuthorizationRequest {
+    clientId: string;
+    accountId: number;
+    redirectUri: string;
+    scope: string;
+    codeChallenge: string;
+    nonce?: string;
+}
+
+/**
+ * Outcome of exchanging an authorization code
+ * - issued: code was valid; a session and refresh token were created
+ * - invalid: unknown, expired, or issued for another client, redirect URI or verifier
+ * - reused: code was already redeemed; the session it created is now revoked (RFC 6749 §4.1.2)
+ */
+export type AuthorizationCodeExchange =
+    | {
+        status: 'issued';
+        accountId: number;
+        scope: string;
+        sessionId: string;
+        refreshToken: IssuedRefreshToken;
+        nonce: string | null;
+        authenticatedAt: Date;
+    }
+    | { status: 'invalid' }
+    | { status: 'reused'; accountId: number };
+
+const toOAuthClient = (row: QueryResultRow): OAuthClient => ({
+    clientId: row.client_id,
+    name: row.name,
+    redirectUris: row.redirect_uris,
+    scopes: row.scopes,
+    confidential: row.client_secret_hash !== null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+});
+
+/**
+ * Register a new OAuth client
+ * The secret (confidential clients only) is returned once and only its hash is stored
+ */
+export const createOAuthClient = async (
+    queryable: Pool | PoolClient,
+    details: NewOAuthClient
+): Promise<{ client: OAuthClient; clientSecret: string | null }> => {
+    const clientId = generateSecureToken(16);
+    const clientSecret = details.confidential ? generateSecureToken() : null;
+
+    const result = await queryable.query(
+        `INSERT INTO OAuth_Client (Client_ID, Client_Secret_Hash, Name, Redirect_URIs, Scopes, Created_By)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+            clientId,
+            clientSecret ? generateTokenHash(clientSecret) : null,
+            details.name,
+            details.redirectUris,
+            details.scopes,
+            details.createdBy,
+        ]
+    );
+
+    return { client: toOAuthClient(result.rows[0]), clientSecret };
+};
+
+/**
+ * Find an active (not revoked) client
+ */
+export const findOAuthClient = async (clientId: string): Promise<OAuthClient | null> => {
+    const result = await getPool().query(
+        'SELECT * FROM OAuth_Client WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [clientId]
+    );
+
+    return result.rowCount > 0 ? toOAuthClient(result.rows[0]) : null;
+};
+
+/**
+ * List active clients, newest first
+ */
+export const listOAuthClients = async (): Promise<OAuthClient[]> => {
+    const result = await getPool().query(
+        'SELECT * FROM OAuth_Client WHERE Revoked_At IS NULL ORDER BY Created_At DESC'
+    );
+
+    return result.rows.map(toOAuthClient);
+};
+
+/**
+ * Revoke a client and every session (and so every token) granted to it
+ * @returns false if the client was not found or already revoked
+ */
+export const revokeOAuthClient = async (
+    queryable: Pool | PoolClient,
+    clientId: string
+): Promise<boolean> => {
+    const result = await queryable.query(
+        'UPDATE OAuth_Client SET Revoked_At = NOW() WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [clientId]
+    );
+
+    if (result.rowCount === 0) {
+        return false;
+    }
+
+    const sessions = await queryable.query(
+        'SELECT Session_ID FROM Account_Session WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [clientId]
+    );
+    for (const session of sessions.rows) {
+        await revokeRefreshTokenFamily(queryable, session.session_id);
+    }
+
+    return true;
+};
+
+/**
+ * Client credentials presented with a token, introspection or revocation request
+ */
+export interface ClientCredentials {
+    clientId?: string;
+    clientSecret?: string;
+}
+
+/**
+ * Read client credentials from HTTP Basic auth or client_id / client_secret form fields
+ * @returns The credentials, or null if the Authorization header is malformed
+ */
+export const readClientCredentials = (request: Request): ClientCredentials | null => {
+    const authorization = request.headers['authorization'];
+    if (!authorization?.startsWith('Basic ')) {
+        return { clientId: request.body?.client_id, clientSecret: request.body?.client_secret };
+    }
+
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+
+    // RFC 6749 §2.3.1: both parts are form-urlencoded
+    try {
+        return {
+            clientId: decodeURIComponent(decoded.slice(0, separator)),
+            clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Compare a presented client secret with a stored hash in constant time
+ */
+export const clientSecretMatches = (secret: unknown, storedHash: string): boolean => {
+    if (typeof secret !== 'string' || !secret) {
+        return false;
+    }
+
+    const presented = Buffer.from(generateTokenHash(secret));
+    const stored = Buffer.from(storedHash);
+    return presented.length === stored.length && timingSafeEqual(presented, stored);
+};
+
+/**
+ * Authenticate the client making a token, introspection or revocation request
+ * Public clients only identify themselves; confidential clients must present their secret.
+ * @returns The client, or null if authentication failed
+ */
+export const authenticateOAuthClient = async (request: Request): Promise<OAuthClient | null> => {
+    const credentials = readClientCredentials(request);
+
+    if (!credentials || typeof credentials.clientId !== 'string' || !credentials.clientId) {
+        return null;
+    }
+
+    const result = await getPool().query(
+        'SELECT * FROM OAuth_Client WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [credentials.clientId]
+    );
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    if (row.client_secret_hash === null) {
+        return toOAuthClient(row);
+    }
+
+    return clientSecretMatches(credentials.clientSecret, row.client_secret_hash) ? toOAuthClient(row) : null;
+};
+
+/**
+ * Resolve the scopes for an authorization request
+ * An empty request means every scope the client is registered for
+ * @returns The granted scopes, or null if any requested scope is not allowed for the client
+ */
+export const resolveScopes = (requested: string | undefined, allowed: string[]): string[] | null => {
+    const scopes = (requested ?? '').split(' ').filter(Boolean);
+
+    if (scopes.length === 0) {
+        return [...allowed];
+    }
+
+    return scopes.every((scope) => allowed.includes(scope)) ? [...new Set(scopes)] : null;
+};
+
+/**
+ * Check a PKCE code challenge is a well-formed S256 challenge (base64url SHA-256)
+ */
+export const isValidCodeChallenge = (challenge: string): boolean => {
+    return /^[A-Za-z0-9_-]{43}$/.test(challenge);
+};
+
+/**
+ * Check a PKCE code verifier against the S256 challenge sent when authorizing (RFC 7636 §4.6)
+ */
+export const verifyPkce = (verifier: string, challenge: string): boolean => {
+    if (!/^[A-Za-z0-9._~-]{43,128}$/.test(verifier)) {
+        return false;
+    }
+
+    const computed = Buffer.from(createHash('sha256').update(verifier).digest('base64url'));
+    const expected = Buffer.from(challenge);
+    return computed.length === expected.length && timingSafeEqual(computed, expected);
+};
+
+/**
+ * Issue a single-use authorization code for an approved request
+ * Only the hash is stored
+ */
+export const createAuthorizationCode = async (authorization: AuthorizationRequest): Promise<string> => {
+    const code = generateSecureToken();
+
+    await getPool().query(
+        `INSERT INTO OAuth_Authorization_Code
+            (Code_Hash, Client_ID, Account_ID, Redirect_URI, Scope, Code_Challenge, Nonce, Expires_At)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW() + make_interval(secs => $8))`,
+        [
+            generateTokenHash(code),
+            authorization.clientId,
+            authorization.accountId,
+            authorization.redirectUri,
+            authorization.scope,
+            authorization.codeChallenge,
+            authorization.nonce ?? null,
+            OAUTH_CODE_EXPIRY_SECONDS,
+        ]
+    );
+
+    // Opportunistic cleanup - expired codes can never be redeemed
+    await getPool().query(
+        "DELETE FROM OAuth_Authorization_Code WHERE Expires_At < NOW() - INTERVAL '1 day'"
+    );
+
+    return code;
+};
+
+/**
+ * Redeem an authorization code for a new session and its first refresh token
+ * The code must be presented by the client it was issued to, with the same
+ * redirect URI and the PKCE verifier matching its challenge
+ */
+export const exchangeAuthorizationCode = async (
+    code: string,
+    clientId: string,
+    redirectUri: string,
+    codeVerifier: string,
+    context: SessionContext
+): Promise<AuthorizationCodeExchange> => {
+    const result = await withTransaction(async (client): Promise<AuthorizationCodeExchange> => {
+        // Lock the row so a code cannot be redeemed twice concurrently
+        const codeResult = await client.query(
+            `SELECT Code_Hash, Client_ID, Account_ID, Redirect_URI, Scope, Code_Challenge, Nonce,
+                    Expires_At, Used_At, Session_ID, Created_At
+             FROM OAuth_Authorization_Code
+             WHERE Code_Hash = $1
+             FOR UPDATE`,
+            [generateTokenHash(code)]
+        );
+
+        if (codeResult.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const stored = codeResult.rows[0];
+
+        if (stored.used_at) {
+            if (stored.session_id) {
+                await revokeRefreshTokenFamily(client, stored.session_id);
+            }
+            return { status: 'reused', accountId: stored.account_id };
+        }
+
+        if (
+            stored.client_id !== clientId ||
+            stored.redirect_uri !== redirectUri ||
+            new Date(stored.expires_at) <= new Date() ||
+            !verifyPkce(codeVerifier, stored.code_challenge)
+        ) {
+            return { status: 'invalid' };
+        }
+
+        // The user signed in when the code was issued
+        const sessionId = await createSession(client, stored.account_id, context, {
+            clientId,
+            scope: stored.scope,
+            authenticatedAt: stored.created_at,
+        });
+        const refreshToken = await issueRefreshToken(client, stored.account_id, sessionId);
+
+        await client.query(
+            'UPDATE OAuth_Authorization_Code SET Used_At = NOW(), Session_ID = $1 WHERE Code_Hash = $2',
+            [sessionId, stored.code_hash]
+        );
+
+        return {
+            status: 'issued',
+            accountId: stored.account_id,
+            scope: stored.scope,
+            sessionId,
+            refreshToken: { token: refreshToken.token, familyId: sessionId, expiresAt: refreshToken.expiresAt },
+            nonce: stored.nonce,
+            authenticatedAt: stored.created_at,
+        };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
+
+/**
+ * Look up an OAuth refresh token for introspection
+ * Only tokens issued to the given client are reported
+ */
+export const findClientRefreshToken = async (
+    token: string,
+    clientId: string
+): Promise<{ accountId: number; sessionId: string; scope: string; active: boolean; expiresAt: Date; createdAt: Date } | null> => {
+    const result = await getPool().query(
+        `SELECT rt.Account_ID, rt.Family_ID, rt.Expires_At, rt.Created_At, rt.Revoked_At, s.Scope
+         FROM Refresh_Token rt
+         JOIN Account_Session s ON s.Session_ID = rt.Family_ID
+         WHERE rt.Token_Hash = $1 AND s.Client_ID = $2`,
+        [generateTokenHash(token), clientId]
+    );
+
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    return {
+        accountId: row.account_id,
+        sessionId: row.family_id,
+        scope: row.scope,
+        active: !row.revoked_at && new Date(row.expires_at) > new Date(),
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+    };
+};
+
+/**
+ * Send an error for a request made with an OAuth access token (RFC 6750 §3)
+ * The error is reported in the WWW-Authenticate header as well as the body
+ */
+export const sendBearerTokenError = (
+    response: Response,
+    status: number,
+    error: 'invalid_request' | 'invalid_token' | 'insufficient_scope',
+    description: string
+): void => {
+    response.set('WWW-Authenticate', `Bearer error="${error}", error_description="${description}"`);
+    sendOAuthError(response, status, error, description);
+};
+
+/**
+ * Send an OAuth error response (RFC 6749 §5.2)
+ * Token endpoint responses use this format rather than the API's standard envelope
+ */
+export const sendOAuthError = (
+    response: Response,
+    status: number,
+    error: string,
+    description?: string
+): void => {
+    response.set('Cache-Control', 'no-store');
+    response.status(status).json({
+        error,
+        ...(description && { error_description: description }),
+    });
+};
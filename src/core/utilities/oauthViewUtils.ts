@@ -0,0 +1,128 @@
+/**
+ * OAuth authorization pages
+ *
+ * Server-rendered HTML for GET/POST /oauth/authorize: a combined sign-in and
+ * consent form, and an error page for requests that cannot be redirected back
+ * to the client. Every value is escaped - client names, scopes and state all
+ * come from the query string or from client registration.
+ */
+
+import { OAUTH_SCOPES } from '@models';
+
+export interface AuthorizePageOptions {
+    clientName: string;
+    scopes: string[];
+    /** Authorization request parameters, echoed back as hidden fields */
+    params: Record<string, string | undefined>;
+    email?: string;
+    error?: string;
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+};
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+            background-color: #f6f8fa;
+            color: #24292f;
+            margin: 0;
+            padding: 40px 20px;
+        }
+        main {
+            max-width: 400px;
+            margin: 0 auto;
+            background-color: #ffffff;
+            border: 1px solid #d0d7de;
+            border-radius: 6px;
+            padding: 24px;
+        }
+        h1 { font-size: 1.25em; margin-top: 0; }
+        label { display: block; font-weight: 600; margin: 16px 0 4px; }
+        input[type=email], input[type=password], input[type=text] {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 8px;
+            border: 1px solid #d0d7de;
+            border-radius: 6px;
+        }
+        ul { padding-left: 1.5em; }
+        .error {
+            background-color: #ffebe9;
+            border: 1px solid #ff8182;
+            border-radius: 6px;
+            padding: 8px 12px;
+        }
+        .actions { display: flex; gap: 8px; margin-top: 24px; }
+        button { flex: 1; padding: 8px; border-radius: 6px; border: 1px solid #d0d7de; cursor: pointer; }
+        button[value=allow] { background-color: #1f883d; color: #ffffff; border-color: #1f883d; }
+        .hint { color: #656d76; font-size: 0.85em; }
+    </style>
+</head>
+<body>
+    <main>
+${body}
+    </main>
+</body>
+</html>`;
+
+/**
+ * Render the sign-in and consent form for an authorization request
+ */
+export const renderAuthorizePage = (options: AuthorizePageOptions): string => {
+    const hiddenFields = Object.entries(options.params)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) =>
+            `            <input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value as string)}">`)
+        .join('\n');
+
+    const scopeItems = options.scopes
+        .map((scope) => `            <li>${escapeHtml(OAUTH_SCOPES[scope] ?? scope)}</li>`)
+        .join('\n');
+
+    return renderPage(`Authorize ${options.clientName}`, `        <h1><strong>${escapeHtml(options.clientName)}</strong> wants to access your account</h1>
+        ${options.error ? `<p class="error">${escapeHtml(options.error)}</p>` : ''}
+        <p>It will be able to see:</p>
+        <ul>
+${scopeItems}
+        </ul>
+        <form method="post" action="/oauth/authorize">
+${hiddenFields}
+            <label for="email">Email</label>
+            <input type="email" id="email" name="email" value="${escapeHtml(options.email ?? '')}" autocomplete="username" required>
+            <label for="password">Password</label>
+            <input type="password" id="password" name="password" autocomplete="current-password" required>
+            <label for="mfa_code">Two-factor code</label>
+            <input type="text" id="mfa_code" name="mfa_code" autocomplete="one-time-code">
+            <p class="hint">Only needed if two-factor authentication is enabled.</p>
+            <div class="actions">
+                <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+                <button type="submit" name="decision" value="allow">Sign in and allow</button>
+            </div>
+        </form>`);
+};
+
+/**
+ * Render an error for a request that cannot safely be sent back to the client
+ * (unknown client or unregistered redirect URI)
+ */
+export const renderAuthorizeErrorPage = (message: string): string => {
+    return renderPage('Authorization error', `        <h1>Authorization error</h1>
+        <p class="error">${escapeHtml(message)}</p>
+        <p>Return to the application and try again.</p>`);
+};
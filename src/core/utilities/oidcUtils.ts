@@ -0,0 +1,102 @@
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { getKeyStore } from './signingKeys';
+import { IUser, OAUTH_SCOPES } from '@models';
+
+/**
+ * OpenID Connect (OIDC Core 1.0) on top of the OAuth authorization server
+ *
+ * Clients that request the openid scope receive an ID token next to their
+ * access token, and can fetch the same claims from GET /userinfo. Everything a
+ * client library needs (endpoints, keys, supported features) is published at
+ * GET /.well-known/openid-configuration, so no custom integration code is needed.
+ */
+
+export type OidcUser = Pick<IUser,
+    'account_id' | 'firstname' | 'lastname' | 'username' | 'email' | 'email_verified' | 'phone' | 'phone_verified'>;
+
+/**
+ * Standard claims released by each scope (OIDC Core §5.4)
+ */
+export const OIDC_SCOPE_CLAIMS: Record<string, string[]> = {
+    profile: ['name', 'given_name', 'family_name', 'preferred_username'],
+    email: ['email', 'email_verified'],
+    phone: ['phone_number', 'phone_number_verified'],
+};
+
+/**
+ * The issuer identifier (iss claim) - the public base URL of this service
+ */
+export const getOidcIssuer = (): string => {
+    const issuer = getEnvVar('OIDC_ISSUER', getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`));
+    return issuer.replace(/\/+$/, '');
+};
+
+/**
+ * Load the account fields that standard claims are built from
+ */
+export const findOidcUser = async (accountId: number): Promise<OidcUser | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Email_Verified, Phone, Phone_Verified
+         FROM Account
+         WHERE Account_ID = $1`,
+        [accountId]
+    );
+
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Map an account to the standard claims released by the granted scopes
+ * The sub claim is always included
+ */
+export const buildUserClaims = (user: OidcUser, scopes: string[]): Record<string, unknown> => {
+    const claims: Record<string, unknown> = { sub: String(user.account_id) };
+
+    if (scopes.includes('profile')) {
+        claims.name = `${user.firstname} ${user.lastname}`.trim();
+        claims.given_name = user.firstname;
+        claims.family_name = user.lastname;
+        claims.preferred_username = user.username;
+    }
+    if (scopes.includes('email')) {
+        claims.email = user.email;
+        claims.email_verified = user.email_verified;
+    }
+    if (scopes.includes('phone') && user.phone) {
+        claims.phone_number = user.phone;
+        claims.phone_number_verified = user.phone_verified;
+    }
+
+    return claims;
+};
+
+/**
+ * Build the OpenID Provider metadata document (OIDC Discovery §3)
+ */
+export const getOpenIdConfiguration = (): Record<string, unknown> => {
+    const issuer = getOidcIssuer();
+    const algorithms = [...new Set([...getKeyStore().keys.values()].map((key) => key.alg))];
+
+    return {
+        issuer,
+        authorization_endpoint: `${issuer}/oauth/authorize`,
+        token_endpoint: `${issuer}/oauth/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        introspection_endpoint: `${issuer}/oauth/introspect`,
+        revocation_endpoint: `${issuer}/oauth/revoke`,
+        scopes_supported: Object.keys(OAUTH_SCOPES),
+        response_types_supported: ['code'],
+        response_modes_supported: ['query'],
+        grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: algorithms,
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        code_challenge_methods_supported: ['S256'],
+        claims_supported: [
+            'sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce',
+            ...Object.values(OIDC_SCOPE_CLAIMS).flat(),
+        ],
+    };
+};
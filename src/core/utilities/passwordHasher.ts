@@ -0,0 +1,220 @@
+import { randomBytes, scrypt, pbkdf2, timingSafeEqual } from 'crypto';
+
+/**
+ * Pluggable password hashing
+ *
+ * Every stored hash is self-describing, in a PHC-style string format:
+ *   $scrypt$ln=15,r=8,p=1$<salt base64>$<hash base64>
+ *   $pbkdf2-sha256$i=600000$<salt base64>$<hash base64>
+ *
+ * Because the algorithm and its cost parameters travel with the hash, we can
+ * change the defaults at any time: old hashes still verify with the parameters
+ * they were created with, and needsRehash() tells us when to upgrade them.
+ *
+ * Hashing is deliberately slow (well over 100 ms), so hash() and verify() run
+ * on libuv's thread pool and return promises rather than blocking the event loop.
+ */
+export interface PasswordHasher {
+    /** Algorithm identifier stored in the encoded hash */
+    readonly id: string;
+    /** Hash a password with a fresh random salt, returning the encoded string */
+    hash(password: string): Promise<string>;
+    /** Verify a password against an encoded hash produced by this algorithm */
+    verify(password: string, encoded: string): Promise<boolean>;
+    /** Whether an encoded hash was produced with weaker or different settings */
+    needsRehash(encoded: string): boolean;
+}
+
+export interface ScryptParams {
+    ln: number;  // log2 of the CPU/memory cost N
+    r: number;   // block size
+    p: number;   // parallelization
+}
+
+export interface Pbkdf2Params {
+    iterations: number;
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { ln: 15, r: 8, p: 1 };
+export const DEFAULT_PBKDF2_PARAMS: Pbkdf2Params = { iterations: 600000 };
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface ParsedHash {
+    id: string;
+    params: Record<string, number>;
+    salt: Buffer;
+    hash: Buffer;
+}
+
+/**
+ * Split an encoded hash into its parts
+ * Returns null if the string is not in the encoded format
+ */
+const parseEncodedHash = (encoded: string): ParsedHash | null => {
+    const parts = encoded.split('$');
+    // ['', id, params, salt, hash]
+    if (parts.length !== 5 || parts[0] !== '') return null;
+
+    const params: Record<string, number> = {};
+    for (const pair of parts[2].split(',')) {
+        const [key, value] = pair.split('=');
+        if (!key || value === undefined || !/^\d+$/.test(value)) return null;
+        params[key] = parseInt(value);
+    }
+
+    return {
+        id: parts[1],
+        params,
+        salt: Buffer.from(parts[3], 'base64'),
+        hash: Buffer.from(parts[4], 'base64'),
+    };
+};
+
+/**
+ * Build an encoded hash string
+ */
+const encodeHash = (id: string, params: Record<string, number>, salt: Buffer, hash: Buffer): string => {
+    const paramString = Object.entries(params).map(([key, value]) => `${key}=${value}`).join(',');
+    return `$${id}$${paramString}$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+/**
+ * Constant-time comparison of a derived key against the stored one
+ */
+const keysMatch = (derived: Buffer, stored: Buffer): boolean => {
+    return derived.length === stored.length && timingSafeEqual(derived, stored);
+};
+
+/**
+ * Derive an scrypt key (memory limit sized to the requested cost)
+ */
+const deriveScrypt = (password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> => {
+    const cost = 2 ** params.ln;
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, keyLength, {
+            N: cost,
+            r: params.r,
+            p: params.p,
+            maxmem: 256 * cost * params.r,
+        }, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+};
+
+/**
+ * Derive a PBKDF2-SHA256 key
+ */
+const derivePbkdf2 = (password: string, salt: Buffer, iterations: number, keyLength: number): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        pbkdf2(password, salt, iterations, keyLength, 'sha256', (error, key) => (error ? reject(error) : resolve(key)));
+    });
+};
+
+/**
+ * scrypt hasher (memory-hard; the default)
+ */
+export const createScryptHasher = (params: ScryptParams = DEFAULT_SCRYPT_PARAMS): PasswordHasher => ({
+    id: 'scrypt',
+
+    async hash(password: string): Promise<string> {
+        const salt = randomBytes(SALT_BYTES);
+        const hash = await deriveScrypt(password, salt, params, KEY_BYTES);
+        return encodeHash('scrypt', { ln: params.ln, r: params.r, p: params.p }, salt, hash);
+    },
+
+    async verify(password: string, encoded: string): Promise<boolean> {
+        const parsed = parseEncodedHash(encoded);
+        if (!parsed || parsed.id !== 'scrypt') return false;
+
+        const { ln, r, p } = parsed.params;
+        if (!ln || !r || !p) return false;
+
+        const derived = await deriveScrypt(password, parsed.salt, { ln, r, p }, parsed.hash.length);
+        return keysMatch(derived, parsed.hash);
+    },
+
+    needsRehash(encoded: string): boolean {
+        const parsed = parseEncodedHash(encoded);
+        if (!parsed || parsed.id !== 'scrypt') return true;
+        return parsed.params.ln !== params.ln || parsed.params.r !== params.r || parsed.params.p !== params.p;
+    },
+});
+
+/**
+ * PBKDF2-SHA256 hasher (for environments that need a FIPS-approved algorithm)
+ */
+export const createPbkdf2Hasher = (params: Pbkdf2Params = DEFAULT_PBKDF2_PARAMS): PasswordHasher => ({
+    id: 'pbkdf2-sha256',
+
+    async hash(password: string): Promise<string> {
+        const salt = randomBytes(SALT_BYTES);
+        const hash = await derivePbkdf2(password, salt, params.iterations, KEY_BYTES);
+        return encodeHash('pbkdf2-sha256', { i: params.iterations }, salt, hash);
+    },
+
+    async verify(password: string, encoded: string): Promise<boolean> {
+        const parsed = parseEncodedHash(encoded);
+        if (!parsed || parsed.id !== 'pbkdf2-sha256' || !parsed.params.i) return false;
+
+        const derived = await derivePbkdf2(password, parsed.salt, parsed.params.i, parsed.hash.length);
+        return keysMatch(derived, parsed.hash);
+    },
+
+    needsRehash(encoded: string): boolean {
+        const parsed = parseEncodedHash(encoded);
+        if (!parsed || parsed.id !== 'pbkdf2-sha256') return true;
+        return parsed.params.i !== params.iterations;
+    },
+});
+
+/**
+ * Hashers able to verify stored hashes, keyed by algorithm identifier
+ */
+const PASSWORD_HASHERS: Record<string, () => PasswordHasher> = {
+    'scrypt': () => createScryptHasher(),
+    'pbkdf2-sha256': () => createPbkdf2Hasher(),
+};
+
+/**
+ * Hashes of a discarded random password, one per algorithm, at the default parameters
+ * Logins with no real hash to check verify against these instead, so they cost as
+ * much as a wrong password (see verifyDummyPassword in credentialingUtils)
+ */
+export const DUMMY_PASSWORD_HASHES: Record<string, string> = {
+    'scrypt': '$scrypt$ln=15,r=8,p=1$AFYJUXPr8Ma0REofqm0pCg==$wN6x3eZF8m9oZ5RQ+ISNbajWDFSpE4bs7MAkWAwh6cQ=',
+    'pbkdf2-sha256': '$pbkdf2-sha256$i=600000$YmerhjpMPzK9ctg0lg46Kg==$mK8y/ZRP6F1uK9NpEgPITjNXmZ9ca5vZhQAYMc2FWcQ=',
+};
+
+/**
+ * Get the hasher used for new passwords
+ * Selected with PASSWORD_HASH_ALGORITHM ('scrypt' or 'pbkdf2-sha256'), default scrypt
+ */
+export const getPasswordHasher = (): PasswordHasher => {
+    const algorithm = process.env.PASSWORD_HASH_ALGORITHM || 'scrypt';
+    const factory = PASSWORD_HASHERS[algorithm];
+
+    if (!factory) {
+        throw new Error(`Unsupported PASSWORD_HASH_ALGORITHM: ${algorithm}`);
+    }
+
+    return factory();
+};
+
+/**
+ * Check whether a stored hash is in the self-describing encoded format
+ * (as opposed to a legacy bare SHA256 hex digest)
+ */
+export const isEncodedPasswordHash = (storedHash: string): boolean => {
+    const parsed = parseEncodedHash(storedHash);
+    return parsed !== null && parsed.id in PASSWORD_HASHERS;
+};
+
+/**
+ * Verify a password against an encoded hash of any supported algorithm
+ */
+export const verifyEncodedPasswordHash = async (password: string, encoded: string): Promise<boolean> => {
+    const parsed = parseEncodedHash(encoded);
+    const factory = parsed && PASSWORD_HASHERS[parsed.id];
+    return factory ? factory().verify(password, encoded) : false;
+};
@@ -0,0 +1,76 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+import { verifyPassword } from './credentialingUtils';
+
+/**
+ * Password history (reuse prevention)
+ *
+ * Every password set for an account is also stored in Password_History, which
+ * keeps the newest historySize hashes. A new password is rejected if it matches
+ * any of them, or the current credential - accounts whose password was set
+ * before history was kept only have the latter.
+ */
+
+/**
+ * Check whether a password is one of the account's last `historySize` passwords
+ */
+export const isPasswordReused = async (
+    accountId: number,
+    password: string,
+    historySize: number
+): Promise<boolean> => {
+    if (historySize <= 0) {
+        return false;
+    }
+
+    const pool = getPool();
+
+    const current = await pool.query(
+        'SELECT Salted_Hash, Salt FROM Account_Credential WHERE Account_ID = $1',
+        [accountId]
+    );
+    const history = await pool.query(
+        `SELECT Salted_Hash FROM Password_History
+         WHERE Account_ID = $1
+         ORDER BY Created_At DESC, History_ID DESC
+         LIMIT $2`,
+        [accountId, historySize]
+    );
+
+    for (const row of [...current.rows, ...history.rows]) {
+        if (await verifyPassword(password, row.salt ?? null, row.salted_hash)) {
+            return true;
+        }
+    }
+
+    return false;
+};
+
+/**
+ * Remember a newly set password hash and drop entries beyond the newest `historySize`
+ * Call it in the same transaction that stores the credential
+ */
+export const recordPasswordHistory = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    saltedHash: string,
+    historySize: number
+): Promise<void> => {
+    if (historySize > 0) {
+        await queryable.query(
+            'INSERT INTO Password_History (Account_ID, Salted_Hash) VALUES ($1, $2)',
+            [accountId, saltedHash]
+        );
+    }
+
+    await queryable.query(
+        `DELETE FROM Password_History
+         WHERE Account_ID = $1 AND History_ID NOT IN (
+             SELECT History_ID FROM Password_History
+             WHERE Account_ID = $1
+             ORDER BY Created_At DESC, History_ID DESC
+             LIMIT $2
+         )`,
+        [accountId, Math.max(historySize, 0)]
+    );
+};
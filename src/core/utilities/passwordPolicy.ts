@@ -0,0 +1,302 @@
+import { Response } from 'express';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { ErrorCodes } from './errorCodes';
+import { sendValidationError } from './responseUtils';
+import { isPasswordReused } from './passwordHistoryUtils';
+import { isBreachedPassword } from './breachedPasswordUtils';
+import {
+    estimateCrackTimeSeconds,
+    estimatePasswordEntropy,
+    formatCrackTime,
+    PasswordWeakness,
+    scorePasswordEntropy
+} from './passwordStrength';
+
+/**
+ * Password policy
+ *
+ * One set of rules for every place a password is chosen: registration, reset,
+ * change, and the admin create and reset endpoints. The request validators only
+ * check that a password was sent; the controllers call validatePasswordPolicy(),
+ * which reports each broken rule with its own VALD error code. Passwords found
+ * in the offline breached-password filter are rejected too (see
+ * breachedPasswordUtils), as are those scoring below minStrengthScore on the
+ * strength estimate (see passwordStrength). evaluatePasswordStrength() runs the
+ * same checks for POST /auth/password/strength, so a strength meter built on it
+ * agrees with what the server will accept.
+ */
+
+export interface PasswordPolicy {
+    minLength: number;              // Characters (Unicode code points)
+    maxLength: number;
+    minCharacterClasses: number;    // Of lowercase, uppercase, digits and symbols
+    maxRepeatedCharacters: number;  // Longest run of one character, e.g. 3 allows "aaa" but not "aaaa"
+    historySize: number;            // Previous passwords that cannot be reused (0 disables the check)
+    rejectBreached: boolean;        // Reject passwords found in the breached-password filter
+    minStrengthScore: number;       // Lowest acceptable strength score, 0-4 (0 disables the check)
+}
+
+/**
+ * Personal details a password must not contain
+ */
+export interface PasswordPersonalInfo {
+    firstname?: string;
+    lastname?: string;
+    username?: string;
+    email?: string;
+}
+
+/**
+ * Whose password is being set
+ * For an existing account, pass accountId: its personal details are loaded
+ * when not given, and its password history is checked
+ */
+export interface PasswordOwner extends PasswordPersonalInfo {
+    accountId?: number;
+}
+
+export interface PasswordPolicyViolation {
+    errorCode: string;
+    message: string;
+}
+
+/**
+ * Strength estimate for a strength meter
+ * acceptable is true exactly when the policy would accept the password (apart
+ * from password history, which needs the account)
+ */
+export interface PasswordStrength {
+    score: number;                  // 0-4, below policy.minStrengthScore whenever the password is rejected
+    acceptable: boolean;
+    entropyBits: number;
+    crackTime: {
+        seconds: number;
+        display: string;
+    };
+    feedback: {
+        warning: string | null;
+        suggestions: string[];
+    };
+    violations: PasswordPolicyViolation[];
+}
+
+/**
+ * Personal details shorter than this are too common to ban (e.g. a first name "Al")
+ */
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+/**
+ * Advice for each predictable pattern the strength estimate finds
+ */
+const WEAKNESS_FEEDBACK: Record<PasswordWeakness, string> = {
+    'personal-info': 'Avoid your name, username and email address',
+    year: 'Avoid dates and years, especially ones associated with you',
+    sequence: 'Avoid sequences like "abc", "123" or "qwerty"',
+    repeat: 'Avoid repeated characters like "aaa"',
+};
+
+/**
+ * Read the policy from the environment
+ */
+export const getPasswordPolicy = (): PasswordPolicy => ({
+    minLength: parseInt(getEnvVar('PASSWORD_MIN_LENGTH', '8')),
+    maxLength: parseInt(getEnvVar('PASSWORD_MAX_LENGTH', '128')),
+    minCharacterClasses: parseInt(getEnvVar('PASSWORD_MIN_CHARACTER_CLASSES', '3')),
+    maxRepeatedCharacters: parseInt(getEnvVar('PASSWORD_MAX_REPEATED_CHARACTERS', '3')),
+    historySize: parseInt(getEnvVar('PASSWORD_HISTORY_SIZE', '5')),
+    rejectBreached: getEnvVar('PASSWORD_REJECT_BREACHED', 'true') === 'true',
+    minStrengthScore: parseInt(getEnvVar('PASSWORD_MIN_STRENGTH_SCORE', '2')),
+});
+
+/**
+ * Count the character classes (lowercase, uppercase, digits, symbols) used in a password
+ */
+export const countCharacterClasses = (password: string): number =>
+    [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+
+/**
+ * Length of the longest run of one repeated character
+ */
+export const longestRepeatedRun = (password: string): number => {
+    const characters = [...password];
+    let longest = 0;
+    let run = 0;
+
+    characters.forEach((character, index) => {
+        run = index > 0 && character === characters[index - 1] ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+
+    return longest;
+};
+
+/**
+ * Lowercased personal details to look for in a password
+ * The email contributes the whole address, its local part and the words in it
+ */
+export const getPersonalTokens = (info: PasswordPersonalInfo): string[] => {
+    const tokens: string[] = [info.firstname, info.lastname, info.username];
+
+    if (info.email) {
+        const localPart = info.email.split('@')[0];
+        tokens.push(info.email, localPart, ...localPart.split(/[^a-zA-Z0-9]+/));
+    }
+
+    return [...new Set(
+        tokens
+            .filter((token): token is string => typeof token === 'string')
+            .map((token) => token.trim().toLowerCase())
+            .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH)
+    )];
+};
+
+/**
+ * Check a password against every rule that needs no database
+ * @returns The broken rules, in a stable order; empty if the password is acceptable
+ */
+export const checkPasswordPolicy = (
+    password: string,
+    personalInfo: PasswordPersonalInfo = {},
+    policy: PasswordPolicy = getPasswordPolicy()
+): PasswordPolicyViolation[] => {
+    const violations: PasswordPolicyViolation[] = [];
+    const length = [...password].length;
+
+    if (length < policy.minLength) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_TOO_SHORT,
+            message: `Password must be at least ${policy.minLength} characters`,
+        });
+    }
+    if (length > policy.maxLength) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_TOO_LONG,
+            message: `Password must be at most ${policy.maxLength} characters`,
+        });
+    }
+    if (countCharacterClasses(password) < policy.minCharacterClasses) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_CHARACTER_CLASSES,
+            message: `Password must use at least ${policy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols`,
+        });
+    }
+    if (longestRepeatedRun(password) > policy.maxRepeatedCharacters) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_REPEATED_CHARACTERS,
+            message: `Password must not repeat the same character more than ${policy.maxRepeatedCharacters} times in a row`,
+        });
+    }
+
+    const personalTokens = getPersonalTokens(personalInfo);
+    const lowered = password.toLowerCase();
+    if (personalTokens.some((token) => lowered.includes(token))) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_PERSONAL_INFO,
+            message: 'Password must not contain your name, username or email address',
+        });
+    }
+
+    if (policy.rejectBreached && isBreachedPassword(password)) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_BREACHED,
+            message: 'Password appears in a known data breach; choose a different one',
+        });
+    }
+
+    // The catch-all for passwords that pass every specific rule but are still predictable
+    if (violations.length === 0
+        && scorePasswordEntropy(estimatePasswordEntropy(password, personalTokens).entropyBits) < policy.minStrengthScore) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_TOO_GUESSABLE,
+            message: 'Password is too easy to guess; add another word or avoid common patterns',
+        });
+    }
+
+    return violations;
+};
+
+/**
+ * Estimate a password's strength and check it against the policy, for strength meters
+ * A breached password counts as guessed at once, and a rejected password never
+ * scores high enough to pass, so the score and the policy always agree
+ */
+export const evaluatePasswordStrength = (
+    password: string,
+    personalInfo: PasswordPersonalInfo = {},
+    policy: PasswordPolicy = getPasswordPolicy()
+): PasswordStrength => {
+    const violations = checkPasswordPolicy(password, personalInfo, policy);
+    const estimate = estimatePasswordEntropy(password, getPersonalTokens(personalInfo));
+    const breached = violations.some((violation) => violation.errorCode === ErrorCodes.VALD_PASSWORD_BREACHED);
+    const entropyBits = breached ? 0 : estimate.entropyBits;
+
+    let score = scorePasswordEntropy(entropyBits);
+    if (violations.length > 0) {
+        score = Math.max(Math.min(score, policy.minStrengthScore - 1), 0);
+    }
+
+    const suggestions = estimate.weaknesses.map((weakness) => WEAKNESS_FEEDBACK[weakness]);
+    if (score < 3) {
+        suggestions.push('Add another word or two; uncommon words are better');
+    }
+
+    const crackTimeSeconds = estimateCrackTimeSeconds(entropyBits);
+
+    return {
+        score,
+        acceptable: violations.length === 0,
+        entropyBits: Math.round(entropyBits * 10) / 10,
+        crackTime: {
+            seconds: Math.min(Math.round(crackTimeSeconds), Number.MAX_SAFE_INTEGER),
+            display: formatCrackTime(crackTimeSeconds),
+        },
+        feedback: {
+            warning: violations[0]?.message ?? null,
+            suggestions,
+        },
+        violations,
+    };
+};
+
+/**
+ * Check a new password against the whole policy, including password history,
+ * and send a 400 response listing the broken rules if any
+ * Returns true if the password was rejected (error sent), false if it is safe to store
+ * @param field - Request body field holding the password, reported in the errors
+ */
+export const validatePasswordPolicy = async (
+    password: string,
+    owner: PasswordOwner,
+    response: Response,
+    field: string = 'password'
+): Promise<boolean> => {
+    const policy = getPasswordPolicy();
+    let personalInfo: PasswordPersonalInfo = owner;
+
+    if (owner.accountId !== undefined) {
+        const account = await getPool().query(
+            'SELECT FirstName, LastName, Username, Email FROM Account WHERE Account_ID = $1',
+            [owner.accountId]
+        );
+        personalInfo = { ...account.rows[0], ...owner };
+    }
+
+    const violations = checkPasswordPolicy(password, personalInfo, policy);
+
+    // Hashing against the history is slow, so it only runs for otherwise acceptable passwords
+    if (violations.length === 0 && owner.accountId !== undefined
+        && await isPasswordReused(owner.accountId, password, policy.historySize)) {
+        violations.push({
+            errorCode: ErrorCodes.VALD_PASSWORD_REUSED,
+            message: `Password must not be one of your last ${policy.historySize} passwords`,
+        });
+    }
+
+    if (violations.length > 0) {
+        sendValidationError(response, violations.map((violation) => ({ field, ...violation })));
+        return true;
+    }
+
+    return false;
+};
@@ -0,0 +1,162 @@
+/**
+ * Password strength estimation
+ *
+ * Estimates how many guesses an attacker who knows the usual patterns would
+ * need. Each character costs the bits needed to guess it from its character
+ * class, but predictable parts cost almost nothing: repeats ("aaa"), alphabet,
+ * digit and keyboard sequences ("abc", "123", "qwerty"), a capitalised first
+ * letter, years ("1999") and the user's own details. The guesses map to a 0-4
+ * score with the same thresholds as zxcvbn.
+ *
+ * The password policy uses this estimate for its minimum score rule, and
+ * evaluatePasswordStrength() in passwordPolicy.ts combines the two for
+ * client-side strength meters.
+ */
+
+/**
+ * Predictable patterns found in a password
+ */
+export type PasswordWeakness = 'personal-info' | 'year' | 'sequence' | 'repeat';
+
+export interface PasswordEntropyEstimate {
+    entropyBits: number;
+    weaknesses: PasswordWeakness[];
+}
+
+// Bits to guess one character of each class
+const LETTER_BITS = Math.log2(26);
+const DIGIT_BITS = Math.log2(10);
+const SYMBOL_BITS = Math.log2(33);          // Printable ASCII symbols and space
+const OTHER_BITS = Math.log2(128);          // Accented letters, emoji, other scripts
+
+// Bits for the predictable patterns
+const PREDICTABLE_CHARACTER_BITS = 1;       // A repeat, the next in a sequence, or a capitalised first letter
+const YEAR_BITS = Math.log2(200);           // 1900-2099
+const PERSONAL_INFO_BITS = 2;               // One of a handful of known details
+
+const MIN_PATTERN_LENGTH = 3;
+
+/**
+ * Rows where neighbouring characters form a guessable sequence
+ */
+const SEQUENCES = ['abcdefghijklmnopqrstuvwxyz', '0123456789', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * Guesses needed for each score above 0 (zxcvbn's thresholds)
+ */
+const SCORE_GUESS_THRESHOLDS = [1e3, 1e6, 1e8, 1e10];
+
+/**
+ * Attacker speed assumed for crack times: an offline attack on stolen hashes,
+ * slowed down by the password hasher
+ */
+const GUESSES_PER_SECOND = 1e4;
+
+const TIME_UNITS: [string, number][] = [
+    ['year', 365 * 24 * 60 * 60],
+    ['month', 30 * 24 * 60 * 60],
+    ['day', 24 * 60 * 60],
+    ['hour', 60 * 60],
+    ['minute', 60],
+    ['second', 1],
+];
+
+const characterBits = (character: string): number => {
+    if (/[a-zA-Z]/.test(character)) return LETTER_BITS;
+    if (/[0-9]/.test(character)) return DIGIT_BITS;
+    if (/[\x20-\x7e]/.test(character)) return SYMBOL_BITS;
+    return OTHER_BITS;
+};
+
+const isSequenceStep = (previous: string, character: string): boolean =>
+    SEQUENCES.some((sequence) => {
+        const from = sequence.indexOf(previous);
+        const to = sequence.indexOf(character);
+        return from !== -1 && to !== -1 && Math.abs(to - from) === 1;
+    });
+
+/**
+ * Estimate a password's entropy
+ * @param personalTokens - Lowercased personal details (see getPersonalTokens)
+ */
+export const estimatePasswordEntropy = (password: string, personalTokens: string[] = []): PasswordEntropyEstimate => {
+    const characters = [...password];
+    const lowered = characters.map((character) => character.toLowerCase());
+    const matched: boolean[] = characters.map(() => false);
+    const weaknesses = new Set<PasswordWeakness>();
+    let entropyBits = 0;
+
+    // Claim a run of characters for a pattern, unless part of it is already claimed
+    const claim = (start: number, length: number): boolean => {
+        if (matched.slice(start, start + length).some(Boolean)) return false;
+        matched.fill(true, start, start + length);
+        return true;
+    };
+
+    for (const token of personalTokens) {
+        const tokenCharacters = [...token];
+        for (let start = 0; start + tokenCharacters.length <= characters.length; start++) {
+            if (tokenCharacters.every((character, offset) => lowered[start + offset] === character)
+                && claim(start, tokenCharacters.length)) {
+                entropyBits += PERSONAL_INFO_BITS;
+                weaknesses.add('personal-info');
+            }
+        }
+    }
+
+    for (let start = 0; start + 4 <= characters.length; start++) {
+        if (/^(19|20)\d\d$/.test(characters.slice(start, start + 4).join('')) && claim(start, 4)) {
+            entropyBits += YEAR_BITS;
+            weaknesses.add('year');
+        }
+    }
+
+    let repeatRun = 0;
+    let sequenceRun = 0;
+
+    characters.forEach((character, index) => {
+        if (matched[index]) {
+            repeatRun = 0;
+            sequenceRun = 0;
+            return;
+        }
+
+        const previous = index > 0 && !matched[index - 1] ? lowered[index - 1] : undefined;
+        repeatRun = previous === lowered[index] ? repeatRun + 1 : 1;
+        sequenceRun = previous !== undefined && isSequenceStep(previous, lowered[index]) ? sequenceRun + 1 : 1;
+
+        if (repeatRun >= MIN_PATTERN_LENGTH) weaknesses.add('repeat');
+        if (sequenceRun >= MIN_PATTERN_LENGTH) weaknesses.add('sequence');
+
+        const capitalisedFirst = index === 0 && /[A-Z]/.test(character);
+        entropyBits += repeatRun > 1 || sequenceRun > 1 || capitalisedFirst
+            ? PREDICTABLE_CHARACTER_BITS
+            : characterBits(character);
+    });
+
+    return { entropyBits, weaknesses: [...weaknesses] };
+};
+
+/**
+ * Score an entropy estimate from 0 (too guessable) to 4 (very unguessable)
+ */
+export const scorePasswordEntropy = (entropyBits: number): number =>
+    SCORE_GUESS_THRESHOLDS.filter((threshold) => entropyBits >= Math.log2(threshold)).length;
+
+/**
+ * Average time to guess a password with the given entropy (half the guesses)
+ */
+export const estimateCrackTimeSeconds = (entropyBits: number): number =>
+    2 ** entropyBits / 2 / GUESSES_PER_SECOND;
+
+/**
+ * Describe a crack time, e.g. "3 days"
+ */
+export const formatCrackTime = (seconds: number): string => {
+    if (seconds < 1) return 'less than a second';
+    if (seconds >= 100 * TIME_UNITS[0][1]) return 'centuries';
+
+    const [unit, unitSeconds] = TIME_UNITS.find(([, size]) => seconds >= size) as [string, number];
+    const count = Math.round(seconds / unitSeconds);
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
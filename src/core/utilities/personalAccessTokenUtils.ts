@@ -0,0 +1,196 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { getPool } from './database';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { IJwtClaims } from '@models';
+
+/**
+ * Personal access tokens (API keys for scripts and CI jobs)
+ *
+ * A user mints a named token with an expiry date and a set of scopes, and
+ * sends it as a Bearer token in place of a JWT. Tokens are random strings with
+ * a pat_ prefix (so checkToken can tell them apart from JWTs); only their
+ * SHA256 hash is stored, so a token is shown exactly once, when it is created.
+ *
+ * Scopes are checked per route area: reads need `<area>:read`, anything else
+ * `<area>:write`. Routes that manage credentials (password, two-factor, tokens)
+ * always need an interactive login.
+ */
+
+export const PAT_PREFIX = 'pat_';
+
+/**
+ * Only refresh Last_Used_At this often, so API calls don't each cost a write
+ */
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export type TokenScopeArea = 'account' | 'admin';
+
+export interface PersonalAccessTokenSummary {
+    id: number;
+    name: string;
+    prefix: string;
+    scopes: string[];
+    createdAt: Date;
+    expiresAt: Date;
+    lastUsedAt: Date | null;
+}
+
+export interface NewPersonalAccessToken {
+    name: string;
+    scopes: string[];
+    expiresAt: Date;
+}
+
+const toSummary = (row: QueryResultRow): PersonalAccessTokenSummary => ({
+    id: row.token_id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scopes: row.scopes,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+});
+
+/**
+ * Check whether a bearer token is a personal access token rather than a JWT
+ */
+export const isPersonalAccessToken = (token: string): boolean => {
+    return token.startsWith(PAT_PREFIX);
+};
+
+/**
+ * Create a personal access token
+ * @returns The raw token (shown to the user once) and its stored details
+ */
+export const createPersonalAccessToken = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    details: NewPersonalAccessToken
+): Promise<{ token: string; summary: PersonalAccessTokenSummary }> => {
+    const token = `${PAT_PREFIX}${generateSecureToken()}`;
+
+    const result = await queryable.query(
+        `INSERT INTO Personal_Access_Token (Account_ID, Name, Token_Hash, Token_Prefix, Scopes, Expires_At)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING Token_ID, Name, Token_Prefix, Scopes, Created_At, Expires_At, Last_Used_At`,
+        [accountId, details.name, generateTokenHash(token), token.slice(0, 12), details.scopes, details.expiresAt]
+    );
+
+    return { token, summary: toSummary(result.rows[0]) };
+};
+
+/**
+ * List an account's tokens that are neither revoked nor expired, newest first
+ */
+export const listPersonalAccessTokens = async (accountId: number): Promise<PersonalAccessTokenSummary[]> => {
+    const result = await getPool().query(
+        `SELECT Token_ID, Name, Token_Prefix, Scopes, Created_At, Expires_At, Last_Used_At
+         FROM Personal_Access_Token
+         WHERE Account_ID = $1 AND Revoked_At IS NULL AND Expires_At > NOW()
+         ORDER BY Created_At DESC`,
+        [accountId]
+    );
+
+    return result.rows.map(toSummary);
+};
+
+/**
+ * Revoke one of an account's tokens
+ * @returns The revoked token, or null if it was not found or already revoked
+ */
+export const revokePersonalAccessToken = async (
+    accountId: number,
+    tokenId: number,
+    queryable: Pool | PoolClient = getPool()
+): Promise<PersonalAccessTokenSummary | null> => {
+    const result = await queryable.query(
+        `UPDATE Personal_Access_Token SET Revoked_At = NOW()
+         WHERE Token_ID = $1 AND Account_ID = $2 AND Revoked_At IS NULL
+         RETURNING Token_ID, Name, Token_Prefix, Scopes, Created_At, Expires_At, Last_Used_At`,
+        [tokenId, accountId]
+    );
+
+    return result.rowCount > 0 ? toSummary(result.rows[0]) : null;
+};
+
+/**
+ * Revoke every token belonging to an account
+ * Part of revokeAllUserTokens, so a token minted during a compromise does not
+ * survive logout-all, a password change or reset, or account deletion
+ */
+export const revokeAllPersonalAccessTokens = async (
+    accountId: number,
+    queryable: Pool | PoolClient = getPool()
+): Promise<void> => {
+    await queryable.query(
+        'UPDATE Personal_Access_Token SET Revoked_At = NOW() WHERE Account_ID = $1 AND Revoked_At IS NULL',
+        [accountId]
+    );
+};
+
+/**
+ * Resolve a personal access token to request claims
+ * @returns Claims shaped like those of a JWT, or null if the token is unknown,
+ *          revoked, expired, created before the account's Tokens_Valid_After
+ *          cut-off, or its account is suspended, locked, deleted or scheduled
+ *          for deletion
+ */
+export const authenticatePersonalAccessToken = async (token: string): Promise<IJwtClaims | null> => {
+    const pool = getPool();
+
+    const result = await pool.query(
+        `SELECT t.Token_ID, t.Scopes, t.Expires_At, a.Account_ID, a.FirstName, a.Email, a.Account_Role
+         FROM Personal_Access_Token t
+         JOIN Account a ON a.Account_ID = t.Account_ID
+         WHERE t.Token_Hash = $1
+           AND t.Revoked_At IS NULL
+           AND t.Expires_At > NOW()
+           AND (a.Tokens_Valid_After IS NULL OR t.Created_At >= a.Tokens_Valid_After)
+           AND a.Account_Status NOT IN ('suspended', 'locked', 'inactive', 'deleted')
+           AND a.Deletion_Scheduled_At IS NULL`,
+        [generateTokenHash(token)]
+    );
+
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+
+    // Record usage without holding up the request
+    pool.query(
+        `UPDATE Personal_Access_Token SET Last_Used_At = NOW()
+         WHERE Token_ID = $1
+           AND (Last_Used_At IS NULL OR Last_Used_At < NOW() - make_interval(secs => $2))`,
+        [row.token_id, LAST_USED_RESOLUTION_SECONDS]
+    ).catch((usageError) => {
+        console.error('Personal access token usage update error:', usageError);
+    });
+
+    return {
+        id: row.account_id,
+        name: row.firstname,
+        email: row.email,
+        role: row.account_role,
+        exp: Math.floor(new Date(row.expires_at).getTime() / 1000),
+        scope: row.scopes.join(' '),
+        patId: row.token_id,
+    };
+};
+
+/**
+ * Check whether the request's token may be used for a route area
+ * Tokens without a scope claim come from an interactive login and may be used anywhere
+ */
+export const tokenAllowsRequest = (
+    claims: Pick<IJwtClaims, 'scope'>,
+    area: TokenScopeArea,
+    method: string
+): boolean => {
+    if (claims.scope === undefined) {
+        return true;
+    }
+
+    const required = ['GET', 'HEAD'].includes(method.toUpperCase()) ? `${area}:read` : `${area}:write`;
+    return claims.scope.split(' ').includes(required);
+};
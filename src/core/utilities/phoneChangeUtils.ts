@@ -0,0 +1,128 @@
+import { getPool } from './database';
+import { withTransaction } from './transactionUtils';
+import { generateTokenHash, generateVerificationCode } from './credentialingUtils';
+import { SMS_CODE_EXPIRY_MINUTES, SMS_CODE_MAX_ATTEMPTS, SMS_CODE_RESEND_SECONDS } from '@models';
+
+/**
+ * Phone number changes
+ *
+ * POST /auth/me/phone stages the new number and texts it a 6-digit code; the
+ * account's number only changes once that code is entered, and the new number
+ * is then verified. Codes follow the phone verification rules (expiry, attempt
+ * limit and resend interval), and only a hash of the code is stored.
+ */
+
+/**
+ * Outcome of entering a phone change code
+ * - changed: the account now uses the new, verified number
+ * - invalid: no pending change, wrong code or expired code
+ * - too_many_attempts: the code has had too many wrong guesses; a new one must be requested
+ * - phone_taken: another account registered the new number in the meantime
+ */
+export type PhoneChangeConfirmation =
+    | { status: 'changed'; oldPhone: string; newPhone: string }
+    | { status: 'invalid' }
+    | { status: 'too_many_attempts' }
+    | { status: 'phone_taken' };
+
+/**
+ * Stage a new phone number for an account, replacing any earlier pending change
+ * @returns The code to text to the new number, or null if one was sent too recently
+ */
+export const createPhoneChangeCode = async (accountId: number, newPhone: string): Promise<string | null> => {
+    const pool = getPool();
+
+    const recent = await pool.query(
+        `SELECT 1 FROM Phone_Change_Request
+         WHERE Account_ID = $1 AND Created_At > NOW() - make_interval(secs => $2)`,
+        [accountId, SMS_CODE_RESEND_SECONDS]
+    );
+    if (recent.rowCount > 0) {
+        return null;
+    }
+
+    const code = generateVerificationCode();
+    await pool.query(
+        `INSERT INTO Phone_Change_Request (Account_ID, New_Phone, Code_Hash, Code_Expires)
+         VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))
+         ON CONFLICT (Account_ID) DO UPDATE
+         SET New_Phone = EXCLUDED.New_Phone,
+             Code_Hash = EXCLUDED.Code_Hash,
+             Code_Expires = EXCLUDED.Code_Expires,
+             Attempts = 0,
+             Created_At = NOW()`,
+        [accountId, newPhone, generateTokenHash(code), SMS_CODE_EXPIRY_MINUTES]
+    );
+
+    return code;
+};
+
+/**
+ * Check a phone change code and, if it matches, switch the account to the new number
+ * Wrong guesses are counted against the code
+ */
+export const confirmPhoneChange = async (accountId: number, code: string): Promise<PhoneChangeConfirmation> => {
+    const pool = getPool();
+
+    const pending = await pool.query(
+        'SELECT Attempts, Code_Expires FROM Phone_Change_Request WHERE Account_ID = $1',
+        [accountId]
+    );
+    if (pending.rowCount === 0 || new Date() > new Date(pending.rows[0].code_expires)) {
+        return { status: 'invalid' };
+    }
+    if (pending.rows[0].attempts >= SMS_CODE_MAX_ATTEMPTS) {
+        return { status: 'too_many_attempts' };
+    }
+
+    const result = await withTransaction(async (client): Promise<PhoneChangeConfirmation> => {
+        // Deleting in the same statement as the comparison makes the code single-use
+        const used = await client.query(
+            `DELETE FROM Phone_Change_Request
+             WHERE Account_ID = $1 AND Code_Hash = $2 AND Attempts < $3 AND Code_Expires > NOW()
+             RETURNING New_Phone`,
+            [accountId, generateTokenHash(code), SMS_CODE_MAX_ATTEMPTS]
+        );
+        if (used.rowCount === 0) {
+            await client.query(
+                'UPDATE Phone_Change_Request SET Attempts = Attempts + 1 WHERE Account_ID = $1',
+                [accountId]
+            );
+            return { status: 'invalid' };
+        }
+
+        const newPhone: string = used.rows[0].new_phone;
+
+        const account = await client.query(
+            'SELECT Phone FROM Account WHERE Account_ID = $1 FOR UPDATE',
+            [accountId]
+        );
+        if (account.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const taken = await client.query(
+            'SELECT 1 FROM Account WHERE Phone = $1 AND Account_ID <> $2',
+            [newPhone, accountId]
+        );
+        if (taken.rowCount > 0) {
+            return { status: 'phone_taken' };
+        }
+
+        await client.query(
+            'UPDATE Account SET Phone = $1, Phone_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $2',
+            [newPhone, accountId]
+        );
+
+        // A login code texted to the old number must not work for the new one
+        await client.query('DELETE FROM SMS_Login_Code WHERE Account_ID = $1', [accountId]);
+
+        return { status: 'changed', oldPhone: account.rows[0].phone, newPhone };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
@@ -0,0 +1,46 @@
+import { IJwtClaims } from '@models';
+import { getPool } from './database';
+
+/**
+ * Step-up re-authentication
+ *
+ * Holding a valid access token only proves the user logged in at some point -
+ * refresh tokens keep a session alive for weeks. Sensitive actions (password,
+ * two-factor and role changes) also need the auth_time claim to be recent.
+ * When it is not, the client asks for the password again and calls
+ * POST /auth/reauthenticate, which restamps the session and returns an access
+ * token with a fresh auth_time.
+ */
+
+/**
+ * Check whether the token's holder entered their password within the last maxAgeSeconds
+ * Tokens without an auth_time (personal access tokens, impersonation tokens) never count as recent
+ */
+export const isRecentlyAuthenticated = (
+    claims: Pick<IJwtClaims, 'auth_time'>,
+    maxAgeSeconds: number,
+    now: number = Date.now()
+): boolean => {
+    if (typeof claims.auth_time !== 'number') {
+        return false;
+    }
+
+    return now / 1000 - claims.auth_time <= maxAgeSeconds;
+};
+
+/**
+ * Record that the user proved their identity again for a session
+ * Later refreshes of the session keep the new auth_time
+ * @returns The new authentication time, or null if the session is not the account's or has ended
+ */
+export const reauthenticateSession = async (accountId: number, sessionId: string): Promise<Date | null> => {
+    const result = await getPool().query(
+        `UPDATE Account_Session
+         SET Authenticated_At = NOW(), Last_Seen_At = NOW()
+         WHERE Session_ID = $1 AND Account_ID = $2 AND Revoked_At IS NULL
+         RETURNING Authenticated_At`,
+        [sessionId, accountId]
+    );
+
+    return result.rowCount > 0 ? result.rows[0].authenticated_at : null;
+};
@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { withTransaction } from './transactionUtils';
+import { REFRESH_TOKEN_EXPIRY_DAYS } from '@models';
+
+export interface IssuedRefreshToken {
+    token: string;
+    familyId: string;
+    expiresAt: Date;
+}
+
+/**
+ * Outcome of presenting a refresh token for rotation
+ * - rotated: token was current; a replacement has been issued
+ * - invalid: token is unknown
+ * - expired: token was current but past its expiry
+ * - revoked: token was revoked by a logout or password change
+ * - reused: token had already been rotated; its whole family is now revoked
+ */
+export type RefreshTokenRotation =
+    | {
+        status: 'rotated';
+        accountId: number;
+        refreshToken: IssuedRefreshToken;
+        scope: string | null;
+        authenticatedAt: Date;
+    }
+    | { status: 'invalid' }
+    | { status: 'expired'; accountId: number }
+    | { status: 'revoked'; accountId: number }
+    | { status: 'reused'; accountId: number };
+
+/**
+ * Calculate the expiry date for a newly issued refresh token
+ */
+const getRefreshTokenExpiry = (): Date => {
+    const days = parseInt(getEnvVar('REFRESH_TOKEN_EXPIRY_DAYS', String(REFRESH_TOKEN_EXPIRY_DAYS)));
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Issue a new refresh token and store its hash
+ * Pass the session ID as familyId for a new login, or the existing familyId when rotating
+ * Only the hash is stored - the raw token is returned once and never persisted
+ */
+export const issueRefreshToken = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    familyId: string = randomUUID()
+): Promise<IssuedRefreshToken & { tokenId: number }> => {
+    const token = generateSecureToken();
+    const expiresAt = getRefreshTokenExpiry();
+
+    const result = await queryable.query(
+        `INSERT INTO Refresh_Token (Account_ID, Token_Hash, Family_ID, Expires_At)
+         VALUES ($1, $2, $3, $4)
+         RETURNING Token_ID`,
+        [accountId, generateTokenHash(token), familyId, expiresAt]
+    );
+
+    return { token, familyId, expiresAt, tokenId: result.rows[0].token_id };
+};
+
+/**
+ * Revoke every still-active token in a family, and the login session it belongs to
+ * (a login's session ID is used as its family ID)
+ */
+export const revokeRefreshTokenFamily = async (
+    queryable: Pool | PoolClient,
+    familyId: string
+): Promise<void> => {
+    await queryable.query(
+        'UPDATE Refresh_Token SET Revoked_At = NOW() WHERE Family_ID = $1 AND Revoked_At IS NULL',
+        [familyId]
+    );
+    await queryable.query(
+        'UPDATE Account_Session SET Revoked_At = NOW() WHERE Session_ID = $1 AND Revoked_At IS NULL',
+        [familyId]
+    );
+};
+
+/**
+ * Exchange a refresh token for a new one (rotation with reuse detection)
+ *
+ * Each refresh token may be used exactly once. Presenting a token that was
+ * already rotated means two parties hold the same token - one of them stole it -
+ * so the entire family is revoked and both must log in again.
+ *
+ * @param clientId - OAuth client presenting the token, or null for our own
+ *                   refresh endpoint; tokens only work for the client they were issued to
+ */
+export const rotateRefreshToken = async (
+    token: string,
+    clientId: string | null = null
+): Promise<RefreshTokenRotation> => {
+    const result = await withTransaction(async (client): Promise<RefreshTokenRotation> => {
+        // Lock the row so two concurrent refreshes cannot both succeed
+        const tokenResult = await client.query(
+            `SELECT rt.Token_ID, rt.Account_ID, rt.Family_ID, rt.Expires_At, rt.Revoked_At, rt.Replaced_By,
+                    s.Client_ID, s.Scope, s.Authenticated_At
+             FROM Refresh_Token rt
+             LEFT JOIN Account_Session s ON s.Session_ID = rt.Family_ID
+             WHERE rt.Token_Hash = $1
+             FOR UPDATE OF rt`,
+            [generateTokenHash(token)]
+        );
+
+        if (tokenResult.rowCount === 0 || (tokenResult.rows[0].client_id ?? null) !== clientId) {
+            return { status: 'invalid' };
+        }
+
+        const stored = tokenResult.rows[0];
+
+        // Revoked without a replacement means logout, not rotation
+        if (stored.revoked_at && !stored.replaced_by) {
+            return { status: 'revoked', accountId: stored.account_id };
+        }
+
+        if (stored.revoked_at) {
+            await revokeRefreshTokenFamily(client, stored.family_id);
+            return { status: 'reused', accountId: stored.account_id };
+        }
+
+        if (new Date() > new Date(stored.expires_at)) {
+            return { status: 'expired', accountId: stored.account_id };
+        }
+
+        const replacement = await issueRefreshToken(client, stored.account_id, stored.family_id);
+
+        await client.query(
+            'UPDATE Refresh_Token SET Revoked_At = NOW(), Replaced_By = $1 WHERE Token_ID = $2',
+            [replacement.tokenId, stored.token_id]
+        );
+
+        return {
+            status: 'rotated',
+            accountId: stored.account_id,
+            scope: stored.scope,
+            authenticatedAt: stored.authenticated_at,
+            refreshToken: {
+                token: replacement.token,
+                familyId: replacement.familyId,
+                expiresAt: replacement.expiresAt
+            }
+        };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data;
+};
+
+/**
+ * Revoke the family of a single refresh token (logout from one device)
+ * The token must belong to the given account
+ * @returns true if a matching token was found
+ */
+export const revokeRefreshToken = async (
+    token: string,
+    accountId: number,
+    queryable: Pool | PoolClient = getPool()
+): Promise<boolean> => {
+    const result = await queryable.query(
+        'SELECT Family_ID FROM Refresh_Token WHERE Token_Hash = $1 AND Account_ID = $2',
+        [generateTokenHash(token), accountId]
+    );
+
+    if (result.rowCount === 0) {
+        return false;
+    }
+
+    await revokeRefreshTokenFamily(queryable, result.rows[0].family_id);
+    return true;
+};
+
+/**
+ * Revoke every refresh token and session belonging to an account
+ */
+export const revokeAllRefreshTokens = async (
+    accountId: number,
+    queryable: Pool | PoolClient = getPool()
+): Promise<void> => {
+    await queryable.query(
+        'UPDATE Refresh_Token SET Revoked_At = NOW() WHERE Account_ID = $1 AND Revoked_At IS NULL',
+        [accountId]
+    );
+    await queryable.query(
+        'UPDATE Account_Session SET Revoked_At = NOW() WHERE Account_ID = $1 AND Revoked_At IS NULL',
+        [accountId]
+    );
+};
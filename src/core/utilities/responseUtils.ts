@@ -48,7 +48,7 @@ export const sendError = (
  */
 export const sendValidationError = (
     response: Response,
-    errors: Array<{ field?: string; message: string }>
+    errors: Array<{ field?: string; message: string; errorCode?: string }>
 ) => {
     response.status(400).json({
         success: false,
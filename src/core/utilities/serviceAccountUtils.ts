@@ -0,0 +1,150 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { getPool } from './database';
+import { generateSecureToken, generateTokenHash } from './credentialingUtils';
+import { clientSecretMatches, ClientCredentials } from './oauthUtils';
+
+/**
+ * Service accounts (identities for backend services, not people)
+ *
+ * An Owner registers a service account with the scopes it may use, and hands
+ * its client ID and secret to the service. The service exchanges them for a
+ * short-lived JWT at POST /oauth/token with the client_credentials grant
+ * (RFC 6749 §4.4), and other services verify that JWT against our JWKS.
+ *
+ * Service tokens carry principal: 'service' and no account ID or role, so
+ * checkToken and requireRole never treat them as a user.
+ */
+
+export const SERVICE_ACCOUNT_PREFIX = 'svc_';
+
+export interface ServiceAccount {
+    clientId: string;
+    name: string;
+    description: string | null;
+    scopes: string[];
+    createdBy: number | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+export interface NewServiceAccount {
+    name: string;
+    description: string | null;
+    scopes: string[];
+    createdBy: number;
+}
+
+const toServiceAccount = (row: QueryResultRow): ServiceAccount => ({
+    clientId: row.client_id,
+    name: row.name,
+    description: row.description,
+    scopes: row.scopes,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+});
+
+/**
+ * Register a service account
+ * The client secret is returned once and only its hash is stored
+ */
+export const createServiceAccount = async (
+    queryable: Pool | PoolClient,
+    details: NewServiceAccount
+): Promise<{ serviceAccount: ServiceAccount; clientSecret: string }> => {
+    const clientId = `${SERVICE_ACCOUNT_PREFIX}${generateSecureToken(16)}`;
+    const clientSecret = generateSecureToken();
+
+    const result = await queryable.query(
+        `INSERT INTO Service_Account (Client_ID, Client_Secret_Hash, Name, Description, Scopes, Created_By)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [clientId, generateTokenHash(clientSecret), details.name, details.description, details.scopes, details.createdBy]
+    );
+
+    return { serviceAccount: toServiceAccount(result.rows[0]), clientSecret };
+};
+
+/**
+ * List active service accounts, newest first
+ */
+export const listServiceAccounts = async (): Promise<ServiceAccount[]> => {
+    const result = await getPool().query(
+        'SELECT * FROM Service_Account WHERE Revoked_At IS NULL ORDER BY Created_At DESC'
+    );
+
+    return result.rows.map(toServiceAccount);
+};
+
+/**
+ * Replace a service account's secret; the old secret stops working immediately
+ * @returns The new secret, or null if the service account was not found or is revoked
+ */
+export const rotateServiceAccountSecret = async (
+    queryable: Pool | PoolClient,
+    clientId: string
+): Promise<string | null> => {
+    const clientSecret = generateSecureToken();
+
+    const result = await queryable.query(
+        'UPDATE Service_Account SET Client_Secret_Hash = $2 WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [clientId, generateTokenHash(clientSecret)]
+    );
+
+    return result.rowCount > 0 ? clientSecret : null;
+};
+
+/**
+ * Revoke a service account
+ * It can no longer obtain tokens; tokens already issued run out within their short lifetime
+ * @returns false if the service account was not found or already revoked
+ */
+export const revokeServiceAccount = async (
+    queryable: Pool | PoolClient,
+    clientId: string
+): Promise<boolean> => {
+    const result = await queryable.query(
+        'UPDATE Service_Account SET Revoked_At = NOW() WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [clientId]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * Check whether a client ID belongs to a service account rather than an OAuth client
+ */
+export const isServiceAccountClientId = (clientId: unknown): boolean => {
+    return typeof clientId === 'string' && clientId.startsWith(SERVICE_ACCOUNT_PREFIX);
+};
+
+/**
+ * Authenticate a service account by its client ID and secret
+ * @returns The service account, or null if it is unknown, revoked or the secret is wrong
+ */
+export const authenticateServiceAccount = async (credentials: ClientCredentials): Promise<ServiceAccount | null> => {
+    if (!isServiceAccountClientId(credentials.clientId)) {
+        return null;
+    }
+
+    const pool = getPool();
+    const result = await pool.query(
+        'SELECT * FROM Service_Account WHERE Client_ID = $1 AND Revoked_At IS NULL',
+        [credentials.clientId]
+    );
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    if (!clientSecretMatches(credentials.clientSecret, row.client_secret_hash)) {
+        return null;
+    }
+
+    await pool.query(
+        'UPDATE Service_Account SET Last_Used_At = NOW() WHERE Client_ID = $1',
+        [row.client_id]
+    );
+
+    return toServiceAccount(row);
+};
@@ -0,0 +1,145 @@
+import { Request } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+import { revokeRefreshTokenFamily } from './refreshTokenUtils';
+
+/**
+ * Login sessions ("where am I logged in")
+ *
+ * Every successful login creates one Account_Session row. Its ID is carried in
+ * the access token's sid claim and doubles as the refresh token family ID, so
+ * revoking a session also ends its refresh tokens, and revoking a refresh token
+ * family (logout, reuse detection) also ends the session.
+ */
+
+export interface SessionContext {
+    userAgent: string | null;
+    ipAddress: string | null;
+}
+
+export interface SessionSummary {
+    sessionId: string;
+    client: { id: string; name: string } | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastSeenAt: Date;
+    current: boolean;
+}
+
+/**
+ * Only refresh Last_Seen_At this often, so authenticated requests don't each cost a write
+ */
+const LAST_SEEN_RESOLUTION_SECONDS = 60;
+
+/**
+ * Capture the device details recorded with a new session
+ */
+export const getSessionContext = (request: Request): SessionContext => ({
+    userAgent: request.get('user-agent')?.slice(0, 512) ?? null,
+    ipAddress: request.ip ?? null,
+});
+
+/**
+ * Create a session for a successful login
+ * @param grant - OAuth client and scope the session was granted to (null for our own login endpoints),
+ *                and when the user authenticated for it if that was before the session was created
+ * @returns The new session ID (use it as the refresh token family ID)
+ */
+export const createSession = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    context: SessionContext,
+    grant: { clientId: string; scope: string; authenticatedAt?: Date } | null = null
+): Promise<string> => {
+    const result = await queryable.query(
+        `INSERT INTO Account_Session (Account_ID, User_Agent, IP_Address, Client_ID, Scope, Authenticated_At)
+         VALUES ($1, $2, $3, $4, $5, COALESCE($6, CURRENT_TIMESTAMP))
+         RETURNING Session_ID`,
+        [
+            accountId,
+            context.userAgent,
+            context.ipAddress,
+            grant?.clientId ?? null,
+            grant?.scope ?? null,
+            grant?.authenticatedAt ?? null,
+        ]
+    );
+
+    return result.rows[0].session_id;
+};
+
+/**
+ * Record activity on a session
+ */
+export const touchSession = async (sessionId: string, ipAddress?: string): Promise<void> => {
+    await getPool().query(
+        `UPDATE Account_Session
+         SET Last_Seen_At = NOW(), IP_Address = COALESCE($2, IP_Address)
+         WHERE Session_ID = $1
+           AND Revoked_At IS NULL
+           AND Last_Seen_At < NOW() - make_interval(secs => $3)`,
+        [sessionId, ipAddress ?? null, LAST_SEEN_RESOLUTION_SECONDS]
+    );
+};
+
+/**
+ * List an account's active sessions, most recently used first
+ * A session is active until it is revoked or its refresh tokens have all expired
+ * @param currentSessionId - Session of the caller, flagged as current in the result
+ */
+export const listActiveSessions = async (
+    accountId: number,
+    currentSessionId?: string
+): Promise<SessionSummary[]> => {
+    const result = await getPool().query(
+        `SELECT s.Session_ID, s.User_Agent, s.IP_Address, s.Created_At, s.Last_Seen_At,
+                s.Client_ID, c.Name AS client_name
+         FROM Account_Session s
+         LEFT JOIN OAuth_Client c ON c.Client_ID = s.Client_ID
+         WHERE s.Account_ID = $1
+           AND s.Revoked_At IS NULL
+           AND EXISTS (
+               SELECT 1 FROM Refresh_Token rt
+               WHERE rt.Family_ID = s.Session_ID
+                 AND rt.Revoked_At IS NULL
+                 AND rt.Expires_At > NOW()
+           )
+         ORDER BY s.Last_Seen_At DESC`,
+        [accountId]
+    );
+
+    return result.rows.map((row) => ({
+        sessionId: row.session_id,
+        client: row.client_id ? { id: row.client_id, name: row.client_name } : null,
+        userAgent: row.user_agent,
+        ipAddress: row.ip_address,
+        createdAt: row.created_at,
+        lastSeenAt: row.last_seen_at,
+        current: row.session_id === currentSessionId,
+    }));
+};
+
+/**
+ * Revoke one of an account's sessions
+ * Its refresh tokens stop working, and access tokens carrying its sid are rejected by checkToken
+ * @returns true if the session belonged to the account and was still active
+ */
+export const revokeSession = async (
+    accountId: number,
+    sessionId: string,
+    queryable: Pool | PoolClient = getPool()
+): Promise<boolean> => {
+    const result = await queryable.query(
+        `SELECT Session_ID FROM Account_Session
+         WHERE Session_ID = $1 AND Account_ID = $2 AND Revoked_At IS NULL`,
+        [sessionId, accountId]
+    );
+
+    if (result.rowCount === 0) {
+        return false;
+    }
+
+    await revokeRefreshTokenFamily(queryable, sessionId);
+    return true;
+};
@@ -0,0 +1,133 @@
+import { randomInt } from 'crypto';
+import { getPool } from './database';
+import { generateTokenHash } from './credentialingUtils';
+import { SMS_CODE_EXPIRY_MINUTES, SMS_CODE_MAX_ATTEMPTS, SMS_CODE_RESEND_SECONDS } from '@models';
+
+/**
+ * Passwordless login with a code sent by SMS
+ *
+ * For users who can read texts but not email. A 6-digit code goes to the
+ * account's verified phone number and is exchanged for the normal login
+ * response. Codes follow the phone verification rules: they expire after
+ * SMS_CODE_EXPIRY_MINUTES, allow SMS_CODE_MAX_ATTEMPTS wrong guesses, and one
+ * can be sent per account every SMS_CODE_RESEND_SECONDS. Wrong guesses also count
+ * towards the account lockout, like wrong passwords. Only a hash of the code is stored.
+ */
+
+export interface SmsLoginAccount {
+    account_id: number;
+    firstname: string;
+    email: string;
+    phone: string;
+    account_status: string;
+}
+
+/**
+ * Outcome of checking an SMS login code
+ * - valid: code matched and has been used up
+ * - invalid: no code, wrong code or expired code
+ * - too_many_attempts: the code has had too many wrong guesses; a new one must be requested
+ */
+export type SmsLoginCodeCheck = 'valid' | 'invalid' | 'too_many_attempts';
+
+/**
+ * Reduce a phone number to its 10 national digits
+ * Accepts any formatting and a leading US country code, as sendSMSViaEmail does
+ */
+export const toPhoneDigits = (phone: string): string => {
+    const digits = phone.replace(/\D/g, '');
+    return digits.length === 11 && digits.startsWith('1') ? digits.substring(1) : digits;
+};
+
+/**
+ * Find the account whose verified phone number matches
+ * Stored numbers may be formatted differently, so the lookup uses the indexed
+ * Phone_Digits column, which the database derives from Phone like toPhoneDigits
+ */
+export const findSmsLoginAccount = async (phone: string): Promise<SmsLoginAccount | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, FirstName, Email, Phone, Account_Status
+         FROM Account
+         WHERE Phone_Verified = TRUE AND Phone_Digits = $1`,
+        [toPhoneDigits(phone)]
+    );
+
+    // Phone numbers are unique, but two formattings of one number could still both match
+    return result.rowCount === 1 ? result.rows[0] : null;
+};
+
+/**
+ * Generate a 6-digit login code
+ * The code logs the user in, so it comes from the cryptographically secure
+ * generator rather than generateVerificationCode()
+ */
+export const generateSmsLoginCode = (): string => {
+    return randomInt(0, 1_000_000).toString().padStart(6, '0');
+};
+
+/**
+ * Issue a login code for an account, replacing any earlier one
+ * @returns The code, or null if one was sent too recently
+ */
+export const createSmsLoginCode = async (accountId: number): Promise<string | null> => {
+    const pool = getPool();
+
+    const recent = await pool.query(
+        `SELECT 1 FROM SMS_Login_Code
+         WHERE Account_ID = $1 AND Created_At > NOW() - make_interval(secs => $2)`,
+        [accountId, SMS_CODE_RESEND_SECONDS]
+    );
+    if (recent.rowCount > 0) {
+        return null;
+    }
+
+    const code = generateSmsLoginCode();
+    await pool.query(
+        `INSERT INTO SMS_Login_Code (Account_ID, Code_Hash, Code_Expires)
+         VALUES ($1, $2, NOW() + make_interval(mins => $3))
+         ON CONFLICT (Account_ID) DO UPDATE
+         SET Code_Hash = EXCLUDED.Code_Hash,
+             Code_Expires = EXCLUDED.Code_Expires,
+             Attempts = 0,
+             Created_At = NOW()`,
+        [accountId, generateTokenHash(code), SMS_CODE_EXPIRY_MINUTES]
+    );
+
+    return code;
+};
+
+/**
+ * Check a login code, using it up if it matches
+ * Wrong guesses are counted against the code
+ */
+export const checkSmsLoginCode = async (accountId: number, code: string): Promise<SmsLoginCodeCheck> => {
+    const pool = getPool();
+
+    const result = await pool.query(
+        'SELECT Attempts, Code_Expires FROM SMS_Login_Code WHERE Account_ID = $1',
+        [accountId]
+    );
+    if (result.rowCount === 0 || new Date() > new Date(result.rows[0].code_expires)) {
+        return 'invalid';
+    }
+    if (result.rows[0].attempts >= SMS_CODE_MAX_ATTEMPTS) {
+        return 'too_many_attempts';
+    }
+
+    // Deleting in the same statement as the comparison makes the code single-use
+    const used = await pool.query(
+        `DELETE FROM SMS_Login_Code
+         WHERE Account_ID = $1 AND Code_Hash = $2 AND Attempts < $3 AND Code_Expires > NOW()
+         RETURNING Account_ID`,
+        [accountId, generateTokenHash(code), SMS_CODE_MAX_ATTEMPTS]
+    );
+    if (used.rowCount > 0) {
+        return 'valid';
+    }
+
+    await pool.query(
+        'UPDATE SMS_Login_Code SET Attempts = Attempts + 1 WHERE Account_ID = $1',
+        [accountId]
+    );
+    return 'invalid';
+};
@@ -0,0 +1,87 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool } from './database';
+import { revokeAllRefreshTokens } from './refreshTokenUtils';
+import { revokeAllPersonalAccessTokens } from './personalAccessTokenUtils';
+import { IJwtClaims } from '@models';
+
+/**
+ * Revoke a single access token by its jti claim (logout)
+ * The row only needs to live until the token would have expired anyway
+ */
+export const revokeAccessToken = async (
+    jti: string,
+    accountId: number,
+    expiresAt: Date
+): Promise<void> => {
+    const pool = getPool();
+
+    await pool.query(
+        `INSERT INTO Revoked_Token (Jti, Account_ID, Expires_At)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (Jti) DO NOTHING`,
+        [jti, accountId, expiresAt]
+    );
+
+    // Opportunistic cleanup - expired tokens are rejected by signature check anyway
+    await pool.query('DELETE FROM Revoked_Token WHERE Expires_At < NOW()');
+};
+
+/**
+ * Invalidate every token issued to an account up to now
+ * Used by logout-all, password change and admin password reset
+ *
+ * Refresh tokens, sessions and personal access tokens are revoked outright.
+ * Access tokens are cut off by timestamp (their iat claim is compared to
+ * Tokens_Valid_After) so no per-token bookkeeping is needed. The timestamp is
+ * truncated to whole seconds to match the precision of iat; tokens issued
+ * within the same second as the revocation remain valid.
+ */
+export const revokeAllUserTokens = async (
+    accountId: number,
+    queryable: Pool | PoolClient = getPool()
+): Promise<void> => {
+    await queryable.query(
+        `UPDATE Account SET Tokens_Valid_After = date_trunc('second', NOW()) WHERE Account_ID = $1`,
+        [accountId]
+    );
+    await revokeAllRefreshTokens(accountId, queryable);
+    await revokeAllPersonalAccessTokens(accountId, queryable);
+};
+
+/**
+ * Check whether a verified access token has been revoked
+ * - its jti is on the revocation list, or
+ * - its login session (sid) has been revoked, or
+ * - it was issued before the account's Tokens_Valid_After cut-off, or
+ * - the account no longer exists
+ */
+export const isAccessTokenRevoked = async (claims: Pick<IJwtClaims, 'id' | 'jti' | 'sid' | 'iat'>): Promise<boolean> => {
+    const result = await getPool().query(
+        `SELECT
+            a.Tokens_Valid_After,
+            EXISTS (SELECT 1 FROM Revoked_Token rt WHERE rt.Jti = $2) AS jti_revoked,
+            ($3::uuid IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM Account_Session s
+                WHERE s.Session_ID = $3 AND s.Account_ID = a.Account_ID AND s.Revoked_At IS NULL
+            )) AS session_revoked
+         FROM Account a
+         WHERE a.Account_ID = $1`,
+        [claims.id, claims.jti ?? null, claims.sid ?? null]
+    );
+
+    if (result.rowCount === 0) {
+        return true;
+    }
+
+    const account = result.rows[0];
+
+    if (account.jti_revoked || account.session_revoked) {
+        return true;
+    }
+
+    if (account.tokens_valid_after && claims.iat !== undefined) {
+        return claims.iat * 1000 < new Date(account.tokens_valid_after).getTime();
+    }
+
+    return false;
+};
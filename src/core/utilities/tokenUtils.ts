@@ -1,10 +1,37 @@
-import jwt from 'jsonwebtoken';
+import { createHash, randomUUID } from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 import { getEnvVar } from './envConfig';
+import { getKeyStore } from './signingKeys';
+import { IActorClaim, IMPERSONATION_TOKEN_EXPIRY, JWT_EXPIRY, JWT_RESET_EXPIRY } from '@models';
 
 export interface AccessTokenPayload {
     id: number;
     email: string;
     role: number;
+    sessionId?: string;
+    authTime?: Date;    // When the user last proved their identity for this session
+    clientId?: string;  // OAuth client the token was issued to
+    scope?: string;     // Space-separated scopes granted to that client
+}
+
+export interface ServiceTokenPayload {
+    clientId: string;  // Service account the token is issued to
+    scope: string;     // Space-separated scopes granted to it
+}
+
+export interface ImpersonationTokenPayload {
+    id: number;          // User being impersonated
+    email: string;
+    role: number;
+    act: IActorClaim;    // Admin doing the impersonating
+}
+
+export interface IdTokenPayload {
+    issuer: string;
+    clientId: string;
+    authTime: Date;
+    nonce?: string | null;
+    claims: Record<string, unknown>;  // sub plus the standard claims released by the granted scopes
 }
 
 export interface ResetTokenPayload {
@@ -15,37 +42,151 @@ export interface ResetTokenPayload {
 }
 
 /**
- * Generate access token for authenticated user sessions
+ * Sign a token with the active asymmetric key, identified by the kid header
+ */
+const signJwt = (payload: JwtPayload, options: SignOptions): string => {
+    const { activeKey } = getKeyStore();
+
+    return jwt.sign(payload, activeKey.privateKey, {
+        ...options,
+        algorithm: activeKey.alg,
+        keyid: activeKey.kid,
+    });
+};
+
+/**
+ * Generate short-lived access token for authenticated user sessions
+ * Clients renew it with the refresh token issued alongside it
+ * Each token carries a unique jti so it can be revoked individually
  */
 export const generateAccessToken = (payload: AccessTokenPayload): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
+    const expiresIn = getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn'];
 
-    return jwt.sign(
+    return signJwt(
         {
             id: payload.id,
             email: payload.email,
-            role: payload.role
+            role: payload.role,
+            ...(payload.sessionId && { sid: payload.sessionId }),
+            ...(payload.authTime && { auth_time: Math.floor(payload.authTime.getTime() / 1000) }),
+            ...(payload.clientId && { client_id: payload.clientId, scope: payload.scope })
         },
-        jwtSecret,
-        { expiresIn: '14d' }
+        { expiresIn, jwtid: randomUUID() }
     );
 };
 
 /**
- * Generate password reset token with short expiry
+ * Generate an access token for a service account (client_credentials grant)
+ * Carries principal: 'service' instead of an account ID and role, so it can
+ * never pass as a user's token
+ */
+export const generateServiceToken = (payload: ServiceTokenPayload): string => {
+    const expiresIn = getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn'];
+
+    return signJwt(
+        {
+            principal: 'service',
+            client_id: payload.clientId,
+            scope: payload.scope
+        },
+        { expiresIn, subject: payload.clientId, jwtid: randomUUID() }
+    );
+};
+
+/**
+ * Generate a short-lived access token for an admin acting as a user
+ * The act claim names the admin; it has no session and no refresh token,
+ * so it simply expires
+ */
+export const generateImpersonationToken = (payload: ImpersonationTokenPayload): string => {
+    return signJwt(
+        {
+            id: payload.id,
+            email: payload.email,
+            role: payload.role,
+            act: payload.act
+        },
+        { expiresIn: IMPERSONATION_TOKEN_EXPIRY, jwtid: randomUUID() }
+    );
+};
+
+/**
+ * Generate an OpenID Connect ID token
+ * Tells the client who signed in, and when; it is not an access token and is
+ * rejected by checkToken (it carries an aud claim)
+ */
+export const generateIdToken = (payload: IdTokenPayload): string => {
+    const expiresIn = getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn'];
+
+    return signJwt(
+        {
+            ...payload.claims,
+            auth_time: Math.floor(payload.authTime.getTime() / 1000),
+            ...(payload.nonce && { nonce: payload.nonce })
+        },
+        {
+            expiresIn,
+            issuer: payload.issuer,
+            audience: payload.clientId
+        }
+    );
+};
+
+/**
+ * Fingerprint of an account's current password hash (null when it has no password)
+ * Changes whenever the password does, including through the reset itself
  */
-export const generatePasswordResetToken = (userId: number, email: string): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
+export const getPasswordResetStamp = (saltedHash: string | null): string => {
+    return createHash('sha256').update(saltedHash ?? '').digest('hex').slice(0, 16);
+};
 
-    return jwt.sign(
+/**
+ * Generate password reset token with short expiry
+ * Bound to the current password through its stamp (see getPasswordResetStamp), so
+ * the link stops working once it has been used or the password changes another way
+ */
+export const generatePasswordResetToken = (userId: number, email: string, passwordStamp: string): string => {
+    return signJwt(
         {
             id: userId,
             email,
             type: 'password_reset',
+            passwordStamp,
             timestamp: Date.now()
         },
-        jwtSecret,
-        { expiresIn: '15m' }
+        { expiresIn: JWT_RESET_EXPIRY }
+    );
+};
+
+/**
+ * Generate account unlock token (emailed when an account is locked)
+ * Bound to the specific lockout through its lockedUntil timestamp, so the
+ * link stops working once that lockout is over or replaced by a newer one
+ */
+export const generateAccountUnlockToken = (userId: number, lockedUntil: Date): string => {
+    return signJwt(
+        {
+            id: userId,
+            type: 'account_unlock',
+            lockedUntil: lockedUntil.getTime()
+        },
+        { expiresIn: '1h' }
+    );
+};
+
+/**
+ * Generate two-factor challenge token
+ * Proves the first step succeeded; exchanged with a TOTP or recovery code at POST /auth/login/mfa
+ * @param firstFactor - How the user passed the first step (password, magic_link), for the audit log
+ */
+export const generateMfaChallengeToken = (userId: number, firstFactor: string = 'password'): string => {
+    return signJwt(
+        {
+            id: userId,
+            type: 'mfa_pending',
+            factor: firstFactor
+        },
+        { expiresIn: '5m' }
     );
 };
 
@@ -53,23 +194,48 @@ export const generatePasswordResetToken = (userId: number, email: string): strin
  * Generate verification token for email/phone verification
  */
 export const generateVerificationToken = (userId: number, type: 'email' | 'phone'): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-
-    return jwt.sign(
+    return signJwt(
         {
             id: userId,
             type: `${type}_verification`,
             timestamp: Date.now()
         },
-        jwtSecret,
         { expiresIn: '24h' }
     );
 };
 
+/**
+ * Whether legacy HS256 tokens (no kid, signed with JWT_SECRET before the switch
+ * to asymmetric keys) are still accepted
+ * Off by default; JWT_LEGACY_HS256_UNTIL opens a migration window that closes at
+ * the given date, and JWT_SECRET must be set for it
+ */
+const isLegacyTokenWindowOpen = (): boolean => {
+    const until = Date.parse(process.env.JWT_LEGACY_HS256_UNTIL ?? '');
+    return !Number.isNaN(until) && Date.now() < until && Boolean(process.env.JWT_SECRET);
+};
+
 /**
  * Verify and decode any token type
+ * The key is chosen by the kid header; tokens without one are rejected unless
+ * the legacy HS256 migration window is open
+ * @throws Error if the signature, key or expiry is invalid
  */
 export const verifyToken = <T = any>(token: string): T => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-    return jwt.verify(token, jwtSecret) as T;
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+
+    if (!kid) {
+        if (!isLegacyTokenWindowOpen()) {
+            throw new jwt.JsonWebTokenError('Token has no signing key id');
+        }
+        return jwt.verify(token, process.env.JWT_SECRET as string, { algorithms: ['HS256'] }) as T;
+    }
+
+    const key = getKeyStore().keys.get(kid);
+    if (!key) {
+        throw new jwt.JsonWebTokenError(`Unknown signing key: ${kid}`);
+    }
+
+    return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as T;
 };
\ No newline at end of file
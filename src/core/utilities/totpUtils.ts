@@ -0,0 +1,154 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) for authenticator apps
+ *
+ * Authenticator apps (Google Authenticator, 1Password, Authy...) share a secret
+ * with the server once, via a QR code of an otpauth:// URI. Both sides then derive
+ * the same 6-digit code from the secret and the current 30-second time step.
+ */
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded base32 (the format authenticator apps expect)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+/**
+ * Decode base32 (case-insensitive, ignores padding and spaces)
+ * @throws Error if the string contains characters outside the base32 alphabet
+ */
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded)
+ */
+export const generateTotpSecret = (): string => {
+    return base32Encode(randomBytes(20));
+};
+
+/**
+ * Get the TOTP time step for a moment in time
+ */
+export const getTotpTimeStep = (timestampMs: number = Date.now()): number => {
+    return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Generate the HOTP code (RFC 4226) for a counter value
+ */
+export const generateHotp = (secret: string, counter: number, digits: number = TOTP_DIGITS): string => {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+
+    // Dynamic truncation
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+        ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3];
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Generate the TOTP code for a moment in time
+ */
+export const generateTotp = (secret: string, timestampMs: number = Date.now()): string => {
+    return generateHotp(secret, getTotpTimeStep(timestampMs));
+};
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps either side
+ * @returns The matching time step (store it to prevent replay), or null if no match
+ */
+export const verifyTotp = (
+    secret: string,
+    code: string,
+    window: number = 1,
+    timestampMs: number = Date.now()
+): number | null => {
+    if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    const currentStep = getTotpTimeStep(timestampMs);
+    const submitted = Buffer.from(code);
+
+    for (let offset = -window; offset <= window; offset++) {
+        const step = currentStep + offset;
+        const expected = Buffer.from(generateHotp(secret, step));
+
+        if (timingSafeEqual(expected, submitted)) {
+            return step;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Build the otpauth:// URI that authenticator apps scan as a QR code
+ * @see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -4,9 +4,9 @@ import { sendError } from './responseUtils';
 import { ErrorCodes } from './errorCodes';
 
 export interface UserExistenceCheck {
-    email: string;
-    username: string;
-    phone: string;
+    email?: string;
+    username?: string;
+    phone?: string;
 }
 
 export interface ExistenceResult {
@@ -18,19 +18,30 @@ export interface ExistenceResult {
 
 /**
  * Check if user exists by email, username, or phone
+ * Only the fields provided are checked
  * Returns null if no conflicts, or conflict details if found
+ * @param excludeAccountId - Account being updated, so its own values do not count as conflicts
  */
 export const checkUserExistence = async (
-    userData: UserExistenceCheck
+    userData: UserExistenceCheck,
+    excludeAccountId: number | null = null
 ): Promise<ExistenceResult> => {
     const pool = getPool();
 
+    const isTaken = async (column: 'Email' | 'Username' | 'Phone', value: string | undefined): Promise<boolean> => {
+        if (value === undefined) {
+            return false;
+        }
+
+        const result = await pool.query(
+            `SELECT Account_ID FROM Account WHERE ${column} = $1 AND Account_ID IS DISTINCT FROM $2`,
+            [value, excludeAccountId]
+        );
+        return result.rowCount > 0;
+    };
+
     // Check for existing email
-    const emailCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Email = $1',
-        [userData.email]
-    );
-    if (emailCheck.rowCount > 0) {
+    if (await isTaken('Email', userData.email)) {
         return {
             exists: true,
             field: 'email',
@@ -40,11 +51,7 @@ export const checkUserExistence = async (
     }
 
     // Check for existing username
-    const usernameCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Username = $1',
-        [userData.username]
-    );
-    if (usernameCheck.rowCount > 0) {
+    if (await isTaken('Username', userData.username)) {
         return {
             exists: true,
             field: 'username',
@@ -54,11 +61,7 @@ export const checkUserExistence = async (
     }
 
     // Check for existing phone
-    const phoneCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Phone = $1',
-        [userData.phone]
-    );
-    if (phoneCheck.rowCount > 0) {
+    if (await isTaken('Phone', userData.phone)) {
         return {
             exists: true,
             field: 'phone',
@@ -76,9 +79,10 @@ export const checkUserExistence = async (
  */
 export const validateUserUniqueness = async (
     userData: UserExistenceCheck,
-    response: Response
+    response: Response,
+    excludeAccountId: number | null = null
 ): Promise<boolean> => {
-    const result = await checkUserExistence(userData);
+    const result = await checkUserExistence(userData, excludeAccountId);
 
     if (result.exists) {
         sendError(response, 400, result.message!, result.errorCode!);
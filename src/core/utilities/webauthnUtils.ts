@@ -0,0 +1,749 @@
+import { createHash, createPublicKey, KeyObject, randomBytes, timingSafeEqual, verify } from 'crypto';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { generateTokenHash } from './credentialingUtils';
+
+/**
+ * WebAuthn passkeys (Web Authentication Level 2)
+ *
+ * The browser asks the user's authenticator (phone, laptop fingerprint reader,
+ * security key) to create a key pair scoped to our relying party ID. We keep
+ * the public key; logging in means signing a fresh challenge with the private
+ * key, which never leaves the authenticator. Because the browser binds every
+ * response to the page origin, a phishing site cannot obtain a usable login.
+ *
+ * Challenges are random, single-use and stored as hashes. Only "none"
+ * attestation (and self-attested "packed") is accepted: we care that the key
+ * works, not which vendor made the authenticator.
+ */
+
+/**
+ * How long a registration or login ceremony may take
+ */
+export const WEBAUTHN_CHALLENGE_TIMEOUT_SECONDS = 300;
+
+/**
+ * COSE algorithms we accept, in order of preference: ES256, EdDSA, RS256
+ */
+export const WEBAUTHN_ALGORITHMS = [-7, -8, -257];
+
+export type WebAuthnChallengePurpose = 'registration' | 'authentication';
+
+export interface WebAuthnConfig {
+    rpId: string;       // Domain the credentials are scoped to
+    rpName: string;     // Shown by the authenticator when creating a passkey
+    origins: string[];  // Pages allowed to run the ceremonies
+}
+
+/**
+ * A credential returned by navigator.credentials.create(), JSON-encoded (base64url fields)
+ */
+export interface RegistrationCredentialJSON {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+/**
+ * A credential returned by navigator.credentials.get(), JSON-encoded (base64url fields)
+ */
+export interface AuthenticationCredentialJSON {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+export interface ClientData {
+    type: string;
+    challenge: string;
+    origin: string;
+}
+
+/**
+ * A newly registered credential, ready to store
+ */
+export interface VerifiedCredential {
+    credentialId: string;
+    publicKey: string;  // SPKI PEM
+    algorithm: number;
+    signCount: number;
+    transports: string[];
+    aaguid: string;
+    backupEligible: boolean;
+    backedUp: boolean;
+}
+
+/**
+ * Outcome of checking a ceremony response
+ * - verified: the response is genuine
+ * - rejected: reason says which check failed (for logs, not for end users)
+ */
+export type RegistrationVerification =
+    | { status: 'verified'; credential: VerifiedCredential }
+    | { status: 'rejected'; reason: string };
+
+export type AuthenticationVerification =
+    | { status: 'verified'; signCount: number; userVerified: boolean; backedUp: boolean }
+    | { status: 'rejected'; reason: string };
+
+/**
+ * A stored credential, as needed to check a login
+ */
+export interface StoredWebAuthnCredential {
+    credentialId: string;
+    accountId: number;
+    publicKey: string;
+    algorithm: number;
+    signCount: number;
+    userHandle: string | null;
+}
+
+export interface WebAuthnCredentialSummary {
+    id: string;
+    name: string;
+    transports: string[];
+    backedUp: boolean;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+const TRANSPORTS = ['usb', 'nfc', 'ble', 'smart-card', 'hybrid', 'internal'];
+
+// ============================================
+// CBOR (RFC 8949) - the subset authenticators use
+// ============================================
+
+/**
+ * Decode one CBOR data item starting at offset
+ * Maps decode to Map so integer keys (COSE) are preserved
+ * @throws Error on truncated or unsupported data
+ */
+export const decodeCborItem = (buffer: Buffer, offset: number = 0): { value: unknown; offset: number } => {
+    if (offset >= buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+    }
+
+    const major = buffer[offset] >> 5;
+    const info = buffer[offset] & 0x1f;
+    let position = offset + 1;
+
+    if (major === 7) {
+        switch (info) {
+            case 20: return { value: false, offset: position };
+            case 21: return { value: true, offset: position };
+            case 22: return { value: null, offset: position };
+            case 23: return { value: undefined, offset: position };
+            case 26: return { value: buffer.readFloatBE(position), offset: position + 4 };
+            case 27: return { value: buffer.readDoubleBE(position), offset: position + 8 };
+            default: throw new Error(`Unsupported CBOR simple value: ${info}`);
+        }
+    }
+
+    let length: number;
+    if (info < 24) {
+        length = info;
+    } else {
+        const size = ({ 24: 1, 25: 2, 26: 4, 27: 8 } as Record<number, number>)[info];
+        if (!size) {
+            throw new Error('Unsupported CBOR length encoding');
+        }
+        if (position + size > buffer.length) {
+            throw new Error('Unexpected end of CBOR data');
+        }
+        length = size === 8 ? Number(buffer.readBigUInt64BE(position)) : buffer.readUIntBE(position, size);
+        position += size;
+    }
+
+    switch (major) {
+        case 0:
+            return { value: length, offset: position };
+        case 1:
+            return { value: -1 - length, offset: position };
+        case 2:
+        case 3: {
+            if (position + length > buffer.length) {
+                throw new Error('Unexpected end of CBOR data');
+            }
+            const bytes = buffer.subarray(position, position + length);
+            return {
+                value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'),
+                offset: position + length,
+            };
+        }
+        case 4: {
+            const items: unknown[] = [];
+            for (let i = 0; i < length; i++) {
+                const item = decodeCborItem(buffer, position);
+                items.push(item.value);
+                position = item.offset;
+            }
+            return { value: items, offset: position };
+        }
+        case 5: {
+            const map = new Map<unknown, unknown>();
+            for (let i = 0; i < length; i++) {
+                const key = decodeCborItem(buffer, position);
+                const entry = decodeCborItem(buffer, key.offset);
+                map.set(key.value, entry.value);
+                position = entry.offset;
+            }
+            return { value: map, offset: position };
+        }
+        default:
+            // Tags (major type 6) do not appear in WebAuthn structures
+            throw new Error(`Unsupported CBOR major type: ${major}`);
+    }
+};
+
+/**
+ * Decode a buffer holding exactly one CBOR data item
+ */
+export const decodeCbor = (buffer: Buffer): unknown => {
+    const { value, offset } = decodeCborItem(buffer);
+    if (offset !== buffer.length) {
+        throw new Error('Trailing bytes after CBOR data');
+    }
+    return value;
+};
+
+// ============================================
+// CEREMONY CHECKS
+// ============================================
+
+interface AuthenticatorData {
+    rpIdHash: Buffer;
+    flags: number;
+    signCount: number;
+    attestedCredential?: {
+        aaguid: string;
+        credentialId: Buffer;
+        publicKey: Map<unknown, unknown>;
+    };
+}
+
+/**
+ * Parse authenticator data (WebAuthn §6.1)
+ * @throws Error if the data is truncated
+ */
+const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+    if (data.length < 37) {
+        throw new Error('Authenticator data is too short');
+    }
+
+    const parsed: AuthenticatorData = {
+        rpIdHash: data.subarray(0, 32),
+        flags: data[32],
+        signCount: data.readUInt32BE(33),
+    };
+
+    if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+        if (data.length < 55) {
+            throw new Error('Attested credential data is truncated');
+        }
+        const aaguid = data.subarray(37, 53).toString('hex');
+        const idLength = data.readUInt16BE(53);
+        const credentialId = data.subarray(55, 55 + idLength);
+        if (credentialId.length !== idLength) {
+            throw new Error('Credential ID is truncated');
+        }
+
+        const publicKey = decodeCborItem(data, 55 + idLength).value;
+        if (!(publicKey instanceof Map)) {
+            throw new Error('Credential public key is not a COSE key');
+        }
+
+        parsed.attestedCredential = {
+            aaguid: aaguid.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5'),
+            credentialId: Buffer.from(credentialId),
+            publicKey,
+        };
+    }
+
+    return parsed;
+};
+
+/**
+ * Convert a COSE public key (RFC 9053) to a Node key object
+ * @returns The key and its algorithm, or null for unsupported key types
+ */
+const coseToPublicKey = (cose: Map<unknown, unknown>): { key: KeyObject; algorithm: number } | null => {
+    const kty = cose.get(1);
+    const algorithm = cose.get(3);
+    const coordinate = (label: number): string | null => {
+        const value = cose.get(label);
+        return Buffer.isBuffer(value) ? value.toString('base64url') : null;
+    };
+
+    try {
+        if (kty === 2 && algorithm === -7 && cose.get(-1) === 1) {
+            const x = coordinate(-2);
+            const y = coordinate(-3);
+            if (!x || !y) return null;
+            return { key: createPublicKey({ key: { kty: 'EC', crv: 'P-256', x, y }, format: 'jwk' }), algorithm };
+        }
+        if (kty === 1 && algorithm === -8 && cose.get(-1) === 6) {
+            const x = coordinate(-2);
+            if (!x) return null;
+            return { key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x }, format: 'jwk' }), algorithm };
+        }
+        if (kty === 3 && algorithm === -257) {
+            const n = coordinate(-1);
+            const e = coordinate(-2);
+            if (!n || !e) return null;
+            return { key: createPublicKey({ key: { kty: 'RSA', n, e }, format: 'jwk' }), algorithm };
+        }
+    } catch {
+        return null;
+    }
+
+    return null;
+};
+
+/**
+ * Check a signature made by a credential over authenticator data + client data hash
+ */
+const verifyAssertionSignature = (
+    algorithm: number,
+    publicKey: KeyObject | string,
+    data: Buffer,
+    signature: Buffer
+): boolean => {
+    try {
+        // EdDSA hashes internally; ES256 signatures are DER-encoded, Node's default
+        return verify(algorithm === -8 ? null : 'sha256', data, publicKey, signature);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Decode clientDataJSON (base64url) into the fields we check
+ * @returns The client data, or null if it is not valid JSON of the expected shape
+ */
+export const parseClientData = (clientDataJSON: string): ClientData | null => {
+    try {
+        const data = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+        if (typeof data?.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string') {
+            return null;
+        }
+        return { type: data.type, challenge: data.challenge, origin: data.origin };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Checks shared by registration and login (§7.1 steps 7-14, §7.2 steps 11-16)
+ * @returns A reason the response is invalid, or null if it passes
+ */
+const checkCeremony = (
+    clientDataJSON: string,
+    authenticatorData: AuthenticatorData,
+    type: 'webauthn.create' | 'webauthn.get',
+    challenge: string,
+    config: WebAuthnConfig
+): string | null => {
+    const clientData = parseClientData(clientDataJSON);
+    if (!clientData || clientData.type !== type) {
+        return 'Unexpected client data type';
+    }
+
+    const presented = Buffer.from(clientData.challenge);
+    const expected = Buffer.from(challenge);
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+        return 'Challenge does not match';
+    }
+
+    if (!config.origins.includes(clientData.origin)) {
+        return `Origin ${clientData.origin} is not allowed`;
+    }
+
+    if (!authenticatorData.rpIdHash.equals(createHash('sha256').update(config.rpId).digest())) {
+        return 'Credential is scoped to a different relying party';
+    }
+
+    if (!(authenticatorData.flags & FLAG_USER_PRESENT)) {
+        return 'User presence was not confirmed';
+    }
+
+    return null;
+};
+
+/**
+ * Verify the response to a registration ceremony (WebAuthn §7.1)
+ * @param challenge - The challenge issued for this ceremony (base64url)
+ */
+export const verifyRegistrationResponse = (
+    credential: RegistrationCredentialJSON,
+    challenge: string,
+    config: WebAuthnConfig = getWebAuthnConfig()
+): RegistrationVerification => {
+    let attestation: Map<unknown, unknown>;
+    let authenticatorData: AuthenticatorData;
+    try {
+        const decoded = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url'));
+        if (!(decoded instanceof Map) || !Buffer.isBuffer(decoded.get('authData'))) {
+            return { status: 'rejected', reason: 'Malformed attestation object' };
+        }
+        attestation = decoded;
+        authenticatorData = parseAuthenticatorData(decoded.get('authData') as Buffer);
+    } catch {
+        return { status: 'rejected', reason: 'Malformed attestation object' };
+    }
+
+    const reason = checkCeremony(credential.response.clientDataJSON, authenticatorData, 'webauthn.create', challenge, config);
+    if (reason) {
+        return { status: 'rejected', reason };
+    }
+
+    const attested = authenticatorData.attestedCredential;
+    if (!attested) {
+        return { status: 'rejected', reason: 'No credential in attestation' };
+    }
+
+    const credentialId = attested.credentialId.toString('base64url');
+    if (credentialId !== credential.id) {
+        return { status: 'rejected', reason: 'Credential ID does not match' };
+    }
+
+    const publicKey = coseToPublicKey(attested.publicKey);
+    if (!publicKey || !WEBAUTHN_ALGORITHMS.includes(publicKey.algorithm)) {
+        return { status: 'rejected', reason: 'Unsupported public key algorithm' };
+    }
+
+    // Attestation: none, or a packed statement signed by the credential itself
+    const format = attestation.get('fmt');
+    const statement = attestation.get('attStmt');
+    if (!(statement instanceof Map)) {
+        return { status: 'rejected', reason: 'Malformed attestation statement' };
+    }
+    if (format === 'packed' && !statement.has('x5c')) {
+        const signed = Buffer.concat([
+            attestation.get('authData') as Buffer,
+            createHash('sha256').update(Buffer.from(credential.response.clientDataJSON, 'base64url')).digest(),
+        ]);
+        const signature = statement.get('sig');
+        if (statement.get('alg') !== publicKey.algorithm || !Buffer.isBuffer(signature)
+            || !verifyAssertionSignature(publicKey.algorithm, publicKey.key, signed, signature)) {
+            return { status: 'rejected', reason: 'Attestation signature is invalid' };
+        }
+    } else if (format !== 'none' || statement.size !== 0) {
+        return { status: 'rejected', reason: 'Unsupported attestation format' };
+    }
+
+    return {
+        status: 'verified',
+        credential: {
+            credentialId,
+            publicKey: publicKey.key.export({ type: 'spki', format: 'pem' }).toString(),
+            algorithm: publicKey.algorithm,
+            signCount: authenticatorData.signCount,
+            transports: (credential.response.transports ?? []).filter((transport) => TRANSPORTS.includes(transport)),
+            aaguid: attested.aaguid,
+            backupEligible: Boolean(authenticatorData.flags & FLAG_BACKUP_ELIGIBLE),
+            backedUp: Boolean(authenticatorData.flags & FLAG_BACKED_UP),
+        },
+    };
+};
+
+/**
+ * Verify the response to a login ceremony (WebAuthn §7.2)
+ * A signature counter that does not move forward suggests a cloned authenticator
+ * and fails the login (authenticators that do not count always report 0)
+ * @param challenge - The challenge issued for this ceremony (base64url)
+ */
+export const verifyAuthenticationResponse = (
+    credential: AuthenticationCredentialJSON,
+    challenge: string,
+    stored: Pick<StoredWebAuthnCredential, 'publicKey' | 'algorithm' | 'signCount'>,
+    config: WebAuthnConfig = getWebAuthnConfig()
+): AuthenticationVerification => {
+    const rawAuthenticatorData = Buffer.from(credential.response.authenticatorData, 'base64url');
+
+    let authenticatorData: AuthenticatorData;
+    try {
+        authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+    } catch {
+        return { status: 'rejected', reason: 'Malformed authenticator data' };
+    }
+
+    const reason = checkCeremony(credential.response.clientDataJSON, authenticatorData, 'webauthn.get', challenge, config);
+    if (reason) {
+        return { status: 'rejected', reason };
+    }
+
+    const signed = Buffer.concat([
+        rawAuthenticatorData,
+        createHash('sha256').update(Buffer.from(credential.response.clientDataJSON, 'base64url')).digest(),
+    ]);
+    const signature = Buffer.from(credential.response.signature, 'base64url');
+    if (!verifyAssertionSignature(stored.algorithm, stored.publicKey, signed, signature)) {
+        return { status: 'rejected', reason: 'Signature is invalid' };
+    }
+
+    const { signCount } = authenticatorData;
+    if ((signCount > 0 || stored.signCount > 0) && signCount <= stored.signCount) {
+        return { status: 'rejected', reason: 'Signature counter did not increase' };
+    }
+
+    return {
+        status: 'verified',
+        signCount,
+        userVerified: Boolean(authenticatorData.flags & FLAG_USER_VERIFIED),
+        backedUp: Boolean(authenticatorData.flags & FLAG_BACKED_UP),
+    };
+};
+
+// ============================================
+// CEREMONY OPTIONS
+// ============================================
+
+/**
+ * Relying party settings
+ * WEBAUTHN_ORIGINS lists the pages (comma-separated) that run the ceremonies,
+ * usually the frontend; WEBAUTHN_RP_ID defaults to the first origin's host
+ */
+export const getWebAuthnConfig = (): WebAuthnConfig => {
+    const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+    const origins = getEnvVar('WEBAUTHN_ORIGINS', new URL(baseUrl).origin)
+        .split(',')
+        .map((origin) => origin.trim().replace(/\/+$/, ''))
+        .filter(Boolean);
+
+    return {
+        rpId: getEnvVar('WEBAUTHN_RP_ID', new URL(origins[0]).hostname),
+        rpName: getEnvVar('WEBAUTHN_RP_NAME', 'Auth²'),
+        origins,
+    };
+};
+
+/**
+ * Options for navigator.credentials.create() (PublicKeyCredentialCreationOptionsJSON)
+ * Existing credentials are excluded so an authenticator is not registered twice
+ */
+export const buildRegistrationOptions = (details: {
+    challenge: string;
+    userHandle: string;
+    email: string;
+    displayName: string;
+    existing: Pick<WebAuthnCredentialSummary, 'id' | 'transports'>[];
+}, config: WebAuthnConfig = getWebAuthnConfig()) => ({
+    challenge: details.challenge,
+    rp: { id: config.rpId, name: config.rpName },
+    user: { id: details.userHandle, name: details.email, displayName: details.displayName },
+    pubKeyCredParams: WEBAUTHN_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: WEBAUTHN_CHALLENGE_TIMEOUT_SECONDS * 1000,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+    excludeCredentials: details.existing.map((credential) => ({
+        type: 'public-key',
+        id: credential.id,
+        transports: credential.transports,
+    })),
+});
+
+/**
+ * Options for navigator.credentials.get() (PublicKeyCredentialRequestOptionsJSON)
+ * No allowCredentials: passkeys are discoverable, so the user picks an account
+ * on their device and we never reveal which emails have passkeys
+ */
+export const buildAuthenticationOptions = (challenge: string, config: WebAuthnConfig = getWebAuthnConfig()) => ({
+    challenge,
+    rpId: config.rpId,
+    timeout: WEBAUTHN_CHALLENGE_TIMEOUT_SECONDS * 1000,
+    userVerification: 'preferred',
+});
+
+// ============================================
+// STORAGE
+// ============================================
+
+const toSummary = (row: QueryResultRow): WebAuthnCredentialSummary => ({
+    id: row.credential_id,
+    name: row.name,
+    transports: row.transports,
+    backedUp: row.backed_up,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+});
+
+/**
+ * Issue a single-use ceremony challenge
+ * Registration challenges are bound to the account; login challenges to no one
+ */
+export const createWebAuthnChallenge = async (
+    purpose: WebAuthnChallengePurpose,
+    accountId: number | null
+): Promise<string> => {
+    const pool = getPool();
+    const challenge = randomBytes(32).toString('base64url');
+
+    await pool.query('DELETE FROM WebAuthn_Challenge WHERE Expires_At < NOW()');
+    await pool.query(
+        `INSERT INTO WebAuthn_Challenge (Challenge_Hash, Account_ID, Purpose, Expires_At)
+         VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))`,
+        [generateTokenHash(challenge), accountId, purpose, WEBAUTHN_CHALLENGE_TIMEOUT_SECONDS]
+    );
+
+    return challenge;
+};
+
+/**
+ * Use up a ceremony challenge
+ * @returns false if it is unknown, expired, already used, or for another purpose or account
+ */
+export const consumeWebAuthnChallenge = async (
+    challenge: string,
+    purpose: WebAuthnChallengePurpose,
+    accountId: number | null
+): Promise<boolean> => {
+    const result = await getPool().query(
+        `DELETE FROM WebAuthn_Challenge
+         WHERE Challenge_Hash = $1 AND Purpose = $2 AND Account_ID IS NOT DISTINCT FROM $3 AND Expires_At > NOW()
+         RETURNING Challenge_Hash`,
+        [generateTokenHash(challenge), purpose, accountId]
+    );
+
+    return result.rowCount > 0;
+};
+
+/**
+ * Get the account's WebAuthn user handle, creating it on first use
+ * A random handle rather than the account ID, so authenticators hold nothing identifying
+ */
+export const getWebAuthnUserHandle = async (accountId: number): Promise<string> => {
+    const result = await getPool().query(
+        `UPDATE Account SET WebAuthn_User_Handle = COALESCE(WebAuthn_User_Handle, $2)
+         WHERE Account_ID = $1
+         RETURNING WebAuthn_User_Handle`,
+        [accountId, randomBytes(32).toString('base64url')]
+    );
+
+    return result.rows[0].webauthn_user_handle;
+};
+
+/**
+ * List an account's passkeys, newest first
+ */
+export const listWebAuthnCredentials = async (accountId: number): Promise<WebAuthnCredentialSummary[]> => {
+    const result = await getPool().query(
+        `SELECT Credential_ID, Name, Transports, Backed_Up, Created_At, Last_Used_At
+         FROM WebAuthn_Credential
+         WHERE Account_ID = $1
+         ORDER BY Created_At DESC`,
+        [accountId]
+    );
+
+    return result.rows.map(toSummary);
+};
+
+/**
+ * Store a verified credential
+ * @returns The stored passkey, or null if the credential ID is already registered
+ */
+export const saveWebAuthnCredential = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    name: string,
+    credential: VerifiedCredential
+): Promise<WebAuthnCredentialSummary | null> => {
+    const result = await queryable.query(
+        `INSERT INTO WebAuthn_Credential
+            (Credential_ID, Account_ID, Name, Public_Key, Algorithm, Sign_Count, Transports, AAGUID, Backup_Eligible, Backed_Up)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (Credential_ID) DO NOTHING
+         RETURNING Credential_ID, Name, Transports, Backed_Up, Created_At, Last_Used_At`,
+        [
+            credential.credentialId,
+            accountId,
+            name,
+            credential.publicKey,
+            credential.algorithm,
+            credential.signCount,
+            credential.transports,
+            credential.aaguid,
+            credential.backupEligible,
+            credential.backedUp,
+        ]
+    );
+
+    return result.rowCount > 0 ? toSummary(result.rows[0]) : null;
+};
+
+/**
+ * Remove one of an account's passkeys
+ * @returns The removed passkey, or null if it was not found
+ */
+export const deleteWebAuthnCredential = async (
+    queryable: Pool | PoolClient,
+    accountId: number,
+    credentialId: string
+): Promise<WebAuthnCredentialSummary | null> => {
+    const result = await queryable.query(
+        `DELETE FROM WebAuthn_Credential
+         WHERE Credential_ID = $1 AND Account_ID = $2
+         RETURNING Credential_ID, Name, Transports, Backed_Up, Created_At, Last_Used_At`,
+        [credentialId, accountId]
+    );
+
+    return result.rowCount > 0 ? toSummary(result.rows[0]) : null;
+};
+
+/**
+ * Find a credential presented at login, with its account's user handle
+ */
+export const findWebAuthnCredential = async (credentialId: string): Promise<StoredWebAuthnCredential | null> => {
+    const result = await getPool().query(
+        `SELECT c.Credential_ID, c.Account_ID, c.Public_Key, c.Algorithm, c.Sign_Count, a.WebAuthn_User_Handle
+         FROM WebAuthn_Credential c
+         JOIN Account a ON a.Account_ID = c.Account_ID
+         WHERE c.Credential_ID = $1`,
+        [credentialId]
+    );
+
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    return {
+        credentialId: row.credential_id,
+        accountId: row.account_id,
+        publicKey: row.public_key,
+        algorithm: row.algorithm,
+        signCount: Number(row.sign_count),
+        userHandle: row.webauthn_user_handle,
+    };
+};
+
+/**
+ * Record a successful login with a credential
+ */
+export const recordWebAuthnCredentialUse = async (
+    credentialId: string,
+    signCount: number,
+    backedUp: boolean
+): Promise<void> => {
+    await getPool().query(
+        `UPDATE WebAuthn_Credential
+         SET Sign_Count = $2, Backed_Up = $3, Last_Used_At = NOW()
+         WHERE Credential_ID = $1`,
+        [credentialId, signCount, backedUp]
+    );
+};
@@ -1,8 +1,18 @@
 // src/routes/admin/index.ts
 import express from 'express';
 import { AdminController } from '@controllers/adminController';
-import { checkToken } from '@middleware/jwt';
-import { requireAdmin } from '@middleware/adminAuth';
+import { checkToken, requireRecentAuth } from '@middleware/jwt';
+import { requireAdmin, requireOwner } from '@middleware/adminAuth';
+import {
+    validateAuditQuery,
+    validateImpersonation,
+    validateOAuthClientCreate,
+    validateOAuthClientIdParam,
+    validateServiceAccountCreate,
+    validateServiceAccountIdParam,
+    validateSessionIdParam,
+    validateTokenIdParam
+} from '@middleware/validation';
 
 const router = express.Router();
 
@@ -35,7 +45,52 @@ router.delete('/users/:id', checkToken, requireAdmin, AdminController.deleteUser
 // reset user password (admin override)
 router.put('/users/:id/password', checkToken, requireAdmin, AdminController.resetUserPassword);
 
-// change user role
-router.put('/users/:id/role', checkToken, requireAdmin, AdminController.changeUserRole);
+// change user role (requires the admin to have entered their password recently)
+router.put('/users/:id/role', checkToken, requireAdmin, requireRecentAuth(), AdminController.changeUserRole);
+
+// unlock account locked by failed logins
+router.post('/users/:id/unlock', checkToken, requireAdmin, AdminController.unlockUser);
+
+// list a user's active sessions
+router.get('/users/:id/sessions', checkToken, requireAdmin, AdminController.listUserSessions);
+
+// revoke all of a user's sessions
+router.delete('/users/:id/sessions', checkToken, requireAdmin, AdminController.revokeAllUserSessions);
+
+// revoke one of a user's sessions
+router.delete('/users/:id/sessions/:sessionId', checkToken, requireAdmin, validateSessionIdParam, AdminController.revokeUserSession);
+
+// list a user's personal access tokens
+router.get('/users/:id/tokens', checkToken, requireAdmin, AdminController.listUserTokens);
+
+// revoke one of a user's personal access tokens
+router.delete('/users/:id/tokens/:tokenId', checkToken, requireAdmin, validateTokenIdParam, AdminController.revokeUserToken);
+
+// act as a user with a lower role for support (short-lived, audited)
+router.post('/users/:id/impersonate', checkToken, requireAdmin, validateImpersonation, AdminController.impersonateUser);
+
+// search the security audit log
+router.get('/audit', checkToken, requireAdmin, validateAuditQuery, AdminController.getAuditLog);
+
+// register an OAuth client
+router.post('/oauth/clients', checkToken, requireAdmin, validateOAuthClientCreate, AdminController.createOAuthClient);
+
+// list OAuth clients
+router.get('/oauth/clients', checkToken, requireAdmin, AdminController.listOAuthClients);
+
+// revoke an OAuth client
+router.delete('/oauth/clients/:clientId', checkToken, requireAdmin, validateOAuthClientIdParam, AdminController.revokeOAuthClient);
+
+// register a service account (Owner only)
+router.post('/service-accounts', checkToken, requireOwner, validateServiceAccountCreate, AdminController.createServiceAccount);
+
+// list service accounts (Owner only)
+router.get('/service-accounts', checkToken, requireOwner, AdminController.listServiceAccounts);
+
+// rotate a service account's secret (Owner only)
+router.post('/service-accounts/:clientId/secret', checkToken, requireOwner, validateServiceAccountIdParam, AdminController.rotateServiceAccountSecret);
+
+// revoke a service account (Owner only)
+router.delete('/service-accounts/:clientId', checkToken, requireOwner, validateServiceAccountIdParam, AdminController.revokeServiceAccount);
 
 export default router;
@@ -1,11 +1,33 @@
 // src/routes/closed/index.ts
 import express, { Router } from 'express';
-import { AuthController, VerificationController } from '@controllers';
-import { checkToken } from '@middleware';
 import {
+    AuthController,
+    FederatedController,
+    MfaController,
+    PersonalAccessTokenController,
+    ProfileController,
+    SessionController,
+    VerificationController,
+    WebAuthnController
+} from '@controllers';
+import { checkToken, requireInteractiveLogin, requireRecentAuth, requireTokenScope } from '@middleware';
+import {
+    validateAccountDeletion,
+    validateEmailChange,
     validatePasswordChange,
+    validatePhoneChange,
+    validatePersonalAccessTokenCreate,
+    validateProfileUpdate,
+    validateReauthenticate,
+    validateFederatedProviderParam,
+    validateSessionIdParam,
+    validateTokenIdParam,
+    validateTotpConfirm,
+    validateTotpDisable,
     validatePhoneSend,
-    validatePhoneVerify
+    validatePhoneVerify,
+    validateWebAuthnCredentialIdParam,
+    validateWebAuthnRegistration
 } from '@middleware/validation';
 
 const closedRoutes: Router = express.Router();
@@ -13,13 +35,184 @@ const closedRoutes: Router = express.Router();
 // All closed routes require authentication
 closedRoutes.use(checkToken);
 
+// Personal access tokens need the account:read / account:write scope for /auth routes
+closedRoutes.use('/auth', requireTokenScope('account'));
+
 // ===== AUTHENTICATED AUTH ROUTES =====
 
 /**
- * Change password (requires authentication and old password)
+ * Log out the current session (revokes this access token and optional refresh token)
+ * POST /auth/logout
+ */
+closedRoutes.post('/auth/logout', requireInteractiveLogin, AuthController.logout);
+
+/**
+ * Log out of every session (revokes all tokens issued so far)
+ * POST /auth/logout-all
+ */
+closedRoutes.post('/auth/logout-all', requireInteractiveLogin, AuthController.logoutAll);
+
+/**
+ * Get my profile
+ * GET /auth/me
+ */
+closedRoutes.get('/auth/me', ProfileController.getProfile);
+
+/**
+ * Update my name and username
+ * PATCH /auth/me
+ */
+closedRoutes.patch('/auth/me', validateProfileUpdate, ProfileController.updateProfile);
+
+/**
+ * Change my email address (sends a confirmation link to the new address; requires a recent login)
+ * POST /auth/me/email
+ */
+closedRoutes.post('/auth/me/email', requireInteractiveLogin, requireRecentAuth(), validateEmailChange, ProfileController.requestEmailChange);
+
+/**
+ * Change my phone number (texts a code to the new number; requires a recent login)
+ * POST /auth/me/phone
+ */
+closedRoutes.post('/auth/me/phone', requireInteractiveLogin, requireRecentAuth(), validatePhoneChange, ProfileController.requestPhoneChange);
+
+/**
+ * Confirm my new phone number with the texted code
+ * POST /auth/me/phone/verify
+ */
+closedRoutes.post('/auth/me/phone/verify', requireInteractiveLogin, validatePhoneVerify, ProfileController.confirmPhoneChange);
+
+/**
+ * Delete my account after a grace period (requires my password; logs out every session)
+ * DELETE /auth/me
+ */
+closedRoutes.delete('/auth/me', requireInteractiveLogin, validateAccountDeletion, ProfileController.deleteAccount);
+
+/**
+ * Cancel my scheduled account deletion
+ * POST /auth/me/deletion/cancel
+ */
+closedRoutes.post('/auth/me/deletion/cancel', requireInteractiveLogin, ProfileController.cancelDeletion);
+
+/**
+ * Download everything held about me as JSON (requires a recent login)
+ * GET /auth/me/export
+ */
+closedRoutes.get('/auth/me/export', requireInteractiveLogin, requireRecentAuth(), ProfileController.exportData);
+
+/**
+ * List my active sessions (devices I am logged in on)
+ * GET /auth/sessions
+ */
+closedRoutes.get('/auth/sessions', SessionController.listSessions);
+
+/**
+ * Revoke one of my sessions
+ * DELETE /auth/sessions/:sessionId
+ */
+closedRoutes.delete('/auth/sessions/:sessionId', validateSessionIdParam, SessionController.revokeSession);
+
+/**
+ * Confirm my password again (returns an access token with a fresh auth_time)
+ * POST /auth/reauthenticate
+ */
+closedRoutes.post('/auth/reauthenticate', requireInteractiveLogin, validateReauthenticate, AuthController.reauthenticate);
+
+/**
+ * Change password (requires a recent login and the old password)
  * POST /auth/user/password/change
  */
-closedRoutes.post('/auth/user/password/change', validatePasswordChange, AuthController.changePassword);
+closedRoutes.post('/auth/user/password/change', requireInteractiveLogin, requireRecentAuth(), validatePasswordChange, AuthController.changePassword);
+
+// ===== PERSONAL ACCESS TOKEN ROUTES =====
+
+/**
+ * Create a personal access token (the token is only shown in this response)
+ * POST /auth/tokens
+ */
+closedRoutes.post('/auth/tokens', requireInteractiveLogin, requireRecentAuth(), validatePersonalAccessTokenCreate, PersonalAccessTokenController.createToken);
+
+/**
+ * List my personal access tokens
+ * GET /auth/tokens
+ */
+closedRoutes.get('/auth/tokens', PersonalAccessTokenController.listTokens);
+
+/**
+ * Revoke one of my personal access tokens
+ * DELETE /auth/tokens/:tokenId
+ */
+closedRoutes.delete('/auth/tokens/:tokenId', requireInteractiveLogin, validateTokenIdParam, PersonalAccessTokenController.revokeToken);
+
+// ===== TWO-FACTOR AUTHENTICATION ROUTES =====
+// Managing login factors requires a recent login (see POST /auth/reauthenticate)
+
+/**
+ * Start authenticator app enrollment (returns secret and otpauth:// URI)
+ * POST /auth/mfa/totp/setup
+ */
+closedRoutes.post('/auth/mfa/totp/setup', requireInteractiveLogin, requireRecentAuth(), MfaController.setupTotp);
+
+/**
+ * Confirm enrollment with the first code (enables 2FA, returns recovery codes)
+ * POST /auth/mfa/totp/confirm
+ */
+closedRoutes.post('/auth/mfa/totp/confirm', requireInteractiveLogin, requireRecentAuth(), validateTotpConfirm, MfaController.confirmTotp);
+
+/**
+ * Disable 2FA (requires password and a current or recovery code)
+ * POST /auth/mfa/totp/disable
+ */
+closedRoutes.post('/auth/mfa/totp/disable', requireInteractiveLogin, requireRecentAuth(), validateTotpDisable, MfaController.disableTotp);
+
+// ===== PASSKEY ROUTES =====
+// Adding or removing a passkey requires a recent login
+
+/**
+ * Start registering a passkey (options for navigator.credentials.create())
+ * POST /auth/webauthn/register/options
+ */
+closedRoutes.post('/auth/webauthn/register/options', requireInteractiveLogin, requireRecentAuth(), WebAuthnController.registrationOptions);
+
+/**
+ * Finish registering a passkey with the authenticator's response
+ * POST /auth/webauthn/register/verify
+ */
+closedRoutes.post('/auth/webauthn/register/verify', requireInteractiveLogin, requireRecentAuth(), validateWebAuthnRegistration, WebAuthnController.verifyRegistration);
+
+/**
+ * List my passkeys
+ * GET /auth/webauthn/credentials
+ */
+closedRoutes.get('/auth/webauthn/credentials', WebAuthnController.listCredentials);
+
+/**
+ * Remove one of my passkeys
+ * DELETE /auth/webauthn/credentials/:credentialId
+ */
+closedRoutes.delete('/auth/webauthn/credentials/:credentialId', requireInteractiveLogin, requireRecentAuth(), validateWebAuthnCredentialIdParam, WebAuthnController.deleteCredential);
+
+// ===== FEDERATED LOGIN ROUTES =====
+
+/**
+ * Start linking an external identity provider to my account (returns the URL to open)
+ * POST /auth/federated/:provider/link
+ */
+closedRoutes.post('/auth/federated/:provider/link', requireInteractiveLogin, requireRecentAuth(), validateFederatedProviderParam, FederatedController.startLink);
+
+/**
+ * List the identity providers linked to my account
+ * GET /auth/federated/identities
+ */
+closedRoutes.get('/auth/federated/identities', FederatedController.listIdentities);
+
+/**
+ * Unlink an identity provider from my account
+ * DELETE /auth/federated/identities/:provider
+ */
+closedRoutes.delete('/auth/federated/identities/:provider', requireInteractiveLogin, validateFederatedProviderParam, FederatedController.unlinkIdentity);
+
+// ===== VERIFICATION ROUTES =====
 
 /**
  * Send SMS verification code
@@ -1,13 +1,38 @@
 // src/routes/open/index.ts
 import express, { Router } from 'express';
-import { AuthController, VerificationController } from '@controllers';
+import {
+    AuthController,
+    FederatedController,
+    MagicLinkController,
+    MfaController,
+    OAuthController,
+    ProfileController,
+    SmsLoginController,
+    VerificationController,
+    WebAuthnController
+} from '@controllers';
 import { docsRoutes } from './docs';
+import { wellKnownRoutes } from './wellKnown';
+import { oauthRoutes } from './oauth';
 import {
     validateLogin,
+    validateMagicLinkRequest,
+    validateMagicLinkQuery,
+    validateMagicLinkBody,
+    validateSmsLoginRequest,
+    validateSmsLogin,
+    validateWebAuthnLogin,
+    validateFederatedProviderParam,
+    validateFederatedCallback,
+    validateMfaLogin,
+    validateRefreshToken,
     validateRegister,
     validatePasswordResetRequest,
     validatePasswordReset,
+    validatePasswordStrength,
     validateEmailToken,
+    validateEmailChangeToken,
+    validateUnlockToken,
     validatePhoneSend,
     validatePhoneVerify
 } from '@middleware/validation';
@@ -22,6 +47,74 @@ const openRoutes: Router = express.Router();
  */
 openRoutes.post('/auth/login', validateLogin, AuthController.login);
 
+/**
+ * Finish a login that requires two-factor authentication
+ * POST /auth/login/mfa
+ */
+openRoutes.post('/auth/login/mfa', validateMfaLogin, MfaController.completeMfaLogin);
+
+/**
+ * Email a single-use login link (passwordless login)
+ * POST /auth/login/magic-link
+ */
+openRoutes.post('/auth/login/magic-link', validateMagicLinkRequest, MagicLinkController.requestMagicLink);
+
+/**
+ * Log in with an emailed link (same response as POST /auth/login)
+ * GET /auth/login/magic-link/verify?token=xxx
+ * POST /auth/login/magic-link/verify
+ */
+openRoutes.get('/auth/login/magic-link/verify', validateMagicLinkQuery, MagicLinkController.verifyMagicLink);
+openRoutes.post('/auth/login/magic-link/verify', validateMagicLinkBody, MagicLinkController.verifyMagicLink);
+
+/**
+ * Text a login code to a verified phone number (passwordless login)
+ * POST /auth/login/sms
+ */
+openRoutes.post('/auth/login/sms', validateSmsLoginRequest, SmsLoginController.requestSmsCode);
+
+/**
+ * Log in with an SMS code (same response as POST /auth/login)
+ * POST /auth/login/sms/verify
+ */
+openRoutes.post('/auth/login/sms/verify', validateSmsLogin, SmsLoginController.verifySmsCode);
+
+/**
+ * Start a passkey login (options for navigator.credentials.get())
+ * POST /auth/login/webauthn/options
+ */
+openRoutes.post('/auth/login/webauthn/options', WebAuthnController.authenticationOptions);
+
+/**
+ * Log in with a passkey (same response as POST /auth/login)
+ * POST /auth/login/webauthn/verify
+ */
+openRoutes.post('/auth/login/webauthn/verify', validateWebAuthnLogin, WebAuthnController.verifyAuthentication);
+
+/**
+ * List the external identity providers users can log in with
+ * GET /auth/federated/providers
+ */
+openRoutes.get('/auth/federated/providers', FederatedController.listProviders);
+
+/**
+ * Start a login with an external identity provider (redirects to the provider)
+ * GET /auth/federated/:provider/start
+ */
+openRoutes.get('/auth/federated/:provider/start', validateFederatedProviderParam, FederatedController.startLogin);
+
+/**
+ * Return from the identity provider (same response as POST /auth/login, or confirms a link)
+ * GET /auth/federated/:provider/callback?code=xxx&state=xxx
+ */
+openRoutes.get('/auth/federated/:provider/callback', validateFederatedCallback, FederatedController.callback);
+
+/**
+ * Exchange a refresh token for a new access token (rotates the refresh token)
+ * POST /auth/token/refresh
+ */
+openRoutes.post('/auth/token/refresh', validateRefreshToken, AuthController.refreshToken);
+
 /**
  * Register a new user (always creates basic user with role 1)
  * POST /auth/register
@@ -42,6 +135,20 @@ openRoutes.post('/auth/password/reset-request', validatePasswordResetRequest, Au
  */
 openRoutes.post('/auth/password/reset', validatePasswordReset, AuthController.resetPassword);
 
+/**
+ * Estimate password strength for a strength meter (same checks as the password policy)
+ * POST /auth/password/strength
+ */
+openRoutes.post('/auth/password/strength', validatePasswordStrength, AuthController.checkPasswordStrength);
+
+// ===== ACCOUNT LOCKOUT ROUTES =====
+
+/**
+ * Unlock account via emailed link (can be accessed without authentication)
+ * GET /auth/unlock?token=xxx
+ */
+openRoutes.get('/auth/unlock', validateUnlockToken, AuthController.unlockAccount);
+
 // ===== VERIFICATION ROUTES =====
 
 /**
@@ -56,6 +163,18 @@ openRoutes.get('/auth/verify/carriers', VerificationController.getCarriers);
  */
 openRoutes.get('/auth/verify/email/confirm', validateEmailToken, VerificationController.confirmEmailVerification);
 
+/**
+ * Confirm an email change from the link sent to the new address
+ * GET /auth/email-change/confirm?token=xxx
+ */
+openRoutes.get('/auth/email-change/confirm', validateEmailChangeToken, ProfileController.confirmEmailChange);
+
+/**
+ * Undo an email change from the link sent to the old address (logs out every session)
+ * GET /auth/email-change/undo?token=xxx
+ */
+openRoutes.get('/auth/email-change/undo', validateEmailChangeToken, ProfileController.undoEmailChange);
+
 // ===== TESTING ROUTES =====
 
 /**
@@ -81,4 +200,31 @@ openRoutes.post('/auth/seed-admin', validateRegister, AuthController.seedAdmin);
  */
 openRoutes.use('/doc', docsRoutes);
 
+// ===== OAUTH ROUTES =====
+
+/**
+ * OAuth 2.0 authorization server for third-party apps
+ * GET/POST /oauth/authorize - Sign-in and consent page
+ * POST /oauth/token - Authorization code, refresh token and client credentials grants
+ * POST /oauth/introspect - Token introspection (RFC 7662)
+ * POST /oauth/revoke - Token revocation (RFC 7009)
+ */
+openRoutes.use('/oauth', oauthRoutes);
+
+/**
+ * OpenID Connect UserInfo - standard claims for the bearer of an access token
+ * GET/POST /userinfo
+ */
+openRoutes.get('/userinfo', OAuthController.userinfo);
+openRoutes.post('/userinfo', OAuthController.userinfo);
+
+// ===== DISCOVERY ROUTES =====
+
+/**
+ * Well-known discovery documents
+ * GET /.well-known/jwks.json - Public keys for verifying our JWTs
+ * GET /.well-known/openid-configuration - OpenID Connect discovery document
+ */
+openRoutes.use('/.well-known', wellKnownRoutes);
+
 export { openRoutes };
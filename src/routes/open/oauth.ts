@@ -0,0 +1,51 @@
+/**
+ * OAuth Routes
+ *
+ * OAuth 2.0 authorization server (RFC 6749) for third-party apps, using the
+ * authorization code flow with mandatory PKCE (RFC 7636). Clients are
+ * registered by admins at /admin/oauth/clients.
+ *
+ * These endpoints follow the OAuth specifications rather than the API's own
+ * conventions: requests are form-encoded and errors use the
+ * { error, error_description } format.
+ */
+
+import { Router } from 'express';
+
+import { OAuthController } from '@controllers';
+import { sanitizeOAuthAuthorizeForm } from '@middleware/validation';
+
+const router = Router();
+
+/**
+ * Sign-in and consent page
+ * GET /oauth/authorize?response_type=code&client_id=...&redirect_uri=...&scope=...&state=...
+ *     &code_challenge=...&code_challenge_method=S256
+ */
+router.get('/authorize', OAuthController.authorize);
+
+/**
+ * Sign-in and consent form submission - redirects back to the client
+ * POST /oauth/authorize
+ */
+router.post('/authorize', sanitizeOAuthAuthorizeForm, OAuthController.authorizeSubmit);
+
+/**
+ * Token endpoint
+ * POST /oauth/token (grant_type=authorization_code | refresh_token | client_credentials)
+ */
+router.post('/token', OAuthController.token);
+
+/**
+ * Token introspection (RFC 7662)
+ * POST /oauth/introspect
+ */
+router.post('/introspect', OAuthController.introspect);
+
+/**
+ * Token revocation (RFC 7009)
+ * POST /oauth/revoke
+ */
+router.post('/revoke', OAuthController.revoke);
+
+export const oauthRoutes = router;
@@ -0,0 +1,49 @@
+/**
+ * Well-Known Routes
+ *
+ * Standard discovery documents (RFC 8615) that other services fetch to
+ * integrate with this one without sharing configuration by hand.
+ */
+
+import { Router, Request, Response } from 'express';
+
+import { getJwks, getOpenIdConfiguration, sendError, ErrorCodes } from '@utilities';
+
+const router = Router();
+
+/**
+ * JSON Web Key Set
+ * GET /.well-known/jwks.json
+ *
+ * Public keys for verifying our JWTs. Pick the key whose kid matches the
+ * token header. Every configured key is listed, so tokens signed before a
+ * rotation keep verifying until they expire.
+ */
+router.get('/jwks.json', (request: Request, response: Response) => {
+    try {
+        response.set('Cache-Control', 'public, max-age=300');
+        response.json(getJwks());
+    } catch (error) {
+        console.error('JWKS error:', error);
+        sendError(response, 500, 'Signing keys are not available', ErrorCodes.SRVR_GENERIC_ERROR);
+    }
+});
+
+/**
+ * OpenID Connect discovery document
+ * GET /.well-known/openid-configuration
+ *
+ * Lists our endpoints, keys and supported features so standard OIDC client
+ * libraries can configure themselves from the issuer URL alone.
+ */
+router.get('/openid-configuration', (request: Request, response: Response) => {
+    try {
+        response.set('Cache-Control', 'public, max-age=300');
+        response.json(getOpenIdConfiguration());
+    } catch (error) {
+        console.error('OpenID configuration error:', error);
+        sendError(response, 500, 'Signing keys are not available', ErrorCodes.SRVR_GENERIC_ERROR);
+    }
+});
+
+export const wellKnownRoutes = router;
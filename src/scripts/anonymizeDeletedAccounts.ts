@@ -0,0 +1,37 @@
+/**
+ * Anonymize accounts whose deletion grace period has ended
+ *
+ * Usage:
+ *   npm run accounts:anonymize
+ *
+ * Run it daily from a scheduler (cron, Heroku Scheduler). Accounts deleted
+ * through DELETE /auth/me are anonymized once their Deletion_Scheduled_At has
+ * passed; running it more often, or again after a failure, is safe.
+ */
+
+import { connectToDatabase, disconnectFromDatabase } from '@utilities/database';
+import { anonymizeDueAccounts } from '@utilities/accountDeletionUtils';
+
+const run = async (): Promise<number> => {
+    await connectToDatabase();
+
+    try {
+        const { anonymized, failed } = await anonymizeDueAccounts();
+
+        console.log(`Anonymized ${anonymized.length} account(s)${anonymized.length ? `: ${anonymized.join(', ')}` : ''}`);
+        if (failed.length > 0) {
+            console.error(`Failed to anonymize ${failed.length} account(s): ${failed.join(', ')}`);
+            return 1;
+        }
+        return 0;
+    } finally {
+        await disconnectFromDatabase();
+    }
+};
+
+run()
+    .then((exitCode) => process.exit(exitCode))
+    .catch((error) => {
+        console.error('Account anonymization failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,64 @@
+/**
+ * Build the breached-password filter from a plain list
+ *
+ * Usage:
+ *   npm run passwords:build-filter             # rebuild the shipped filter from data/breached-passwords.txt
+ *   npm run passwords:build-filter -- --input rockyou.txt --output /var/lib/credentials-api/breached.bloom --fp-rate 0.0001
+ *
+ * The list has one password per line, exactly as typed (no hashes). It is read
+ * twice as a stream - once to size the filter, once to fill it - so lists far
+ * larger than memory work. Point BREACHED_PASSWORDS_FILTER at a custom output;
+ * running servers load the filter once, so restart them after a rebuild.
+ */
+
+import { createReadStream, writeFileSync } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { addToBloomFilter, createBloomFilter, serializeBloomFilter } from '@utilities/breachedPasswordUtils';
+
+const getArg = (name: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const input = getArg('input') ?? path.join(__dirname, '../../data/breached-passwords.txt');
+const output = getArg('output') ?? path.join(__dirname, '../../data/breached-passwords.bloom');
+const falsePositiveRate = parseFloat(getArg('fp-rate') ?? '0.001');
+
+if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+    console.error(`Invalid --fp-rate: ${getArg('fp-rate')} (use a number between 0 and 1, e.g. 0.001)`);
+    process.exit(1);
+}
+
+/**
+ * Call onPassword for every non-empty line of the list
+ */
+const forEachPassword = async (onPassword: (password: string) => void): Promise<void> => {
+    const lines = createInterface({ input: createReadStream(input), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+        if (line.length > 0) {
+            onPassword(line);
+        }
+    }
+};
+
+const run = async (): Promise<void> => {
+    let count = 0;
+    await forEachPassword(() => {
+        count += 1;
+    });
+
+    const filter = createBloomFilter(count, falsePositiveRate);
+    await forEachPassword((password) => addToBloomFilter(filter, password));
+
+    const data = serializeBloomFilter(filter);
+    writeFileSync(output, data);
+
+    console.log(`Wrote ${output}: ${filter.itemCount} password(s), ${filter.hashCount} hashes, ${Math.ceil(data.length / 1024)} KB`);
+};
+
+run().catch((error) => {
+    console.error('Building the breached-password filter failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * Generate a JWT signing key
+ *
+ * Usage:
+ *   npm run keys:generate                      # new ES256 key
+ *   npm run keys:generate -- --alg RS256 --kid 2025-10
+ *
+ * Prints a JWT_SIGNING_KEYS value with the new key as the active key. Any keys
+ * already in JWT_SIGNING_KEYS are kept, so tokens they signed keep verifying;
+ * drop them once those tokens have expired.
+ */
+
+import { generateSigningKeyPair, SigningAlgorithm, SigningKeyConfig } from '@utilities/signingKeys';
+
+const getArg = (name: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const alg = (getArg('alg') ?? 'ES256').toUpperCase() as SigningAlgorithm;
+const kid = getArg('kid') ?? new Date().toISOString().slice(0, 10);
+
+if (alg !== 'ES256' && alg !== 'RS256') {
+    console.error(`Unsupported algorithm: ${alg} (use ES256 or RS256)`);
+    process.exit(1);
+}
+
+const config: SigningKeyConfig = process.env.JWT_SIGNING_KEYS
+    ? JSON.parse(process.env.JWT_SIGNING_KEYS)
+    : { keys: [] };
+
+if (config.keys.some((key) => key.kid === kid)) {
+    console.error(`A key with kid "${kid}" already exists - choose another with --kid`);
+    process.exit(1);
+}
+
+config.keys.unshift({ kid, alg, privateKey: generateSigningKeyPair(alg).privateKey });
+config.activeKid = kid;
+
+console.log(`JWT_SIGNING_KEYS='${JSON.stringify(config)}'`);